@@ -0,0 +1,96 @@
+import { AuditPermissions, ChangeEvent, WorkerRole } from './tracking-types.js';
+
+export const WORKER_ROLES: WorkerRole[] = ['viewer', 'worker', 'admin'];
+
+export const ROLE_PERMISSIONS: Record<WorkerRole, AuditPermissions> = {
+  // Dashboards and read-only agents
+  viewer: {
+    canViewOwnChanges: true,
+    canViewAllChanges: false,
+    canRollbackOwnChanges: false,
+    canRollbackAllChanges: false,
+    canDeleteAuditLogs: false,
+    canCreateCheckpoints: false,
+    canManageWorkers: false,
+    canEditTodos: false,
+    canDeleteTodos: false
+  },
+  worker: {
+    canViewOwnChanges: true,
+    canViewAllChanges: false,
+    canRollbackOwnChanges: true,
+    canRollbackAllChanges: false,
+    canDeleteAuditLogs: false,
+    canCreateCheckpoints: true,
+    canManageWorkers: false,
+    canEditTodos: true,
+    canDeleteTodos: false
+  },
+  admin: {
+    canViewOwnChanges: true,
+    canViewAllChanges: true,
+    canRollbackOwnChanges: true,
+    canRollbackAllChanges: true,
+    canDeleteAuditLogs: true,
+    canCreateCheckpoints: true,
+    canManageWorkers: true,
+    canEditTodos: true,
+    canDeleteTodos: true
+  }
+};
+
+// Permission each MCP tool needs; tools not listed only read. Rollbacks of other
+// workers' changes and change history visibility are checked by the handlers.
+export const TOOL_PERMISSIONS: Record<string, keyof AuditPermissions> = {
+  create_project: 'canEditTodos',
+  update_project: 'canEditTodos',
+  import_project: 'canEditTodos',
+  create_todo: 'canEditTodos',
+  create_plan: 'canEditTodos',
+  update_todo: 'canEditTodos',
+  claim_todo: 'canEditTodos',
+  finish_todo: 'canEditTodos',
+  unclaim_todo: 'canEditTodos',
+  block_todo: 'canEditTodos',
+  fail_todo: 'canEditTodos',
+  cancel_todo: 'canEditTodos',
+  reopen_todo: 'canEditTodos',
+  reorder_todos: 'canEditTodos',
+  create_phase: 'canEditTodos',
+  update_phase: 'canEditTodos',
+  move_todos_to_phase: 'canEditTodos',
+  attach_document: 'canEditTodos',
+  add_dependency: 'canEditTodos',
+  remove_dependency: 'canEditTodos',
+  save_template: 'canEditTodos',
+  instantiate_template: 'canEditTodos',
+  delete_project: 'canDeleteTodos',
+  delete_todo: 'canDeleteTodos',
+  delete_phase: 'canDeleteTodos',
+  remove_document: 'canDeleteTodos',
+  delete_template: 'canDeleteTodos',
+  create_checkpoint: 'canCreateCheckpoints',
+  rollback_change: 'canRollbackOwnChanges',
+  rollback_to_checkpoint: 'canRollbackAllChanges',
+  issue_api_token: 'canManageWorkers',
+  list_api_tokens: 'canManageWorkers',
+  revoke_api_token: 'canManageWorkers',
+  create_webhook: 'canManageWorkers',
+  list_webhooks: 'canManageWorkers',
+  delete_webhook: 'canManageWorkers',
+  list_webhook_failures: 'canManageWorkers',
+  set_config: 'canManageWorkers',
+  set_workspace_storage: 'canManageWorkers',
+  migrate_storage: 'canManageWorkers'
+};
+
+export function permissionsFor(role: WorkerRole): AuditPermissions {
+  return ROLE_PERMISSIONS[role];
+}
+
+// Change history a worker may see: everything, or only the events it made itself
+export function filterVisibleChanges(events: ChangeEvent[], workerId: string, permissions: AuditPermissions): ChangeEvent[] {
+  if (permissions.canViewAllChanges) return events;
+  if (!permissions.canViewOwnChanges) return [];
+  return events.filter(event => event.workerId === workerId);
+}
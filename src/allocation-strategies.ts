@@ -0,0 +1,158 @@
+import { TodoItem, DependencyGraphNode, DependencyGraphResult, AllocationStrategyName, AllocationWorker } from './types.js';
+
+// Running totals shared by every strategy during one allocation
+export interface AllocationState {
+  graph: DependencyGraphResult;
+  nodes: Map<string, DependencyGraphNode>;  // todoId -> graph node, so sorting doesn't search the graph
+  criticalPath: Set<string>;                // Todo IDs on the critical path
+  assignedCount: number;                    // Todos handed out so far
+  load: Map<string, number>;                // workerId -> todos held (in progress + assigned)
+  queuedMinutes: Map<string, number>;       // workerId -> estimated minutes held
+}
+
+export interface WorkerChoice {
+  worker: AllocationWorker;
+  reason: string;
+}
+
+export interface AllocationStrategy {
+  name: AllocationStrategyName;
+  description: string;
+  // Order in which ready todos are handed out
+  orderTodos(todos: TodoItem[], state: AllocationState): TodoItem[];
+  // Picks one of the workers that still have capacity
+  chooseWorker(todo: TodoItem, candidates: AllocationWorker[], state: AllocationState): WorkerChoice;
+}
+
+const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
+
+const slackOf = (todo: TodoItem, state: AllocationState): number =>
+  state.nodes.get(todo.id)?.slack ?? 0;
+
+const isCritical = (todo: TodoItem, state: AllocationState): boolean =>
+  state.criticalPath.has(todo.id);
+
+// Priority first, then critical path, then deeper todos (the original allocation order)
+const byPriority = (todos: TodoItem[], state: AllocationState): TodoItem[] =>
+  [...todos].sort((a, b) => {
+    if (priorityOrder[a.priority] !== priorityOrder[b.priority]) {
+      return priorityOrder[b.priority] - priorityOrder[a.priority];
+    }
+
+    const aCritical = isCritical(a, state);
+    const bCritical = isCritical(b, state);
+    if (aCritical !== bCritical) return aCritical ? -1 : 1;
+
+    return (state.nodes.get(b.id)?.depth || 0) - (state.nodes.get(a.id)?.depth || 0);
+  });
+
+const leastLoaded = (candidates: AllocationWorker[], state: AllocationState): AllocationWorker =>
+  candidates.reduce((best, worker) =>
+    state.queuedMinutes.get(worker.id)! < state.queuedMinutes.get(best.id)! ||
+    (state.queuedMinutes.get(worker.id)! === state.queuedMinutes.get(best.id)! &&
+      state.load.get(worker.id)! < state.load.get(best.id)!)
+      ? worker
+      : best
+  );
+
+/**
+ * Hands todos to workers in turn, in priority order
+ */
+const roundRobin: AllocationStrategy = {
+  name: 'round-robin',
+  description: 'Workers take turns, highest priority todos first',
+
+  orderTodos: byPriority,
+
+  chooseWorker(todo, candidates, state) {
+    const worker = candidates[state.assignedCount % candidates.length];
+    return { worker, reason: `Round-robin turn (${todo.priority} priority)` };
+  }
+};
+
+/**
+ * Starts the todos with the least slack first so the project end date never slips,
+ * spreading them over the workers with the least queued work
+ */
+const criticalPathFirst: AllocationStrategy = {
+  name: 'critical-path-first',
+  description: 'Least slack first, so critical path work starts immediately',
+
+  orderTodos(todos, state) {
+    return [...todos].sort((a, b) =>
+      slackOf(a, state) - slackOf(b, state) ||
+      priorityOrder[b.priority] - priorityOrder[a.priority]
+    );
+  },
+
+  chooseWorker(todo, candidates, state) {
+    const worker = leastLoaded(candidates, state);
+    const slack = slackOf(todo, state);
+    const position = isCritical(todo, state) ? 'On the critical path' : `${slack} min of slack`;
+    return { worker, reason: `${position}; ${worker.id} had the least queued work` };
+  }
+};
+
+/**
+ * Evens out estimated minutes across workers, counting work already in progress
+ */
+const loadBalanced: AllocationStrategy = {
+  name: 'load-balanced',
+  description: 'Each todo goes to the worker with the fewest estimated minutes queued',
+
+  orderTodos(todos, state) {
+    // Largest todos first balances better than arrival order
+    return [...todos].sort((a, b) =>
+      priorityOrder[b.priority] - priorityOrder[a.priority] ||
+      (b.estimatedDuration || 0) - (a.estimatedDuration || 0)
+    );
+  },
+
+  chooseWorker(todo, candidates, state) {
+    const worker = leastLoaded(candidates, state);
+    const queued = state.queuedMinutes.get(worker.id)!;
+    return {
+      worker,
+      reason: `Lightest load: ${queued} min queued across ${state.load.get(worker.id)} todo(s)`
+    };
+  }
+};
+
+/**
+ * Matches worker capabilities against todo areas; the primary area counts double.
+ * Todos no worker covers go to the least loaded worker.
+ */
+const areaAffinity: AllocationStrategy = {
+  name: 'area-affinity',
+  description: 'Todos go to workers whose capabilities cover their areas',
+
+  orderTodos: byPriority,
+
+  chooseWorker(todo, candidates, state) {
+    const score = (worker: AllocationWorker) =>
+      todo.areas.filter(area => worker.capabilities.includes(area)).length +
+      (worker.capabilities.includes(todo.primaryArea) ? 1 : 0);
+
+    const bestScore = Math.max(...candidates.map(score));
+    if (bestScore === 0) {
+      const worker = leastLoaded(candidates, state);
+      return {
+        worker,
+        reason: `No available worker covers ${todo.areas.join(', ')}; ${worker.id} had the least queued work`
+      };
+    }
+
+    const worker = leastLoaded(candidates.filter(w => score(w) === bestScore), state);
+    const matched = todo.areas.filter(area => worker.capabilities.includes(area));
+    return {
+      worker,
+      reason: `Capabilities match ${matched.join(', ')}` +
+        (matched.includes(todo.primaryArea) ? ` (including primary area ${todo.primaryArea})` : '')
+    };
+  }
+};
+
+// A Map, so names arriving from tool arguments can't match Object.prototype members
+export const allocationStrategies = new Map<string, AllocationStrategy>(
+  [roundRobin, criticalPathFirst, loadBalanced, areaAffinity].map(strategy => [strategy.name, strategy])
+);
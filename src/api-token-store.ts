@@ -0,0 +1,114 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { WorkerRole } from './tracking-types.js';
+
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  role: WorkerRole;
+  createdAt: Date;
+  createdBy: string;      // Worker that issued the token
+}
+
+interface StoredApiToken extends ApiTokenInfo {
+  tokenHash: string;      // sha256 of the token; the token itself is only shown once
+}
+
+export interface IssuedApiToken {
+  token: string;
+  info: ApiTokenInfo;
+}
+
+const TOKEN_PREFIX = 'tdm_';
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * API tokens issued per workspace, stored hashed in data/<workspace>/tokens.json.
+ *
+ * A workspace without tokens is open; issuing the first token makes every worker
+ * registering in it present one. Callers hold the workspace lock around writes.
+ */
+export class ApiTokenStore {
+  private baseDir = getDataRoot();
+  private dataDir = path.join(this.baseDir, 'data');
+
+  private getTokensFile(workspaceId: string): string {
+    return path.join(this.dataDir, workspaceId, 'tokens.json');
+  }
+
+  // Always read from disk so tokens issued or revoked by other processes apply at once
+  private async load(workspaceId: string): Promise<StoredApiToken[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.getTokensFile(workspaceId), 'utf-8')).tokens;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async save(workspaceId: string, tokens: StoredApiToken[]): Promise<void> {
+    const tokensFile = this.getTokensFile(workspaceId);
+    await fs.mkdir(path.dirname(tokensFile), { recursive: true });
+
+    const tempFile = `${tokensFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify({ version: '1.0.0', tokens }, null, 2), { mode: 0o600 });
+    await fs.rename(tempFile, tokensFile);
+  }
+
+  private toInfo({ tokenHash, ...info }: StoredApiToken): ApiTokenInfo {
+    return info;
+  }
+
+  async hasTokens(workspaceId: string): Promise<boolean> {
+    return (await this.load(workspaceId)).length > 0;
+  }
+
+  async isActive(workspaceId: string, tokenId: string): Promise<boolean> {
+    return (await this.load(workspaceId)).some(t => t.id === tokenId);
+  }
+
+  async list(workspaceId: string): Promise<ApiTokenInfo[]> {
+    return (await this.load(workspaceId)).map(t => this.toInfo(t));
+  }
+
+  async issue(workspaceId: string, request: { name: string; role: WorkerRole; createdBy: string }): Promise<IssuedApiToken> {
+    const tokens = await this.load(workspaceId);
+    const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+
+    const stored: StoredApiToken = {
+      id: uuidv4(),
+      name: request.name,
+      role: request.role,
+      createdAt: new Date(),
+      createdBy: request.createdBy,
+      tokenHash: hashToken(token).toString('hex')
+    };
+
+    await this.save(workspaceId, [...tokens, stored]);
+    return { token, info: this.toInfo(stored) };
+  }
+
+  // Returns the token's details, or null when it is unknown or was revoked
+  async verify(workspaceId: string, token: string): Promise<ApiTokenInfo | null> {
+    const tokens = await this.load(workspaceId);
+    const hash = hashToken(token);
+
+    const match = tokens.find(t => timingSafeEqual(Buffer.from(t.tokenHash, 'hex'), hash));
+    return match ? this.toInfo(match) : null;
+  }
+
+  async revoke(workspaceId: string, tokenId: string): Promise<ApiTokenInfo | null> {
+    const tokens = await this.load(workspaceId);
+    const revoked = tokens.find(t => t.id === tokenId);
+    if (!revoked) return null;
+
+    await this.save(workspaceId, tokens.filter(t => t.id !== tokenId));
+    return this.toInfo(revoked);
+  }
+}
@@ -1,6 +1,6 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as os from 'os';
+import { getDataRoot } from './paths.js';
 import { v4 as uuidv4 } from 'uuid';
 import {
   ChangeEvent,
@@ -20,9 +20,13 @@ import {
   EntityType,
   ActionType
 } from './tracking-types.js';
+import { DEFAULT_TRACKING_CONFIG } from './config.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('change-logger');
 
 export class ChangeLogger {
-  private baseDir = path.join(os.homedir(), '.claude-todos-mcp');
+  private baseDir = getDataRoot();
   private dataDir = path.join(this.baseDir, 'data');
   private backupsDir = path.join(this.baseDir, 'backups', 'audit-logs');
   
@@ -30,18 +34,7 @@ export class ChangeLogger {
   private config: TrackingConfig;
   
   constructor(config?: Partial<TrackingConfig>) {
-    this.config = {
-      enabled: true,
-      maxEventsPerFile: 10000,
-      retentionDays: 90,
-      compactionInterval: 24 * 60 * 60 * 1000, // 24 hours
-      maxFileSize: 10 * 1024 * 1024, // 10MB
-      enableRealTimeSync: true,
-      enableConflictDetection: true,
-      workerTimeoutMs: 5 * 60 * 1000, // 5 minutes
-      heartbeatIntervalMs: 60 * 1000, // 60 seconds
-      ...config
-    };
+    this.config = { ...DEFAULT_TRACKING_CONFIG, ...config };
   }
   
   private async ensureDirectories(): Promise<void> {
@@ -382,7 +375,7 @@ export class ChangeLogger {
       await fs.mkdir(path.dirname(archivePath), { recursive: true });
       await fs.writeFile(archivePath, JSON.stringify(oldEvents, null, 2));
       
-      console.log(`📦 Archived ${oldEvents.length} old audit events to ${archivePath}`);
+      log.info(`Archived ${oldEvents.length} old audit events`, { workspaceId: auditLog.workspaceId, archivePath });
     }
     
     // Keep only recent events
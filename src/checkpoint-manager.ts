@@ -0,0 +1,98 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+import { v4 as uuidv4 } from 'uuid';
+import { Project } from './types.js';
+import { WorkspaceMetadata } from './storage-v2.js';
+import { Checkpoint, TrackingError } from './tracking-types.js';
+
+// Workspace state captured by a checkpoint
+export interface CheckpointSnapshot {
+  workspace: WorkspaceMetadata;  // workspace.json contents
+  projects: Project[];           // Every project file in the workspace
+}
+
+export class CheckpointManager {
+  private baseDir = getDataRoot();
+  private dataDir = path.join(this.baseDir, 'data');
+
+  private getCheckpointsDir(workspaceId: string): string {
+    return path.join(this.dataDir, workspaceId, 'checkpoints');
+  }
+
+  private getCheckpointFile(workspaceId: string, checkpointId: string): string {
+    return path.join(this.getCheckpointsDir(workspaceId), `${checkpointId}.json`);
+  }
+
+  private parseCheckpoint(data: string): Checkpoint {
+    const parsed = JSON.parse(data);
+    return {
+      ...parsed,
+      createdAt: new Date(parsed.createdAt)
+    };
+  }
+
+  async saveCheckpoint(checkpoint: Omit<Checkpoint, 'id' | 'createdAt'>): Promise<Checkpoint> {
+    const saved: Checkpoint = {
+      ...checkpoint,
+      id: uuidv4(),
+      createdAt: new Date()
+    };
+
+    await fs.mkdir(this.getCheckpointsDir(saved.workspaceId), { recursive: true });
+
+    const checkpointFile = this.getCheckpointFile(saved.workspaceId, saved.id);
+    const tempFile = `${checkpointFile}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(saved, null, 2));
+    await fs.rename(tempFile, checkpointFile);
+
+    return saved;
+  }
+
+  async listCheckpoints(workspaceId: string, limit?: number): Promise<Checkpoint[]> {
+    const checkpoints: Checkpoint[] = [];
+
+    try {
+      const files = await fs.readdir(this.getCheckpointsDir(workspaceId));
+
+      for (const file of files) {
+        if (!file.endsWith('.json')) continue;
+
+        try {
+          const data = await fs.readFile(path.join(this.getCheckpointsDir(workspaceId), file), 'utf-8');
+          checkpoints.push(this.parseCheckpoint(data));
+        } catch {
+          // Invalid checkpoint file, skip
+        }
+      }
+    } catch {
+      // No checkpoints yet
+    }
+
+    // Newest first
+    checkpoints.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return limit ? checkpoints.slice(0, limit) : checkpoints;
+  }
+
+  async getCheckpoint(checkpointId: string): Promise<Checkpoint> {
+    try {
+      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
+
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          try {
+            const data = await fs.readFile(this.getCheckpointFile(entry.name, checkpointId), 'utf-8');
+            return this.parseCheckpoint(data);
+          } catch {
+            // Checkpoint not in this workspace
+          }
+        }
+      }
+    } catch {
+      // Data directory doesn't exist
+    }
+
+    throw new TrackingError(`Checkpoint not found: ${checkpointId}`, 'CHECKPOINT_NOT_FOUND', { checkpointId });
+  }
+}
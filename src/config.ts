@@ -0,0 +1,396 @@
+import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+import { TrackingConfig } from './tracking-types.js';
+import { ValidationError } from './validation.js';
+import { LogLevel, LogFormat, LOG_LEVELS, createLogger } from './logger.js';
+import { StorageBackend, STORAGE_BACKENDS } from './storage-adapter.js';
+
+const log = createLogger('config');
+
+/**
+ * Settings, merged from four layers; later ones win:
+ *
+ *   1. defaults
+ *   2. config.json in the data root (~/.claude-todos-mcp unless set otherwise, see paths.ts)
+ *   3. the workspace's config.json in its data directory, for settings marked per-workspace
+ *   4. TODOS_MCP_* environment variables, e.g. TODOS_MCP_TRACKING_RETENTION_DAYS
+ *
+ * Both files are nested JSON ({ "tracking": { "retentionDays": 30 } }) and can be edited by
+ * hand; invalid values are rejected with the file and key they came from.
+ */
+
+export interface TodosConfig {
+  version: string;
+  tracking: TrackingConfig;
+  logging: {
+    level: LogLevel;
+    format: LogFormat;
+    file: boolean;
+  };
+  storage: {
+    backend: StorageBackend;
+  };
+}
+
+export type ConfigValue = string | number | boolean;
+export type ConfigScope = 'global' | 'workspace';
+export type ConfigSource = 'default' | ConfigScope | 'env';
+
+export interface ConfigSetting {
+  key: string;
+  value: ConfigValue;
+  source: ConfigSource;
+  env: string;
+  perWorkspace: boolean;
+  description: string;
+}
+
+interface SettingSpec {
+  type: 'number' | 'boolean' | 'enum';
+  description: string;
+  min?: number;
+  values?: readonly string[];
+  perWorkspace?: boolean;     // Audit logs are per workspace; everything else is per process
+  env?: string;               // Defaults to TODOS_MCP_ and the key in upper snake case
+}
+
+const CONFIG_VERSION = '3.0.0';
+
+export const DEFAULT_TRACKING_CONFIG: TrackingConfig = {
+  enabled: true,
+  maxEventsPerFile: 10000,
+  retentionDays: 90,
+  compactionInterval: 24 * 60 * 60 * 1000, // 24 hours
+  maxFileSize: 10 * 1024 * 1024, // 10MB
+  enableRealTimeSync: true,
+  enableConflictDetection: true,
+  workerTimeoutMs: 5 * 60 * 1000, // 5 minutes
+  heartbeatIntervalMs: 60 * 1000, // 60 seconds
+  orphanedTodoGracePeriodMs: 5 * 60 * 1000 // 5 minutes
+};
+
+export const DEFAULT_CONFIG: TodosConfig = {
+  version: CONFIG_VERSION,
+  tracking: DEFAULT_TRACKING_CONFIG,
+  logging: {
+    level: 'info',
+    format: 'text',
+    file: true
+  },
+  storage: {
+    backend: 'json'
+  }
+};
+
+const SETTINGS: Record<string, SettingSpec> = {
+  'tracking.enabled': {
+    type: 'boolean', perWorkspace: true,
+    description: 'Record changes in audit logs'
+  },
+  'tracking.maxEventsPerFile': {
+    type: 'number', min: 100, perWorkspace: true,
+    description: 'Events in a project audit log before events past retention are archived'
+  },
+  'tracking.retentionDays': {
+    type: 'number', min: 1, perWorkspace: true,
+    description: 'Days audit events are kept before they may be archived'
+  },
+  'tracking.compactionInterval': {
+    type: 'number', min: 60 * 1000, perWorkspace: true,
+    description: 'Milliseconds between archiving runs of a project audit log'
+  },
+  'tracking.maxFileSize': {
+    type: 'number', min: 64 * 1024, perWorkspace: true,
+    description: 'Bytes a project audit log may grow to before events past retention are archived'
+  },
+  'tracking.enableRealTimeSync': {
+    type: 'boolean',
+    description: 'Notify in-process subscribers of changes (legacy tracked server only)'
+  },
+  'tracking.enableConflictDetection': {
+    type: 'boolean', perWorkspace: true,
+    description: 'Refuse changes that conflict with recent changes by other workers'
+  },
+  'tracking.workerTimeoutMs': {
+    type: 'number', min: 10 * 1000,
+    description: 'Milliseconds without a heartbeat before a worker is inactive'
+  },
+  'tracking.heartbeatIntervalMs': {
+    type: 'number', min: 1000,
+    description: 'Milliseconds between heartbeats of a registered worker'
+  },
+  'tracking.orphanedTodoGracePeriodMs': {
+    type: 'number', min: 0,
+    description: 'Milliseconds past the worker timeout before todos of an inactive worker are released'
+  },
+  'logging.level': {
+    type: 'enum', values: LOG_LEVELS, env: 'TODOS_MCP_LOG_LEVEL',
+    description: 'Least severe level written to stderr and the log file'
+  },
+  'logging.format': {
+    type: 'enum', values: ['text', 'json'], env: 'TODOS_MCP_LOG_FORMAT',
+    description: 'Format of stderr logging; the log file is always JSON'
+  },
+  'logging.file': {
+    type: 'boolean', env: 'TODOS_MCP_LOG_FILE',
+    description: 'Write the log file in the logs directory of the data root'
+  },
+  'storage.backend': {
+    type: 'enum', values: STORAGE_BACKENDS, env: 'TODOS_MCP_STORAGE_BACKEND',
+    description: 'Where workspaces, projects and audit logs are kept; change it with migrate_storage to bring the data along'
+  }
+};
+
+export const CONFIG_KEYS = Object.keys(SETTINGS);
+
+type FlatConfig = Record<string, ConfigValue>;
+type ConfigLayer = [ConfigSource, FlatConfig];
+
+function envName(key: string): string {
+  return SETTINGS[key].env || `TODOS_MCP_${key.replace(/\./g, '_').replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+function specOf(key: string): SettingSpec {
+  const spec = SETTINGS[key];
+  if (!spec) {
+    throw new ValidationError(`Unknown setting "${key}". Settings: ${CONFIG_KEYS.join(', ')}`);
+  }
+  return spec;
+}
+
+// Values from files are typed already; values from the environment and tools may be strings
+export function parseSetting(key: string, value: unknown, origin = key): ConfigValue {
+  const spec = specOf(key);
+
+  switch (spec.type) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isInteger(number) || number < (spec.min ?? 0)) {
+        throw new ValidationError(`${origin} must be a whole number of at least ${spec.min ?? 0}, got ${JSON.stringify(value)}`);
+      }
+      return number;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).toLowerCase();
+      if (['true', '1', 'on', 'yes'].includes(text)) return true;
+      if (['false', '0', 'off', 'no'].includes(text)) return false;
+      throw new ValidationError(`${origin} must be true or false, got ${JSON.stringify(value)}`);
+    }
+    case 'enum':
+      if (typeof value !== 'string' || !spec.values!.includes(value)) {
+        throw new ValidationError(`${origin} must be one of ${spec.values!.join(', ')}, got ${JSON.stringify(value)}`);
+      }
+      return value;
+  }
+}
+
+function flatten(config: object, prefix = ''): FlatConfig {
+  const flat: FlatConfig = {};
+  for (const [name, value] of Object.entries(config)) {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(flat, flatten(value, `${prefix}${name}.`));
+    } else {
+      flat[`${prefix}${name}`] = value;
+    }
+  }
+  return flat;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Every setting of the defaults, with a value of the same type
+function isTodosConfig(config: object): config is TodosConfig {
+  const flat = flatten(config);
+  return Object.entries(flatten(DEFAULT_CONFIG)).every(([key, value]) => typeof flat[key] === typeof value);
+}
+
+function unflatten(flat: FlatConfig): TodosConfig {
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(flat)) {
+    const names = key.split('.');
+    let target = config;
+    for (const name of names.slice(0, -1)) {
+      const child = target[name];
+      target = isRecord(child) ? child : (target[name] = {}) as Record<string, unknown>;
+    }
+    target[names[names.length - 1]] = value;
+  }
+
+  // Layers are merged over the defaults, so a missing setting is a bug
+  if (!isTodosConfig(config)) {
+    throw new Error('Merged configuration is missing settings of the defaults');
+  }
+  return config;
+}
+
+// Workers are dropped between heartbeats otherwise
+function validateConfig(config: TodosConfig): void {
+  if (config.tracking.heartbeatIntervalMs >= config.tracking.workerTimeoutMs) {
+    throw new ValidationError(
+      `tracking.heartbeatIntervalMs (${config.tracking.heartbeatIntervalMs}) must be less than tracking.workerTimeoutMs (${config.tracking.workerTimeoutMs})`
+    );
+  }
+}
+
+export class ConfigLoader {
+  private baseDir = getDataRoot();
+  private dataDir = path.join(this.baseDir, 'data');
+  private globalFile = path.join(this.baseDir, 'config.json');
+  private warned = new Set<string>();
+
+  constructor(private env: NodeJS.ProcessEnv = process.env) {}
+
+  getFile(scope: ConfigScope, workspaceId?: string): string {
+    if (scope === 'global') return this.globalFile;
+    if (!workspaceId) {
+      throw new ValidationError('A workspace is needed for workspace settings');
+    }
+    return path.join(this.dataDir, workspaceId, 'config.json');
+  }
+
+  // Without the workspace layer; for settings needed while constructing storage
+  resolveSync(): TodosConfig {
+    let raw: unknown = null;
+    try {
+      raw = JSON.parse(readFileSync(this.globalFile, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new ValidationError(`Invalid JSON in ${this.globalFile}: ${(error as Error).message}`);
+      }
+    }
+    return this.merge(this.layersFrom(raw, null));
+  }
+
+  async resolve(workspaceId?: string): Promise<TodosConfig> {
+    return this.merge(await this.layers(workspaceId));
+  }
+
+  async describe(workspaceId?: string): Promise<ConfigSetting[]> {
+    const layers = await this.layers(workspaceId);
+
+    return CONFIG_KEYS.map(key => {
+      const [source, values] = [...layers].reverse().find(([, values]) => key in values)!;
+      return {
+        key,
+        value: values[key],
+        source,
+        env: envName(key),
+        perWorkspace: !!SETTINGS[key].perWorkspace,
+        description: SETTINGS[key].description
+      };
+    });
+  }
+
+  // Passing undefined removes the setting from the file, falling back to the layers below
+  async set(key: string, value: unknown, scope: ConfigScope, workspaceId?: string): Promise<TodosConfig> {
+    const spec = specOf(key);
+    if (scope === 'workspace' && !spec.perWorkspace) {
+      throw new ValidationError(`${key} applies to the whole process and can only be set globally`);
+    }
+
+    const file = this.getFile(scope, workspaceId);
+    const raw = (await this.readFile(file)) || {};
+    const names = key.split('.');
+    let target = raw;
+    for (const name of names.slice(0, -1)) {
+      if (typeof target[name] !== 'object' || target[name] === null) target[name] = {};
+      target = target[name];
+    }
+    if (value === undefined) {
+      delete target[names[names.length - 1]];
+    } else {
+      target[names[names.length - 1]] = parseSetting(key, value);
+    }
+
+    // Check the result before anything is written
+    const resolved = this.merge(this.layersFrom(
+      scope === 'global' ? raw : await this.readFile(this.globalFile),
+      scope === 'workspace' ? raw : workspaceId ? await this.readFile(this.getFile('workspace', workspaceId)) : null,
+      workspaceId
+    ));
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify({ ...raw, version: CONFIG_VERSION }, null, 2));
+    await fs.rename(tempFile, file);
+    return resolved;
+  }
+
+  private async readFile(file: string): Promise<any | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    try {
+      const raw = JSON.parse(data);
+      if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('expected an object');
+      }
+      return raw;
+    } catch (error) {
+      throw new ValidationError(`Invalid JSON in ${file}: ${(error as Error).message}`);
+    }
+  }
+
+  private async layers(workspaceId?: string): Promise<ConfigLayer[]> {
+    const global = await this.readFile(this.globalFile);
+    const workspace = workspaceId ? await this.readFile(this.getFile('workspace', workspaceId)) : null;
+    return this.layersFrom(global, workspace, workspaceId);
+  }
+
+  private layersFrom(global: unknown, workspace: unknown, workspaceId?: string): ConfigLayer[] {
+    const layers: ConfigLayer[] = [['default', flatten(DEFAULT_CONFIG)]];
+
+    if (global) {
+      layers.push(['global', this.parseLayer(global, this.globalFile, false)]);
+    }
+    if (workspace) {
+      layers.push(['workspace', this.parseLayer(workspace, this.getFile('workspace', workspaceId), true)]);
+    }
+
+    const env: FlatConfig = {};
+    for (const key of CONFIG_KEYS) {
+      const value = this.env[envName(key)];
+      if (value !== undefined && value !== '') {
+        env[key] = parseSetting(key, value, envName(key));
+      }
+    }
+    layers.push(['env', env]);
+
+    return layers;
+  }
+
+  private parseLayer(raw: unknown, file: string, perWorkspaceOnly: boolean): FlatConfig {
+    const values: FlatConfig = {};
+
+    for (const [key, value] of Object.entries(flatten(raw as object))) {
+      if (key === 'version') continue;
+      if (!SETTINGS[key] || (perWorkspaceOnly && !SETTINGS[key].perWorkspace)) {
+        // Hand edits shouldn't stop the server; say once what is ignored
+        if (!this.warned.has(`${file}:${key}`)) {
+          this.warned.add(`${file}:${key}`);
+          log.warn(`Ignoring ${SETTINGS[key] ? 'process-wide' : 'unknown'} setting ${key}`, { file });
+        }
+        continue;
+      }
+      values[key] = parseSetting(key, value, `${key} in ${file}`);
+    }
+
+    return values;
+  }
+
+  private merge(layers: ConfigLayer[]): TodosConfig {
+    const config = unflatten(Object.assign({}, ...layers.map(([, values]) => values)));
+    validateConfig(config);
+    return config;
+  }
+}
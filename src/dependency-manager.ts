@@ -1,5 +1,24 @@
-import { TodoItem, DependencyGraphNode, DependencyGraphResult, WorkAllocationResult } from './types.js';
+import {
+  TodoItem,
+  DependencyGraphNode,
+  DependencyGraphResult,
+  WorkAllocationResult,
+  TodoSchedule,
+  ScheduleForecast,
+  AllocationStrategyName,
+  AllocationWorker,
+  AllocationDecision
+} from './types.js';
 import { ValidationError } from './validation.js';
+import { allocationStrategies, AllocationState } from './allocation-strategies.js';
+import { effectiveDependencies, inheritedDependencies, hasSubtasks } from './todo-hierarchy.js';
+import { isClosed, satisfiesDependents } from './todo-status.js';
+
+// Minutes assumed for a todo without an estimate when no other todo has a duration either
+const DEFAULT_ESTIMATE_MINUTES = 60;
+
+const average = (values: number[]): number | undefined =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
 
 export class DependencyManager {
   /**
@@ -40,10 +59,12 @@ export class DependencyManager {
   }
 
   /**
-   * Detects cycles in the dependency graph using DFS
+   * Detects cycles in the dependency graph using DFS. Subtasks count as dependencies
+   * of their parent and inherit its dependencies, so a subtask depending on its own
+   * parent is a cycle too.
    */
   detectCycles(todos: TodoItem[]): string[][] {
-    const todoMap = new Map(todos.map(t => [t.id, t]));
+    const dependencies = effectiveDependencies(todos);
     const visited = new Set<string>();
     const recursionStack = new Set<string>();
     const cycles: string[][] = [];
@@ -66,11 +87,8 @@ export class DependencyManager {
       recursionStack.add(todoId);
       path.push(todoId);
 
-      const todo = todoMap.get(todoId);
-      if (todo) {
-        for (const depId of todo.dependsOn) {
-          dfs(depId, [...path]);
-        }
+      for (const depId of dependencies.get(todoId) || []) {
+        dfs(depId, [...path]);
       }
 
       recursionStack.delete(todoId);
@@ -90,6 +108,9 @@ export class DependencyManager {
    */
   buildDependencyGraph(todos: TodoItem[]): DependencyGraphResult {
     const todoMap = new Map(todos.map(t => [t.id, t]));
+    const inherited = inheritedDependencies(todos);
+    const effective = effectiveDependencies(todos);
+    const parentIds = new Set(todos.map(t => t.parentId));
     
     // First, compute dependents for each todo
     const dependentsMap = new Map<string, string[]>();
@@ -105,12 +126,12 @@ export class DependencyManager {
       }
     }
 
-    // Update todos with computed fields
+    // Update todos with computed fields; subtasks are blocked by whatever blocks their parent
     const updatedTodos = todos.map(todo => {
       const dependents = dependentsMap.get(todo.id) || [];
-      const blockedBy = todo.dependsOn.filter(depId => {
+      const blockedBy = inherited.get(todo.id)!.filter(depId => {
         const dep = todoMap.get(depId);
-        return dep && dep.status !== 'completed';
+        return dep && !satisfiesDependents(dep);
       });
 
       return {
@@ -132,7 +153,7 @@ export class DependencyManager {
       if (!todo) return 0;
 
       let maxDepth = 0;
-      for (const depId of todo.dependsOn) {
+      for (const depId of effective.get(todoId)!) {
         maxDepth = Math.max(maxDepth, calculateDepth(depId, new Set(visited)));
       }
 
@@ -141,6 +162,8 @@ export class DependencyManager {
       return depth;
     };
 
+    const schedule = this.calculateSchedule(todos);
+    
     // Build graph nodes
     const nodes: DependencyGraphNode[] = updatedTodos.map(todo => {
       const dependencies = todo.dependsOn
@@ -151,9 +174,11 @@ export class DependencyManager {
         .map(id => todoMap.get(id))
         .filter((t): t is TodoItem => t !== undefined);
 
-      const isBlocked = todo.blockedBy.length > 0;
-      const canStart = !isBlocked && todo.status === 'pending';
+      // Parents are worked on through their subtasks
+      const isBlocked = todo.blockedBy.length > 0 || todo.status === 'blocked';
+      const canStart = !isBlocked && todo.status === 'pending' && !parentIds.has(todo.id);
       const depth = calculateDepth(todo.id);
+      const { remainingDuration, earliestStart, latestStart, slack } = schedule.get(todo.id)!;
 
       return {
         todo: { ...todo, dependents: dependentsMap.get(todo.id) || [], blockedBy: todo.blockedBy },
@@ -161,7 +186,11 @@ export class DependencyManager {
         dependents: dependentTodos,
         isBlocked,
         canStart,
-        depth
+        depth,
+        remainingDuration,
+        earliestStart,
+        latestStart,
+        slack
       };
     });
 
@@ -178,123 +207,261 @@ export class DependencyManager {
     const cycles = this.detectCycles(updatedTodos);
 
     // Calculate critical path (longest path through the graph)
-    const criticalPath = this.calculateCriticalPath(nodes);
+    const criticalPath = this.calculateCriticalPath(nodes.map(node => node.todo), schedule);
 
     return {
       nodes,
       readyToWork,
       blocked,
       cycles,
-      criticalPath
+      criticalPath,
+      criticalPathDuration: criticalPath.reduce((sum, todo) => sum + schedule.get(todo.id)!.remainingDuration, 0)
     };
   }
 
   /**
-   * Calculates the critical path (longest path) through the dependency graph
+   * Minutes of work left on a todo: nothing once closed, otherwise the estimate
+   * minus any time already recorded against it
    */
-  private calculateCriticalPath(nodes: DependencyGraphNode[]): TodoItem[] {
-    // Find the path with maximum total estimated duration
-    const nodeMap = new Map(nodes.map(n => [n.todo.id, n]));
-    let longestPath: TodoItem[] = [];
-    let maxDuration = 0;
-
-    const findLongestPath = (nodeId: string, currentPath: TodoItem[], currentDuration: number, visited = new Set<string>()): void => {
-      if (visited.has(nodeId)) return; // Cycle protection
-
-      const node = nodeMap.get(nodeId);
-      if (!node) return;
-
-      visited.add(nodeId);
-      const newPath = [...currentPath, node.todo];
-      const newDuration = currentDuration + (node.todo.estimatedDuration || 0);
-
-      // If this node has no dependents, it's a potential end of critical path
-      if (node.todo.dependents.length === 0) {
-        if (newDuration > maxDuration) {
-          maxDuration = newDuration;
-          longestPath = [...newPath];
-        }
-      } else {
-        // Continue exploring dependents
-        for (const depId of node.todo.dependents) {
-          findLongestPath(depId, newPath, newDuration, new Set(visited));
+  getRemainingDuration(todo: TodoItem): number {
+    if (isClosed(todo)) return 0;
+    return Math.max((todo.estimatedDuration || 0) - (todo.actualDuration || 0), 0);
+  }
+
+  /**
+   * Computes earliest/latest start and slack for every todo with a forward and a
+   * backward pass over a topological order, in O(todos + dependencies). Parents take
+   * no time of their own; they finish with their last subtask.
+   */
+  calculateSchedule(todos: TodoItem[]): Map<string, TodoSchedule> {
+    const todoMap = new Map(todos.map(t => [t.id, t]));
+    const dependencies = effectiveDependencies(todos);
+    const dependentsMap = new Map<string, string[]>(todos.map(t => [t.id, []]));
+    const inDegree = new Map<string, number>();
+
+    for (const todo of todos) {
+      const knownDeps = dependencies.get(todo.id)!.filter(depId => todoMap.has(depId));
+      inDegree.set(todo.id, knownDeps.length);
+      for (const depId of knownDeps) {
+        dependentsMap.get(depId)!.push(todo.id);
+      }
+    }
+
+    // Kahn's algorithm - todos caught in a cycle never reach in-degree zero
+    const order: string[] = todos.filter(t => inDegree.get(t.id) === 0).map(t => t.id);
+    for (let i = 0; i < order.length; i++) {
+      for (const dependentId of dependentsMap.get(order[i])!) {
+        const remaining = inDegree.get(dependentId)! - 1;
+        inDegree.set(dependentId, remaining);
+        if (remaining === 0) {
+          order.push(dependentId);
         }
       }
-    };
+    }
+
+    const parentIds = new Set(todos.map(t => t.parentId));
+    const duration = new Map(todos.map(t => [t.id, parentIds.has(t.id) ? 0 : this.getRemainingDuration(t)]));
+    const earliestStart = new Map<string, number>(todos.map(t => [t.id, 0]));
 
-    // Start from todos with no dependencies
-    const rootNodes = nodes.filter(n => n.todo.dependsOn.length === 0);
-    for (const root of rootNodes) {
-      findLongestPath(root.todo.id, [], 0);
+    // Forward pass: a todo starts once its slowest dependency finishes
+    for (const todoId of order) {
+      const finish = earliestStart.get(todoId)! + duration.get(todoId)!;
+      for (const dependentId of dependentsMap.get(todoId)!) {
+        earliestStart.set(dependentId, Math.max(earliestStart.get(dependentId)!, finish));
+      }
     }
 
-    return longestPath;
+    const projectEnd = Math.max(0, ...todos.map(t => earliestStart.get(t.id)! + duration.get(t.id)!));
+    const latestStart = new Map<string, number>(todos.map(t => [t.id, projectEnd - duration.get(t.id)!]));
+
+    // Backward pass: a todo must start early enough for its tightest dependent
+    for (let i = order.length - 1; i >= 0; i--) {
+      const todoId = order[i];
+      for (const dependentId of dependentsMap.get(todoId)!) {
+        latestStart.set(todoId, Math.min(latestStart.get(todoId)!, latestStart.get(dependentId)! - duration.get(todoId)!));
+      }
+    }
+
+    const schedule = new Map<string, TodoSchedule>();
+    for (const todo of todos) {
+      const start = earliestStart.get(todo.id)!;
+      const latest = latestStart.get(todo.id)!;
+      schedule.set(todo.id, {
+        remainingDuration: duration.get(todo.id)!,
+        earliestStart: start,
+        earliestFinish: start + duration.get(todo.id)!,
+        latestStart: latest,
+        slack: latest - start
+      });
+    }
+
+    return schedule;
   }
 
   /**
-   * Allocates work among multiple workers based on dependencies and worker capabilities
+   * Follows zero-slack todos back from the last one to finish
+   */
+  private calculateCriticalPath(todos: TodoItem[], schedule: Map<string, TodoSchedule>): TodoItem[] {
+    const todoMap = new Map(todos.map(t => [t.id, t]));
+    const dependencies = effectiveDependencies(todos);
+    const open = todos.filter(t => !isClosed(t));
+
+    let current = open.reduce<TodoItem | undefined>((latest, todo) =>
+      !latest || schedule.get(todo.id)!.earliestFinish > schedule.get(latest.id)!.earliestFinish ? todo : latest,
+      undefined
+    );
+    if (!current || schedule.get(current.id)!.earliestFinish === 0) return [];
+
+    const path: TodoItem[] = [current];
+    while (current) {
+      const start = schedule.get(current.id)!.earliestStart;
+      current = dependencies.get(current.id)!
+        .map(depId => todoMap.get(depId))
+        .find((dep): dep is TodoItem => !!dep &&
+          !isClosed(dep) &&
+          schedule.get(dep.id)!.slack === 0 &&
+          schedule.get(dep.id)!.earliestFinish === start
+        );
+      if (current) {
+        path.unshift(current);
+      }
+    }
+
+    return path;
+  }
+
+  /**
+   * Projects a completion date from the remaining estimates, the number of workers
+   * and how far actual durations have historically drifted from estimates. Todos
+   * without an estimate are assumed to take as long as the project's average estimate.
+   */
+  forecastSchedule(
+    projectId: string,
+    todos: TodoItem[],
+    workers: number,
+    hoursPerDay: number = 8,
+    now: Date = new Date()
+  ): ScheduleForecast {
+    // Parents only repeat their subtasks' numbers
+    const parentIds = new Set(todos.map(t => t.parentId));
+    const leaves = todos.filter(t => !parentIds.has(t.id));
+    const unestimated = new Set(leaves.filter(t => !isClosed(t) && !t.estimatedDuration).map(t => t.id));
+
+    // Without any estimate, the average actual duration is the best guess; it needs no
+    // correction since there is no estimate history either
+    const assumedMinutes = Math.round(
+      average(leaves.filter(t => (t.estimatedDuration || 0) > 0).map(t => t.estimatedDuration!)) ??
+      average(leaves.filter(t => (t.actualDuration || 0) > 0).map(t => t.actualDuration!)) ??
+      DEFAULT_ESTIMATE_MINUTES
+    );
+    const estimated = todos.map(t => unestimated.has(t.id) ? { ...t, estimatedDuration: assumedMinutes } : t);
+
+    const schedule = this.calculateSchedule(estimated);
+    const originals = new Map(todos.map(t => [t.id, t]));
+    const criticalPath = this.calculateCriticalPath(estimated, schedule).map(t => originals.get(t.id)!);
+    const remaining = todos.filter(t => !isClosed(t));
+
+    const history = todos.filter(t =>
+      t.status === 'completed' && (t.estimatedDuration || 0) > 0 && (t.actualDuration || 0) > 0 &&
+      !parentIds.has(t.id)
+    );
+    const totalEstimated = history.reduce((sum, t) => sum + t.estimatedDuration!, 0);
+    const totalActual = history.reduce((sum, t) => sum + t.actualDuration!, 0);
+    const ratio = history.length > 0 ? totalActual / totalEstimated : 1;
+
+    const remainingMinutes = remaining.reduce((sum, t) => sum + schedule.get(t.id)!.remainingDuration, 0);
+    const criticalPathMinutes = criticalPath.reduce((sum, t) => sum + schedule.get(t.id)!.remainingDuration, 0);
+    const effectiveWorkers = Math.max(1, workers);
+
+    // Extra workers only help until the critical path becomes the bottleneck
+    const forecastMinutes = Math.ceil(Math.max(criticalPathMinutes, remainingMinutes / effectiveWorkers) * ratio);
+    const calendarMs = (forecastMinutes / (hoursPerDay * 60)) * 24 * 60 * 60 * 1000;
+
+    return {
+      projectId,
+      remainingTodos: remaining.length,
+      unestimatedTodos: unestimated.size,
+      assumedMinutesPerUnestimatedTodo: assumedMinutes,
+      remainingMinutes,
+      criticalPathMinutes,
+      criticalPath,
+      workers: effectiveWorkers,
+      estimateAccuracyRatio: Math.round(ratio * 100) / 100,
+      historicalSampleSize: history.length,
+      forecastMinutes,
+      projectedCompletion: new Date(now.getTime() + calendarMs)
+    };
+  }
+
+  /**
+   * Allocates ready work among workers using the selected strategy, recording why
+   * each todo went to each worker
    */
   allocateWork(
-    todos: TodoItem[], 
-    workers: Array<{ id: string; capabilities: string[]; maxConcurrentTodos?: number }>
+    todos: TodoItem[],
+    workers: AllocationWorker[],
+    strategyName: AllocationStrategyName = 'round-robin'
   ): WorkAllocationResult {
+    const strategy = allocationStrategies.get(strategyName);
+    if (!strategy) {
+      throw new ValidationError(
+        `Unknown allocation strategy "${strategyName}". Must be one of: ${[...allocationStrategies.keys()].join(', ')}`
+      );
+    }
+
     const graph = this.buildDependencyGraph(todos);
     const assignments: { workerId: string; todos: TodoItem[] }[] = workers.map(w => ({
       workerId: w.id,
       todos: []
     }));
     
+    const decisions: AllocationDecision[] = [];
     const conflicts: { todoId: string; reason: string }[] = [];
     const unassignedTodos: TodoItem[] = [];
 
-    // Sort ready todos by priority and depth (critical path first)
-    const readyTodos = [...graph.readyToWork].sort((a, b) => {
-      const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
-      const aPriority = priorityOrder[a.priority];
-      const bPriority = priorityOrder[b.priority];
-      
-      if (aPriority !== bPriority) {
-        return bPriority - aPriority; // Higher priority first
-      }
-
-      // For same priority, prefer todos on critical path
-      const aOnCriticalPath = graph.criticalPath.some(t => t.id === a.id);
-      const bOnCriticalPath = graph.criticalPath.some(t => t.id === b.id);
-      
-      if (aOnCriticalPath && !bOnCriticalPath) return -1;
-      if (!aOnCriticalPath && bOnCriticalPath) return 1;
-
-      // Finally sort by depth (deeper first to maintain dependency order)
-      const aNode = graph.nodes.find(n => n.todo.id === a.id);
-      const bNode = graph.nodes.find(n => n.todo.id === b.id);
-      return (bNode?.depth || 0) - (aNode?.depth || 0);
-    });
+    // Work a worker already has in progress counts towards its load and capacity
+    const state: AllocationState = {
+      graph,
+      nodes: new Map(graph.nodes.map(node => [node.todo.id, node])),
+      criticalPath: new Set(graph.criticalPath.map(t => t.id)),
+      assignedCount: 0,
+      load: new Map(),
+      queuedMinutes: new Map()
+    };
+    for (const worker of workers) {
+      const inProgress = todos.filter(t => t.status === 'in-progress' && t.claimedBy === worker.id);
+      state.load.set(worker.id, inProgress.length);
+      state.queuedMinutes.set(worker.id, inProgress.reduce((sum, t) => sum + this.getRemainingDuration(t), 0));
+    }
 
-    // Simple round-robin assignment for now
-    let workerIndex = 0;
-    for (const todo of readyTodos) {
-      const worker = workers[workerIndex];
-      const assignment = assignments[workerIndex];
+    for (const todo of strategy.orderTodos(graph.readyToWork, state)) {
+      const candidates = workers.filter(w => state.load.get(w.id)! < (w.maxConcurrentTodos || 3));
       
-      const maxConcurrent = worker.maxConcurrentTodos || 3;
-      if (assignment.todos.length >= maxConcurrent) {
+      if (candidates.length === 0) {
         conflicts.push({
           todoId: todo.id,
-          reason: `Worker ${worker.id} at capacity (${maxConcurrent} todos)`
+          reason: 'All workers at capacity'
         });
         unassignedTodos.push(todo);
-      } else {
-        assignment.todos.push(todo);
+        continue;
       }
 
-      workerIndex = (workerIndex + 1) % workers.length;
+      const { worker, reason } = strategy.chooseWorker(todo, candidates, state);
+      assignments.find(a => a.workerId === worker.id)!.todos.push(todo);
+      decisions.push({ todoId: todo.id, workerId: worker.id, reason });
+
+      state.assignedCount++;
+      state.load.set(worker.id, state.load.get(worker.id)! + 1);
+      state.queuedMinutes.set(worker.id, state.queuedMinutes.get(worker.id)! + this.getRemainingDuration(todo));
     }
 
     // Add blocked todos to unassigned
     unassignedTodos.push(...graph.blocked);
 
     return {
+      strategy: strategy.name,
       assignedTodos: assignments.filter(a => a.todos.length > 0),
+      decisions,
       unassignedTodos,
       conflicts
     };
@@ -311,6 +478,7 @@ export class DependencyManager {
         return {
           ...todo,
           dependsOn: [...todo.dependsOn, dependsOnId],
+          version: (todo.version || 0) + 1,
           updatedAt: new Date()
         };
       }
@@ -327,6 +495,7 @@ export class DependencyManager {
         return {
           ...todo,
           dependsOn: todo.dependsOn.filter(id => id !== dependsOnId),
+          version: (todo.version || 0) + 1,
           updatedAt: new Date()
         };
       }
@@ -337,18 +506,12 @@ export class DependencyManager {
   /**
    * Gets todos that can be started by a specific worker
    */
-  getAvailableWorkForWorker(
-    todos: TodoItem[], 
-    workerId: string, 
-    workerCapabilities: string[] = []
-  ): TodoItem[] {
+  getAvailableWorkForWorker(todos: TodoItem[], workerCapabilities: string[] = []): TodoItem[] {
     const graph = this.buildDependencyGraph(todos);
     
-    // For now, return all ready todos (capability matching can be added later)
-    return graph.readyToWork.filter(todo => {
-      // Add capability-based filtering here if needed
-      return true;
-    });
+    // Todos in the worker's areas come first; a worker without declared capabilities sees the original order
+    const matches = (todo: TodoItem) => todo.areas.filter(area => workerCapabilities.includes(area)).length;
+    return [...graph.readyToWork].sort((a, b) => matches(b) - matches(a));
   }
 
   /**
@@ -360,14 +523,22 @@ export class DependencyManager {
       return { canStart: false, reason: 'Todo not found' };
     }
 
+    if (todo.status === 'blocked') {
+      return { canStart: false, reason: `Todo is blocked: ${todo.statusReason}` };
+    }
+
     if (todo.status !== 'pending') {
       return { canStart: false, reason: `Todo is already ${todo.status}` };
     }
 
-    // Check if dependencies are completed
-    const uncompletedDeps = todo.dependsOn.filter(depId => {
+    if (hasSubtasks(todos, todoId)) {
+      return { canStart: false, reason: 'Todo has subtasks; start one of those instead' };
+    }
+
+    // Check if dependencies, including those of parent todos, are completed
+    const uncompletedDeps = inheritedDependencies(todos).get(todoId)!.filter(depId => {
       const dep = todos.find(t => t.id === depId);
-      return dep && dep.status !== 'completed';
+      return dep && !satisfiesDependents(dep);
     });
 
     if (uncompletedDeps.length > 0) {
@@ -0,0 +1,287 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+import { Project, TodoItem } from './types.js';
+
+export interface ProjectRef {
+  workspaceId: string;
+  projectId: string;
+}
+
+export interface FullTextMatch extends ProjectRef {
+  todoId: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface FullTextSearchOptions {
+  statuses?: TodoItem['status'][];  // Default: every status
+  limit: number;
+}
+
+interface IndexedTodo {
+  version: number;
+  status: TodoItem['status'];
+  length: number;     // Weighted token count, for length normalization
+  terms: string[];    // Posting lists this todo appears in, for removal
+}
+
+// One shard per project, written under the project lock together with the project file
+interface FullTextShard extends ProjectRef {
+  version: string;
+  todos: Record<string, IndexedTodo>;
+  postings: Record<string, Record<string, number>>;  // term -> todoId -> weighted frequency
+  updatedAt: Date;
+}
+
+// Shard records without a prototype, so terms and IDs like "constructor" are plain keys
+function dictionary<T>(entries: Record<string, T> = {}): Record<string, T> {
+  return Object.assign(Object.create(null) as Record<string, T>, entries);
+}
+
+// Titles say most about a todo, completion summaries describe what was actually done
+const FIELD_WEIGHTS: Record<'title' | 'completionSummary' | 'notes' | 'description', number> = {
+  title: 3,
+  completionSummary: 2,
+  notes: 1,
+  description: 1
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'are', 'was', 'were', 'has', 'have', 'had',
+  'not', 'but', 'all', 'any', 'can', 'its', 'our', 'out', 'now', 'use', 'used', 'also', 'when', 'then',
+  'than', 'them', 'they', 'will', 'would', 'should', 'could', 'been', 'being', 'which', 'what', 'who',
+  'how', 'why', 'where', 'there', 'their', 'these', 'those', 'some', 'more', 'most', 'only', 'other',
+  'such', 'very', 'via', 'per', 'an', 'as', 'at', 'be', 'by', 'do', 'if', 'in', 'is', 'it', 'of', 'on',
+  'or', 'so', 'to', 'up', 'we', 'no'
+]);
+
+// Light suffix stripping so "caches", "cached" and "caching" share the stem "cach"
+function stem(token: string): string {
+  let stemmed = token;
+
+  for (const suffix of ['ing', 'ed', 's']) {
+    if (stemmed.endsWith(suffix) && !stemmed.endsWith('ss') && stemmed.length - suffix.length >= 3) {
+      stemmed = stemmed.slice(0, -suffix.length);
+      break;
+    }
+  }
+  if (stemmed.endsWith('e') && stemmed.length > 3) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  return stemmed;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+/**
+ * On-disk inverted index over todo titles, descriptions, notes and completion summaries.
+ *
+ * Shards live next to the project files and are kept current by every project write;
+ * only todos whose version changed are re-tokenized.
+ */
+export class FullTextIndex {
+  private baseDir = getDataRoot();
+  private dataDir = path.join(this.baseDir, 'data');
+
+  // Parsed shards, reloaded when another process rewrote the file
+  private cache = new Map<string, { mtimeMs: number; shard: FullTextShard }>();
+
+  private getShardFile(workspaceId: string, projectId: string): string {
+    return path.join(this.dataDir, workspaceId, 'fulltext', `project-${projectId}.json`);
+  }
+
+  private async loadShard(workspaceId: string, projectId: string): Promise<FullTextShard | null> {
+    const shardFile = this.getShardFile(workspaceId, projectId);
+
+    try {
+      const { mtimeMs } = await fs.stat(shardFile);
+      const cached = this.cache.get(shardFile);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.shard;
+      }
+
+      const shard: FullTextShard = JSON.parse(await fs.readFile(shardFile, 'utf-8'));
+      shard.todos = dictionary(shard.todos);
+      shard.postings = dictionary(shard.postings);
+      for (const term of Object.keys(shard.postings)) {
+        shard.postings[term] = dictionary(shard.postings[term]);
+      }
+      this.cache.set(shardFile, { mtimeMs, shard });
+      return shard;
+    } catch {
+      // Not built yet, or unreadable and rebuilt on the next write
+      return null;
+    }
+  }
+
+  private async saveShard(shard: FullTextShard): Promise<void> {
+    const shardFile = this.getShardFile(shard.workspaceId, shard.projectId);
+    await fs.mkdir(path.dirname(shardFile), { recursive: true });
+
+    shard.updatedAt = new Date();
+    const tempFile = `${shardFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(shard));
+    await fs.rename(tempFile, shardFile);
+
+    const { mtimeMs } = await fs.stat(shardFile);
+    this.cache.set(shardFile, { mtimeMs, shard });
+  }
+
+  private addTodo(shard: FullTextShard, todo: TodoItem): void {
+    const frequencies = new Map<string, number>();
+    let length = 0;
+
+    for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+      for (const token of tokenize(todo[field as keyof typeof FIELD_WEIGHTS] || '')) {
+        frequencies.set(token, (frequencies.get(token) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    for (const [term, frequency] of frequencies) {
+      (shard.postings[term] ||= dictionary())[todo.id] = frequency;
+    }
+
+    shard.todos[todo.id] = {
+      version: todo.version,
+      status: todo.status,
+      length,
+      terms: [...frequencies.keys()]
+    };
+  }
+
+  private removeTodo(shard: FullTextShard, todoId: string): void {
+    for (const term of shard.todos[todoId]?.terms || []) {
+      delete shard.postings[term]?.[todoId];
+      if (shard.postings[term] && Object.keys(shard.postings[term]).length === 0) {
+        delete shard.postings[term];
+      }
+    }
+    delete shard.todos[todoId];
+  }
+
+  async hasProject(workspaceId: string, projectId: string): Promise<boolean> {
+    return (await this.loadShard(workspaceId, projectId)) !== null;
+  }
+
+  // Must run under the project lock so the shard matches the project file
+  async syncProject(workspaceId: string, project: Project): Promise<void> {
+    const existing = await this.loadShard(workspaceId, project.id);
+    const shard: FullTextShard = existing || {
+      version: '1.0.0',
+      workspaceId,
+      projectId: project.id,
+      todos: dictionary(),
+      postings: dictionary(),
+      updatedAt: new Date()
+    };
+
+    const currentIds = new Set(project.todos.map(t => t.id));
+    let changed = false;
+
+    for (const todoId of Object.keys(shard.todos)) {
+      if (!currentIds.has(todoId)) {
+        this.removeTodo(shard, todoId);
+        changed = true;
+      }
+    }
+
+    for (const todo of project.todos) {
+      const indexed = shard.todos[todo.id];
+      if (indexed && indexed.version === todo.version && indexed.status === todo.status) continue;
+
+      this.removeTodo(shard, todo.id);
+      this.addTodo(shard, todo);
+      changed = true;
+    }
+
+    if (changed || !existing) {
+      await this.saveShard(shard);
+    }
+  }
+
+  async removeProject(workspaceId: string, projectId: string): Promise<void> {
+    const shardFile = this.getShardFile(workspaceId, projectId);
+    this.cache.delete(shardFile);
+
+    try {
+      await fs.unlink(shardFile);
+    } catch {
+      // Never indexed
+    }
+  }
+
+  // BM25 ranking over the given projects
+  async search(query: string, projects: ProjectRef[], options: FullTextSearchOptions): Promise<FullTextMatch[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const shards: FullTextShard[] = [];
+    for (const ref of projects) {
+      const shard = await this.loadShard(ref.workspaceId, ref.projectId);
+      if (shard) shards.push(shard);
+    }
+
+    // Collection statistics span every todo in scope, whatever its status
+    let documentCount = 0;
+    let totalLength = 0;
+    const documentFrequency = new Map<string, number>();
+
+    for (const shard of shards) {
+      for (const todo of Object.values(shard.todos)) {
+        documentCount++;
+        totalLength += todo.length;
+      }
+      for (const term of terms) {
+        const postings = shard.postings[term];
+        if (postings) {
+          documentFrequency.set(term, (documentFrequency.get(term) || 0) + Object.keys(postings).length);
+        }
+      }
+    }
+
+    const averageLength = documentCount > 0 ? totalLength / documentCount : 0;
+    const matches: FullTextMatch[] = [];
+
+    for (const shard of shards) {
+      const scores = new Map<string, FullTextMatch>();
+
+      for (const term of terms) {
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+
+        for (const [todoId, frequency] of Object.entries(shard.postings[term] || {})) {
+          const todo = shard.todos[todoId];
+          if (!todo || (options.statuses && !options.statuses.includes(todo.status))) continue;
+
+          const norm = K1 * (1 - B + B * todo.length / (averageLength || 1));
+          const match = scores.get(todoId) || {
+            todoId,
+            workspaceId: shard.workspaceId,
+            projectId: shard.projectId,
+            score: 0,
+            matchedTerms: []
+          };
+
+          match.score += idf * frequency * (K1 + 1) / (frequency + norm);
+          match.matchedTerms.push(term);
+          scores.set(todoId, match);
+        }
+      }
+
+      matches.push(...scores.values());
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.limit);
+  }
+}
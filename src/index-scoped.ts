@@ -10,11 +10,32 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  SetLevelRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { ScopedTodosStorage } from './scoped-storage.js';
-import { ValidationError } from './validation.js';
+import { ValidationError, parseAreas, parseAllocationWorkers } from './validation.js';
+import {
+  Project,
+  PlanTodoInput,
+  PlanDependencyInput,
+  AllocationStrategyName,
+  ProjectExportFormat,
+  TodoTemplate,
+  TemplatePlaceholder,
+  TemplatePhase,
+  TemplateTodo,
+  DependentsPolicy,
+  getAllAreas
+} from './types.js';
+import { ConflictError, AuthenticationError, PermissionDeniedError, WorkerRole } from './tracking-types.js';
+import { TOOL_PERMISSIONS, WORKER_ROLES } from './access-control.js';
+import { createLogger, addLogSink, serializeFields } from './logger.js';
+import { ConfigScope } from './config.js';
+import { WorkspaceStorageMode } from './repo-store.js';
+import { StorageBackend } from './storage-adapter.js';
 
+const log = createLogger('mcp-server');
 const storage = new ScopedTodosStorage();
 
 const server = new Server(
@@ -25,15 +46,37 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      logging: {},
     },
   }
 );
 
+// Forwards log entries to the client from the level it asks for; stderr and the log
+// file keep their own level
+let removeClientSink: (() => void) | null = null;
+
+server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+  removeClientSink?.();
+  removeClientSink = addLogSink({
+    level: request.params.level,
+    write: entry => {
+      // Not awaited, and failures aren't logged, which would send them again
+      server.sendLoggingMessage({
+        level: entry.level,
+        logger: entry.component,
+        data: { message: entry.message, ...serializeFields(entry.fields) }
+      }).catch(() => {});
+    }
+  });
+  log.info(`Client log level set to ${request.params.level}`);
+  return {};
+});
+
 const tools: Tool[] = [
   // Worker management - now workspace-scoped
   {
     name: 'register_worker',
-    description: 'Register this worker instance for a specific workspace',
+    description: 'Register this worker instance for a specific workspace. Registering with the identity or resume token of an earlier registration resumes that worker, keeping its ID and claimed todos.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -44,7 +87,21 @@ const tools: Tool[] = [
           items: { type: 'string' },
           description: 'List of capabilities (e.g., ["coding", "testing", "documentation"])' 
         },
-        purpose: { type: 'string', description: 'What this worker is working on' }
+        purpose: { type: 'string', description: 'What this worker is working on' },
+        token: { type: 'string', description: 'API token, if the workspace requires one (defaults to the TODOS_MCP_TOKEN environment variable)' },
+        identity: { type: 'string', description: 'Stable worker name that keeps the same worker ID across restarts (defaults to the TODOS_MCP_WORKER environment variable)' },
+        resumeToken: { type: 'string', description: 'Resume token returned by an earlier registration, to resume that worker' },
+        force: { type: 'boolean', description: 'Resume the worker even though its previous session still sends heartbeats' }
+      }
+    }
+  },
+  {
+    name: 'resume_session',
+    description: 'Show where this worker left off: todos it still has claimed, claims released while it was away, its last project and recent changes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Maximum number of recent changes to show (default: 10)' }
       }
     }
   },
@@ -77,6 +134,151 @@ const tools: Tool[] = [
       properties: {}
     }
   },
+  {
+    name: 'issue_api_token',
+    description: 'Issue an API token for a workspace. Once a workspace has a token, every worker must register with one; the role sets what it may do (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Who or what the token is for (e.g., "CI pipeline")' },
+        role: {
+          type: 'string',
+          enum: WORKER_ROLES,
+          description: 'viewer: read only; worker: edit and claim todos; admin: also delete, roll back any change and manage tokens'
+        },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      },
+      required: ['name', 'role']
+    }
+  },
+  {
+    name: 'list_api_tokens',
+    description: 'List the API tokens issued for a workspace (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      }
+    }
+  },
+  {
+    name: 'revoke_api_token',
+    description: 'Revoke an API token; workers registered with it lose access (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tokenId: { type: 'string', description: 'Token ID from list_api_tokens' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      },
+      required: ['tokenId']
+    }
+  },
+  {
+    name: 'create_webhook',
+    description: 'Subscribe a URL to change events of a workspace. Events are POSTed as signed JSON and retried with backoff (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', description: 'http(s) URL that receives the events' },
+        eventTypes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Change types (e.g., "todo.status_changed"), prefixes (e.g., "todo.*") or "*" (default: every event)'
+        },
+        projectIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only deliver events of these projects (default: every project and workspace event)'
+        },
+        secret: { type: 'string', description: 'Signing secret (generated when omitted)' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      },
+      required: ['url']
+    }
+  },
+  {
+    name: 'list_webhooks',
+    description: 'List the webhook subscriptions of a workspace (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      }
+    }
+  },
+  {
+    name: 'delete_webhook',
+    description: 'Delete a webhook subscription; pending retries are dropped (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        webhookId: { type: 'string', description: 'Webhook ID from list_webhooks' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      },
+      required: ['webhookId']
+    }
+  },
+  {
+    name: 'list_webhook_failures',
+    description: 'List webhook deliveries that failed after every retry, most recent first (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Maximum number of failures (default: 20)' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      }
+    }
+  },
+  {
+    name: 'get_config',
+    description: 'Show the effective settings of a workspace and where each comes from: default, global config file, workspace override or environment variable',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      }
+    }
+  },
+  {
+    name: 'set_config',
+    description: 'Change a setting in the global config file or, for audit log settings, as an override for one workspace. Applies to this server right away and to other servers when restarted. Environment variables still win. (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key: { type: 'string', description: 'Setting, e.g. "tracking.retentionDays" (see get_config)' },
+        value: { type: ['string', 'number', 'boolean'], description: 'New value; omit together with reset' },
+        reset: { type: 'boolean', description: 'Remove the setting from the file instead, falling back to the layers below' },
+        scope: { type: 'string', enum: ['global', 'workspace'], description: 'Where to store the setting (default: global)' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      },
+      required: ['key']
+    }
+  },
+  {
+    name: 'set_workspace_storage',
+    description: 'Choose where the workspace keeps its projects: "data" in the data root, or "repo" in a .todos directory inside the workspace so plans can be committed with the code. Moves existing projects. (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: ['data', 'repo'], description: 'Storage mode' },
+        auditLogs: { type: 'boolean', description: 'In repo mode, keep project audit logs in .todos/audit as well (default: false, they stay in the data root)' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      },
+      required: ['mode']
+    }
+  },
+  {
+    name: 'migrate_storage',
+    description: 'Move all workspaces, projects and audit logs to another storage backend: "json" files in the data root, or a "sqlite" database that writes only what changed. The previous backend keeps its data as a backup and is not cleaned up, so migrating back to it later needs force to overwrite that stale copy. Refused while workers other than this one are active, as their servers would keep using the previous backend, unless forced; restart those servers afterwards. (admin only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        backend: { type: 'string', enum: ['json', 'sqlite'], description: 'Storage backend to move to' },
+        force: { type: 'boolean', description: 'Overwrite data the target backend already holds, and migrate while other workers are active (default: false)' }
+      },
+      required: ['backend']
+    }
+  },
   
   // Project/todo operations
   {
@@ -92,6 +294,56 @@ const tools: Tool[] = [
       required: ['name']
     }
   },
+  {
+    name: 'update_project',
+    description: 'Update project name or description',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        name: { type: 'string', description: 'New project name' },
+        description: { type: 'string', description: 'New project description' }
+      },
+      required: ['projectId']
+    }
+  },
+  {
+    name: 'delete_project',
+    description: 'Delete a project and all of its todos',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' }
+      },
+      required: ['projectId']
+    }
+  },
+  {
+    name: 'export_project',
+    description: 'Export a project as Markdown, lossless JSON (phases, documents, dependencies, areas) or CSV',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        format: { type: 'string', enum: ['markdown', 'json', 'csv'], description: 'Export format (default: json)' }
+      },
+      required: ['projectId']
+    }
+  },
+  {
+    name: 'import_project',
+    description: 'Import an exported project as a new project. IDs are regenerated and dependencies rebuilt; claims are not carried over',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'Exported project content' },
+        format: { type: 'string', enum: ['markdown', 'json', 'csv'], description: 'Format of the content' },
+        name: { type: 'string', description: 'Project name (defaults to the exported name; required for CSV)' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      },
+      required: ['content', 'format']
+    }
+  },
   {
     name: 'create_todo',
     description: 'Create a new todo item in a project with application areas and optional dependencies',
@@ -109,21 +361,74 @@ const tools: Tool[] = [
           type: 'array', 
           items: { 
             type: 'string',
-            enum: ['frontend', 'backend', 'database', 'api', 'auth', 'infrastructure', 'testing', 'documentation', 'ui/ux', 'security', 'performance', 'deployment']
+            enum: getAllAreas()
           },
           minItems: 1,
           description: 'Application areas this todo affects (required)' 
         },
         primaryArea: { 
           type: 'string',
-          enum: ['frontend', 'backend', 'database', 'api', 'auth', 'infrastructure', 'testing', 'documentation', 'ui/ux', 'security', 'performance', 'deployment'],
+          enum: getAllAreas(),
           description: 'Primary area for categorization (optional - defaults to first area)' 
         },
-        notes: { type: 'string', description: 'Additional notes or context for the todo' }
+        notes: { type: 'string', description: 'Additional notes or context for the todo' },
+        recurrence: { type: 'string', description: 'Cron-like rule (minute hour day-of-month month day-of-week, e.g. "0 9 * * 1", or @daily/@weekly/@monthly); the next instance is created once this one is completed and the rule\'s next time has come' },
+        parentId: { type: 'string', description: 'Parent todo ID, making this a subtask (optional)' }
       },
       required: ['projectId', 'title', 'areas']
     }
   },
+  {
+    name: 'create_plan',
+    description: 'Create many todos and their dependencies in one atomic call, using temporary IDs to reference todos within the plan',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        todos: {
+          type: 'array',
+          minItems: 1,
+          description: 'Todos to create',
+          items: {
+            type: 'object',
+            properties: {
+              tempId: { type: 'string', description: 'Temporary ID used to reference this todo within the plan' },
+              title: { type: 'string', description: 'Todo title' },
+              description: { type: 'string', description: 'Todo description' },
+              phaseId: { type: 'string', description: 'Phase ID (optional)' },
+              dependsOn: { type: 'array', items: { type: 'string' }, description: 'Temp IDs from this plan or existing todo IDs' },
+              estimatedDuration: { type: 'number', description: 'Estimated duration in minutes' },
+              priority: { type: 'string', enum: ['low', 'medium', 'high', 'critical'], description: 'Todo priority' },
+              areas: {
+                type: 'array',
+                items: { type: 'string', enum: getAllAreas() },
+                minItems: 1,
+                description: 'Application areas this todo affects (required)'
+              },
+              primaryArea: { type: 'string', enum: getAllAreas(), description: 'Primary area (optional - defaults to first area)' },
+              notes: { type: 'string', description: 'Additional notes or context for the todo' },
+              recurrence: { type: 'string', description: 'Cron-like rule for a recurring todo' },
+              parentId: { type: 'string', description: 'Parent todo: a temp ID from this plan or an existing todo ID' }
+            },
+            required: ['tempId', 'title', 'areas']
+          }
+        },
+        dependencies: {
+          type: 'array',
+          description: 'Additional dependency edges; either side may be a temp ID or an existing todo ID',
+          items: {
+            type: 'object',
+            properties: {
+              todoId: { type: 'string', description: 'Todo that will depend on another' },
+              dependsOnId: { type: 'string', description: 'Todo that must be completed first' }
+            },
+            required: ['todoId', 'dependsOnId']
+          }
+        }
+      },
+      required: ['projectId', 'todos']
+    }
+  },
   {
     name: 'update_todo',
     description: 'Update a todo item including dependencies and priority',
@@ -140,7 +445,10 @@ const tools: Tool[] = [
         actualDuration: { type: 'number', description: 'Actual time spent in minutes' },
         priority: { type: 'string', enum: ['low', 'medium', 'high', 'critical'], description: 'Todo priority' },
         notes: { type: 'string', description: 'Additional notes or context for the todo' },
-        completionSummary: { type: 'string', description: 'Summary of changes (required when marking as completed)' }
+        completionSummary: { type: 'string', description: 'Summary of changes (required when marking as completed)' },
+        recurrence: { type: 'string', description: 'Cron-like rule for a recurring todo; an empty string stops the recurrence' },
+        parentId: { type: 'string', description: 'Parent todo ID; an empty string moves the todo to the top level' },
+        expectedVersion: { type: 'number', description: 'Todo version the change is based on; rejected as stale if the todo changed since' }
       },
       required: ['id']
     }
@@ -162,7 +470,8 @@ const tools: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        todoId: { type: 'string', description: 'Todo ID to claim' }
+        todoId: { type: 'string', description: 'Todo ID to claim' },
+        expectedVersion: { type: 'number', description: 'Todo version the change is based on; rejected as stale if the todo changed since' }
       },
       required: ['todoId']
     }
@@ -174,7 +483,8 @@ const tools: Tool[] = [
       type: 'object',
       properties: {
         todoId: { type: 'string', description: 'Todo ID to finish' },
-        completionSummary: { type: 'string', description: 'Summary of changes made while completing this todo' }
+        completionSummary: { type: 'string', description: 'Summary of changes made while completing this todo' },
+        force: { type: 'boolean', description: 'Finish even if another worker claimed the todo' }
       },
       required: ['todoId', 'completionSummary']
     }
@@ -185,161 +495,496 @@ const tools: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        todoId: { type: 'string', description: 'Todo ID to unclaim' }
+        todoId: { type: 'string', description: 'Todo ID to unclaim' },
+        force: { type: 'boolean', description: 'Release the todo even if another worker claimed it' }
       },
       required: ['todoId']
     }
   },
   {
-    name: 'list_projects',
-    description: 'List all projects in the workspace',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
-      }
-    }
-  },
-  {
-    name: 'get_project',
-    description: 'Get details of a specific project',
+    name: 'block_todo',
+    description: 'Mark a todo as blocked by something outside the project (a decision, access, another team), releasing any claim on it',
     inputSchema: {
       type: 'object',
       properties: {
-        projectId: { type: 'string', description: 'Project ID' }
+        todoId: { type: 'string', description: 'Todo ID' },
+        reason: { type: 'string', description: 'What the todo is waiting for' },
+        force: { type: 'boolean', description: 'Block the todo even if another worker claimed it' }
       },
-      required: ['projectId']
+      required: ['todoId', 'reason']
     }
   },
-  
-  // Dependency management tools
   {
-    name: 'add_dependency',
-    description: 'Add a dependency between two todos',
+    name: 'fail_todo',
+    description: 'Mark a todo as failed, e.g. when the approach turned out to be impossible',
     inputSchema: {
       type: 'object',
       properties: {
-        todoId: { type: 'string', description: 'Todo that will depend on another' },
-        dependsOnId: { type: 'string', description: 'Todo that must be completed first' }
+        todoId: { type: 'string', description: 'Todo ID' },
+        reason: { type: 'string', description: 'Why the todo failed' },
+        dependentsPolicy: { type: 'string', enum: ['block', 'unblock'], description: 'Whether todos depending on this one keep waiting (block, default) or may start anyway (unblock)' },
+        force: { type: 'boolean', description: 'Fail the todo even if another worker claimed it' }
       },
-      required: ['todoId', 'dependsOnId']
+      required: ['todoId', 'reason']
     }
   },
   {
-    name: 'remove_dependency',
-    description: 'Remove a dependency between two todos',
+    name: 'cancel_todo',
+    description: 'Cancel a todo that is no longer needed. Its open subtasks are cancelled too.',
     inputSchema: {
       type: 'object',
       properties: {
-        todoId: { type: 'string', description: 'Todo to remove dependency from' },
-        dependsOnId: { type: 'string', description: 'Todo dependency to remove' }
+        todoId: { type: 'string', description: 'Todo ID' },
+        reason: { type: 'string', description: 'Why the todo is no longer needed' },
+        dependentsPolicy: { type: 'string', enum: ['unblock', 'cascade'], description: 'Let todos depending on this one start without it (unblock, default) or cancel them as well (cascade)' },
+        force: { type: 'boolean', description: 'Cancel the todo even if another worker claimed it' }
       },
-      required: ['todoId', 'dependsOnId']
+      required: ['todoId', 'reason']
     }
   },
   {
-    name: 'get_dependency_graph',
-    description: 'Get the dependency graph for a project showing relationships and work availability',
+    name: 'reopen_todo',
+    description: 'Return a blocked, failed or cancelled todo to pending, clearing its reason',
     inputSchema: {
       type: 'object',
       properties: {
-        projectId: { type: 'string', description: 'Project ID' }
+        todoId: { type: 'string', description: 'Todo ID' }
       },
-      required: ['projectId']
+      required: ['todoId']
     }
   },
   {
-    name: 'get_available_work',
-    description: 'Get todos that can be started right now (dependencies satisfied)',
+    name: 'reorder_todos',
+    description: 'Reorder todo items in a project',
     inputSchema: {
       type: 'object',
       properties: {
         projectId: { type: 'string', description: 'Project ID' },
-        workerId: { type: 'string', description: 'Worker ID (optional, defaults to current worker)' }
+        todoIds: { type: 'array', items: { type: 'string' }, description: 'Array of todo IDs in new order' }
       },
-      required: ['projectId']
+      required: ['projectId', 'todoIds']
     }
   },
   {
-    name: 'allocate_work',
-    description: 'Intelligently allocate available work among multiple workers',
+    name: 'list_projects',
+    description: 'List all projects in the workspace',
     inputSchema: {
       type: 'object',
       properties: {
-        projectId: { type: 'string', description: 'Project ID' },
-        workers: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              id: { type: 'string' },
-              capabilities: { type: 'array', items: { type: 'string' } },
-              maxConcurrentTodos: { type: 'number' }
-            },
-            required: ['id']
-          },
-          description: 'Array of worker definitions'
-        }
-      },
-      required: ['projectId', 'workers']
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      }
     }
   },
-  
-  // Scoped audit trail queries
   {
-    name: 'get_project_change_history',
-    description: 'Get change history for a specific project or entity within a project',
+    name: 'get_project',
+    description: 'Get details of a specific project',
     inputSchema: {
       type: 'object',
       properties: {
-        projectId: { type: 'string', description: 'Project ID' },
-        entityType: { 
-          type: 'string', 
-          enum: ['todo', 'phase', 'document'],
-          description: 'Type of entity (optional - if not provided, gets all project changes)' 
-        },
-        entityId: { type: 'string', description: 'ID of specific entity (required if entityType provided)' },
-        limit: { type: 'number', description: 'Maximum number of changes to return (default: 20)' }
+        projectId: { type: 'string', description: 'Project ID' }
       },
       required: ['projectId']
     }
   },
   {
-    name: 'get_workspace_changes',
-    description: 'Get workspace-level changes (project creation/deletion, worker activity)',
+    name: 'search_todos',
+    description: 'Search todos across projects without loading whole projects. ' +
+      'Query terms are ANDed, comma-separated values ORed, "-" negates: ' +
+      'status:pending,in-progress priority:high area:backend primaryArea:api phase:"Phase 1" claimedBy:<workerId>|none ' +
+      'created:>=2024-01-01 completed:2024-01-01..2024-01-31 (also updated:, started:); ' +
+      'bare words and "quoted phrases" match title, description, notes and completion summary',
     inputSchema: {
       type: 'object',
       properties: {
+        query: { type: 'string', description: 'Filter expression (empty matches every todo)' },
+        projectId: { type: 'string', description: 'Only search this project' },
         workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' },
-        workerId: { type: 'string', description: 'Filter by specific worker ID' },
-        limit: { type: 'number', description: 'Maximum number of changes to return (default: 20)' },
-        since: { type: 'string', description: 'ISO date string to filter changes since' }
+        allWorkspaces: { type: 'boolean', description: 'Search every workspace instead of one' },
+        sort: {
+          type: 'string',
+          description: 'priority, status, created, updated, completed, title or order; prefix "-" for descending (default: -priority)'
+        },
+        limit: { type: 'number', description: 'Maximum number of results (default: 20, max: 200)' },
+        offset: { type: 'number', description: 'Number of results to skip' }
       }
     }
   },
   {
-    name: 'get_worker_activity',
-    description: 'Get activity summary for a worker in the current workspace',
+    name: 'find_related_work',
+    description: 'Rank past completed todos by relevance to a free-text query, searching titles, descriptions, notes and completion summaries. ' +
+      'Use before starting a task to find prior work on the same subsystem',
     inputSchema: {
       type: 'object',
       properties: {
-        workerId: { type: 'string', description: 'Worker ID (defaults to current worker)' },
-        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
-      }
+        query: { type: 'string', description: 'What you are about to work on' },
+        projectId: { type: 'string', description: 'Only search this project' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' },
+        allWorkspaces: { type: 'boolean', description: 'Search every workspace instead of one' },
+        includeOpen: { type: 'boolean', description: 'Also rank pending and in-progress todos (default: false)' },
+        limit: { type: 'number', description: 'Maximum number of results (default: 10)' }
+      },
+      required: ['query']
     }
   },
+  
+  // Template tools
   {
-    name: 'get_project_stats',
-    description: 'Get statistics for a specific project',
+    name: 'save_template',
+    description: 'Save a reusable project or todo template (e.g. a release checklist). Text may contain {{placeholders}} that are filled in when the template is instantiated; saving under an existing name replaces it',
     inputSchema: {
       type: 'object',
       properties: {
-        projectId: { type: 'string', description: 'Project ID' }
-      },
-      required: ['projectId']
-    }
-  },
-  {
+        name: { type: 'string', description: 'Template name; letters, digits, "-" and "_"' },
+        description: { type: 'string', description: 'What the template is for' },
+        placeholders: {
+          type: 'array',
+          description: 'Placeholders used as {{name}} in names, titles, descriptions and notes',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Placeholder name' },
+              description: { type: 'string', description: 'What value to give' },
+              default: { type: 'string', description: 'Value used when none is given' }
+            },
+            required: ['name']
+          }
+        },
+        project: {
+          type: 'object',
+          description: 'Project to create when the template is instantiated without a project (omit for todo-only templates)',
+          properties: {
+            name: { type: 'string', description: 'Project name' },
+            description: { type: 'string', description: 'Project description' }
+          },
+          required: ['name']
+        },
+        phases: {
+          type: 'array',
+          description: 'Phases in order; existing phases of the same name are reused',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Phase name' },
+              description: { type: 'string', description: 'Phase description' }
+            },
+            required: ['name']
+          }
+        },
+        todos: {
+          type: 'array',
+          minItems: 1,
+          description: 'Todos of the template',
+          items: {
+            type: 'object',
+            properties: {
+              tempId: { type: 'string', description: 'ID used to reference this todo within the template' },
+              title: { type: 'string', description: 'Todo title' },
+              description: { type: 'string', description: 'Todo description' },
+              phase: { type: 'string', description: 'Phase name' },
+              dependsOn: { type: 'array', items: { type: 'string' }, description: 'tempIds of todos in this template' },
+              estimatedDuration: { type: 'number', description: 'Estimated duration in minutes' },
+              priority: { type: 'string', enum: ['low', 'medium', 'high', 'critical'], description: 'Todo priority' },
+              areas: {
+                type: 'array',
+                items: { type: 'string', enum: getAllAreas() },
+                minItems: 1,
+                description: 'Application areas this todo affects (required)'
+              },
+              primaryArea: { type: 'string', enum: getAllAreas(), description: 'Primary area (optional - defaults to first area)' },
+              notes: { type: 'string', description: 'Additional notes or context for the todo' },
+              recurrence: { type: 'string', description: 'Cron-like rule for a recurring todo' },
+              parentId: { type: 'string', description: 'tempId of the parent todo in this template' }
+            },
+            required: ['tempId', 'title', 'areas']
+          }
+        }
+      },
+      required: ['name', 'todos']
+    }
+  },
+  {
+    name: 'list_templates',
+    description: 'List saved project and todo templates',
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    }
+  },
+  {
+    name: 'get_template',
+    description: 'Show a template with its placeholders, phases and todos',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Template name' }
+      },
+      required: ['name']
+    }
+  },
+  {
+    name: 'delete_template',
+    description: 'Delete a saved template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Template name' }
+      },
+      required: ['name']
+    }
+  },
+  {
+    name: 'instantiate_template',
+    description: 'Create a project from a template, or add a template\'s phases and todos to an existing project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        template: { type: 'string', description: 'Template name' },
+        values: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Placeholder values, e.g. { "version": "2.1.0" }'
+        },
+        projectId: { type: 'string', description: 'Project to add the todos to (omit to create the template\'s project)' },
+        workspacePath: { type: 'string', description: 'Workspace for a new project (defaults to current directory)' }
+      },
+      required: ['template']
+    }
+  },
+  
+  // Phase management tools
+  {
+    name: 'create_phase',
+    description: 'Create a new phase in a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        name: { type: 'string', description: 'Phase name' },
+        description: { type: 'string', description: 'Phase description' }
+      },
+      required: ['projectId', 'name']
+    }
+  },
+  {
+    name: 'update_phase',
+    description: 'Rename a phase or change its description',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        phaseId: { type: 'string', description: 'Phase ID' },
+        name: { type: 'string', description: 'New phase name' },
+        description: { type: 'string', description: 'New phase description' }
+      },
+      required: ['projectId', 'phaseId']
+    }
+  },
+  {
+    name: 'delete_phase',
+    description: 'Delete a phase, moving its todos to another phase or leaving them unassigned',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        phaseId: { type: 'string', description: 'Phase ID to delete' },
+        moveTodosToPhaseId: { type: 'string', description: 'Phase that receives the todos (optional - unassigned if omitted)' }
+      },
+      required: ['projectId', 'phaseId']
+    }
+  },
+  {
+    name: 'move_todos_to_phase',
+    description: 'Move todos into a phase, or out of any phase when phaseId is omitted',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        todoIds: { type: 'array', items: { type: 'string' }, description: 'Todo IDs to move' },
+        phaseId: { type: 'string', description: 'Target phase ID (optional)' }
+      },
+      required: ['projectId', 'todoIds']
+    }
+  },
+  
+  // Document tools
+  {
+    name: 'attach_document',
+    description: 'Attach a document to a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        type: { type: 'string', enum: ['link', 'file', 'confluence'], description: 'Document type' },
+        title: { type: 'string', description: 'Document title' },
+        url: { type: 'string', description: 'URL (for link type)' },
+        filePath: { type: 'string', description: 'File path (for file type)' },
+        confluenceSpace: { type: 'string', description: 'Confluence space' },
+        confluencePage: { type: 'string', description: 'Confluence page name' }
+      },
+      required: ['projectId', 'type', 'title']
+    }
+  },
+  {
+    name: 'remove_document',
+    description: 'Remove a document from a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        documentId: { type: 'string', description: 'Document ID' }
+      },
+      required: ['projectId', 'documentId']
+    }
+  },
+  
+  // Dependency management tools
+  {
+    name: 'add_dependency',
+    description: 'Add a dependency between two todos',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        todoId: { type: 'string', description: 'Todo that will depend on another' },
+        dependsOnId: { type: 'string', description: 'Todo that must be completed first' },
+        expectedVersion: { type: 'number', description: 'Todo version the change is based on; rejected as stale if the todo changed since' }
+      },
+      required: ['todoId', 'dependsOnId']
+    }
+  },
+  {
+    name: 'remove_dependency',
+    description: 'Remove a dependency between two todos',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        todoId: { type: 'string', description: 'Todo to remove dependency from' },
+        dependsOnId: { type: 'string', description: 'Todo dependency to remove' }
+      },
+      required: ['todoId', 'dependsOnId']
+    }
+  },
+  {
+    name: 'get_dependency_graph',
+    description: 'Get the dependency graph for a project showing relationships and work availability',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' }
+      },
+      required: ['projectId']
+    }
+  },
+  {
+    name: 'get_schedule_forecast',
+    description: 'Forecast project completion from remaining estimates, the critical path, worker count and historical estimate accuracy',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        workers: { type: 'number', description: 'Parallel workers (optional, defaults to active workers in the workspace)' },
+        hoursPerDay: { type: 'number', description: 'Working hours per day (optional, defaults to 8)' }
+      },
+      required: ['projectId']
+    }
+  },
+  {
+    name: 'get_available_work',
+    description: 'Get todos that can be started right now (dependencies satisfied)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        workerId: { type: 'string', description: 'Worker ID (optional, defaults to current worker)' }
+      },
+      required: ['projectId']
+    }
+  },
+  {
+    name: 'allocate_work',
+    description: 'Intelligently allocate available work among multiple workers, explaining each assignment',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        workers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              capabilities: { type: 'array', items: { type: 'string' } },
+              maxConcurrentTodos: { type: 'number' }
+            },
+            required: ['id']
+          },
+          description: 'Array of worker definitions (defaults to the active workers in the workspace)'
+        },
+        strategy: {
+          type: 'string',
+          enum: ['round-robin', 'critical-path-first', 'load-balanced', 'area-affinity'],
+          description: 'round-robin: workers take turns by priority (default); critical-path-first: least slack first; ' +
+                       'load-balanced: fewest estimated minutes queued; area-affinity: match worker capabilities to todo areas'
+        }
+      },
+      required: ['projectId']
+    }
+  },
+  
+  // Scoped audit trail queries
+  {
+    name: 'get_project_change_history',
+    description: 'Get change history for a specific project or entity within a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' },
+        entityType: { 
+          type: 'string', 
+          enum: ['todo', 'phase', 'document'],
+          description: 'Type of entity (optional - if not provided, gets all project changes)' 
+        },
+        entityId: { type: 'string', description: 'ID of specific entity (required if entityType provided)' },
+        limit: { type: 'number', description: 'Maximum number of changes to return (default: 20)' }
+      },
+      required: ['projectId']
+    }
+  },
+  {
+    name: 'get_workspace_changes',
+    description: 'Get workspace-level changes (project creation/deletion, worker activity)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' },
+        workerId: { type: 'string', description: 'Filter by specific worker ID' },
+        limit: { type: 'number', description: 'Maximum number of changes to return (default: 20)' },
+        since: { type: 'string', description: 'ISO date string to filter changes since' }
+      }
+    }
+  },
+  {
+    name: 'get_worker_activity',
+    description: 'Get activity summary for a worker in the current workspace',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workerId: { type: 'string', description: 'Worker ID (defaults to current worker)' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      }
+    }
+  },
+  {
+    name: 'get_project_stats',
+    description: 'Get statistics for a specific project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string', description: 'Project ID' }
+      },
+      required: ['projectId']
+    }
+  },
+  {
     name: 'get_workspace_stats',
     description: 'Get statistics for the current workspace',
     inputSchema: {
@@ -347,308 +992,1140 @@ const tools: Tool[] = [
       properties: {
         workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
       }
-    }
-  }
-];
+    }
+  },
+  
+  // Checkpoints and rollback
+  {
+    name: 'create_checkpoint',
+    description: 'Snapshot every project in the workspace so it can be restored later',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Checkpoint name' },
+        description: { type: 'string', description: 'What state this checkpoint captures' },
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' }
+      },
+      required: ['name']
+    }
+  },
+  {
+    name: 'list_checkpoints',
+    description: 'List checkpoints in the workspace, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspacePath: { type: 'string', description: 'Workspace path (defaults to current directory)' },
+        limit: { type: 'number', description: 'Maximum number of checkpoints to return (default: 20)' }
+      }
+    }
+  },
+  {
+    name: 'rollback_change',
+    description: 'Undo a single change from the project change history. Only the fields it changed are restored; fails if a later change touched the same fields',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        changeId: { type: 'string', description: 'ID of the change to undo' },
+        reason: { type: 'string', description: 'Why the change is being rolled back' },
+        createCheckpoint: { type: 'boolean', description: 'Create a checkpoint before rolling back' }
+      },
+      required: ['changeId', 'reason']
+    }
+  },
+  {
+    name: 'rollback_to_checkpoint',
+    description: 'Restore all projects in a workspace to a checkpoint (a safety checkpoint is created first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        checkpointId: { type: 'string', description: 'Checkpoint ID' },
+        reason: { type: 'string', description: 'Why the workspace is being rolled back' }
+      },
+      required: ['checkpointId', 'reason']
+    }
+  }
+];
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return { tools };
+});
+
+// Helper function to get workspace ID from path
+async function getWorkspaceId(workspacePath?: string): Promise<string> {
+  const path = workspacePath || process.cwd();
+  const workspace = await storage.getOrCreateWorkspace(path);
+  return workspace.id;
+}
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+  // Argument names only: values may hold tokens
+  log.debug(`Calling tool ${name}`, { tool: name, arguments: Object.keys(args || {}) });
+
+  if (!args) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: '❌ Missing arguments'
+        }
+      ]
+    };
+  }
+
+  try {
+    const permission = TOOL_PERMISSIONS[name];
+    if (permission) {
+      await storage.assertPermission(permission);
+    }
+    
+    switch (name) {
+      // Worker management
+      case 'register_worker': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        
+        const { worker, resumeToken } = await storage.registerWorkerForWorkspace(workspaceId, {
+          name: args.name as string,
+          capabilities: args.capabilities as string[],
+          purpose: args.purpose as string,
+          token: (args.token as string) || process.env.TODOS_MCP_TOKEN,
+          identity: (args.identity as string) || process.env.TODOS_MCP_WORKER,
+          resumeToken: args.resumeToken as string,
+          force: args.force as boolean
+        });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Worker ${worker.previousSession ? 'resumed' : 'registered'} in workspace: ${worker.name || worker.id}\n` +
+                   `   Worker ID: ${worker.id}\n` +
+                   `   Workspace: ${workspaceId}\n` +
+                   `   Session: ${worker.sessionId}\n` +
+                   `   Role: ${worker.role}\n` +
+                   `   Capabilities: ${worker.capabilities.join(', ')}\n` +
+                   `   Resume token: ${resumeToken} (pass it to register_worker after a restart to resume this worker)` +
+                   (worker.previousSession ? `\n\nCall resume_session to see where the previous session left off.` : '')
+            }
+          ]
+        };
+      }
+
+      case 'resume_session': {
+        const resume = await storage.getSessionResume(args.limit as number || 10);
+        const { worker } = resume;
+        
+        const claimed = resume.claimedTodos.map(({ todo, projectName }) =>
+          `   • ${todo.title} (${todo.id}) in ${projectName}`
+        ).join('\n');
+        const released = resume.releasedTodos.map(({ todo, projectName, releasedBy, reason }) =>
+          `   • ${todo.title} (${todo.id}) in ${projectName}, now ${todo.status}\n     ${reason || `Released by ${releasedBy}`}`
+        ).join('\n');
+        const changes = resume.recentChanges.map(change =>
+          `   • ${change.timestamp.toISOString()} ${change.type} by ${change.workerId}: ${change.reason || 'No reason provided'}`
+        ).join('\n');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `🔁 Session of ${worker.name || worker.id}\n` +
+                   (worker.previousSession
+                     ? `   Resumed session ${worker.previousSession.sessionId}, last seen ${worker.previousSession.lastSeen.toISOString()}\n\n`
+                     : `   New worker; nothing to resume\n\n`) +
+                   `📌 Claimed todos (${resume.claimedTodos.length}):\n${claimed || '   None'}\n\n` +
+                   (resume.releasedTodos.length > 0
+                     ? `⚠️ Claims released while away (${resume.releasedTodos.length}); claim them again to continue:\n${released}\n\n`
+                     : '') +
+                   `📁 Last project: ${resume.lastProject ? `${resume.lastProject.name} (${resume.lastProject.id})` : 'None'}\n\n` +
+                   `📝 ${worker.previousSession ? 'Changes since last seen' : 'Recent changes'} (${resume.recentChanges.length}):\n${changes || '   None'}`
+            }
+          ]
+        };
+      }
+
+      case 'list_workspace_workers': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const workers = await storage.getWorkspaceWorkers(workspaceId);
+        
+        if (workers.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No active workers found in this workspace'
+              }
+            ]
+          };
+        }
+        
+        const workerList = workers.map(w => 
+          `🤖 ${w.name || w.id}\n` +
+          `   Session: ${w.sessionId}\n` +
+          `   Registered: ${w.registeredAt.toISOString()}\n` +
+          `   Last seen: ${w.lastSeen.toISOString()}\n` +
+          `   Current project: ${w.currentProjectId || 'None'}\n` +
+          `   Capabilities: ${w.capabilities.join(', ')}`
+        ).join('\n\n');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Active Workers in Workspace (${workers.length}):\n\n${workerList}`
+            }
+          ]
+        };
+      }
+
+      case 'list_project_workers': {
+        const workers = await storage.getProjectWorkers(args.projectId as string);
+        
+        if (workers.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No workers currently active in this project'
+              }
+            ]
+          };
+        }
+        
+        const workerList = workers.map(w => 
+          `🤖 ${w.name || w.id} (${w.capabilities.join(', ')})`
+        ).join('\n');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Workers in Project (${workers.length}):\n${workerList}`
+            }
+          ]
+        };
+      }
+
+      case 'worker_heartbeat': {
+        await storage.heartbeat();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: '💓 Heartbeat sent'
+            }
+          ]
+        };
+      }
+
+      case 'issue_api_token': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const { token, info } = await storage.issueApiToken(workspaceId, {
+          name: args.name as string,
+          role: args.role as WorkerRole
+        });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `🔑 Issued ${info.role} token "${info.name}" (${info.id})\n\n` +
+                   `   ${token}\n\n` +
+                   `This token is shown only once. Workers in this workspace now need a token: ` +
+                   `set TODOS_MCP_TOKEN for MCP servers, or send it as a Bearer token to the web server.`
+            }
+          ]
+        };
+      }
+
+      case 'list_api_tokens': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const tokens = await storage.listApiTokens(workspaceId);
+        
+        if (tokens.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No API tokens issued; the workspace is open to every worker'
+              }
+            ]
+          };
+        }
+        
+        const tokenList = tokens.map(t =>
+          `🔑 ${t.name} (${t.id})\n` +
+          `   Role: ${t.role}\n` +
+          `   Issued: ${new Date(t.createdAt).toISOString()} by ${t.createdBy}`
+        ).join('\n\n');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `API Tokens (${tokens.length}):\n\n${tokenList}`
+            }
+          ]
+        };
+      }
+
+      case 'revoke_api_token': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const revoked = await storage.revokeApiToken(workspaceId, args.tokenId as string);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: revoked ? '✅ API token revoked' : '❌ Token not found'
+            }
+          ]
+        };
+      }
+
+      case 'create_webhook': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const webhook = await storage.createWebhook({
+          workspaceId,
+          url: args.url as string,
+          eventTypes: args.eventTypes as string[] | undefined,
+          projectIds: args.projectIds as string[] | undefined,
+          secret: args.secret as string | undefined
+        });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `🪝 Created webhook ${webhook.id} for ${webhook.url}\n` +
+                   `   Events: ${webhook.eventTypes.join(', ')}\n` +
+                   `   Projects: ${webhook.projectIds.length > 0 ? webhook.projectIds.join(', ') : 'all'}\n\n` +
+                   `   Secret: ${webhook.secret}\n\n` +
+                   `The secret is shown only once. Deliveries carry X-Todos-Signature: ` +
+                   `sha256=HMAC(secret, "<X-Todos-Timestamp>.<body>").`
+            }
+          ]
+        };
+      }
+
+      case 'list_webhooks': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const webhooks = await storage.listWebhooks(workspaceId);
+        
+        if (webhooks.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No webhooks in this workspace'
+              }
+            ]
+          };
+        }
+        
+        const webhookList = webhooks.map(w =>
+          `🪝 ${w.url} (${w.id})\n` +
+          `   Events: ${w.eventTypes.join(', ')}\n` +
+          `   Projects: ${w.projectIds.length > 0 ? w.projectIds.join(', ') : 'all'}\n` +
+          `   Created: ${new Date(w.createdAt).toISOString()} by ${w.createdBy}`
+        ).join('\n\n');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Webhooks (${webhooks.length}):\n\n${webhookList}`
+            }
+          ]
+        };
+      }
+
+      case 'delete_webhook': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const deleted = await storage.deleteWebhook(workspaceId, args.webhookId as string);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: deleted ? '✅ Webhook deleted' : '❌ Webhook not found'
+            }
+          ]
+        };
+      }
+
+      case 'list_webhook_failures': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const failures = await storage.listWebhookFailures(workspaceId, args.limit as number | undefined);
+        
+        if (failures.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No failed webhook deliveries'
+              }
+            ]
+          };
+        }
+        
+        const failureList = failures.map(f =>
+          `❌ ${f.event.type} → ${f.url}\n` +
+          `   Delivery: ${f.deliveryId} (webhook ${f.subscriptionId})\n` +
+          `   Attempts: ${f.attempts}, last error: ${f.lastError}\n` +
+          `   Failed: ${new Date(f.failedAt).toISOString()}`
+        ).join('\n\n');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Failed webhook deliveries (${failures.length}):\n\n${failureList}`
+            }
+          ]
+        };
+      }
+
+      case 'get_config': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const settings = await storage.getConfig(workspaceId);
+        
+        const settingList = settings.map(setting =>
+          `${setting.key} = ${setting.value}` + (setting.source === 'default' ? '' : ` (${setting.source})`) + '\n' +
+          `   ${setting.description}\n` +
+          `   Env: ${setting.env}${setting.perWorkspace ? ', per workspace' : ''}`
+        ).join('\n');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `⚙️ Settings:\n\n${settingList}`
+            }
+          ]
+        };
+      }
+
+      case 'set_config': {
+        if (!args.reset && args.value === undefined) {
+          throw new ValidationError('Give a value, or reset to remove the setting');
+        }
+        
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const scope = (args.scope as ConfigScope | undefined) || 'global';
+        const setting = await storage.setConfig(args.key as string, args.reset ? undefined : args.value, scope, workspaceId);
+        const shadowed = setting.source === 'env' ? `\n   ⚠️ Overridden by ${setting.env} in this environment` : '';
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ ${args.reset ? `Reset ${scope} setting` : `Set ${scope} setting`} ${setting.key}\n` +
+                   `   Effective value: ${setting.value} (${setting.source})${shadowed}`
+            }
+          ]
+        };
+      }
+
+      case 'set_workspace_storage': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const storageInfo = await storage.setWorkspaceStorage(workspaceId, args.mode as WorkspaceStorageMode, {
+          auditLogs: args.auditLogs as boolean | undefined
+        });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Workspace storage: ${storageInfo.mode}\n` +
+                   `   Projects (${storageInfo.projects}): ${storageInfo.directory}\n` +
+                   `   Project audit logs: ${storageInfo.auditLogs === 'repo' ? 'in the repository' : 'in the data root'}`
+            }
+          ]
+        };
+      }
+
+      case 'migrate_storage': {
+        const migration = await storage.migrateStorage(args.backend as StorageBackend, { force: args.force as boolean | undefined });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Moved storage from ${migration.from} to ${migration.to}: ${migration.location}\n` +
+                   `   Workspaces: ${migration.workspaces}, projects: ${migration.projects}, audit logs: ${migration.auditLogs}\n` +
+                   `   Previous data kept in ${migration.previousLocation}\n` +
+                   `   Restart other servers using this data root to switch them over` +
+                   (migration.overriddenByEnv ? `\n⚠️ TODOS_MCP_STORAGE_BACKEND selects another backend; update it before restarting` : '')
+            }
+          ]
+        };
+      }
+
+      // Project operations
+      case 'create_project': {
+        const workspacePath = (args.workspacePath as string) || process.cwd();
+        const project = await storage.createProject({
+          name: args.name as string,
+          description: args.description as string,
+          workspacePath
+        });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Created project: ${project.name} (ID: ${project.id})`
+            }
+          ]
+        };
+      }
+
+      case 'update_project': {
+        const updates: Partial<Project> = {};
+        if (args.name !== undefined) updates.name = args.name as string;
+        if (args.description !== undefined) updates.description = args.description as string;
+        
+        const project = await storage.updateProject(args.projectId as string, updates);
+        if (!project) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: '❌ Project not found'
+              }
+            ]
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Updated project: ${project.name}`
+            }
+          ]
+        };
+      }
+
+      case 'delete_project': {
+        const success = await storage.deleteProject(args.projectId as string);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: success ? '✅ Project deleted' : '❌ Project not found'
+            }
+          ]
+        };
+      }
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
+      case 'export_project': {
+        const content = await storage.exportProject(
+          args.projectId as string,
+          (args.format as ProjectExportFormat) || 'json'
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: content ?? '❌ Project not found'
+            }
+          ]
+        };
+      }
 
-// Helper function to get workspace ID from path
-async function getWorkspaceId(workspacePath?: string): Promise<string> {
-  const path = workspacePath || process.cwd();
-  const workspace = await storage.getOrCreateWorkspace(path);
-  return workspace.id;
-}
+      case 'import_project': {
+        const result = await storage.importProject({
+          workspacePath: (args.workspacePath as string) || process.cwd(),
+          format: args.format as ProjectExportFormat,
+          content: args.content as string,
+          name: args.name as string
+        });
+        
+        const { project } = result;
+        const warnings = result.warnings.length > 0
+          ? `\n\n⚠️ Warnings (${result.warnings.length}):\n${result.warnings.map(w => `• ${w}`).join('\n')}`
+          : '';
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Imported project: ${project.name} (ID: ${project.id})\n` +
+                `   ${project.todos.length} todos, ${project.phases.length} phases, ${project.documents.length} documents (batch ${result.batchId})` +
+                warnings
+            }
+          ]
+        };
+      }
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+      case 'create_todo': {
+        const { areas, primaryArea } = parseAreas(args.areas, args.primaryArea);
+        
+        const todo = await storage.createTodo({
+          projectId: args.projectId as string,
+          title: args.title as string,
+          description: args.description as string,
+          phaseId: args.phaseId as string,
+          dependsOn: args.dependsOn as string[],
+          estimatedDuration: args.estimatedDuration as number,
+          priority: args.priority as 'low' | 'medium' | 'high' | 'critical',
+          areas,
+          primaryArea,
+          notes: args.notes as string,
+          recurrence: args.recurrence as string | undefined,
+          parentId: args.parentId as string | undefined
+        });
+        
+        if (!todo) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: '❌ Project not found or worker not registered'
+              }
+            ]
+          };
+        }
+        
+        const depInfo = todo.dependsOn.length > 0 ? ` (depends on ${todo.dependsOn.length} todos)` : '';
+        const parentInfo = todo.parentId ? ` (subtask of ${todo.parentId})` : '';
+        const priorityInfo = todo.priority !== 'medium' ? ` [${todo.priority}]` : '';
+        const areaInfo = ` [${todo.primaryArea}${todo.areas.length > 1 ? ` +${todo.areas.length - 1} more` : ''}]`;
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Created todo: ${todo.title} (ID: ${todo.id})${priorityInfo}${areaInfo}${depInfo}${parentInfo}`
+            }
+          ]
+        };
+      }
 
-  if (!args) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: '❌ Missing arguments'
+      case 'create_plan': {
+        const result = await storage.createPlan({
+          projectId: args.projectId as string,
+          todos: args.todos as PlanTodoInput[],
+          dependencies: args.dependencies as PlanDependencyInput[] | undefined
+        });
+        
+        if (!result) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: '❌ Project not found'
+              }
+            ]
+          };
         }
-      ]
-    };
-  }
+        
+        const edgeCount = result.createdTodos.reduce((sum, todo) => sum + todo.dependsOn.length, 0);
+        const updatedInfo = result.updatedTodos.length > 0
+          ? `, linked ${result.updatedTodos.length} existing todo(s)`
+          : '';
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Created plan: ${result.createdTodos.length} todos, ${edgeCount} dependencies${updatedInfo} (batch ${result.batchId})\n\n` +
+                `ID mapping:\n${JSON.stringify(result.idMap, null, 2)}`
+            }
+          ]
+        };
+      }
 
-  try {
-    switch (name) {
-      // Worker management
-      case 'register_worker': {
-        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+      case 'update_todo': {
+        const todo = await storage.updateTodo({
+          id: args.id as string,
+          title: args.title as string,
+          description: args.description as string,
+          status: args.status as 'pending' | 'in-progress' | 'completed',
+          phaseId: args.phaseId as string,
+          dependsOn: args.dependsOn as string[],
+          estimatedDuration: args.estimatedDuration as number,
+          actualDuration: args.actualDuration as number,
+          priority: args.priority as 'low' | 'medium' | 'high' | 'critical',
+          notes: args.notes as string,
+          completionSummary: args.completionSummary as string,
+          recurrence: args.recurrence as string | undefined,
+          parentId: args.parentId as string | undefined
+        }, { expectedVersion: args.expectedVersion as number | undefined });
         
-        const worker = await storage.registerWorkerForWorkspace(workspaceId, {
-          name: args.name as string,
-          capabilities: args.capabilities as string[],
-          purpose: args.purpose as string
+        if (!todo) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: '❌ Todo not found'
+              }
+            ]
+          };
+        }
+        
+        const depInfo = todo.dependsOn.length > 0 ? ` (${todo.dependsOn.length} deps)` : '';
+        const priorityInfo = todo.priority !== 'medium' ? ` [${todo.priority}]` : '';
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Updated todo: ${todo.title} (Status: ${todo.status}, version ${todo.version})${priorityInfo}${depInfo}`
+            }
+          ]
+        };
+      }
+
+      case 'delete_todo': {
+        const success = await storage.deleteTodo(args.todoId as string);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: success ? '✅ Todo deleted' : '❌ Todo not found'
+            }
+          ]
+        };
+      }
+
+      case 'claim_todo': {
+        const result = await storage.changeStatus(args.todoId as string, 'in-progress', {
+          expectedVersion: args.expectedVersion as number | undefined
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result
+                ? `✅ Todo claimed and marked in-progress (owner: ${result.claimedBy}, version ${result.version})`
+                : '❌ Todo not found or cannot be claimed'
+            }
+          ]
+        };
+      }
+
+      case 'finish_todo': {
+        const result = await storage.updateTodo({
+          id: args.todoId as string,
+          status: 'completed',
+          completionSummary: args.completionSummary as string
+        }, { force: args.force as boolean });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result ? '✅ Todo completed!' : '❌ Todo not found'
+            }
+          ]
+        };
+      }
+
+      case 'unclaim_todo': {
+        const result = await storage.changeStatus(args.todoId as string, 'pending', {
+          force: args.force as boolean
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result ? '✅ Todo returned to pending status' : '❌ Todo not found'
+            }
+          ]
+        };
+      }
+
+      case 'block_todo':
+      case 'fail_todo':
+      case 'cancel_todo': {
+        const status = ({ block_todo: 'blocked', fail_todo: 'failed', cancel_todo: 'cancelled' } as const)[name];
+        const result = await storage.changeStatus(args.todoId as string, status, {
+          reason: args.reason as string,
+          dependentsPolicy: args.dependentsPolicy as DependentsPolicy | undefined,
+          force: args.force as boolean
         });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result
+                ? `✅ Todo marked ${result.status}: ${result.statusReason} (version ${result.version})`
+                : '❌ Todo not found'
+            }
+          ]
+        };
+      }
+
+      case 'reopen_todo': {
+        const current = await storage.findProjectByTodoId(args.todoId as string)
+          .then(project => project?.todos.find(t => t.id === args.todoId));
+        if (current && !['blocked', 'failed', 'cancelled'].includes(current.status)) {
+          throw new ValidationError(`Todo is ${current.status}; only blocked, failed and cancelled todos can be reopened`);
+        }
         
+        const result = await storage.changeStatus(args.todoId as string, 'pending');
         return {
           content: [
             {
               type: 'text',
-              text: `✅ Worker registered in workspace: ${worker.name || worker.id}\n` +
-                   `   Workspace: ${workspaceId}\n` +
-                   `   Session: ${worker.sessionId}\n` +
-                   `   Capabilities: ${worker.capabilities.join(', ')}`
+              text: result ? '✅ Todo reopened and returned to pending status' : '❌ Todo not found'
             }
           ]
         };
       }
 
-      case 'list_workspace_workers': {
-        const workspaceId = await getWorkspaceId(args.workspacePath as string);
-        const workers = await storage.getWorkspaceWorkers(workspaceId);
+      case 'reorder_todos': {
+        const success = await storage.reorderTodos({
+          projectId: args.projectId as string,
+          todoIds: args.todoIds as string[]
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: success ? '✅ Todos reordered' : '❌ Project not found'
+            }
+          ]
+        };
+      }
+
+      case 'list_projects': {
+        let projects;
+        if (args.workspacePath) {
+          const workspace = await storage.getWorkspaceByPath(args.workspacePath as string);
+          projects = workspace ? workspace.projects : [];
+        } else {
+          projects = await storage.listProjects();
+        }
         
-        if (workers.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(projects, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'get_project': {
+        const project = await storage.getProject(args.projectId as string);
+        if (!project) {
           return {
             content: [
               {
                 type: 'text',
-                text: 'No active workers found in this workspace'
+                text: '❌ Project not found'
               }
             ]
           };
         }
         
-        const workerList = workers.map(w => 
-          `🤖 ${w.name || w.id}\n` +
-          `   Session: ${w.sessionId}\n` +
-          `   Registered: ${w.registeredAt.toISOString()}\n` +
-          `   Last seen: ${w.lastSeen.toISOString()}\n` +
-          `   Current project: ${w.currentProjectId || 'None'}\n` +
-          `   Capabilities: ${w.capabilities.join(', ')}`
-        ).join('\n\n');
-        
         return {
           content: [
             {
               type: 'text',
-              text: `Active Workers in Workspace (${workers.length}):\n\n${workerList}`
+              text: JSON.stringify(project, null, 2)
             }
           ]
         };
       }
 
-      case 'list_project_workers': {
-        const workers = await storage.getProjectWorkers(args.projectId as string);
+      case 'search_todos': {
+        const result = await storage.searchTodos({
+          query: args.query as string,
+          projectId: args.projectId as string,
+          workspaceId: args.allWorkspaces ? undefined : await getWorkspaceId(args.workspacePath as string),
+          sort: args.sort as string,
+          limit: args.limit as number,
+          offset: args.offset as number
+        });
         
-        if (workers.length === 0) {
+        if (result.total === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: 'No workers currently active in this project'
+                text: 'No matching todos found'
               }
             ]
           };
         }
         
-        const workerList = workers.map(w => 
-          `🤖 ${w.name || w.id} (${w.capabilities.join(', ')})`
+        const hitsText = result.hits.map(({ todo, projectName, projectId }) =>
+          `• [${todo.status}] ${todo.title} (${todo.priority}, ${todo.areas.join('/')})\n` +
+          `   ID: ${todo.id} | Project: ${projectName} (${projectId})` +
+          (todo.claimedBy ? ` | Claimed by: ${todo.claimedBy}` : '')
         ).join('\n');
         
+        const shownTo = result.offset + result.hits.length;
+        const more = shownTo < result.total ? `\n\nMore results: use offset ${shownTo}` : '';
+        
         return {
           content: [
             {
               type: 'text',
-              text: `Workers in Project (${workers.length}):\n${workerList}`
+              text: `🔎 ${result.total} matching todos (showing ${result.offset + 1}-${shownTo}):\n\n${hitsText}${more}`
             }
           ]
         };
       }
 
-      case 'worker_heartbeat': {
-        await storage.heartbeat();
+      case 'find_related_work': {
+        const hits = await storage.findRelatedWork({
+          query: args.query as string,
+          projectId: args.projectId as string,
+          workspaceId: args.allWorkspaces ? undefined : await getWorkspaceId(args.workspacePath as string),
+          includeOpen: args.includeOpen as boolean,
+          limit: args.limit as number
+        });
+        
+        if (hits.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No related work found'
+              }
+            ]
+          };
+        }
+        
+        const excerpt = (text?: string) => text && text.length > 300 ? `${text.slice(0, 300)}…` : text;
+        const hitsText = hits.map(({ todo, projectName, score, matchedTerms }, index) =>
+          `${index + 1}. ${todo.title} [${todo.status}] (score ${score.toFixed(2)})\n` +
+          `   ID: ${todo.id} | Project: ${projectName} | Matched: ${matchedTerms.join(', ')}` +
+          (todo.completionSummary ? `\n   Summary: ${excerpt(todo.completionSummary)}` : '') +
+          (todo.notes ? `\n   Notes: ${excerpt(todo.notes)}` : '')
+        ).join('\n\n');
+        
         return {
           content: [
             {
               type: 'text',
-              text: '💓 Heartbeat sent'
+              text: `📚 Related work (${hits.length}):\n\n${hitsText}`
             }
           ]
         };
       }
 
-      // Project operations
-      case 'create_project': {
-        const workspacePath = (args.workspacePath as string) || process.cwd();
-        const project = await storage.createProject({
+      // Template handlers
+      case 'save_template': {
+        const template = await storage.saveTemplate({
           name: args.name as string,
-          description: args.description as string,
-          workspacePath
+          description: args.description as string | undefined,
+          placeholders: args.placeholders as TemplatePlaceholder[] | undefined,
+          project: args.project as TodoTemplate['project'],
+          phases: args.phases as TemplatePhase[] | undefined,
+          todos: args.todos as TemplateTodo[]
         });
         
         return {
           content: [
             {
               type: 'text',
-              text: `✅ Created project: ${project.name} (ID: ${project.id})`
+              text: `✅ Saved template "${template.name}": ${template.todos.length} todos, ${template.phases.length} phases` +
+                (template.placeholders.length > 0 ? `, placeholders: ${template.placeholders.map(p => p.name).join(', ')}` : '')
             }
           ]
         };
       }
 
-      case 'create_todo': {
-        const areas = args.areas as string[];
-        const primaryArea = args.primaryArea as string || areas[0]; // Default to first area
-        
-        const todo = await storage.createTodo({
-          projectId: args.projectId as string,
-          title: args.title as string,
-          description: args.description as string,
-          phaseId: args.phaseId as string,
-          dependsOn: args.dependsOn as string[],
-          estimatedDuration: args.estimatedDuration as number,
-          priority: args.priority as 'low' | 'medium' | 'high' | 'critical',
-          areas: areas as any[],
-          primaryArea: primaryArea as any,
-          notes: args.notes as string
-        });
+      case 'list_templates': {
+        const templates = await storage.listTemplates();
         
-        if (!todo) {
+        if (templates.length === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: '❌ Project not found or worker not registered'
+                text: 'No templates saved yet. Create one with save_template.'
               }
             ]
           };
         }
         
-        const depInfo = todo.dependsOn.length > 0 ? ` (depends on ${todo.dependsOn.length} todos)` : '';
-        const priorityInfo = todo.priority !== 'medium' ? ` [${todo.priority}]` : '';
-        const areaInfo = ` [${todo.primaryArea}${todo.areas.length > 1 ? ` +${todo.areas.length - 1} more` : ''}]`;
+        const templateList = templates.map(t =>
+          `📋 ${t.name}${t.project ? ' (project)' : ''}${t.description ? ` - ${t.description}` : ''}\n` +
+          `   ${t.todos.length} todos, ${t.phases.length} phases` +
+          (t.placeholders.length > 0 ? `\n   Placeholders: ${t.placeholders.map(p => p.name).join(', ')}` : '')
+        ).join('\n\n');
         
         return {
           content: [
             {
               type: 'text',
-              text: `✅ Created todo: ${todo.title} (ID: ${todo.id})${priorityInfo}${areaInfo}${depInfo}`
+              text: `Templates (${templates.length}):\n\n${templateList}`
             }
           ]
         };
       }
 
-      case 'update_todo': {
-        const todo = await storage.updateTodo({
-          id: args.id as string,
-          title: args.title as string,
-          description: args.description as string,
-          status: args.status as 'pending' | 'in-progress' | 'completed',
-          phaseId: args.phaseId as string,
-          dependsOn: args.dependsOn as string[],
-          estimatedDuration: args.estimatedDuration as number,
-          actualDuration: args.actualDuration as number,
-          priority: args.priority as 'low' | 'medium' | 'high' | 'critical',
-          notes: args.notes as string,
-          completionSummary: args.completionSummary as string
-        });
-        
-        if (!todo) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: '❌ Todo not found'
-              }
-            ]
-          };
-        }
-        
-        const depInfo = todo.dependsOn.length > 0 ? ` (${todo.dependsOn.length} deps)` : '';
-        const priorityInfo = todo.priority !== 'medium' ? ` [${todo.priority}]` : '';
+      case 'get_template': {
+        const template = await storage.getTemplate(args.name as string);
         
         return {
           content: [
             {
               type: 'text',
-              text: `✅ Updated todo: ${todo.title} (Status: ${todo.status})${priorityInfo}${depInfo}`
+              text: template ? JSON.stringify(template, null, 2) : '❌ Template not found'
             }
           ]
         };
       }
 
-      case 'delete_todo': {
-        const success = await storage.deleteTodo(args.todoId as string);
+      case 'delete_template': {
+        const deleted = await storage.deleteTemplate(args.name as string);
+        
         return {
           content: [
             {
               type: 'text',
-              text: success ? '✅ Todo deleted' : '❌ Todo not found'
+              text: deleted ? '✅ Template deleted' : '❌ Template not found'
             }
           ]
         };
       }
 
-      case 'claim_todo': {
-        const result = await storage.changeStatus(args.todoId as string, 'in-progress');
+      case 'instantiate_template': {
+        const result = await storage.instantiateTemplate({
+          template: args.template as string,
+          values: args.values as Record<string, string> | undefined,
+          projectId: args.projectId as string | undefined,
+          workspacePath: args.projectId ? undefined : (args.workspacePath as string) || process.cwd()
+        });
+        
+        const phaseInfo = result.createdPhases.length > 0
+          ? `, ${result.createdPhases.length} phases (${result.createdPhases.map(p => p.name).join(', ')})`
+          : '';
+        
         return {
           content: [
             {
               type: 'text',
-              text: result ? '✅ Todo claimed and marked in-progress' : '❌ Todo not found or cannot be claimed'
+              text: `✅ Instantiated template "${args.template}" in project ${result.project.name} (ID: ${result.project.id}): ` +
+                `${result.plan.createdTodos.length} todos${phaseInfo}\n\n` +
+                `ID mapping:\n${JSON.stringify(result.plan.idMap, null, 2)}`
             }
           ]
         };
       }
 
-      case 'finish_todo': {
-        const result = await storage.updateTodo({
-          id: args.todoId as string,
-          status: 'completed',
-          completionSummary: args.completionSummary as string
+      // Phase management handlers
+      case 'create_phase': {
+        const phase = await storage.createPhase({
+          projectId: args.projectId as string,
+          name: args.name as string,
+          description: args.description as string
         });
+        if (!phase) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: '❌ Project not found'
+              }
+            ]
+          };
+        }
+        
         return {
           content: [
             {
               type: 'text',
-              text: result ? '✅ Todo completed!' : '❌ Todo not found'
+              text: `✅ Created phase: ${phase.name} (ID: ${phase.id})`
             }
           ]
         };
       }
-
-      case 'unclaim_todo': {
-        const result = await storage.changeStatus(args.todoId as string, 'pending');
+      
+      case 'update_phase': {
+        const phase = await storage.updatePhase({
+          projectId: args.projectId as string,
+          phaseId: args.phaseId as string,
+          name: args.name as string | undefined,
+          description: args.description as string | undefined
+        });
+        if (!phase) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: '❌ Project or phase not found'
+              }
+            ]
+          };
+        }
+        
         return {
           content: [
             {
               type: 'text',
-              text: result ? '✅ Todo returned to pending status' : '❌ Todo not found'
+              text: `✅ Updated phase: ${phase.name}`
             }
           ]
         };
       }
-
-      case 'list_projects': {
-        let projects;
-        if (args.workspacePath) {
-          const workspace = await storage.getWorkspaceByPath(args.workspacePath as string);
-          projects = workspace ? workspace.projects : [];
-        } else {
-          projects = await storage.listProjects();
+      
+      case 'delete_phase': {
+        const success = await storage.deletePhase({
+          projectId: args.projectId as string,
+          phaseId: args.phaseId as string,
+          moveTodosToPhaseId: args.moveTodosToPhaseId as string | undefined
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: success ? '✅ Phase deleted' : '❌ Project or phase not found'
+            }
+          ]
+        };
+      }
+      
+      case 'move_todos_to_phase': {
+        const moved = await storage.moveTodosToPhase({
+          projectId: args.projectId as string,
+          todoIds: args.todoIds as string[],
+          phaseId: args.phaseId as string | undefined
+        });
+        if (!moved) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: '❌ Project not found'
+              }
+            ]
+          };
         }
         
+        const target = args.phaseId ? `phase ${args.phaseId}` : 'no phase';
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(projects, null, 2)
+              text: `✅ Moved ${moved.length} todo(s) to ${target}`
             }
           ]
         };
       }
-
-      case 'get_project': {
-        const project = await storage.getProject(args.projectId as string);
-        if (!project) {
+      
+      // Document handlers
+      case 'attach_document': {
+        const document = await storage.attachDocument({
+          projectId: args.projectId as string,
+          type: args.type as 'link' | 'file' | 'confluence',
+          title: args.title as string,
+          url: args.url as string,
+          filePath: args.filePath as string,
+          confluenceSpace: args.confluenceSpace as string,
+          confluencePage: args.confluencePage as string
+        });
+        if (!document) {
           return {
             content: [
               {
@@ -663,18 +2140,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(project, null, 2)
+              text: `✅ Attached document: ${document.title} (ID: ${document.id})`
             }
           ]
         };
       }
-
+      
+      case 'remove_document': {
+        const success = await storage.removeDocument(args.projectId as string, args.documentId as string);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: success ? '✅ Document removed' : '❌ Document not found'
+            }
+          ]
+        };
+      }
+      
       // Dependency management handlers
       case 'add_dependency': {
         const todo = await storage.addDependency({
           todoId: args.todoId as string,
           dependsOnId: args.dependsOnId as string
-        });
+        }, { expectedVersion: args.expectedVersion as number | undefined });
         
         if (!todo) {
           return {
@@ -691,7 +2180,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: 'text',
-              text: `✅ Added dependency: ${args.todoId} now depends on ${args.dependsOnId}`
+              text: `✅ Added dependency: ${args.todoId} now depends on ${args.dependsOnId} (version ${todo.version})`
             }
           ]
         };
@@ -749,13 +2238,52 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                    `📋 Ready to Work (${graph.readyToWork.length}):\n${readyWork || '   None'}\n\n` +
                    `🚫 Blocked (${graph.blocked.length}):\n${blockedWork || '   None'}\n\n` +
                    `⚠️ Cycles: ${graph.cycles.length}\n\n` +
-                   `🎯 Critical Path: ${criticalPath || 'None'}\n\n` +
+                   `🎯 Critical Path: ${criticalPath || 'None'}${graph.criticalPathDuration ? ` (${graph.criticalPathDuration} min remaining)` : ''}\n\n` +
                    `📊 Full Details:\n${JSON.stringify(graph, null, 2)}`
             }
           ]
         };
       }
       
+      case 'get_schedule_forecast': {
+        const forecast = await storage.getScheduleForecast(args.projectId as string, {
+          workers: args.workers as number | undefined,
+          hoursPerDay: args.hoursPerDay as number | undefined
+        });
+        if (!forecast) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: '❌ Project not found'
+              }
+            ]
+          };
+        }
+        
+        const criticalPath = forecast.criticalPath.map(t => t.title).join(' → ');
+        const accuracyInfo = forecast.historicalSampleSize > 0
+          ? `${forecast.estimateAccuracyRatio}x estimates (from ${forecast.historicalSampleSize} completed todos)`
+          : 'no history, using estimates as-is';
+        const unestimatedInfo = forecast.unestimatedTodos > 0
+          ? `\n⚠️ ${forecast.unestimatedTodos} remaining todos have no estimate and count as ${forecast.assumedMinutesPerUnestimatedTodo} min each`
+          : '';
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `📅 Schedule Forecast:\n\n` +
+                   `🏁 Projected completion: ${forecast.projectedCompletion.toISOString()}\n` +
+                   `⏱️ Forecast work: ${forecast.forecastMinutes} min with ${forecast.workers} worker(s)\n` +
+                   `📋 Remaining: ${forecast.remainingTodos} todos, ${forecast.remainingMinutes} min estimated\n` +
+                   `🎯 Critical path: ${forecast.criticalPathMinutes} min - ${criticalPath || 'None'}\n` +
+                   `📊 Accuracy: ${accuracyInfo}${unestimatedInfo}`
+            }
+          ]
+        };
+      }
+      
       case 'get_available_work': {
         const availableWork = await storage.getAvailableWork(args.projectId as string, args.workerId as string);
         
@@ -785,7 +2313,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
       
       case 'allocate_work': {
-        const allocation = await storage.allocateWork(args.projectId as string, args.workers as any[]);
+        const workers = parseAllocationWorkers(args.workers);
+        const allocation = await storage.allocateWork(
+          args.projectId as string,
+          workers,
+          args.strategy as AllocationStrategyName
+        );
         if (!allocation) {
           return {
             content: [
@@ -797,9 +2330,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
         
+        const reasons = new Map(allocation.decisions.map(d => [d.todoId, d.reason]));
         const assignments = allocation.assignedTodos.map(assignment => 
           `👤 ${assignment.workerId}: ${assignment.todos.length} todos\n` +
-          assignment.todos.map(t => `   • ${t.title} [${t.priority}]`).join('\n')
+          assignment.todos.map(t => `   • ${t.title} [${t.priority}]\n     ↳ ${reasons.get(t.id)}`).join('\n')
         ).join('\n\n');
         
         const conflicts = allocation.conflicts.map(c => `⚠️ ${c.todoId}: ${c.reason}`).join('\n');
@@ -809,8 +2343,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: 'text',
-              text: `🎯 Work Allocation Results:\n\n` +
-                   `${assignments}\n\n` +
+              text: `🎯 Work Allocation Results (${allocation.strategy}):\n\n` +
+                   `${assignments || '   No todos assigned'}\n\n` +
                    `🚫 Unassigned (${allocation.unassignedTodos.length}):\n${unassigned || '   None'}\n\n` +
                    `⚠️ Conflicts (${allocation.conflicts.length}):\n${conflicts || '   None'}`
             }
@@ -820,11 +2354,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       // Scoped audit queries
       case 'get_project_change_history': {
-        const history = await storage.getProjectChangeHistory(
-          args.projectId as string,
+        const project = await storage.getProject(args.projectId as string);
+        const history = project ? await storage.visibleChanges(project.workspaceId, await storage.getProjectChangeHistory(
+          project.id,
           args.entityType as string,
           args.entityId as string
-        );
+        )) : [];
         
         const limit = args.limit as number || 20;
         const limitedHistory = history.slice(0, limit);
@@ -861,11 +2396,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'get_workspace_changes': {
         const workspaceId = await getWorkspaceId(args.workspacePath as string);
-        const changes = await storage.getWorkspaceChanges(workspaceId, {
+        const changes = await storage.visibleChanges(workspaceId, await storage.getWorkspaceChanges(workspaceId, {
           workerId: args.workerId as string,
           limit: args.limit as number || 20,
           since: args.since ? new Date(args.since as string) : undefined
-        });
+        }));
         
         if (changes.length === 0) {
           return {
@@ -897,6 +2432,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'get_worker_activity': {
         const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const currentWorker = await storage.getCurrentWorker();
+        if (args.workerId && args.workerId !== currentWorker?.id) {
+          await storage.assertPermission('canViewAllChanges');
+        }
+        
         const activity = await storage.getWorkerActivity(workspaceId, args.workerId as string);
         
         if (!activity) {
@@ -950,6 +2490,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           .map(([worker, count]) => `   • ${worker}: ${count} changes`)
           .join('\n');
         
+        const todoCounts = Object.entries(stats.todosByStatus)
+          .filter(([, count]) => count > 0)
+          .map(([status, count]) => `   • ${status}: ${count}`)
+          .join('\n') || '   • none';
+        
         const topEventTypes = Object.entries(stats.eventsByType)
           .sort(([,a], [,b]) => b - a)
           .slice(0, 5)
@@ -965,6 +2510,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                    `   • Total events: ${stats.totalEvents}\n` +
                    `   • Oldest event: ${stats.oldestEvent?.toISOString() || 'N/A'}\n` +
                    `   • Newest event: ${stats.newestEvent?.toISOString() || 'N/A'}\n\n` +
+                   `📋 Todos:\n${todoCounts}\n\n` +
                    `👥 Top Workers:\n${topWorkers}\n\n` +
                    `🔄 Top Event Types:\n${topEventTypes}`
             }
@@ -996,6 +2542,89 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      // Checkpoints and rollback
+      case 'create_checkpoint': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const checkpoint = await storage.createCheckpoint({
+          workspaceId,
+          name: args.name as string,
+          description: args.description as string
+        });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `📸 Created checkpoint: ${checkpoint.name} (ID: ${checkpoint.id})\n` +
+                   `   Projects: ${checkpoint.dataSnapshot.projects.length}\n` +
+                   `   Last change: ${checkpoint.changeEventId || 'None'}`
+            }
+          ]
+        };
+      }
+
+      case 'list_checkpoints': {
+        const workspaceId = await getWorkspaceId(args.workspacePath as string);
+        const checkpoints = await storage.listCheckpoints({
+          workspaceId,
+          limit: args.limit as number || 20
+        });
+        
+        if (checkpoints.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No checkpoints found in this workspace'
+              }
+            ]
+          };
+        }
+        
+        const checkpointList = checkpoints.map(c => 
+          `📸 ${c.name} (ID: ${c.id})\n` +
+          `   Created: ${c.createdAt.toISOString()} by ${c.createdBy}\n` +
+          `   ${c.description || 'No description'}`
+        ).join('\n\n');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Checkpoints (${checkpoints.length}):\n\n${checkpointList}`
+            }
+          ]
+        };
+      }
+
+      case 'rollback_change':
+      case 'rollback_to_checkpoint': {
+        const result = name === 'rollback_change'
+          ? await storage.rollbackChange({
+              changeId: args.changeId as string,
+              reason: args.reason as string,
+              createCheckpoint: args.createCheckpoint as boolean
+            })
+          : await storage.rollbackToCheckpoint({
+              checkpointId: args.checkpointId as string,
+              reason: args.reason as string
+            });
+        
+        const conflicts = result.conflicts.map(c => `⚠️ ${c.description}\n   ${c.suggestedResolution || ''}`).join('\n');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${result.success ? '⏪' : '❌'} ${result.message}\n` +
+                   `   Changes rolled back: ${result.rolledBackChanges.length}` +
+                   (result.newCheckpointId ? `\n   Safety checkpoint: ${result.newCheckpointId}` : '') +
+                   (conflicts ? `\n\n${conflicts}` : '')
+            }
+          ]
+        };
+      }
+
       default:
         return {
           content: [
@@ -1009,7 +2638,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   } catch (error) {
     const errorMessage = error instanceof ValidationError
       ? `Validation Error: ${error.message}`
-      : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      : error instanceof AuthenticationError || error instanceof PermissionDeniedError
+        ? `Access denied: ${error.message}`
+      : error instanceof ConflictError
+        ? `Conflict: ${error.message}. ${error.conflicts.map(c => c.suggestedResolution).filter(Boolean).join('; ')}`
+        : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+    if (error instanceof ValidationError || error instanceof AuthenticationError ||
+        error instanceof PermissionDeniedError || error instanceof ConflictError) {
+      log.debug(`Tool ${name} refused: ${errorMessage}`, { tool: name });
+    } else {
+      log.error(`Tool ${name} failed`, { tool: name, error });
+    }
 
     return {
       content: [
@@ -1025,11 +2665,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  log.info('MCP server running on stdio', { pid: process.pid });
+  
+  // Recurring todos also come back while no web server is running
+  setInterval(() => {
+    storage.regenerateRecurringTodos().catch(error => log.error('Recurring todo check failed', { error }));
+  }, 60 * 1000).unref();
 }
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
-  console.log('\n🛑 Shutting down...');
+  log.info('Shutting down');
   await storage.shutdown();
   process.exit(0);
 });
@@ -1040,7 +2686,7 @@ process.on('SIGTERM', async () => {
 });
 
 main().catch(async (error) => {
-  console.error('Error starting server:', error);
+  log.error('Error starting server', { error });
   await storage.shutdown();
   process.exit(1);
 });
\ No newline at end of file
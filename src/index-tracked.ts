@@ -14,6 +14,9 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { TrackedTodosStorage } from './tracked-storage.js';
 import { ValidationError } from './validation.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('mcp-server');
 
 const storage = new TrackedTodosStorage();
 
@@ -603,7 +606,7 @@ async function main() {
   // Auto-register worker if not already registered
   const currentWorker = await storage.getCurrentWorker();
   if (!currentWorker) {
-    console.log('🤖 Auto-registering worker...');
+    log.info('Auto-registering worker');
     await storage.registerWorker({
       name: 'Claude-Assistant',
       capabilities: ['todos', 'projects', 'collaboration'],
@@ -617,7 +620,7 @@ async function main() {
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
-  console.log('\n🛑 Shutting down...');
+  log.info('Shutting down');
   await storage.shutdown();
   process.exit(0);
 });
@@ -628,7 +631,7 @@ process.on('SIGTERM', async () => {
 });
 
 main().catch(async (error) => {
-  console.error('Error starting server:', error);
+  log.error('Error starting server', { error });
   await storage.shutdown();
   process.exit(1);
 });
\ No newline at end of file
@@ -16,6 +16,9 @@ import { TodosStorageV2 } from './storage-v2.js';
 import { ValidationError } from './validation.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createLogger } from './logger.js';
+
+const log = createLogger('mcp-server');
 
 // Check if migration is needed
 async function checkMigration(): Promise<void> {
@@ -23,9 +26,7 @@ async function checkMigration(): Promise<void> {
   
   try {
     await fs.access(oldDataPath);
-    console.error('⚠️  Old data format detected!');
-    console.error('Please run migration first: npm run migrate');
-    console.error('Then update your MCP configuration to use todos-mcp-v2');
+    log.error('Old data format detected! Run the migration first (npm run migrate), then update your MCP configuration to use todos-mcp-v2', { oldDataPath });
     process.exit(1);
   } catch {
     // No old data file, good to go
@@ -544,4 +545,4 @@ async function main() {
   await server.connect(transport);
 }
 
-main().catch(console.error);
\ No newline at end of file
+main().catch(error => log.error('Error starting server', { error }));
\ No newline at end of file
@@ -0,0 +1,186 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+import { Project } from './types.js';
+import { ChangeEvent } from './tracking-types.js';
+import { WorkspaceMetadata } from './storage-v2.js';
+import { AuditLogKey, AuditLogStore, StorageAdapter, StoredAuditLog } from './storage-adapter.js';
+
+// Written to a temp file and renamed, so readers never see half a file
+async function writeJsonFile(filePath: string, data: unknown): Promise<number> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const json = JSON.stringify(data, null, 2);
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, json);
+  await fs.rename(tempPath, filePath);
+  return json.length;
+}
+
+// Null when the file doesn't exist
+async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid JSON in file: ${filePath}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * An audit log kept as one JSON file, audit-log.json in the given directory. Every
+ * change rewrites the file; archived events go to checkpoints/ next to it.
+ */
+export class JsonAuditLogFile implements AuditLogStore {
+  readonly location: string;
+
+  constructor(private dir: string, private key: AuditLogKey) {
+    this.location = path.join(dir, 'audit-log.json');
+  }
+
+  async read(): Promise<{ log: StoredAuditLog; size: number } | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.location, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const parsed = JSON.parse(data);
+    return {
+      log: {
+        events: parsed.events,
+        lastCompacted: new Date(parsed.lastCompacted || Date.now()),
+        retentionDays: parsed.retentionDays,
+        version: parsed.version || '1.0.0'
+      },
+      size: data.length
+    };
+  }
+
+  async append(log: StoredAuditLog): Promise<number> {
+    return this.write(log);
+  }
+
+  async write(log: StoredAuditLog): Promise<number> {
+    return writeJsonFile(this.location, {
+      ...(this.key.projectId ? { projectId: this.key.projectId } : {}),
+      workspaceId: this.key.workspaceId,
+      events: log.events,
+      lastCompacted: log.lastCompacted.toISOString(),
+      retentionDays: log.retentionDays,
+      version: log.version
+    });
+  }
+
+  async archive(events: ChangeEvent[]): Promise<string> {
+    const archivePath = path.join(this.dir, 'checkpoints', `audit-log-archive-${Date.now()}.json`);
+    await writeJsonFile(archivePath, events);
+    return archivePath;
+  }
+
+  async remove(): Promise<void> {
+    await fs.rm(this.location, { force: true });
+  }
+}
+
+/**
+ * The original layout: data/<workspaceId>/workspace.json, project-<projectId>.json and
+ * audit logs next to them. Writes replace whole files, so the project lock is what keeps
+ * concurrent writers from losing each other's changes.
+ */
+export class JsonStorageAdapter implements StorageAdapter {
+  readonly backend = 'json';
+  readonly location = path.join(getDataRoot(), 'data');
+
+  private getWorkspaceDir(workspaceId: string): string {
+    return path.join(this.location, workspaceId);
+  }
+
+  private getWorkspaceFile(workspaceId: string): string {
+    return path.join(this.getWorkspaceDir(workspaceId), 'workspace.json');
+  }
+
+  private getProjectFile(workspaceId: string, projectId: string): string {
+    return path.join(this.getWorkspaceDir(workspaceId), `project-${projectId}.json`);
+  }
+
+  async listWorkspaceIds(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.location, { withFileTypes: true });
+      return entries.filter(e => e.isDirectory()).map(e => e.name);
+    } catch {
+      return []; // Data directory doesn't exist yet
+    }
+  }
+
+  async readWorkspace(workspaceId: string): Promise<WorkspaceMetadata | null> {
+    return readJsonFile<WorkspaceMetadata>(this.getWorkspaceFile(workspaceId));
+  }
+
+  async writeWorkspace(workspace: WorkspaceMetadata): Promise<void> {
+    await writeJsonFile(this.getWorkspaceFile(workspace.id), workspace);
+  }
+
+  async listProjectIds(workspaceId: string): Promise<string[]> {
+    const files = await fs.readdir(this.getWorkspaceDir(workspaceId)).catch(() => [] as string[]);
+    return files
+      .filter(file => file.startsWith('project-') && file.endsWith('.json'))
+      .map(file => file.slice('project-'.length, -'.json'.length));
+  }
+
+  async projectExists(workspaceId: string, projectId: string): Promise<boolean> {
+    try {
+      await fs.access(this.getProjectFile(workspaceId, projectId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async readProject(workspaceId: string, projectId: string): Promise<Project | null> {
+    return readJsonFile<Project>(this.getProjectFile(workspaceId, projectId));
+  }
+
+  async writeProject(workspaceId: string, project: Project): Promise<void> {
+    await writeJsonFile(this.getProjectFile(workspaceId, project.id), project);
+  }
+
+  async deleteProject(workspaceId: string, projectId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.getProjectFile(workspaceId, projectId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  auditLog(key: AuditLogKey): AuditLogStore {
+    const dir = key.projectId
+      ? path.join(this.getWorkspaceDir(key.workspaceId), 'projects', key.projectId)
+      : this.getWorkspaceDir(key.workspaceId);
+    return new JsonAuditLogFile(dir, key);
+  }
+
+  async listAuditLogs(workspaceId: string): Promise<AuditLogKey[]> {
+    const keys: AuditLogKey[] = [];
+    const logs = [{ workspaceId, projectId: null }, ...(await fs.readdir(path.join(this.getWorkspaceDir(workspaceId), 'projects'))
+      .catch(() => [] as string[])).map(projectId => ({ workspaceId, projectId }))];
+
+    for (const key of logs) {
+      try {
+        await fs.access(this.auditLog(key).location);
+        keys.push(key);
+      } catch {
+        // Nothing logged
+      }
+    }
+    return keys;
+  }
+
+  close(): void {}
+}
@@ -0,0 +1,241 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+import * as os from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { ScopedWorkerRegistryManager } from './scoped-worker-registry.js';
+import { LockTimeoutError } from './tracking-types.js';
+
+// Contents of a lockfile, identifying the process that holds it
+export interface LockHolder {
+  token: string;
+  workerId: string;
+  sessionId: string;
+  hostname: string;
+  pid: number;
+  acquiredAt: string;
+}
+
+export interface LockAcquisition {
+  resource: string;
+  holder: LockHolder;
+  waitedMs: number;             // 0 when the lock was free on the first attempt
+  brokeStaleLock?: LockHolder; // Previous holder whose lock was reclaimed
+}
+
+export interface LockHooks {
+  onAcquired?: (acquisition: LockAcquisition) => Promise<void>;
+  onReleased?: (acquisition: LockAcquisition) => Promise<void>;
+}
+
+export interface LockOptions {
+  acquireTimeoutMs: number;  // How long to wait for a held lock
+  retryIntervalMs: number;   // Polling interval while waiting
+  staleLockAgeMs: number;    // Minimum lock age before a silent holder is considered dead
+}
+
+/**
+ * Advisory lockfiles for read-modify-write cycles on shared data files.
+ *
+ * Locks are reentrant within an async call chain, serialized between concurrent
+ * calls in the same process, and exclusive across processes via O_EXCL lockfiles.
+ */
+export class LockManager {
+  private baseDir = getDataRoot();
+  private dataDir = path.join(this.baseDir, 'data');
+
+  private heldLocks = new AsyncLocalStorage<Set<string>>();
+  private queues = new Map<string, Promise<void>>();
+  private options: LockOptions;
+
+  constructor(private workerRegistry: ScopedWorkerRegistryManager, options?: Partial<LockOptions>) {
+    this.options = {
+      acquireTimeoutMs: 15 * 1000,
+      retryIntervalMs: 50,
+      staleLockAgeMs: 10 * 1000,
+      ...options
+    };
+  }
+
+  private getLockFile(workspaceId: string, resource: string): string {
+    return path.join(this.dataDir, workspaceId, 'locks', `${resource}.lock`);
+  }
+
+  async withLock<T>(
+    workspaceId: string,
+    resource: string,
+    worker: { id: string; sessionId: string },
+    fn: () => Promise<T>,
+    hooks: LockHooks = {}
+  ): Promise<T> {
+    const key = `${workspaceId}/${resource}`;
+    const held = this.heldLocks.getStore();
+
+    // Reentrant: the caller already holds this lock
+    if (held?.has(key)) {
+      return fn();
+    }
+
+    return this.runExclusive(key, async () => {
+      const acquisition = await this.acquire(workspaceId, resource, worker);
+
+      try {
+        await hooks.onAcquired?.(acquisition);
+        return await this.heldLocks.run(new Set([...(held || []), key]), fn);
+      } finally {
+        try {
+          await hooks.onReleased?.(acquisition);
+        } finally {
+          await this.release(workspaceId, resource, acquisition.holder);
+        }
+      }
+    });
+  }
+
+  // Serializes callers in this process so only one of them competes for the lockfile
+  private async runExclusive<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) || Promise.resolve();
+    let done!: () => void;
+    const current = new Promise<void>(resolve => (done = resolve));
+    const tail = previous.then(() => current);
+    this.queues.set(key, tail);
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      done();
+      if (this.queues.get(key) === tail) {
+        this.queues.delete(key);
+      }
+    }
+  }
+
+  private async acquire(
+    workspaceId: string,
+    resource: string,
+    worker: { id: string; sessionId: string }
+  ): Promise<LockAcquisition> {
+    const lockFile = this.getLockFile(workspaceId, resource);
+    await fs.mkdir(path.dirname(lockFile), { recursive: true });
+
+    const startTime = Date.now();
+    let brokeStaleLock: LockHolder | undefined;
+    let lastHolder: LockHolder | null = null;
+    let contended = false;
+
+    while (true) {
+      const holder: LockHolder = {
+        token: uuidv4(),
+        workerId: worker.id,
+        sessionId: worker.sessionId,
+        hostname: os.hostname(),
+        pid: process.pid,
+        acquiredAt: new Date().toISOString()
+      };
+
+      try {
+        const handle = await fs.open(lockFile, 'wx');
+        try {
+          await handle.writeFile(JSON.stringify(holder, null, 2));
+        } finally {
+          await handle.close();
+        }
+
+        return { resource, holder, waitedMs: contended ? Date.now() - startTime : 0, brokeStaleLock };
+      } catch (error) {
+        if ((error as any).code !== 'EEXIST') throw error;
+        contended = true;
+      }
+
+      lastHolder = await this.readHolder(lockFile);
+
+      if (await this.isStale(workspaceId, lockFile, lastHolder)) {
+        if (await this.breakLock(lockFile, lastHolder)) {
+          brokeStaleLock = lastHolder || undefined;
+        }
+        continue;
+      }
+
+      if (Date.now() - startTime > this.options.acquireTimeoutMs) {
+        throw new LockTimeoutError(resource, lastHolder || undefined);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.retryIntervalMs));
+    }
+  }
+
+  private async release(workspaceId: string, resource: string, holder: LockHolder): Promise<void> {
+    const lockFile = this.getLockFile(workspaceId, resource);
+
+    // Never remove a lock that was reclaimed from us as stale
+    const current = await this.readHolder(lockFile);
+    if (current && current.token === holder.token) {
+      try {
+        await fs.unlink(lockFile);
+      } catch {
+        // Already removed
+      }
+    }
+  }
+
+  private async readHolder(lockFile: string): Promise<LockHolder | null> {
+    try {
+      return JSON.parse(await fs.readFile(lockFile, 'utf-8'));
+    } catch {
+      // Missing, or a holder is still writing it
+      return null;
+    }
+  }
+
+  private async isStale(workspaceId: string, lockFile: string, holder: LockHolder | null): Promise<boolean> {
+    let acquiredAt: number;
+
+    if (holder) {
+      // A dead process on this machine can never release its lock
+      if (holder.hostname === os.hostname() && !this.isProcessAlive(holder.pid)) {
+        return true;
+      }
+      acquiredAt = new Date(holder.acquiredAt).getTime();
+    } else {
+      try {
+        acquiredAt = (await fs.stat(lockFile)).mtimeMs;
+      } catch {
+        return false; // Lock vanished, retry immediately
+      }
+    }
+
+    if (Date.now() - acquiredAt < this.options.staleLockAgeMs) {
+      return false;
+    }
+
+    // Old lock: only reclaim it once its holder has stopped sending heartbeats
+    if (!holder) return true;
+    return !(await this.workerRegistry.isWorkerAlive(workspaceId, holder.workerId));
+  }
+
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return (error as any).code === 'EPERM';
+    }
+  }
+
+  private async breakLock(lockFile: string, staleHolder: LockHolder | null): Promise<boolean> {
+    // Re-check right before removal so a lock that was just re-acquired survives
+    const current = await this.readHolder(lockFile);
+    if (staleHolder && current?.token !== staleHolder.token) {
+      return false;
+    }
+
+    try {
+      await fs.unlink(lockFile);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
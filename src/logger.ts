@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+
+/**
+ * Leveled, structured logging for every process: the stdio MCP server, the web server
+ * and the CLI scripts.
+ *
+ * Nothing is ever written to stdout, which carries the MCP server's JSON-RPC stream.
+ * Entries go to stderr (as text or JSON lines) and, as JSON lines, to a size-rotated
+ * file in the data root's logs directory. More sinks can be added, e.g. to forward
+ * entries to an MCP client; every sink has its own level.
+ *
+ * Configured by the "logging" section of config.json in the data root, overridden by
+ * TODOS_MCP_LOG_LEVEL, TODOS_MCP_LOG_FORMAT and TODOS_MCP_LOG_FILE.
+ */
+
+// The syslog levels MCP uses, least severe first
+export type LogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export type LogFormat = 'text' | 'json';
+
+export interface LogEntry {
+  timestamp: Date;
+  level: LogLevel;
+  component: string;
+  message: string;
+  fields: Record<string, unknown>;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;        // Of stderr; the log file always holds JSON lines
+  file: boolean;            // Whether to write the log file
+  fileName: string;         // In the logs directory, without extension
+  maxFileSize: number;      // Bytes before the file is rotated
+  maxFiles: number;         // Rotated files kept next to the current one
+}
+
+export interface LogSink {
+  level: LogLevel;
+  write(entry: LogEntry): void;
+}
+
+const LOGS_DIR = path.join(getDataRoot(), 'logs');
+const CONFIG_FILE = path.join(getDataRoot(), 'config.json');
+
+const DEFAULT_OPTIONS: LoggerOptions = {
+  level: 'info',
+  format: 'text',
+  file: true,
+  fileName: 'todos-mcp',
+  maxFileSize: 5 * 1024 * 1024, // 5MB
+  maxFiles: 5
+};
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+const severity = (level: LogLevel) => LOG_LEVELS.indexOf(level);
+
+// Read synchronously, once: loggers are created while modules load
+function configuredOptions(): Partial<LoggerOptions> {
+  const options: Partial<LoggerOptions> = {};
+
+  try {
+    const { logging } = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+    if (isLogLevel(logging?.level)) options.level = logging.level;
+    if (logging?.format === 'text' || logging?.format === 'json') options.format = logging.format;
+    if (typeof logging?.file === 'boolean') options.file = logging.file;
+  } catch {
+    // No config file, or no logging section
+  }
+
+  const { TODOS_MCP_LOG_LEVEL: level, TODOS_MCP_LOG_FORMAT: format, TODOS_MCP_LOG_FILE: file } = process.env;
+  if (isLogLevel(level)) options.level = level;
+  if (format === 'text' || format === 'json') options.format = format;
+  if (file) options.file = !['0', 'false', 'off'].includes(file.toLowerCase());
+
+  return options;
+}
+
+// Errors don't serialize to JSON on their own
+export function serializeFields(fields: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [
+    key,
+    value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value
+  ]));
+}
+
+function toJson(entry: LogEntry): string {
+  return JSON.stringify({
+    timestamp: entry.timestamp.toISOString(),
+    level: entry.level,
+    component: entry.component,
+    message: entry.message,
+    ...serializeFields(entry.fields)
+  });
+}
+
+function toText(entry: LogEntry): string {
+  let line = `${entry.timestamp.toISOString()} ${entry.level.toUpperCase().padEnd(7)} [${entry.component}] ${entry.message}`;
+
+  const { error, ...fields } = entry.fields;
+  if (Object.keys(fields).length > 0) {
+    line += ` ${JSON.stringify(serializeFields(fields))}`;
+  }
+  if (error !== undefined) {
+    line += `\n${error instanceof Error ? error.stack || error.message : String(error)}`;
+  }
+  return line;
+}
+
+class StderrSink implements LogSink {
+  constructor(public level: LogLevel, private format: LogFormat) {}
+
+  write(entry: LogEntry): void {
+    process.stderr.write((this.format === 'json' ? toJson(entry) : toText(entry)) + '\n');
+  }
+}
+
+// Appends synchronously so entries logged right before an exit aren't lost. Other
+// processes may append to the same file; rotation only renames, so their entries
+// end up in the rotated file at worst.
+class RotatingFileSink implements LogSink {
+  private file: string;
+  private size: number | null = null;
+  private failed = false;
+
+  constructor(public level: LogLevel, private options: LoggerOptions) {
+    this.file = path.join(LOGS_DIR, `${options.fileName}.log`);
+  }
+
+  write(entry: LogEntry): void {
+    if (this.failed) return;
+
+    try {
+      const line = toJson(entry) + '\n';
+      if (this.size === null) {
+        fs.mkdirSync(LOGS_DIR, { recursive: true });
+        this.size = fs.existsSync(this.file) ? fs.statSync(this.file).size : 0;
+      }
+      if (this.size + line.length > this.options.maxFileSize && this.size > 0) {
+        this.rotate();
+      }
+
+      fs.appendFileSync(this.file, line);
+      this.size += Buffer.byteLength(line);
+    } catch (error) {
+      // Logging must never take the server down; report once and keep using stderr
+      this.failed = true;
+      process.stderr.write(`Logging to ${this.file} failed, continuing on stderr only: ${error}\n`);
+    }
+  }
+
+  // todos-mcp.log -> todos-mcp.1.log -> ... -> todos-mcp.<maxFiles>.log, which is dropped
+  private rotate(): void {
+    const rotated = (index: number) => path.join(LOGS_DIR, `${this.options.fileName}.${index}.log`);
+
+    fs.rmSync(rotated(this.options.maxFiles), { force: true });
+    for (let index = this.options.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(rotated(index))) fs.renameSync(rotated(index), rotated(index + 1));
+    }
+    if (this.options.maxFiles > 0) {
+      fs.renameSync(this.file, rotated(1));
+    } else {
+      fs.rmSync(this.file, { force: true });
+    }
+    this.size = 0;
+  }
+}
+
+let options: LoggerOptions = { ...DEFAULT_OPTIONS, ...configuredOptions() };
+let builtInSinks: LogSink[] = createBuiltInSinks();
+const extraSinks: LogSink[] = [];
+
+function createBuiltInSinks(): LogSink[] {
+  const sinks: LogSink[] = [new StderrSink(options.level, options.format)];
+  if (options.file) {
+    sinks.push(new RotatingFileSink(options.level, options));
+  }
+  return sinks;
+}
+
+// Entry points call this before logging, e.g. to name their log file
+export function configureLogger(overrides: Partial<LoggerOptions>): void {
+  options = { ...options, ...overrides };
+  builtInSinks = createBuiltInSinks();
+}
+
+export function getLoggerOptions(): LoggerOptions {
+  return { ...options };
+}
+
+// Returns a function that removes the sink again
+export function addLogSink(sink: LogSink): () => void {
+  extraSinks.push(sink);
+  return () => {
+    const index = extraSinks.indexOf(sink);
+    if (index !== -1) extraSinks.splice(index, 1);
+  };
+}
+
+export class Logger {
+  constructor(private component: string, private baseFields: Record<string, unknown> = {}) {}
+
+  // Logger whose entries all carry the given fields, e.g. a workspace ID
+  child(fields: Record<string, unknown>): Logger {
+    return new Logger(this.component, { ...this.baseFields, ...fields });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return [...builtInSinks, ...extraSinks].some(sink => severity(level) >= severity(sink.level));
+  }
+
+  log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    const entry: LogEntry = {
+      timestamp: new Date(),
+      level,
+      component: this.component,
+      message,
+      fields: { ...this.baseFields, ...fields }
+    };
+
+    for (const sink of [...builtInSinks, ...extraSinks]) {
+      if (severity(level) < severity(sink.level)) continue;
+      try {
+        sink.write(entry);
+      } catch {
+        // A failing sink must not break the caller or the other sinks
+      }
+    }
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log('warning', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+}
+
+export function createLogger(component: string): Logger {
+  return new Logger(component);
+}
@@ -0,0 +1,119 @@
+import { Project } from './types.js';
+import { ChangeEvent } from './tracking-types.js';
+import { WorkspaceMetadata } from './storage-v2.js';
+import { AuditLogKey, AuditLogStore, StorageAdapter, StoredAuditLog, assertNewerVersion } from './storage-adapter.js';
+
+// Round-trips through JSON like the other backends, so callers get the same shapes back
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function sizeOf(events: ChangeEvent[]): number {
+  return events.reduce((size, event) => size + JSON.stringify(event).length, 0);
+}
+
+class MemoryAuditLog implements AuditLogStore {
+  constructor(
+    readonly location: string,
+    private key: AuditLogKey,
+    private logs: Map<string, { key: AuditLogKey; log: StoredAuditLog }>,
+    private archives: Map<string, ChangeEvent[][]>
+  ) {}
+
+  async read(): Promise<{ log: StoredAuditLog; size: number } | null> {
+    const entry = this.logs.get(this.location);
+    if (!entry) return null;
+
+    const stored = copy(entry.log);
+    return { log: { ...stored, lastCompacted: new Date(stored.lastCompacted) }, size: sizeOf(stored.events) };
+  }
+
+  async append(log: StoredAuditLog): Promise<number> {
+    return this.write(log);
+  }
+
+  async write(log: StoredAuditLog): Promise<number> {
+    this.logs.set(this.location, { key: this.key, log: copy(log) });
+    return sizeOf(log.events);
+  }
+
+  async archive(events: ChangeEvent[]): Promise<string> {
+    const archives = this.archives.get(this.location) || [];
+    archives.push(copy(events));
+    this.archives.set(this.location, archives);
+    return `${this.location}#archive-${archives.length}`;
+  }
+
+  async remove(): Promise<void> {
+    this.logs.delete(this.location);
+  }
+}
+
+/**
+ * Keeps everything in this process and loses it on exit; for tests and throwaway servers.
+ * Writes are checked against the stored project version like the SQLite backend's.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly backend = 'memory';
+  readonly location = 'memory';
+
+  private workspaces = new Map<string, WorkspaceMetadata>();
+  private projects = new Map<string, Map<string, Project>>();   // workspaceId -> projectId -> project
+  private auditLogs = new Map<string, { key: AuditLogKey; log: StoredAuditLog }>();   // By location
+  private auditArchives = new Map<string, ChangeEvent[][]>();
+
+  private projectsOf(workspaceId: string): Map<string, Project> {
+    let projects = this.projects.get(workspaceId);
+    if (!projects) {
+      projects = new Map();
+      this.projects.set(workspaceId, projects);
+    }
+    return projects;
+  }
+
+  async listWorkspaceIds(): Promise<string[]> {
+    return [...this.workspaces.keys()];
+  }
+
+  async readWorkspace(workspaceId: string): Promise<WorkspaceMetadata | null> {
+    const workspace = this.workspaces.get(workspaceId);
+    return workspace ? copy(workspace) : null;
+  }
+
+  async writeWorkspace(workspace: WorkspaceMetadata): Promise<void> {
+    this.workspaces.set(workspace.id, copy(workspace));
+  }
+
+  async listProjectIds(workspaceId: string): Promise<string[]> {
+    return [...this.projectsOf(workspaceId).keys()];
+  }
+
+  async projectExists(workspaceId: string, projectId: string): Promise<boolean> {
+    return this.projectsOf(workspaceId).has(projectId);
+  }
+
+  async readProject(workspaceId: string, projectId: string): Promise<Project | null> {
+    const project = this.projectsOf(workspaceId).get(projectId);
+    return project ? copy(project) : null;
+  }
+
+  async writeProject(workspaceId: string, project: Project): Promise<void> {
+    const stored = this.projectsOf(workspaceId).get(project.id);
+    if (stored) assertNewerVersion(stored, project);
+    this.projectsOf(workspaceId).set(project.id, copy(project));
+  }
+
+  async deleteProject(workspaceId: string, projectId: string): Promise<boolean> {
+    return this.projectsOf(workspaceId).delete(projectId);
+  }
+
+  auditLog(key: AuditLogKey): AuditLogStore {
+    return new MemoryAuditLog(`memory:${key.workspaceId}/${key.projectId || 'workspace'}`, key, this.auditLogs, this.auditArchives);
+  }
+
+  async listAuditLogs(workspaceId: string): Promise<AuditLogKey[]> {
+    return [...this.auditLogs.values()].filter(({ key }) => key.workspaceId === workspaceId).map(({ key }) => ({ ...key }));
+  }
+
+  close(): void {}
+}
@@ -0,0 +1,39 @@
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Root directory of everything the servers store: config.json, data/, logs/, templates/
+ * and the indexes. ~/.claude-todos-mcp unless overridden, in order of precedence, by
+ *
+ *   --data-dir <dir> (or --data-dir=<dir>) on the command line
+ *   the TODOS_MCP_DATA_DIR environment variable
+ *
+ * Processes that should see each other's changes, like an MCP server and the web
+ * server, need the same root.
+ */
+
+let dataRoot: string | null = null;
+
+function expandHome(dir: string): string {
+  return dir === '~' || dir.startsWith(`~${path.sep}`) || dir.startsWith('~/')
+    ? path.join(os.homedir(), dir.slice(1))
+    : dir;
+}
+
+function dataDirArgument(argv: string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--data-dir') return argv[i + 1];
+    if (argv[i].startsWith('--data-dir=')) return argv[i].slice('--data-dir='.length);
+  }
+  return undefined;
+}
+
+export function getDataRoot(): string {
+  if (!dataRoot) {
+    const configured = dataDirArgument(process.argv.slice(2)) || process.env.TODOS_MCP_DATA_DIR;
+    dataRoot = configured
+      ? path.resolve(expandHome(configured))
+      : path.join(os.homedir(), '.claude-todos-mcp');
+  }
+  return dataRoot;
+}
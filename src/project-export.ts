@@ -0,0 +1,565 @@
+import { Project, TodoItem, Document, ApplicationArea, APPLICATION_AREAS, ProjectExportFormat, TODO_STATUSES } from './types.js';
+import { ValidationError } from './validation.js';
+
+// Todo as read from an export; ref and dependsOn use the exporting side's references
+// (todo IDs for JSON and CSV, titles for Markdown)
+export interface ImportedTodo {
+  ref: string;
+  title: string;
+  description?: string;
+  status: TodoItem['status'];
+  statusReason?: string;
+  phaseRef?: string;
+  priority: TodoItem['priority'];
+  areas: ApplicationArea[];
+  primaryArea: ApplicationArea;
+  estimatedDuration?: number;
+  actualDuration?: number;
+  notes?: string;
+  completionSummary?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  dependsOn: string[];
+}
+
+export interface ProjectImportData {
+  name: string;
+  description?: string;
+  phases: { ref: string; name: string; description?: string }[];
+  documents: Omit<Document, 'id' | 'createdAt'>[];
+  todos: ImportedTodo[];
+}
+
+export const EXPORT_FORMATS: Record<ProjectExportFormat, { contentType: string; extension: string }> = {
+  markdown: { contentType: 'text/markdown', extension: 'md' },
+  json: { contentType: 'application/json', extension: 'json' },
+  csv: { contentType: 'text/csv', extension: 'csv' }
+};
+
+const CSV_COLUMNS = [
+  'id', 'title', 'description', 'status', 'statusReason', 'priority', 'phase', 'primaryArea', 'areas',
+  'estimatedDuration', 'actualDuration', 'dependsOn', 'notes', 'completionSummary', 'startedAt', 'completedAt'
+];
+
+const STATUS_SECTIONS: { status: TodoItem['status']; icon: string; title: string }[] = [
+  { status: 'completed', icon: '✅', title: 'Completed' },
+  { status: 'in-progress', icon: '🔄', title: 'In progress' },
+  { status: 'pending', icon: '⏳', title: 'Pending' },
+  { status: 'blocked', icon: '🚧', title: 'Blocked' },
+  { status: 'failed', icon: '❌', title: 'Failed' },
+  { status: 'cancelled', icon: '🚫', title: 'Cancelled' }
+];
+
+function assertFormat(format: string): asserts format is ProjectExportFormat {
+  if (!(format in EXPORT_FORMATS)) {
+    throw new ValidationError(`Invalid export format. Must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  }
+}
+
+export function exportProject(project: Project, format: ProjectExportFormat): string {
+  assertFormat(format);
+
+  switch (format) {
+    case 'json':
+      // The whole project file, so nothing is lost on the way to another machine
+      return JSON.stringify({ format: 'todos-mcp-project', formatVersion: 1, exportedAt: new Date(), project }, null, 2);
+    case 'csv':
+      return exportCsv(project);
+    case 'markdown':
+      return exportMarkdown(project);
+  }
+}
+
+export function parseProjectExport(content: string, format: ProjectExportFormat): ProjectImportData {
+  assertFormat(format);
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    throw new ValidationError('Import content cannot be empty');
+  }
+
+  let data: ProjectImportData;
+  switch (format) {
+    case 'json':
+      data = parseJson(content);
+      break;
+    case 'csv':
+      data = parseCsv(content);
+      break;
+    case 'markdown':
+      data = parseMarkdown(content);
+      break;
+  }
+
+  if (data.todos.length === 0 && data.phases.length === 0 && data.documents.length === 0) {
+    throw new ValidationError(`No project data found in ${format} content`);
+  }
+  return data;
+}
+
+// Markdown - the layout of the web UI's "copy as Markdown", extended so it can be read back
+
+function exportMarkdown(project: Project): string {
+  const todos = [...project.todos].sort((a, b) => a.order - b.order);
+  const titles = new Map(project.todos.map(t => [t.id, t.title]));
+  const phases = new Map(project.phases.map(p => [p.id, p.name]));
+  const completed = todos.filter(t => t.status === 'completed').length;
+
+  let markdown = `# ${project.name}\n\n`;
+
+  if (project.description) {
+    markdown += `${project.description}\n\n`;
+  }
+
+  markdown += `*Exported on ${new Date().toISOString()}*\n\n`;
+
+  markdown += `## Project Overview\n\n`;
+  markdown += `- **Total Todos**: ${todos.length}\n`;
+  markdown += `- **Completed**: ${completed} (${todos.length > 0 ? Math.round(completed / todos.length * 100) : 0}%)\n`;
+  markdown += `- **In Progress**: ${todos.filter(t => t.status === 'in-progress').length}\n`;
+  markdown += `- **Pending**: ${todos.filter(t => t.status === 'pending').length}\n`;
+  for (const section of STATUS_SECTIONS.slice(3)) {
+    const count = todos.filter(t => t.status === section.status).length;
+    if (count > 0) markdown += `- **${section.title}**: ${count}\n`;
+  }
+  markdown += `\n`;
+
+  for (const section of STATUS_SECTIONS) {
+    const sectionTodos = todos.filter(t => t.status === section.status);
+    if (sectionTodos.length === 0) continue;
+
+    markdown += `## ${section.icon} ${section.title} (${sectionTodos.length})\n\n`;
+
+    sectionTodos.forEach((todo, index) => {
+      markdown += `### ${index + 1}. ${todo.title}\n\n`;
+
+      if (todo.description) {
+        markdown += `${todo.description}\n\n`;
+      }
+
+      markdown += `**Details:**\n`;
+      if (todo.statusReason) {
+        markdown += `- Reason: ${todo.statusReason}\n`;
+      }
+      markdown += `- Priority: ${todo.priority}\n`;
+      if (todo.phaseId && phases.has(todo.phaseId)) {
+        markdown += `- Phase: ${phases.get(todo.phaseId)}\n`;
+      }
+      markdown += `- Primary Area: ${todo.primaryArea}\n`;
+      markdown += `- Areas: ${todo.areas.join(', ')}\n`;
+      if (todo.estimatedDuration) {
+        markdown += `- Estimated Duration: ${todo.estimatedDuration} minutes\n`;
+      }
+      if (todo.actualDuration) {
+        markdown += `- Actual Duration: ${todo.actualDuration} minutes\n`;
+      }
+      if (todo.dependsOn.length > 0) {
+        markdown += `- Dependencies:\n`;
+        for (const depId of todo.dependsOn) {
+          markdown += `  - ${titles.get(depId) || `[Unknown: ${depId}]`}\n`;
+        }
+      }
+      if (todo.completedAt && todo.status === 'completed') {
+        markdown += `- Completed: ${new Date(todo.completedAt).toISOString()}\n`;
+      }
+      markdown += `\n`;
+
+      if (todo.notes) {
+        markdown += `**Notes:**\n${todo.notes}\n\n`;
+      }
+
+      if (todo.completionSummary && todo.status === 'completed') {
+        markdown += `**Completion Summary:**\n${todo.completionSummary}\n\n`;
+      }
+
+      markdown += `---\n\n`;
+    });
+  }
+
+  if (project.phases.length > 0) {
+    markdown += `## Phases\n\n`;
+    [...project.phases].sort((a, b) => a.order - b.order).forEach((phase, index) => {
+      markdown += `${index + 1}. **${phase.name}**${phase.description ? `: ${phase.description}` : ''}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (project.documents.length > 0) {
+    markdown += `## Documents\n\n`;
+    project.documents.forEach((doc, index) => {
+      const target = doc.type === 'confluence'
+        ? `${doc.confluenceSpace || ''}/${doc.confluencePage || ''}`
+        : doc.url || doc.filePath || '';
+      markdown += `${index + 1}. [${doc.title}](${target}) (${doc.type})\n`;
+    });
+    markdown += `\n`;
+  }
+
+  return markdown;
+}
+
+function parseMarkdown(content: string): ProjectImportData {
+  const data: ProjectImportData = { name: '', phases: [], documents: [], todos: [] };
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+
+  let section: 'intro' | 'overview' | 'todos' | 'phases' | 'documents' | 'other' = 'intro';
+  let status: TodoItem['status'] = 'pending';
+  let todo: ImportedTodo | null = null;
+  let block: 'description' | 'details' | 'dependencies' | 'notes' | 'completionSummary' = 'description';
+  const intro: string[] = [];
+  const text = { description: [] as string[], notes: [] as string[], completionSummary: [] as string[] };
+
+  const finishTodo = () => {
+    if (!todo) return;
+    todo.description = text.description.join('\n').trim() || undefined;
+    todo.notes = text.notes.join('\n').trim() || undefined;
+    todo.completionSummary = text.completionSummary.join('\n').trim() || undefined;
+    data.todos.push(todo);
+    todo = null;
+  };
+
+  for (const line of lines) {
+    if (!data.name && line.startsWith('# ')) {
+      data.name = line.slice(2).trim();
+      continue;
+    }
+
+    if (line.startsWith('## ')) {
+      finishTodo();
+      const heading = line.slice(3).trim();
+      const statusSection = STATUS_SECTIONS.find(s => new RegExp(`^\\S+ ${s.title} \\(\\d+\\)$`).test(heading));
+
+      if (statusSection) {
+        section = 'todos';
+        status = statusSection.status;
+      } else {
+        section = heading === 'Project Overview' ? 'overview'
+          : heading === 'Phases' ? 'phases'
+          : heading === 'Documents' ? 'documents'
+          : 'other';
+      }
+      continue;
+    }
+
+    if (section === 'intro') {
+      // Skip the export timestamp line
+      if (!/^\*(Exported|Generated) on .*\*$/.test(line.trim())) intro.push(line);
+      continue;
+    }
+
+    if (section === 'phases') {
+      const match = line.match(/^\d+\. \*\*(.+?)\*\*(?:: (.*))?$/);
+      if (match) {
+        data.phases.push({ ref: match[1], name: match[1], description: match[2] });
+      }
+      continue;
+    }
+
+    if (section === 'documents') {
+      const match = line.match(/^\d+\. \[(.+?)\]\((.*?)\)(?: \((link|file|confluence)\))?$/);
+      if (match) {
+        const [, title, target, type = 'link'] = match;
+        if (type === 'confluence') {
+          const [confluenceSpace, confluencePage] = target.split('/');
+          data.documents.push({ type, title, confluenceSpace: confluenceSpace || undefined, confluencePage: confluencePage || undefined });
+        } else {
+          data.documents.push(type === 'file'
+            ? { type, title, filePath: target }
+            : { type: 'link', title, url: target });
+        }
+      }
+      continue;
+    }
+
+    if (section !== 'todos') continue;
+
+    const heading = line.match(/^### \d+\. (.+)$/);
+    if (heading) {
+      finishTodo();
+      todo = {
+        ref: heading[1].trim(),
+        title: heading[1].trim(),
+        status,
+        priority: 'medium',
+        areas: [],
+        primaryArea: 'backend',
+        dependsOn: []
+      };
+      text.description = [];
+      text.notes = [];
+      text.completionSummary = [];
+      block = 'description';
+      continue;
+    }
+
+    if (!todo) continue;
+    const current: ImportedTodo = todo;
+
+    if (line.trim() === '---') {
+      finishTodo();
+      continue;
+    }
+    if (line === '**Details:**') {
+      block = 'details';
+      continue;
+    }
+    if (line === '**Notes:**') {
+      block = 'notes';
+      continue;
+    }
+    if (line === '**Completion Summary:**') {
+      block = 'completionSummary';
+      continue;
+    }
+
+    if (block === 'description' || block === 'notes' || block === 'completionSummary') {
+      text[block].push(line);
+      continue;
+    }
+
+    const dependency = line.match(/^\s+- (.+)$/);
+    if (block === 'dependencies' && dependency) {
+      current.dependsOn.push(dependency[1].trim());
+      continue;
+    }
+
+    const detail = line.match(/^- ([^:]+):\s*(.*)$/);
+    if (!detail) continue;
+
+    block = 'details';
+    const [, key, value] = detail;
+    switch (key) {
+      case 'Reason':
+        current.statusReason = value || undefined;
+        break;
+      case 'Priority':
+        current.priority = value as TodoItem['priority'];
+        break;
+      case 'Phase':
+        current.phaseRef = value;
+        break;
+      case 'Primary Area':
+        current.primaryArea = value as ApplicationArea;
+        break;
+      case 'Areas':
+        current.areas = value.split(',').map(a => a.trim()).filter(Boolean) as ApplicationArea[];
+        break;
+      case 'Estimated Duration':
+        current.estimatedDuration = parseInt(value) || undefined;
+        break;
+      case 'Actual Duration':
+        current.actualDuration = parseInt(value) || undefined;
+        break;
+      case 'Dependencies':
+        block = 'dependencies';
+        // The web UI lists dependencies inline
+        current.dependsOn.push(...value.split(',').map(d => d.trim()).filter(Boolean));
+        break;
+      case 'Completed':
+        current.completedAt = parseDate(value);
+        break;
+    }
+  }
+  finishTodo();
+
+  data.description = intro.join('\n').trim() || undefined;
+
+  for (const imported of data.todos) {
+    if (imported.areas.length === 0) imported.areas = [imported.primaryArea];
+    validateImportedTodo(imported);
+  }
+  return data;
+}
+
+// JSON - either an export envelope or a raw project file
+
+function parseJson(content: string): ProjectImportData {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const project: Project = parsed?.project ?? parsed;
+  if (!project || !Array.isArray(project.todos)) {
+    throw new ValidationError('JSON content is not a project export');
+  }
+
+  const todos = [...project.todos].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+  return {
+    name: project.name,
+    description: project.description,
+    phases: [...(project.phases || [])]
+      .sort((a, b) => a.order - b.order)
+      .map(p => ({ ref: p.id, name: p.name, description: p.description })),
+    documents: (project.documents || []).map(({ id, createdAt, ...doc }) => doc),
+    todos: todos.map(todo => {
+      const imported: ImportedTodo = {
+        ref: todo.id,
+        title: todo.title,
+        description: todo.description,
+        status: todo.status,
+        statusReason: todo.statusReason,
+        phaseRef: todo.phaseId,
+        priority: todo.priority || 'medium',
+        areas: todo.areas?.length ? todo.areas : [todo.primaryArea],
+        primaryArea: todo.primaryArea || todo.areas?.[0],
+        estimatedDuration: todo.estimatedDuration,
+        actualDuration: todo.actualDuration,
+        notes: todo.notes,
+        completionSummary: todo.completionSummary,
+        startedAt: parseDate(todo.startedAt),
+        completedAt: parseDate(todo.completedAt),
+        dependsOn: todo.dependsOn || []
+      };
+      validateImportedTodo(imported);
+      return imported;
+    })
+  };
+}
+
+// CSV - one row per todo; phases are named, multi-valued cells are separated by ";"
+
+function exportCsv(project: Project): string {
+  const phases = new Map(project.phases.map(p => [p.id, p.name]));
+  const rows = [...project.todos]
+    .sort((a, b) => a.order - b.order)
+    .map(todo => [
+      todo.id,
+      todo.title,
+      todo.description,
+      todo.status,
+      todo.statusReason,
+      todo.priority,
+      todo.phaseId ? phases.get(todo.phaseId) : undefined,
+      todo.primaryArea,
+      todo.areas.join(';'),
+      todo.estimatedDuration,
+      todo.actualDuration,
+      todo.dependsOn.join(';'),
+      todo.notes,
+      todo.completionSummary,
+      todo.startedAt ? new Date(todo.startedAt).toISOString() : undefined,
+      todo.completedAt ? new Date(todo.completedAt).toISOString() : undefined
+    ]);
+
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180: quoted cells may contain commas, doubled quotes and line breaks
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('Invalid CSV: unterminated quoted cell');
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+function parseCsv(content: string): ProjectImportData {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header || !header.includes('title')) {
+    throw new ValidationError('CSV content must have a header row with a "title" column');
+  }
+
+  const phases: ProjectImportData['phases'] = [];
+  const list = (value?: string) => (value || '').split(';').map(v => v.trim()).filter(Boolean);
+
+  const todos = rows.map((cells, index) => {
+    const row: Record<string, string | undefined> = {};
+    header.forEach((column, i) => row[column.trim()] = cells[i]?.trim() ? cells[i] : undefined);
+
+    if (row.phase && !phases.some(p => p.ref === row.phase)) {
+      phases.push({ ref: row.phase, name: row.phase });
+    }
+
+    const areas = list(row.areas) as ApplicationArea[];
+    const imported: ImportedTodo = {
+      ref: row.id || `row-${index + 2}`,
+      title: row.title || '',
+      description: row.description,
+      status: (row.status as TodoItem['status']) || 'pending',
+      statusReason: row.statusReason,
+      phaseRef: row.phase,
+      priority: (row.priority as TodoItem['priority']) || 'medium',
+      areas: areas.length > 0 ? areas : [row.primaryArea as ApplicationArea],
+      primaryArea: (row.primaryArea as ApplicationArea) || areas[0],
+      estimatedDuration: row.estimatedDuration ? parseInt(row.estimatedDuration) : undefined,
+      actualDuration: row.actualDuration ? parseInt(row.actualDuration) : undefined,
+      notes: row.notes,
+      completionSummary: row.completionSummary,
+      startedAt: parseDate(row.startedAt),
+      completedAt: parseDate(row.completedAt),
+      dependsOn: list(row.dependsOn)
+    };
+    validateImportedTodo(imported, `row ${index + 2}`);
+    return imported;
+  });
+
+  return { name: '', phases, documents: [], todos };
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function validateImportedTodo(todo: ImportedTodo, location = `todo "${todo.title}"`): void {
+  if (!todo.title || todo.title.trim().length === 0) {
+    throw new ValidationError(`Todo title cannot be empty (${location})`);
+  }
+  if (!TODO_STATUSES.includes(todo.status)) {
+    throw new ValidationError(`Invalid status "${todo.status}" (${location})`);
+  }
+  if (!['low', 'medium', 'high', 'critical'].includes(todo.priority)) {
+    throw new ValidationError(`Invalid priority "${todo.priority}" (${location})`);
+  }
+
+  const unknownArea = [...todo.areas, todo.primaryArea].find(area => !area || !(area in APPLICATION_AREAS));
+  if (unknownArea !== undefined) {
+    throw new ValidationError(`Invalid area "${unknownArea || ''}" (${location})`);
+  }
+}
@@ -0,0 +1,135 @@
+import { ValidationError } from './validation.js';
+
+/**
+ * Cron-like rules for recurring todos, in local time.
+ *
+ *   minute hour day-of-month month day-of-week
+ *   0 9 * * 1         every Monday at 09:00
+ *   30 8 1,15 * *     on the 1st and 15th at 08:30
+ *   0 17 * * 1-5      weekdays at 17:00
+ *   @daily @weekly @monthly
+ *
+ * Fields take "*", numbers, ranges ("1-5"), lists ("1,15") and steps after "*" or a
+ * range ("0-30/10").
+ * As in cron, a rule restricting both day fields matches days that satisfy either.
+ */
+
+export interface RecurrenceRule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;       // 1-12
+  daysOfWeek: Set<number>;   // 0-6, Sunday is 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *'
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }   // 7 is Sunday too
+];
+
+// No rule waits longer than this for its next match (e.g. "0 0 29 2 *")
+const MAX_SEARCH_YEARS = 8;
+
+function parseField(field: string, { name, min, max }: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new ValidationError(`Invalid ${name} in recurrence rule: "${part}"`);
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : Number(start);
+    const to = range === '*' ? max : end !== undefined ? Number(end) : step ? max : from;
+    const increment = step ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new ValidationError(`Invalid ${name} in recurrence rule: "${part}" (allowed: ${min}-${max})`);
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseRecurrence(expression: string): RecurrenceRule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ValidationError(
+      `Recurrence rule must have 5 fields (minute hour day-of-month month day-of-week) or be one of ${Object.keys(ALIASES).join(', ')}: "${expression}"`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+}
+
+export function validateRecurrence(expression: string): void {
+  nextOccurrence(expression, new Date());
+}
+
+function matchesDay(rule: RecurrenceRule, date: Date): boolean {
+  const dayOfMonth = rule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = rule.daysOfWeek.has(date.getDay());
+
+  if (rule.anyDayOfMonth) return dayOfWeek;
+  if (rule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+// First time matching the rule strictly after the given time
+export function nextOccurrence(expression: string, after: Date): Date {
+  const rule = parseRecurrence(expression);
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that can't match before checking minutes
+  while (candidate <= limit) {
+    if (!rule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0);
+    } else if (!matchesDay(rule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0);
+    } else if (!rule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0);
+    } else if (!rule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1);
+    } else {
+      return candidate;
+    }
+  }
+
+  throw new ValidationError(`Recurrence rule never matches: "${expression}"`);
+}
@@ -0,0 +1,221 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Project, TodoItem } from './types.js';
+
+/**
+ * Repo mode: a workspace's projects kept in a .todos directory inside the workspace,
+ * so plans can be committed and reviewed alongside the code.
+ *
+ *   .todos/todos.json                                 settings, their presence turns the mode on
+ *   .todos/projects/<projectId>/project.json          the project without its todos
+ *   .todos/projects/<projectId>/todos/<todoId>.json   one file per todo
+ *   .todos/audit/<projectId>/audit-log.json           only with auditLogs enabled
+ *
+ * The files are laid out for merging: keys are sorted, every todo has its own file,
+ * unchanged files are never rewritten and nothing machine-specific is committed. The
+ * workspace ID, project version and update time, and which worker claimed each todo,
+ * stay in the data root.
+ */
+
+export const REPO_DIR = '.todos';
+
+export type WorkspaceStorageMode = 'data' | 'repo';
+
+export interface RepoSettings {
+  version: number;
+  auditLogs: boolean;    // Keep project audit logs in .todos/audit instead of the data root
+}
+
+// Project fields that differ between clones and would conflict on every write
+interface RepoProjectState {
+  version: number;
+  updatedAt: Date;
+  claims?: Record<string, TodoClaim>;  // Todo ID -> claim; worker IDs only mean something on this machine
+}
+
+type TodoClaim = Pick<TodoItem, 'claimedBy' | 'claimedAt'>;
+
+const SETTINGS_FILE = 'todos.json';
+
+// Sorted keys, two-space indent and a trailing newline, so equal data is equal text
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => val && typeof val === 'object' && !Array.isArray(val)
+    ? Object.fromEntries(Object.keys(val).sort().map(key => [key, val[key]]))
+    : val, 2) + '\n';
+}
+
+// Writes only when the content changed, through a temp file so readers never see half a file
+async function writeIfChanged(filePath: string, content: string): Promise<void> {
+  try {
+    if (await fs.readFile(filePath, 'utf-8') === content) return;
+  } catch {
+    // New file
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempFile = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, content);
+  await fs.rename(tempFile, filePath);
+}
+
+// Null when the workspace is not in repo mode
+export async function readRepoSettings(workspacePath: string): Promise<RepoSettings | null> {
+  try {
+    const settings = JSON.parse(await fs.readFile(path.join(workspacePath, REPO_DIR, SETTINGS_FILE), 'utf-8'));
+    return { version: 1, auditLogs: false, ...settings };
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'ENOTDIR') return null;
+    throw new Error(`Invalid ${REPO_DIR}/${SETTINGS_FILE} in ${workspacePath}: ${error.message}`);
+  }
+}
+
+export async function writeRepoSettings(workspacePath: string, settings: RepoSettings): Promise<void> {
+  await writeIfChanged(path.join(workspacePath, REPO_DIR, SETTINGS_FILE), stableStringify(settings));
+}
+
+export async function removeRepoSettings(workspacePath: string): Promise<void> {
+  await fs.rm(path.join(workspacePath, REPO_DIR, SETTINGS_FILE), { force: true });
+}
+
+// Leaves the directory alone when anything else is still in it
+export async function removeEmptyRepoDir(workspacePath: string): Promise<void> {
+  await fs.rmdir(path.join(workspacePath, REPO_DIR, 'projects')).catch(() => {});
+  await fs.rmdir(path.join(workspacePath, REPO_DIR, 'audit')).catch(() => {});
+  await fs.rmdir(path.join(workspacePath, REPO_DIR)).catch(() => {});
+}
+
+/**
+ * Reads and writes the projects of one repo-mode workspace. Callers hold the project
+ * lock around writes, as they do for project files in the data root.
+ */
+export class RepoProjectStore {
+  constructor(
+    readonly workspacePath: string,
+    private workspaceId: string,
+    private stateDir: string,     // Holds the machine-specific part of each project
+    readonly settings: RepoSettings
+  ) {}
+
+  private get projectsDir(): string {
+    return path.join(this.workspacePath, REPO_DIR, 'projects');
+  }
+
+  private getProjectDir(projectId: string): string {
+    return path.join(this.projectsDir, projectId);
+  }
+
+  private getStateFile(projectId: string): string {
+    return path.join(this.stateDir, `${projectId}.json`);
+  }
+
+  get auditDir(): string {
+    return path.join(this.workspacePath, REPO_DIR, 'audit');
+  }
+
+  getAuditDir(projectId: string): string {
+    return path.join(this.auditDir, projectId);
+  }
+
+  async listProjectIds(): Promise<string[]> {
+    const ids: string[] = [];
+
+    try {
+      for (const entry of await fs.readdir(this.projectsDir, { withFileTypes: true })) {
+        if (entry.isDirectory() && await this.exists(entry.name)) {
+          ids.push(entry.name);
+        }
+      }
+    } catch {
+      // No projects yet
+    }
+
+    return ids.sort();
+  }
+
+  async exists(projectId: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.getProjectDir(projectId), 'project.json'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async read(projectId: string): Promise<Project> {
+    const projectDir = this.getProjectDir(projectId);
+    const projectFile = path.join(projectDir, 'project.json');
+
+    let stored: Omit<Project, 'todos' | 'workspaceId' | 'version' | 'updatedAt'>;
+    try {
+      stored = JSON.parse(await fs.readFile(projectFile, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`File not found: ${projectFile}`);
+      }
+      throw new Error(`Invalid JSON in file: ${projectFile}`);
+    }
+
+    const todos: TodoItem[] = [];
+    const todosDir = path.join(projectDir, 'todos');
+    const files = await fs.readdir(todosDir).catch(() => [] as string[]);
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        todos.push(JSON.parse(await fs.readFile(path.join(todosDir, file), 'utf-8')));
+      } catch {
+        // Removed while reading, or an unresolved merge conflict; the rest stays usable
+      }
+    }
+    todos.sort((a, b) => a.order - b.order || String(a.createdAt).localeCompare(String(b.createdAt)) || a.id.localeCompare(b.id));
+
+    // A fresh clone has no state yet, and no claims; its todos are the best guess at the
+    // last change
+    let state: RepoProjectState;
+    try {
+      state = JSON.parse(await fs.readFile(this.getStateFile(projectId), 'utf-8'));
+    } catch {
+      state = {
+        version: 0,
+        updatedAt: todos.map(t => t.updatedAt).reduce((latest, d) => String(d) > String(latest) ? d : latest, stored.createdAt)
+      };
+    }
+
+    return {
+      ...stored,
+      workspaceId: this.workspaceId,
+      todos: todos.map(todo => ({ ...todo, ...state.claims?.[todo.id] })),
+      version: state.version,
+      updatedAt: state.updatedAt
+    };
+  }
+
+  async write(project: Project): Promise<void> {
+    const { todos, workspaceId, version, updatedAt, ...stored } = project;
+    const projectDir = this.getProjectDir(project.id);
+    const todosDir = path.join(projectDir, 'todos');
+
+    const claims: Record<string, TodoClaim> = {};
+    for (const { claimedBy, claimedAt, ...todo } of todos) {
+      if (claimedBy) claims[todo.id] = { claimedBy, claimedAt };
+      await writeIfChanged(path.join(todosDir, `${todo.id}.json`), stableStringify(todo));
+    }
+
+    const current = new Set(todos.map(t => `${t.id}.json`));
+    for (const file of await fs.readdir(todosDir).catch(() => [] as string[])) {
+      if (file.endsWith('.json') && !current.has(file)) {
+        await fs.rm(path.join(todosDir, file), { force: true });
+      }
+    }
+
+    // Written last: the project only shows up in listings once its todos are in place
+    await writeIfChanged(path.join(projectDir, 'project.json'), stableStringify(stored));
+
+    const state: RepoProjectState = { version, updatedAt, claims };
+    await fs.mkdir(this.stateDir, { recursive: true });
+    await fs.writeFile(this.getStateFile(project.id), JSON.stringify(state, null, 2));
+  }
+
+  async remove(projectId: string): Promise<void> {
+    await fs.rm(this.getProjectDir(projectId), { recursive: true, force: true });
+    await fs.rm(this.getStateFile(projectId), { force: true });
+  }
+}
@@ -1,6 +1,3 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import * as os from 'os';
 import { v4 as uuidv4 } from 'uuid';
 import {
   ChangeEvent,
@@ -20,6 +17,11 @@ import {
   EntityType,
   ActionType
 } from './tracking-types.js';
+import { DEFAULT_TRACKING_CONFIG } from './config.js';
+import { AuditLogStore } from './storage-adapter.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('change-logger');
 
 // Project-scoped audit log
 interface ProjectAuditLog {
@@ -43,110 +45,61 @@ interface WorkspaceAuditLog {
 export class ProjectChangeLogger {
   private projectId: string;
   private workspaceId: string;
-  private baseDir = path.join(os.homedir(), '.claude-todos-mcp');
-  private dataDir = path.join(this.baseDir, 'data');
   private config: TrackingConfig;
   private auditLogCache: ProjectAuditLog | null = null;
+  private auditLogSize = 0;
+  
+  // Holds the audit log and its archives, in the storage backend or, for workspaces in
+  // repo mode, possibly in .todos/audit
+  readonly store: AuditLogStore;
   
-  constructor(projectId: string, workspaceId: string, config?: Partial<TrackingConfig>) {
+  constructor(projectId: string, workspaceId: string, store: AuditLogStore, config?: Partial<TrackingConfig>) {
     this.projectId = projectId;
     this.workspaceId = workspaceId;
-    this.config = {
-      enabled: true,
-      maxEventsPerFile: 10000,
-      retentionDays: 90,
-      compactionInterval: 24 * 60 * 60 * 1000, // 24 hours
-      maxFileSize: 10 * 1024 * 1024, // 10MB
-      enableRealTimeSync: true,
-      enableConflictDetection: true,
-      workerTimeoutMs: 5 * 60 * 1000, // 5 minutes
-      heartbeatIntervalMs: 60 * 1000, // 60 seconds
-      ...config
-    };
-  }
-  
-  private async ensureDirectories(): Promise<void> {
-    const projectDir = this.getProjectDir();
-    const checkpointsDir = path.join(projectDir, 'checkpoints');
-    await fs.mkdir(projectDir, { recursive: true });
-    await fs.mkdir(checkpointsDir, { recursive: true });
-  }
-  
-  private getProjectDir(): string {
-    return path.join(this.dataDir, this.workspaceId, 'projects', this.projectId);
-  }
-  
-  private getProjectAuditLogPath(): string {
-    return path.join(this.getProjectDir(), 'audit-log.json');
+    this.store = store;
+    this.config = { ...DEFAULT_TRACKING_CONFIG, ...config };
   }
   
   private async loadProjectAuditLog(): Promise<ProjectAuditLog> {
     if (this.auditLogCache) return this.auditLogCache;
     
-    const logPath = this.getProjectAuditLogPath();
-    
+    let stored;
     try {
-      const data = await fs.readFile(logPath, 'utf-8');
-      const parsed = JSON.parse(data);
-      
-      const auditLog: ProjectAuditLog = {
+      stored = await this.store.read();
+    } catch (error) {
+      throw new AuditLogCorruptError(this.projectId, (error as Error).message);
+    }
+    
+    if (!stored) {
+      // Create new audit log
+      this.auditLogCache = {
         projectId: this.projectId,
         workspaceId: this.workspaceId,
-        events: parsed.events.map((e: any) => ({
-          ...e,
-          timestamp: new Date(e.timestamp),
-          relatedChanges: e.relatedChanges || [],
-          conflictsWith: e.conflictsWith || [],
-          changes: e.changes || []
-        })),
-        lastCompacted: new Date(parsed.lastCompacted || Date.now()),
-        retentionDays: parsed.retentionDays || this.config.retentionDays,
-        version: parsed.version || '1.0.0'
+        events: [],
+        lastCompacted: new Date(),
+        retentionDays: this.config.retentionDays,
+        version: '1.0.0'
       };
-      
-      this.auditLogCache = auditLog;
-      return auditLog;
-    } catch (error) {
-      if ((error as any).code === 'ENOENT') {
-        // Create new audit log
-        const auditLog: ProjectAuditLog = {
-          projectId: this.projectId,
-          workspaceId: this.workspaceId,
-          events: [],
-          lastCompacted: new Date(),
-          retentionDays: this.config.retentionDays,
-          version: '1.0.0'
-        };
-        
-        this.auditLogCache = auditLog;
-        return auditLog;
-      } else {
-        throw new AuditLogCorruptError(this.projectId, (error as Error).message);
-      }
+      return this.auditLogCache;
     }
-  }
-  
-  private async saveProjectAuditLog(auditLog: ProjectAuditLog): Promise<void> {
-    if (!this.config.enabled) return;
     
-    await this.ensureDirectories();
-    
-    const logPath = this.getProjectAuditLogPath();
-    const tempPath = `${logPath}.tmp`;
-    
-    const data = {
-      projectId: auditLog.projectId,
-      workspaceId: auditLog.workspaceId,
-      events: auditLog.events,
-      lastCompacted: auditLog.lastCompacted.toISOString(),
-      retentionDays: auditLog.retentionDays,
-      version: auditLog.version
+    this.auditLogSize = stored.size;
+    this.auditLogCache = {
+      projectId: this.projectId,
+      workspaceId: this.workspaceId,
+      events: stored.log.events.map((e: any) => ({
+        ...e,
+        timestamp: new Date(e.timestamp),
+        relatedChanges: e.relatedChanges || [],
+        conflictsWith: e.conflictsWith || [],
+        changes: e.changes || []
+      })),
+      lastCompacted: stored.log.lastCompacted,
+      // The configured retention applies to existing logs too
+      retentionDays: this.config.retentionDays,
+      version: stored.log.version
     };
-    
-    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
-    await fs.rename(tempPath, logPath);
-    
-    this.auditLogCache = auditLog;
+    return this.auditLogCache;
   }
   
   private calculateFieldChanges(oldValue: any, newValue: any): FieldChange[] {
@@ -232,7 +185,7 @@ export class ProjectChangeLogger {
     };
     
     // Load project audit log
-    const auditLog = await this.loadProjectAuditLog();
+    let auditLog = await this.loadProjectAuditLog();
     
     // Check for conflicts if enabled
     if (this.config.enableConflictDetection) {
@@ -252,13 +205,22 @@ export class ProjectChangeLogger {
     auditLog.events.push(changeEvent);
     
     // Check if compaction is needed
-    if (auditLog.events.length > this.config.maxEventsPerFile) {
+    if (
+      auditLog.events.length > this.config.maxEventsPerFile ||
+      this.auditLogSize > this.config.maxFileSize ||
+      Date.now() - auditLog.lastCompacted.getTime() > this.config.compactionInterval
+    ) {
+      // Compaction rewrites the whole log, so start from the stored one rather than this
+      // process's copy, which misses events other processes appended
+      this.auditLogCache = null;
+      auditLog = await this.loadProjectAuditLog();
+      auditLog.events.push(changeEvent);
       await this.compactAuditLog(auditLog);
+      this.auditLogSize = await this.store.write(auditLog);
+    } else {
+      this.auditLogSize = await this.store.append(auditLog);
     }
     
-    // Save audit log
-    await this.saveProjectAuditLog(auditLog);
-    
     changeEvent.duration = Date.now() - startTime;
     
     return changeEvent;
@@ -364,14 +326,8 @@ export class ProjectChangeLogger {
     
     if (oldEvents.length > 0) {
       // Archive old events
-      const archivePath = path.join(
-        this.getProjectDir(),
-        'checkpoints',
-        `audit-log-archive-${Date.now()}.json`
-      );
-      
-      await fs.writeFile(archivePath, JSON.stringify(oldEvents, null, 2));
-      console.log(`📦 Archived ${oldEvents.length} old audit events for project ${this.projectId}`);
+      const archivePath = await this.store.archive(oldEvents);
+      log.info(`Archived ${oldEvents.length} old audit events`, { projectId: this.projectId, archivePath });
     }
     
     // Keep only recent events
@@ -416,101 +372,48 @@ export class ProjectChangeLogger {
 
 export class WorkspaceChangeLogger {
   private workspaceId: string;
-  private baseDir = path.join(os.homedir(), '.claude-todos-mcp');
-  private dataDir = path.join(this.baseDir, 'data');
   private config: TrackingConfig;
   private auditLogCache: WorkspaceAuditLog | null = null;
   
-  constructor(workspaceId: string, config?: Partial<TrackingConfig>) {
-    this.workspaceId = workspaceId;
-    this.config = {
-      enabled: true,
-      maxEventsPerFile: 10000,
-      retentionDays: 90,
-      compactionInterval: 24 * 60 * 60 * 1000,
-      maxFileSize: 10 * 1024 * 1024,
-      enableRealTimeSync: true,
-      enableConflictDetection: true,
-      workerTimeoutMs: 5 * 60 * 1000,
-      heartbeatIntervalMs: 60 * 1000,
-      ...config
-    };
-  }
+  readonly store: AuditLogStore;
   
-  private async ensureDirectories(): Promise<void> {
-    const workspaceDir = this.getWorkspaceDir();
-    await fs.mkdir(workspaceDir, { recursive: true });
-  }
-  
-  private getWorkspaceDir(): string {
-    return path.join(this.dataDir, this.workspaceId);
-  }
-  
-  private getWorkspaceAuditLogPath(): string {
-    return path.join(this.getWorkspaceDir(), 'audit-log.json');
+  constructor(workspaceId: string, store: AuditLogStore, config?: Partial<TrackingConfig>) {
+    this.workspaceId = workspaceId;
+    this.store = store;
+    this.config = { ...DEFAULT_TRACKING_CONFIG, ...config };
   }
   
   private async loadWorkspaceAuditLog(): Promise<WorkspaceAuditLog> {
     if (this.auditLogCache) return this.auditLogCache;
     
-    const logPath = this.getWorkspaceAuditLogPath();
-    
+    let stored;
     try {
-      const data = await fs.readFile(logPath, 'utf-8');
-      const parsed = JSON.parse(data);
-      
-      const auditLog: WorkspaceAuditLog = {
-        workspaceId: this.workspaceId,
-        events: parsed.events.map((e: any) => ({
-          ...e,
-          timestamp: new Date(e.timestamp)
-        })),
-        lastCompacted: new Date(parsed.lastCompacted || Date.now()),
-        retentionDays: parsed.retentionDays || this.config.retentionDays,
-        version: parsed.version || '1.0.0'
-      };
-      
-      this.auditLogCache = auditLog;
-      return auditLog;
+      stored = await this.store.read();
     } catch (error) {
-      if ((error as any).code === 'ENOENT') {
-        // Create new audit log
-        const auditLog: WorkspaceAuditLog = {
+      throw new AuditLogCorruptError(this.workspaceId, (error as Error).message);
+    }
+    
+    this.auditLogCache = stored
+      ? {
+          workspaceId: this.workspaceId,
+          events: stored.log.events.map((e: any) => ({
+            ...e,
+            timestamp: new Date(e.timestamp)
+          })),
+          lastCompacted: stored.log.lastCompacted,
+          // The configured retention applies to existing logs too
+          retentionDays: this.config.retentionDays,
+          version: stored.log.version
+        }
+      : {
+          // Create new audit log
           workspaceId: this.workspaceId,
           events: [],
           lastCompacted: new Date(),
           retentionDays: this.config.retentionDays,
           version: '1.0.0'
         };
-        
-        this.auditLogCache = auditLog;
-        return auditLog;
-      } else {
-        throw new AuditLogCorruptError(this.workspaceId, (error as Error).message);
-      }
-    }
-  }
-  
-  private async saveWorkspaceAuditLog(auditLog: WorkspaceAuditLog): Promise<void> {
-    if (!this.config.enabled) return;
-    
-    await this.ensureDirectories();
-    
-    const logPath = this.getWorkspaceAuditLogPath();
-    const tempPath = `${logPath}.tmp`;
-    
-    const data = {
-      workspaceId: auditLog.workspaceId,
-      events: auditLog.events,
-      lastCompacted: auditLog.lastCompacted.toISOString(),
-      retentionDays: auditLog.retentionDays,
-      version: auditLog.version
-    };
-    
-    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
-    await fs.rename(tempPath, logPath);
-    
-    this.auditLogCache = auditLog;
+    return this.auditLogCache;
   }
   
   async logChange(event: Omit<ChangeEvent, 'id' | 'timestamp' | 'workspaceId'>): Promise<ChangeEvent> {
@@ -535,7 +438,7 @@ export class WorkspaceChangeLogger {
     
     const auditLog = await this.loadWorkspaceAuditLog();
     auditLog.events.push(changeEvent);
-    await this.saveWorkspaceAuditLog(auditLog);
+    await this.store.append(auditLog);
     
     return changeEvent;
   }
@@ -566,4 +469,8 @@ export class WorkspaceChangeLogger {
     
     return filteredEvents;
   }
+  
+  async clearCache(): Promise<void> {
+    this.auditLogCache = null;
+  }
 }
\ No newline at end of file
@@ -1,7 +1,34 @@
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 import { TodosStorageV2 } from './storage-v2.js';
 import { ProjectChangeLogger, WorkspaceChangeLogger } from './scoped-change-logger.js';
-import { ScopedWorkerRegistryManager, ScopedWorkerIdentity } from './scoped-worker-registry.js';
+import { ScopedWorkerRegistryManager, ScopedWorkerIdentity, WorkerRegistration } from './scoped-worker-registry.js';
 import { DependencyManager } from './dependency-manager.js';
+import { CheckpointManager, CheckpointSnapshot } from './checkpoint-manager.js';
+import { LockManager, LockAcquisition } from './lock-manager.js';
+import { TodoIndex, TodoLocation } from './todo-index.js';
+import {
+  REPO_DIR,
+  RepoProjectStore,
+  WorkspaceStorageMode,
+  writeRepoSettings,
+  removeRepoSettings,
+  removeEmptyRepoDir,
+  stableStringify
+} from './repo-store.js';
+import { AuditLogKey, AuditLogStore, StorageAdapter, StorageBackend, createStorageAdapter } from './storage-adapter.js';
+import { JsonAuditLogFile } from './json-storage-adapter.js';
+import { FullTextIndex, ProjectRef, tokenize } from './fulltext-index.js';
+import { ValidationError, validateTodoTitle, validateProjectName } from './validation.js';
+import { exportProject, parseProjectExport } from './project-export.js';
+import { parseTodoQuery, matchesTodoQuery, sortSearchHits } from './todo-search.js';
+import { ApiTokenStore, ApiTokenInfo, IssuedApiToken } from './api-token-store.js';
+import { permissionsFor, filterVisibleChanges } from './access-control.js';
+import { WebhookDispatcher } from './webhook-dispatcher.js';
+import { TemplateStore, renderTemplate } from './template-store.js';
+import { validateRecurrence, nextOccurrence } from './recurrence.js';
+import { rollUpHierarchy, validateParent, assertSubtasksCompleted, descendantsOf } from './todo-hierarchy.js';
+import { isClosed, requiresReason, validateStatusChange } from './todo-status.js';
 import {
   Project,
   TodoItem,
@@ -11,53 +38,237 @@ import {
   CreateTodoRequest,
   UpdateTodoRequest,
   CreatePhaseRequest,
+  UpdatePhaseRequest,
+  DeletePhaseRequest,
+  MoveTodosToPhaseRequest,
   AttachDocumentRequest,
   ReorderTodosRequest,
   AddDependencyRequest,
   RemoveDependencyRequest,
+  CreatePlanRequest,
+  CreatePlanResult,
+  ClaimOptions,
+  StatusChangeOptions,
+  TodoStatus,
+  TODO_STATUSES,
+  DependentsPolicy,
+  VersionCheckOptions,
   DependencyGraphResult,
+  ScheduleForecast,
+  ScheduleForecastOptions,
   WorkAllocationResult,
+  AllocationWorker,
+  AllocationStrategyName,
+  ReclaimedTodo,
+  ProjectExportFormat,
+  ImportProjectRequest,
+  ImportProjectResult,
+  SearchTodosRequest,
+  SearchTodosResult,
+  TodoSearchHit,
+  FindRelatedWorkRequest,
+  RelatedWorkHit,
+  TodoTemplate,
+  SaveTemplateRequest,
+  InstantiateTemplateRequest,
+  InstantiateTemplateResult,
+  RecurringTodoInstance,
+  RolledUpTodo,
 } from './types.js';
 import {
   TrackingConfig,
   RegisterWorkerRequest,
   ChangeFilter,
-  ChangeEvent
+  ChangeEvent,
+  ChangeType,
+  ActionType,
+  Checkpoint,
+  RollbackResult,
+  CreateCheckpointRequest,
+  ListCheckpointsRequest,
+  RollbackChangeRequest,
+  RollbackToCheckpointRequest,
+  TrackingError,
+  ClaimOwnershipError,
+  ConflictError,
+  WorkerNotFoundError,
+  AuditPermissions,
+  WorkerRole,
+  AuthenticationError,
+  PermissionDeniedError,
+  WebhookSubscription,
+  CreateWebhookRequest,
+  WebhookDeadLetter
 } from './tracking-types.js';
+import { ConfigLoader, ConfigSetting, ConfigScope, parseSetting } from './config.js';
+import { createLogger, configureLogger } from './logger.js';
+
+const log = createLogger('storage');
 
 // ScopedWorkerIdentity is now imported from scoped-worker-registry.ts
 
+export interface ScopedStorageHooks {
+  // Called after todos held by expired workers were released
+  onTodosReclaimed?: (reclaimed: ReclaimedTodo[]) => Promise<void>;
+  // Called after parent todos changed because their subtasks did
+  onTodosRolledUp?: (rolledUp: RolledUpTodo[]) => Promise<void>;
+  // Called with every change event this process logs
+  onChangeLogged?: (event: ChangeEvent) => void;
+}
+
+// Where a worker left off, for picking up work after a restart
+export interface SessionResume {
+  worker: ScopedWorkerIdentity;
+  claimedTodos: { todo: TodoItem; projectId: string; projectName: string }[];
+  // Claims other workers released since the previous session was last seen,
+  // e.g. because its heartbeats stopped
+  releasedTodos: { todo: TodoItem; projectId: string; projectName: string; releasedBy: string; reason?: string }[];
+  lastProject: Project | null;
+  recentChanges: ChangeEvent[];
+}
+
+// Where a workspace keeps its projects, see repo-store.ts
+export interface WorkspaceStorage {
+  mode: WorkspaceStorageMode;
+  directory: string;             // Holds the project files, or the database of the storage backend
+  auditLogs: 'data' | 'repo';    // Where project audit logs are kept; workspace logs stay in the data root
+  auditDirectory: string | null; // Holds a directory with the audit log of each project; null in a database
+  projects: number;
+}
+
+// Result of moving all data to another storage backend, see storage-adapter.ts
+export interface StorageMigration {
+  from: StorageBackend;
+  to: StorageBackend;
+  location: string;
+  previousLocation: string;      // The data is left there as a backup
+  workspaces: number;
+  projects: number;
+  auditLogs: number;
+  overriddenByEnv: boolean;      // TODOS_MCP_STORAGE_BACKEND picks another backend on the next start
+}
+
+// Acts for storage maintenance when no worker is registered in this process
+const SYSTEM_WORKER = { id: 'system', sessionId: 'system' };
+
+// Places a new todo after the last one; deleting a todo leaves a gap in the order
+// rather than renumbering, and rewriting, every todo after it
+function nextOrder(todos: TodoItem[]): number {
+  return todos.reduce((next, todo) => Math.max(next, todo.order + 1), 0);
+}
+
+// Starts the reason of events that only mirror subtask changes in their parent
+const ROLL_UP_REASON = 'Rolled up subtasks of';
+
+// Fields that change with every write, whatever else changed
+const BOOKKEEPING_FIELDS = new Set(['version', 'updatedAt']);
+
+const isEntityValue = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fields of the entity a change touched; null when it created or deleted the entity.
+// The listed changes only name the headline field (a status change also moves claim,
+// timestamp and reason fields), so the values before and after are compared as well.
+function changedFields(event: ChangeEvent): Set<string> | null {
+  if (event.type === 'todo.dependency.added' || event.type === 'todo.dependency.removed') {
+    return new Set(['dependsOn']);
+  }
+  const listed = new Set(event.changes.map(change => change.field));
+  const { oldValue, newValue } = event;
+  if (!isEntityValue(oldValue) || !isEntityValue(newValue)) {
+    return listed.size > 0 ? listed : null;
+  }
+  
+  for (const field of new Set([...Object.keys(oldValue), ...Object.keys(newValue)])) {
+    if (!BOOKKEEPING_FIELDS.has(field) && JSON.stringify(oldValue[field]) !== JSON.stringify(newValue[field])) {
+      listed.add(field);
+    }
+  }
+  return listed;
+}
+
+// Whether a later change builds on an earlier one: lock and worker bookkeeping and
+// roll-ups don't change data of their own
+function buildsOn(later: ChangeEvent, earlier: ChangeEvent): boolean {
+  if (later.type.startsWith('lock.') || later.type.startsWith('worker.')) return false;
+  if (later.reason?.startsWith(ROLL_UP_REASON)) return false;
+  
+  const laterFields = changedFields(later);
+  const earlierFields = changedFields(earlier);
+  if (!laterFields || !earlierFields) return true;
+  return [...laterFields].some(field => earlierFields.has(field));
+}
+
 export class ScopedTodosStorage extends TodosStorageV2 {
   private workerRegistry: ScopedWorkerRegistryManager;
   private dependencyManager: DependencyManager;
+  private checkpointManager: CheckpointManager;
+  private lockManager: LockManager;
+  private todoIndex: TodoIndex;
+  private fullTextIndex: FullTextIndex;
+  private apiTokens: ApiTokenStore;
+  private webhooks: WebhookDispatcher;
+  private templates: TemplateStore;
   private projectLoggers: Map<string, ProjectChangeLogger> = new Map();
   private workspaceLoggers: Map<string, WorkspaceChangeLogger> = new Map();
-  private currentWorker: ScopedWorkerIdentity | null = null;
+  private registeredWorker: ScopedWorkerIdentity | null = null;
+  // Worker a single call acts for, set by actAsWorker() (e.g. per REST request)
+  private actingWorker = new AsyncLocalStorage<ScopedWorkerIdentity>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private configLoader = new ConfigLoader();
   private trackingConfig: TrackingConfig;
   
-  constructor(config?: Partial<TrackingConfig>) {
-    super();
-    this.trackingConfig = {
-      enabled: true,
-      maxEventsPerFile: 10000,
-      retentionDays: 90,
-      compactionInterval: 24 * 60 * 60 * 1000,
-      maxFileSize: 10 * 1024 * 1024,
-      enableRealTimeSync: true,
-      enableConflictDetection: true,
-      workerTimeoutMs: 5 * 60 * 1000,
-      heartbeatIntervalMs: 60 * 1000,
-      ...config
-    };
-    
-    this.workerRegistry = new ScopedWorkerRegistryManager(this.trackingConfig);
+  // Settings passed in win over configured ones
+  constructor(
+    private trackingOverrides: Partial<TrackingConfig> = {},
+    private hooks: ScopedStorageHooks = {},
+    adapter?: StorageAdapter
+  ) {
+    super(adapter);
+    this.trackingConfig = { ...this.configLoader.resolveSync().tracking, ...trackingOverrides };
+    
+    this.workerRegistry = new ScopedWorkerRegistryManager(this.trackingConfig, {
+      onWorkersExpired: (workspaceId, workers) => this.reclaimTodosOfWorkers(workspaceId, workers),
+      withWorkspaceLock: (workspaceId, fn) => this.withWorkspaceLock(workspaceId, fn)
+    });
     this.dependencyManager = new DependencyManager();
+    this.checkpointManager = new CheckpointManager();
+    this.lockManager = new LockManager(this.workerRegistry);
+    this.todoIndex = new TodoIndex(() => this.listProjects());
+    this.fullTextIndex = new FullTextIndex();
+    this.apiTokens = new ApiTokenStore();
+    this.webhooks = new WebhookDispatcher();
+    this.templates = new TemplateStore();
+  }
+  
+  private get currentWorker(): ScopedWorkerIdentity | null {
+    return this.actingWorker.getStore() || this.registeredWorker;
   }
   
   // Worker management - now workspace-scoped
-  async registerWorkerForWorkspace(workspaceId: string, request: RegisterWorkerRequest): Promise<ScopedWorkerIdentity> {
-    const worker = await this.workerRegistry.registerWorker(workspaceId, request);
-    this.currentWorker = worker;
+  async registerWorkerForWorkspace(workspaceId: string, request: RegisterWorkerRequest): Promise<WorkerRegistration> {
+    const registration = await this.registerExternalWorker(workspaceId, request);
+    this.registeredWorker = registration.worker;
+    this.startHeartbeat();
+    return registration;
+  }
+  
+  // Registers a worker this process acts for only through actAsWorker(), without
+  // making it the process worker or sending heartbeats in the background
+  async registerExternalWorker(workspaceId: string, request: RegisterWorkerRequest): Promise<WorkerRegistration> {
+    const access = await this.authenticate(workspaceId, request.token);
+    
+    // The registration and its audit entry are written under one workspace lock
+    return this.withWorkspaceLock(workspaceId, () => this.registerExternalWorkerLocked(workspaceId, request, access));
+  }
+  
+  private async registerExternalWorkerLocked(
+    workspaceId: string,
+    request: RegisterWorkerRequest,
+    access: { role: WorkerRole; tokenId?: string }
+  ): Promise<WorkerRegistration> {
+    const registration = await this.workerRegistry.registerWorker(workspaceId, request, access);
+    const worker = registration.worker;
     
     // Log workspace-level event
     await this.logWorkspaceEvent(workspaceId, {
@@ -68,697 +279,2860 @@ export class ScopedTodosStorage extends TodosStorageV2 {
       entityId: worker.id,
       action: 'register',
       newValue: worker,
-      reason: `Worker ${worker.name || worker.id} registered in workspace`,
+      reason: worker.previousSession
+        ? `Worker ${worker.name || worker.id} resumed in workspace (previous session ${worker.previousSession.sessionId})`
+        : `Worker ${worker.name || worker.id} registered in workspace`,
       changes: [],
       relatedChanges: [],
       conflictsWith: []
     });
     
-    return worker;
-  }
-  
-  async getCurrentWorker(): Promise<ScopedWorkerIdentity | null> {
-    return this.currentWorker;
+    return registration;
   }
   
-  async heartbeat(): Promise<void> {
-    if (this.currentWorker) {
-      await this.workerRegistry.updateHeartbeat(this.currentWorker.workspaceId, this.currentWorker.id);
+  // Runs fn on behalf of an already registered worker; the call counts as its heartbeat.
+  // Concurrent calls for different workers don't see each other's worker.
+  async actAsWorker<T>(workerId: string, fn: () => Promise<T>, workspaceId?: string): Promise<T> {
+    const workerWorkspaceId = workspaceId || await this.workerRegistry.findWorkerWorkspace(workerId);
+    const worker = workerWorkspaceId ? await this.workerRegistry.getWorker(workerWorkspaceId, workerId) : null;
+    if (!worker) {
+      throw new WorkerNotFoundError(workerId);
     }
+    
+    await this.workerRegistry.updateHeartbeat(worker.workspaceId, worker.id);
+    return this.actingWorker.run(worker, fn);
   }
   
-  async deregisterWorker(): Promise<void> {
-    if (this.currentWorker) {
-      await this.logWorkspaceEvent(this.currentWorker.workspaceId, {
-        workerId: this.currentWorker.id,
-        sessionId: this.currentWorker.sessionId,
-        type: 'workspace.worker.deregistered',
-        entityType: 'worker',
-        entityId: this.currentWorker.id,
-        action: 'register',
-        oldValue: this.currentWorker,
-        reason: 'Worker session ended',
-        changes: [],
-        relatedChanges: [],
-        conflictsWith: []
-      });
-      
-      await this.workerRegistry.deregisterWorker(this.currentWorker.workspaceId, this.currentWorker.id);
-      this.currentWorker = null;
+  // Role for a worker registering with the given token. Workspaces that never issued a
+  // token are open and everyone is an admin, so the first admin token can be issued.
+  private async authenticate(workspaceId: string, token?: string): Promise<{ role: WorkerRole; tokenId?: string }> {
+    if (token) {
+      const info = await this.apiTokens.verify(workspaceId, token);
+      if (!info) {
+        throw new AuthenticationError('Invalid or revoked API token for this workspace');
+      }
+      return { role: info.role, tokenId: info.id };
+    }
+    
+    if (await this.apiTokens.hasTokens(workspaceId)) {
+      throw new AuthenticationError('This workspace requires an API token');
     }
+    return { role: 'admin' };
   }
   
-  // Helper methods for logging
-  private async getProjectLogger(projectId: string, workspaceId: string): Promise<ProjectChangeLogger> {
-    let logger = this.projectLoggers.get(projectId);
-    if (!logger) {
-      logger = new ProjectChangeLogger(projectId, workspaceId, this.trackingConfig);
-      this.projectLoggers.set(projectId, logger);
+  // Checks the worker's role, and that its token is still valid. Workers that registered
+  // while the workspace was open lose access once it issues its first token.
+  async assertPermission(
+    permission: keyof AuditPermissions,
+    worker: ScopedWorkerIdentity | null = this.currentWorker
+  ): Promise<void> {
+    if (!worker) {
+      throw new Error('No worker registered. Call registerWorkerForWorkspace() first.');
+    }
+    
+    await this.assertTokenActive(worker);
+    
+    if (!permissionsFor(worker.role)[permission]) {
+      throw new PermissionDeniedError(worker.id, worker.role, permission);
     }
-    return logger;
   }
   
-  private async getWorkspaceLogger(workspaceId: string): Promise<WorkspaceChangeLogger> {
-    let logger = this.workspaceLoggers.get(workspaceId);
-    if (!logger) {
-      logger = new WorkspaceChangeLogger(workspaceId, this.trackingConfig);
-      this.workspaceLoggers.set(workspaceId, logger);
+  private async assertTokenActive(worker: ScopedWorkerIdentity): Promise<void> {
+    if (worker.tokenId) {
+      if (!await this.apiTokens.isActive(worker.workspaceId, worker.tokenId)) {
+        throw new AuthenticationError(`The API token of worker ${worker.id} was revoked`);
+      }
+    } else if (await this.apiTokens.hasTokens(worker.workspaceId)) {
+      throw new AuthenticationError('This workspace now requires an API token; register again with one');
     }
-    return logger;
   }
   
-  private async logProjectEvent(
-    projectId: string,
-    workspaceId: string,
-    event: Omit<ChangeEvent, 'id' | 'timestamp' | 'projectId' | 'workspaceId'>
-  ): Promise<ChangeEvent> {
-    const logger = await this.getProjectLogger(projectId, workspaceId);
-    return logger.logChange(event);
+  // Workers were authenticated against the workspace they registered in. Another
+  // workspace only lets them act in it while it is open, as registering there would.
+  async assertWorkspaceAccess(workspaceId: string, worker: ScopedWorkerIdentity | null = this.currentWorker): Promise<void> {
+    if (!worker) {
+      throw new Error('No worker registered. Call registerWorkerForWorkspace() first.');
+    }
+    if (worker.workspaceId === workspaceId) return;
+    
+    if (await this.apiTokens.hasTokens(workspaceId)) {
+      throw new AuthenticationError(
+        `Worker ${worker.id} is registered in workspace ${worker.workspaceId}; workspace ${workspaceId} requires its own API token`
+      );
+    }
   }
   
-  private async logWorkspaceEvent(
-    workspaceId: string,
-    event: Omit<ChangeEvent, 'id' | 'timestamp' | 'workspaceId' | 'projectId'>
-  ): Promise<ChangeEvent> {
-    const logger = await this.getWorkspaceLogger(workspaceId);
-    return logger.logChange({
-      ...event,
-      projectId: 'workspace-level'
-    });
+  // Open workspaces can be read by anyone. Once a workspace issues a token, reading its
+  // projects, history and workers takes a worker registered there with an active token.
+  async assertReadAccess(workspaceId: string, worker: ScopedWorkerIdentity | null = this.currentWorker): Promise<void> {
+    if (!await this.apiTokens.hasTokens(workspaceId)) return;
+    if (!worker) {
+      throw new AuthenticationError(`Workspace ${workspaceId} requires a worker registered with an API token`);
+    }
+    
+    await this.assertWorkspaceAccess(workspaceId, worker);
+    await this.assertTokenActive(worker);
   }
   
-  private ensureWorkerRegistered(): void {
-    if (!this.currentWorker) {
-      throw new Error('No worker registered. Call registerWorkerForWorkspace() first.');
+  async canReadWorkspace(workspaceId: string): Promise<boolean> {
+    try {
+      await this.assertReadAccess(workspaceId);
+      return true;
+    } catch (error) {
+      if (error instanceof AuthenticationError) return false;
+      throw error;
     }
   }
   
-  // Enhanced project operations with scoped tracking
-  async createProject(request: CreateProjectRequest): Promise<Project> {
+  // For callers that must present the token on every call (REST): it has to be the one
+  // the acting worker registered with
+  async verifyWorkerToken(token?: string): Promise<void> {
     this.ensureWorkerRegistered();
+    const worker = this.currentWorker!;
+    if (!worker.tokenId) return;
     
-    const startTime = Date.now();
-    const project = await super.createProject(request);
-    
-    // Update worker's current project
-    await this.workerRegistry.setCurrentProject(
-      this.currentWorker!.workspaceId,
-      this.currentWorker!.id,
-      project.id
-    );
-    
-    // Log workspace-level event (project creation)
-    await this.logWorkspaceEvent(project.workspaceId, {
-      workerId: this.currentWorker!.id,
-      sessionId: this.currentWorker!.sessionId,
-      type: 'workspace.project.created',
-      entityType: 'project',
-      entityId: project.id,
-      action: 'create',
-      newValue: { id: project.id, name: project.name },
-      reason: `Created project "${project.name}"`,
-      duration: Date.now() - startTime,
-      changes: [],
-      relatedChanges: [],
-      conflictsWith: []
-    });
-    
-    return project;
+    const info = token ? await this.apiTokens.verify(worker.workspaceId, token) : null;
+    if (info?.id !== worker.tokenId) {
+      throw new AuthenticationError(`Worker ${worker.id} requires the API token it registered with`);
+    }
   }
   
-  async updateProject(projectId: string, updates: Partial<Project>): Promise<Project | null> {
+  // Change history filtered to what the registered worker may see
+  async visibleChanges(workspaceId: string, events: ChangeEvent[]): Promise<ChangeEvent[]> {
+    const worker = this.currentWorker;
+    if (!worker) {
+      return await this.apiTokens.hasTokens(workspaceId) ? [] : events;
+    }
+    return filterVisibleChanges(events, worker.id, permissionsFor(worker.role));
+  }
+  
+  async issueApiToken(workspaceId: string, request: { name: string; role: WorkerRole }): Promise<IssuedApiToken> {
     this.ensureWorkerRegistered();
+    await this.assertWorkspaceAccess(workspaceId);
     
-    const startTime = Date.now();
-    const oldProject = await super.getProject(projectId);
-    const updatedProject = await super.updateProject(projectId, updates);
-    
-    if (updatedProject && oldProject) {
-      // Log project-level event
-      await this.logProjectEvent(projectId, updatedProject.workspaceId, {
+    return this.withWorkspaceLock(workspaceId, async () => {
+      const issued = await this.apiTokens.issue(workspaceId, { ...request, createdBy: this.currentWorker!.id });
+      
+      await this.logWorkspaceEvent(workspaceId, {
         workerId: this.currentWorker!.id,
         sessionId: this.currentWorker!.sessionId,
-        type: 'project.updated',
-        entityType: 'project',
-        entityId: projectId,
-        action: 'update',
-        oldValue: oldProject,
-        newValue: updatedProject,
-        reason: `Updated project "${updatedProject.name}"`,
-        duration: Date.now() - startTime,
+        type: 'workspace.token.issued',
+        entityType: 'token',
+        entityId: issued.info.id,
+        action: 'create',
+        newValue: issued.info,
+        reason: `Issued ${request.role} API token "${request.name}"`,
         changes: [],
         relatedChanges: [],
         conflictsWith: []
       });
-    }
-    
-    return updatedProject;
+      
+      return issued;
+    });
   }
   
-  async deleteProject(projectId: string): Promise<boolean> {
+  async listApiTokens(workspaceId: string): Promise<ApiTokenInfo[]> {
+    await this.assertWorkspaceAccess(workspaceId);
+    return this.apiTokens.list(workspaceId);
+  }
+  
+  async revokeApiToken(workspaceId: string, tokenId: string): Promise<boolean> {
     this.ensureWorkerRegistered();
+    await this.assertWorkspaceAccess(workspaceId);
     
-    const startTime = Date.now();
-    const project = await super.getProject(projectId);
-    const success = await super.deleteProject(projectId);
-    
-    if (success && project) {
-      // Log workspace-level event
-      await this.logWorkspaceEvent(project.workspaceId, {
+    return this.withWorkspaceLock(workspaceId, async () => {
+      const revoked = await this.apiTokens.revoke(workspaceId, tokenId);
+      if (!revoked) return false;
+      
+      await this.logWorkspaceEvent(workspaceId, {
         workerId: this.currentWorker!.id,
         sessionId: this.currentWorker!.sessionId,
-        type: 'workspace.project.deleted',
-        entityType: 'project',
-        entityId: projectId,
+        type: 'workspace.token.revoked',
+        entityType: 'token',
+        entityId: tokenId,
         action: 'delete',
-        oldValue: { id: project.id, name: project.name },
-        reason: `Deleted project "${project.name}"`,
-        duration: Date.now() - startTime,
+        oldValue: revoked,
+        reason: `Revoked ${revoked.role} API token "${revoked.name}"`,
         changes: [],
         relatedChanges: [],
         conflictsWith: []
       });
-    }
-    
-    return success;
+      
+      return true;
+    });
   }
   
-  // Enhanced todo operations with project-scoped tracking and dependency support
-  async createTodo(request: CreateTodoRequest): Promise<TodoItem | null> {
+  async createWebhook(request: CreateWebhookRequest): Promise<WebhookSubscription> {
     this.ensureWorkerRegistered();
+    await this.assertWorkspaceAccess(request.workspaceId);
     
-    const startTime = Date.now();
-    
-    // Use our enhanced implementation instead of super.createTodo() to avoid single in-progress constraint
-    const workspaceId = await this.findWorkspaceForProject(request.projectId);
-    if (!workspaceId) return null;
-    
-    const project = await super.getProject(request.projectId);
-    if (!project) return null;
-    
-    const todo: TodoItem = {
-      id: this.generateId(),
-      title: request.title,
-      description: request.description,
-      status: 'pending',
-      phaseId: request.phaseId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      order: project.todos.length,
-      // Dependency fields
-      dependsOn: request.dependsOn || [],
-      dependents: [], // Will be computed
-      blockedBy: [], // Will be computed
-      estimatedDuration: request.estimatedDuration,
-      priority: request.priority || 'medium',
-      // Application areas
-      areas: request.areas,
-      primaryArea: request.primaryArea || request.areas[0],
-      // Documentation fields
-      notes: request.notes
-    };
-    
-    // Validate dependencies with actual todo ID
-    if (todo.dependsOn.length > 0) {
-      for (const depId of todo.dependsOn) {
-        // Check if dependency exists in the project
-        const dependsOnTodo = project.todos.find(t => t.id === depId);
-        if (!dependsOnTodo) {
-          throw new Error(`Dependency todo with ID ${depId} not found in project`);
-        }
-      }
+    return this.withWorkspaceLock(request.workspaceId, async () => {
+      const subscription = await this.webhooks.create({ ...request, createdBy: this.currentWorker!.id });
+      const { secret, ...logged } = subscription;
       
-      // Check for cycles by temporarily adding the todo and testing
-      const testTodos = [...project.todos, todo];
-      const cycles = this.dependencyManager.detectCycles(testTodos);
-      if (cycles.length > 0) {
-        throw new Error(`Adding these dependencies would create a cycle: ${cycles[0].join(' -> ')}`);
-      }
-    }
-    
-    project.todos.push(todo);
-    project.updatedAt = new Date();
-    
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, request.projectId),
-      project
-    );
-    
-    // Update worker's current project if not already set
-    if (this.currentWorker!.currentProjectId !== project.id) {
-      await this.workerRegistry.setCurrentProject(
-        this.currentWorker!.workspaceId,
-        this.currentWorker!.id,
-        project.id
-      );
-    }
-    
-    // Log project-level event
-    await this.logProjectEvent(project.id, project.workspaceId, {
-      workerId: this.currentWorker!.id,
-      sessionId: this.currentWorker!.sessionId,
-      type: 'todo.created',
-      entityType: 'todo',
-      entityId: todo.id,
-      action: 'create',
-      newValue: todo,
-      reason: `Created todo "${todo.title}"${todo.dependsOn.length > 0 ? ` with ${todo.dependsOn.length} dependencies` : ''}`,
-      duration: Date.now() - startTime,
-      changes: [],
-      relatedChanges: [],
-      conflictsWith: []
+      await this.logWorkspaceEvent(request.workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: 'workspace.webhook.created',
+        entityType: 'webhook',
+        entityId: subscription.id,
+        action: 'create',
+        newValue: logged,
+        reason: `Created webhook for ${subscription.url}`,
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+      
+      return subscription;
     });
-    
-    return todo;
   }
   
-  // Helper method to generate IDs (using the same method as base class)
-  private generateId(): string {
-    return require('uuid').v4();
+  // Secrets are only shown when a webhook is created
+  async listWebhooks(workspaceId: string): Promise<Omit<WebhookSubscription, 'secret'>[]> {
+    await this.assertWorkspaceAccess(workspaceId);
+    return (await this.webhooks.list(workspaceId)).map(({ secret, ...subscription }) => subscription);
   }
   
-  async updateTodo(request: UpdateTodoRequest): Promise<TodoItem | null> {
+  async deleteWebhook(workspaceId: string, subscriptionId: string): Promise<boolean> {
     this.ensureWorkerRegistered();
+    await this.assertWorkspaceAccess(workspaceId);
     
-    const startTime = Date.now();
-    
-    // Find project containing the todo
-    const projects = await this.listProjects();
-    let targetProject: Project | null = null;
-    let workspaceId: string | null = null;
-    
-    for (const project of projects) {
-      if (project.todos.some(t => t.id === request.id)) {
-        targetProject = project;
-        workspaceId = await this.findWorkspaceForProject(project.id);
-        break;
-      }
-    }
-    
-    if (!targetProject || !workspaceId) return null;
-    
-    const todoIndex = targetProject.todos.findIndex(t => t.id === request.id);
-    if (todoIndex === -1) return null;
-    
-    const oldTodo = targetProject.todos[todoIndex];
-    
-    // Validate dependencies if being updated
-    if (request.dependsOn !== undefined) {
-      const tempUpdated = { ...oldTodo, dependsOn: request.dependsOn };
+    return this.withWorkspaceLock(workspaceId, async () => {
+      const removed = await this.webhooks.remove(workspaceId, subscriptionId);
+      if (!removed) return false;
+      const { secret, ...logged } = removed;
       
-      // Remove old dependencies and add new ones for validation
-      const otherTodos = targetProject.todos.filter(t => t.id !== request.id);
-      for (const depId of request.dependsOn) {
-        this.dependencyManager.validateDependency([...otherTodos, tempUpdated], request.id, depId);
-      }
-    }
-    
-    // Check if todo can be moved to in-progress based on dependencies
-    if (request.status === 'in-progress') {
-      const currentDeps = request.dependsOn !== undefined ? request.dependsOn : oldTodo.dependsOn;
-      const { canStart, reason } = this.dependencyManager.canStartTodo(
-        targetProject.todos.map(t => t.id === request.id ? { ...t, dependsOn: currentDeps } : t),
-        request.id
-      );
+      await this.logWorkspaceEvent(workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: 'workspace.webhook.deleted',
+        entityType: 'webhook',
+        entityId: subscriptionId,
+        action: 'delete',
+        oldValue: logged,
+        reason: `Deleted webhook for ${removed.url}`,
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
       
-      if (!canStart) {
-        throw new Error(`Cannot start todo: ${reason}`);
-      }
-    }
-    
-    // Require completion summary when marking as completed
-    if (request.status === 'completed' && oldTodo.status !== 'completed') {
-      if (!request.completionSummary) {
-        throw new Error('Completion summary is required when marking a todo as completed');
-      }
+      return true;
+    });
+  }
+  
+  async listWebhookFailures(workspaceId: string, limit?: number): Promise<WebhookDeadLetter[]> {
+    await this.assertWorkspaceAccess(workspaceId);
+    return this.webhooks.listDeadLetters(workspaceId, limit);
+  }
+  
+  async getCurrentWorker(): Promise<ScopedWorkerIdentity | null> {
+    return this.currentWorker;
+  }
+  
+  async heartbeat(): Promise<void> {
+    if (this.currentWorker) {
+      await this.workerRegistry.updateHeartbeat(this.currentWorker.workspaceId, this.currentWorker.id);
     }
-    
-    const updated: TodoItem = {
-      ...oldTodo,
-      ...request,
-      id: oldTodo.id, // Prevent ID change
-      dependsOn: request.dependsOn !== undefined ? request.dependsOn : oldTodo.dependsOn,
-      dependents: oldTodo.dependents, // Keep computed field
-      blockedBy: oldTodo.blockedBy, // Keep computed field
-      updatedAt: new Date(),
-      // Set startedAt when status changes to in-progress
-      startedAt: request.status === 'in-progress' && oldTodo.status !== 'in-progress'
-        ? new Date()
-        : oldTodo.startedAt,
-      // Set completedAt when status changes to completed
-      completedAt: request.status === 'completed' && oldTodo.status !== 'completed' 
-        ? new Date() 
-        : oldTodo.completedAt
-    };
-    
-    targetProject.todos[todoIndex] = updated;
-    targetProject.updatedAt = new Date();
-    
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, targetProject.id),
-      targetProject
-    );
-    
-    // Update worker's current project if not already set
-    if (this.currentWorker!.currentProjectId !== targetProject.id) {
-      await this.workerRegistry.setCurrentProject(
-        this.currentWorker!.workspaceId,
-        this.currentWorker!.id,
-        targetProject.id
-      );
+  }
+  
+  // Todos claimed by this worker are reclaimed once heartbeats stop, so they are sent
+  // in the background rather than relying on callers
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+    
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch(error => log.warn('Heartbeat failed', { workerId: this.currentWorker?.id, error }));
+    }, this.trackingConfig.heartbeatIntervalMs);
+    this.heartbeatTimer.unref();
+  }
+  
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
     }
-    
-    // Determine specific change type
-    let changeType: 'todo.updated' = 'todo.updated';
-    let reason = `Updated todo "${updated.title}"`;
-    
-    if (oldTodo.status !== updated.status) {
-      if (updated.status === 'completed') {
-        reason = `Completed todo "${updated.title}"`;
-      } else if (oldTodo.status === 'pending' && updated.status === 'in-progress') {
-        reason = `Started work on todo "${updated.title}"`;
+  }
+  
+  async deregisterWorker(): Promise<void> {
+    const worker = this.currentWorker;
+    if (worker) {
+      await this.withWorkspaceLock(worker.workspaceId, () => this.deregisterWorkerLocked(worker));
+      if (this.registeredWorker?.id === worker.id) {
+        this.registeredWorker = null;
+        this.stopHeartbeat();
       }
     }
-    
-    if (request.dependsOn !== undefined && JSON.stringify(oldTodo.dependsOn) !== JSON.stringify(request.dependsOn)) {
-      reason += ` (updated dependencies)`;
-    }
-    
-    // Log project-level event
-    await this.logProjectEvent(targetProject.id, targetProject.workspaceId, {
-      workerId: this.currentWorker!.id,
-      sessionId: this.currentWorker!.sessionId,
-      type: changeType,
-      entityType: 'todo',
-      entityId: request.id,
-      action: 'update',
-      oldValue: oldTodo,
-      newValue: updated,
-      reason,
-      duration: Date.now() - startTime,
+  }
+  
+  private async deregisterWorkerLocked(worker: ScopedWorkerIdentity): Promise<void> {
+    await this.logWorkspaceEvent(worker.workspaceId, {
+      workerId: worker.id,
+      sessionId: worker.sessionId,
+      type: 'workspace.worker.deregistered',
+      entityType: 'worker',
+      entityId: worker.id,
+      action: 'register',
+      oldValue: worker,
+      reason: 'Worker session ended',
       changes: [],
       relatedChanges: [],
       conflictsWith: []
     });
     
-    return updated;
+    await this.workerRegistry.deregisterWorker(worker.workspaceId, worker.id);
   }
-
-  async changeStatus(todoId: string, newStatus: 'pending' | 'in-progress' | 'completed'): Promise<TodoItem | null> {
+  
+  // With the workspace's overrides of the audit log settings
+  private async getTrackingConfig(workspaceId: string): Promise<TrackingConfig> {
+    return { ...(await this.configLoader.resolve(workspaceId)).tracking, ...this.trackingOverrides };
+  }
+  
+  async getConfig(workspaceId?: string): Promise<ConfigSetting[]> {
+    return this.configLoader.describe(workspaceId);
+  }
+  
+  // Passing undefined resets the setting to the value of the layers below. Changes apply
+  // to this process right away; other processes pick them up when restarted.
+  async setConfig(key: string, value: unknown, scope: ConfigScope, workspaceId: string): Promise<ConfigSetting> {
     this.ensureWorkerRegistered();
+    await this.assertWorkspaceAccess(workspaceId);
     
-    const startTime = Date.now();
-    
-    // Find project containing the todo
-    const projects = await this.listProjects();
-    let targetProject: Project | null = null;
-    let workspaceId: string | null = null;
-    
-    for (const project of projects) {
-      if (project.todos.some(t => t.id === todoId)) {
-        targetProject = project;
-        workspaceId = await this.findWorkspaceForProject(project.id);
-        break;
-      }
-    }
-    
-    if (!targetProject || !workspaceId) return null;
-    
-    const todoIndex = targetProject.todos.findIndex(t => t.id === todoId);
-    if (todoIndex === -1) return null;
+    return this.withWorkspaceLock(workspaceId, async () => {
+      const oldValue = (await this.configLoader.describe(workspaceId)).find(s => s.key === key)?.value;
+      await this.configLoader.set(key, value, scope, workspaceId);
+      await this.applyConfig(scope === 'global' ? undefined : workspaceId);
+      
+      const setting = (await this.configLoader.describe(workspaceId)).find(s => s.key === key)!;
+      await this.logWorkspaceEvent(workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: 'workspace.config.updated',
+        entityType: 'workspace',
+        entityId: workspaceId,
+        action: 'update',
+        oldValue: { [key]: oldValue },
+        newValue: { [key]: setting.value },
+        reason: value === undefined ? `Reset ${scope} setting ${key}` : `Set ${scope} setting ${key} to ${parseSetting(key, value)}`,
+        changes: [{ field: key, oldValue, newValue: setting.value, type: 'modified' }],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+      
+      return setting;
+    });
+  }
+  
+  // Audit loggers are recreated with the new settings on their next use, reading
+  // their logs again
+  private async applyConfig(workspaceId?: string): Promise<void> {
+    this.projectLoggers.clear();
+    this.workspaceLoggers.clear();
+    if (workspaceId) return;
+    
+    const config = await this.configLoader.resolve();
+    const heartbeatChanged = config.tracking.heartbeatIntervalMs !== this.trackingConfig.heartbeatIntervalMs;
+    this.trackingConfig = { ...config.tracking, ...this.trackingOverrides };
+    this.workerRegistry.updateConfig(this.trackingConfig);
+    if (heartbeatChanged && this.heartbeatTimer) {
+      this.stopHeartbeat();
+      this.startHeartbeat();
+    }
+    configureLogger(config.logging);
+  }
+  
+  // Storage modes - projects are copied to the new location while every project lock is
+  // held, then the .todos/todos.json settings file switches readers over in one step
+  async getWorkspaceStorage(workspaceId: string): Promise<WorkspaceStorage> {
+    const repo = await this.getRepoStore(workspaceId);
+    const files = this.adapter.backend === 'json';
+    return {
+      mode: repo ? 'repo' : 'data',
+      directory: repo ? path.join(repo.workspacePath, REPO_DIR) : files ? this.getWorkspaceDir(workspaceId) : this.adapter.location,
+      auditLogs: repo?.settings.auditLogs ? 'repo' : 'data',
+      auditDirectory: repo?.settings.auditLogs ? repo.auditDir : files ? path.join(this.getWorkspaceDir(workspaceId), 'projects') : null,
+      projects: (await this.listProjectRefs(workspaceId)).length
+    };
+  }
+  
+  async setWorkspaceStorage(
+    workspaceId: string,
+    mode: WorkspaceStorageMode,
+    options: { auditLogs?: boolean } = {}
+  ): Promise<WorkspaceStorage> {
+    this.ensureWorkerRegistered();
+    await this.assertWorkspaceAccess(workspaceId);
+    if (mode !== 'data' && mode !== 'repo') {
+      throw new ValidationError(`Unknown storage mode "${mode}", expected "data" or "repo"`);
+    }
+    if (mode === 'data' && options.auditLogs) {
+      throw new ValidationError('Audit logs can only be kept in the repository in repo mode');
+    }
+    
+    return this.withWorkspaceLock(workspaceId, async () => {
+      const before = await this.getWorkspaceStorage(workspaceId);
+      const workspace = await this.readWorkspaceMetadata(workspaceId);
+      const current = await this.getRepoStore(workspaceId);
+      const settings = { version: 1, auditLogs: options.auditLogs ?? current?.settings.auditLogs ?? false };
+      const target = mode === 'repo' ? this.createRepoStore(workspaceId, workspace.path, settings) : null;
+      
+      const projects = await this.readWorkspaceProjects(workspaceId);
+      
+      const switchOver = async () => {
+        // Copies keep their versions: moving a project is not a change to it
+        for (const project of projects) {
+          if (target && !current) {
+            await target.write(project);
+          } else if (!target && current) {
+            await this.adapter.writeProject(workspaceId, project);
+          }
+          
+          const auditFrom = this.auditLogIn(current, workspaceId, project.id);
+          const auditTo = this.auditLogIn(target, workspaceId, project.id);
+          if (auditFrom.location !== auditTo.location) await this.moveAuditLog(auditFrom, auditTo);
+        }
+        
+        if (target) {
+          await writeRepoSettings(workspace.path, settings);
+        } else if (current) {
+          await removeRepoSettings(workspace.path);
+        }
+        
+        // Only now that nobody reads them any more
+        for (const project of projects) {
+          if (target && !current) {
+            await this.adapter.deleteProject(workspaceId, project.id);
+          } else if (!target && current) {
+            await current.remove(project.id);
+          }
+        }
+        if (!target && current) {
+          await removeEmptyRepoDir(workspace.path);
+        }
+      };
+      
+      await projects.reduceRight<() => Promise<void>>(
+        (next, project) => () => this.withProjectLock(workspaceId, project.id, next),
+        switchOver
+      )();
+      this.projectLoggers.clear();
+      this.evictWorkspaceCache(workspaceId);
+      
+      const after = await this.getWorkspaceStorage(workspaceId);
+      await this.logWorkspaceEvent(workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: 'workspace.storage.updated',
+        entityType: 'workspace',
+        entityId: workspaceId,
+        action: 'update',
+        oldValue: before,
+        newValue: after,
+        reason: [
+          after.mode !== before.mode ? `Moved ${projects.length} project(s) to ${after.directory}` : `Kept projects in ${after.directory}`,
+          after.auditLogs !== before.auditLogs ? `moved audit logs to the ${after.auditLogs === 'repo' ? 'repository' : 'data root'}` : ''
+        ].filter(Boolean).join(', '),
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+      
+      return after;
+    });
+  }
+  
+  // Audit logs that already exist at the destination, e.g. committed by someone else, are
+  // left alone. Archived events stay where they were archived.
+  private async moveAuditLog(from: AuditLogStore, to: AuditLogStore): Promise<void> {
+    const stored = await from.read();
+    if (!stored) return; // Nothing logged yet
+    
+    if (await to.read()) {
+      log.warn('Audit log exists at both locations, keeping both', { from: from.location, to: to.location });
+      return;
+    }
+    
+    await to.write(stored.log);
+    await from.remove();
+  }
+  
+  // Storage backends - everything the current adapter holds is copied while every workspace
+  // and project lock is held, then this process switches over. Other processes keep using
+  // the previous backend until they restart, so its data is left in place, and migrating
+  // is refused while their workers are alive unless forced.
+  get storageAdapter(): StorageAdapter {
+    return this.adapter;
+  }
+  
+  async migrateStorage(backend: StorageBackend, options: { force?: boolean } = {}): Promise<StorageMigration> {
+    this.ensureWorkerRegistered();
+    if (backend !== 'json' && backend !== 'sqlite') {
+      throw new ValidationError(`Can't migrate to the "${backend}" backend, expected "json" or "sqlite"`);
+    }
+    if (backend === this.adapter.backend) {
+      throw new ValidationError(`Storage already uses the ${backend} backend`);
+    }
+    
+    const source = this.adapter;
+    const target = createStorageAdapter(backend);
+    const counts = { workspaces: 0, projects: 0, auditLogs: 0 };
+    const workspaceIds: string[] = [];
+    
+    try {
+      for (const workspaceId of await source.listWorkspaceIds()) {
+        if (await source.readWorkspace(workspaceId)) workspaceIds.push(workspaceId);
+      }
+      
+      if (!options.force) {
+        const others: string[] = [];
+        for (const workspaceId of workspaceIds) {
+          const live = await this.workerRegistry.getLiveWorkerIds(workspaceId);
+          others.push(...live.filter(workerId => workerId !== this.currentWorker!.id));
+        }
+        if (others.length > 0) {
+          throw new ValidationError(
+            `Workers ${others.join(', ')} are still active and would keep writing to the ${source.backend} backend; ` +
+            'stop them first, or migrate with force and restart their servers afterwards'
+          );
+        }
+        
+        for (const workspaceId of await target.listWorkspaceIds()) {
+          if (await target.readWorkspace(workspaceId)) {
+            throw new ValidationError(
+              `The ${backend} backend at ${target.location} already holds data; migrate with force to overwrite it`
+            );
+          }
+        }
+      }
+      
+      const copyAll = async () => {
+        for (const workspaceId of workspaceIds) {
+          const workspace = (await source.readWorkspace(workspaceId))!;
+          await target.writeWorkspace(workspace);
+          this.assertCopied(`workspace ${workspaceId}`, workspace, await target.readWorkspace(workspaceId));
+          counts.workspaces++;
+          
+          // Copies keep their versions, so anything left over from an earlier migration goes first
+          for (const projectId of await target.listProjectIds(workspaceId)) {
+            await target.deleteProject(workspaceId, projectId);
+          }
+          for (const projectId of await source.listProjectIds(workspaceId)) {
+            const project = await source.readProject(workspaceId, projectId);
+            if (!project) continue;
+            await target.writeProject(workspaceId, project);
+            this.assertCopied(`project ${projectId}`, project, await target.readProject(workspaceId, projectId));
+            counts.projects++;
+          }
+          
+          for (const key of await source.listAuditLogs(workspaceId)) {
+            const stored = await source.auditLog(key).read();
+            if (!stored) continue;
+            await target.auditLog(key).write(stored.log);
+            this.assertCopied(`audit log ${key.projectId || workspaceId}`, stored.log.events, (await target.auditLog(key).read())?.log.events);
+            counts.auditLogs++;
+          }
+        }
+        
+        await this.configLoader.set('storage.backend', backend, 'global');
+        this.adapter = target;
+      };
+      
+      const locks: ((next: () => Promise<void>) => Promise<void>)[] = [];
+      for (const workspaceId of workspaceIds) {
+        locks.push(next => this.withWorkspaceLock(workspaceId, next));
+        for (const projectId of await source.listProjectIds(workspaceId)) {
+          locks.push(next => this.withProjectLock(workspaceId, projectId, next));
+        }
+      }
+      await locks.reduceRight<() => Promise<void>>((next, lock) => () => lock(next), copyAll)();
+    } catch (error) {
+      if (this.adapter !== target) target.close();
+      throw error;
+    }
+    
+    source.close();
+    this.projectLoggers.clear();
+    this.workspaceLoggers.clear();
+    for (const workspaceId of workspaceIds) {
+      this.evictWorkspaceCache(workspaceId);
+    }
+    
+    const migration: StorageMigration = {
+      from: source.backend,
+      to: backend,
+      location: target.location,
+      previousLocation: source.location,
+      ...counts,
+      overriddenByEnv: (await this.configLoader.resolve()).storage.backend !== backend
+    };
+    
+    for (const workspaceId of workspaceIds) {
+      await this.logWorkspaceEvent(workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: 'workspace.storage.updated',
+        entityType: 'workspace',
+        entityId: workspaceId,
+        action: 'update',
+        oldValue: { backend: source.backend, location: source.location },
+        newValue: { backend, location: target.location },
+        reason: `Moved storage from the ${source.backend} backend to the ${backend} backend at ${target.location}`,
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+    }
+    
+    return migration;
+  }
+  
+  // Compared with sorted keys: backends may return the fields in another order
+  private assertCopied(what: string, original: unknown, copy: unknown): void {
+    if (stableStringify(original) !== stableStringify(copy)) {
+      throw new TrackingError(`The copy of ${what} differs from the original`, 'MIGRATION_FAILED', { what });
+    }
+  }
+  
+  // Helper methods for logging
+  private async getProjectLogger(projectId: string, workspaceId: string): Promise<ProjectChangeLogger> {
+    // Checked on every call: the audit log moves when a pull or another process toggles repo mode
+    const store = this.auditLogIn(await this.getRepoStore(workspaceId), workspaceId, projectId);
+    let logger = this.projectLoggers.get(projectId);
+    if (logger?.store.location === store.location) return logger;
+    
+    const config = await this.getTrackingConfig(workspaceId);
+    // Another call may have created it meanwhile; two loggers would overwrite each other's events
+    logger = this.projectLoggers.get(projectId);
+    if (logger?.store.location !== store.location) {
+      logger = new ProjectChangeLogger(projectId, workspaceId, store, config);
+      this.projectLoggers.set(projectId, logger);
+    }
+    return logger;
+  }
+  
+  private auditLogIn(repo: RepoProjectStore | null, workspaceId: string, projectId: string): AuditLogStore {
+    const key: AuditLogKey = { workspaceId, projectId };
+    return repo?.settings.auditLogs ? new JsonAuditLogFile(repo.getAuditDir(projectId), key) : this.adapter.auditLog(key);
+  }
+  
+  private async getWorkspaceLogger(workspaceId: string): Promise<WorkspaceChangeLogger> {
+    let logger = this.workspaceLoggers.get(workspaceId);
+    if (!logger) {
+      const config = await this.getTrackingConfig(workspaceId);
+      logger = this.workspaceLoggers.get(workspaceId)
+        || new WorkspaceChangeLogger(workspaceId, this.adapter.auditLog({ workspaceId, projectId: null }), config);
+      this.workspaceLoggers.set(workspaceId, logger);
+    }
+    return logger;
+  }
+  
+  private async logProjectEvent(
+    projectId: string,
+    workspaceId: string,
+    event: Omit<ChangeEvent, 'id' | 'timestamp' | 'projectId' | 'workspaceId'>
+  ): Promise<ChangeEvent> {
+    const logger = await this.getProjectLogger(projectId, workspaceId);
+    const logged = await logger.logChange(event);
+    this.webhooks.publish(logged);
+    this.hooks.onChangeLogged?.(logged);
+    return logged;
+  }
+  
+  private async logWorkspaceEvent(
+    workspaceId: string,
+    event: Omit<ChangeEvent, 'id' | 'timestamp' | 'workspaceId' | 'projectId'>
+  ): Promise<ChangeEvent> {
+    const logger = await this.getWorkspaceLogger(workspaceId);
+    const logged = await logger.logChange({
+      ...event,
+      projectId: 'workspace-level'
+    });
+    this.webhooks.publish(logged);
+    this.hooks.onChangeLogged?.(logged);
+    return logged;
+  }
+  
+  // Forgets cached workspace metadata and audit logs after another process changed them
+  async invalidateCaches(workspaceId: string, projectId?: string): Promise<void> {
+    this.evictWorkspaceCache(workspaceId);
+    await (await this.getWorkspaceLogger(workspaceId)).clearCache();
+    if (projectId) {
+      await (await this.getProjectLogger(projectId, workspaceId)).clearCache();
+    }
+  }
+  
+  private ensureWorkerRegistered(): void {
+    if (!this.currentWorker) {
+      throw new Error('No worker registered. Call registerWorkerForWorkspace() first.');
+    }
+  }
+  
+  // Locking helpers - every read-modify-write of a shared file runs under its lock
+  private async withProjectLock<T>(workspaceId: string, projectId: string, fn: () => Promise<T>): Promise<T> {
+    return this.lockManager.withLock(
+      workspaceId,
+      `project-${projectId}`,
+      this.currentWorker || SYSTEM_WORKER,
+      fn,
+      this.lockEventHooks(workspaceId, projectId)
+    );
+  }
+  
+  private async withWorkspaceLock<T>(workspaceId: string, fn: () => Promise<T>): Promise<T> {
+    return this.lockManager.withLock(workspaceId, 'workspace', this.currentWorker || SYSTEM_WORKER, async () => {
+      this.evictWorkspaceCache(workspaceId);
+      await (await this.getWorkspaceLogger(workspaceId)).clearCache();
+      return fn();
+    });
+  }
+  
+  // Uncontended locks are not logged to keep the audit log focused on mutations
+  private lockEventHooks(workspaceId: string, projectId: string) {
+    const isNotable = (acquisition: LockAcquisition) => acquisition.waitedMs > 0 || !!acquisition.brokeStaleLock;
+    
+    const logLockEvent = async (type: 'lock.acquired' | 'lock.released', acquisition: LockAcquisition) => {
+      const worker = this.currentWorker || SYSTEM_WORKER;
+      await this.logProjectEvent(projectId, workspaceId, {
+        workerId: worker.id,
+        sessionId: worker.sessionId,
+        type,
+        entityType: 'project',
+        entityId: projectId,
+        action: type === 'lock.acquired' ? 'lock' : 'unlock',
+        newValue: {
+          resource: acquisition.resource,
+          waitedMs: acquisition.waitedMs,
+          brokeStaleLock: acquisition.brokeStaleLock
+        },
+        reason: type === 'lock.acquired'
+          ? `Acquired project lock after ${acquisition.waitedMs}ms` +
+            (acquisition.brokeStaleLock ? ` (reclaimed stale lock from ${acquisition.brokeStaleLock.workerId})` : '')
+          : 'Released project lock',
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+    };
+    
+    return {
+      onAcquired: async (acquisition: LockAcquisition) => {
+        // Another process may have appended to the audit log since we cached it
+        await (await this.getProjectLogger(projectId, workspaceId)).clearCache();
+        if (isNotable(acquisition)) await logLockEvent('lock.acquired', acquisition);
+      },
+      onReleased: async (acquisition: LockAcquisition) => {
+        if (isNotable(acquisition)) await logLockEvent('lock.released', acquisition);
+      }
+    };
+  }
+  
+  // Index lookups - a miss or a vanished project means another process changed the
+  // data, so the index is rebuilt from disk before giving up
+  private async locateTodo(todoId: string): Promise<TodoLocation | null> {
+    const indexed = await this.todoIndex.locateTodo(todoId);
+    if (indexed && await this.projectExists(indexed.workspaceId, indexed.projectId)) {
+      return indexed;
+    }
+    
+    await this.todoIndex.rebuild();
+    return this.todoIndex.locateTodo(todoId);
+  }
+  
+  protected async findWorkspaceForProject(projectId: string): Promise<string | null> {
+    const indexed = await this.todoIndex.findWorkspaceForProject(projectId);
+    if (indexed && await this.projectExists(indexed, projectId)) {
+      return indexed;
+    }
+    
+    await this.todoIndex.rebuild();
+    return this.todoIndex.findWorkspaceForProject(projectId);
+  }
+  
+  // Keeps parent todos and the todo index in step with every project write
+  protected async writeProject(workspaceId: string, project: Project): Promise<void> {
+    const rolledUp = rollUpHierarchy(project.todos);
+    
+    await super.writeProject(workspaceId, project);
+    await this.todoIndex.syncProject(workspaceId, project);
+    await this.fullTextIndex.syncProject(workspaceId, project);
+    
+    if (rolledUp.length === 0) return;
+    
+    const actor = this.currentWorker || SYSTEM_WORKER;
+    for (const { todo, oldTodo } of rolledUp) {
+      await this.logProjectEvent(project.id, workspaceId, {
+        workerId: actor.id,
+        sessionId: actor.sessionId,
+        type: 'todo.updated',
+        entityType: 'todo',
+        entityId: todo.id,
+        action: 'update',
+        oldValue: oldTodo,
+        newValue: todo,
+        reason: `${ROLL_UP_REASON} "${todo.title}"` +
+          (oldTodo.status !== todo.status ? ` (status "${oldTodo.status}" -> "${todo.status}")` : ''),
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+    }
+    await this.hooks.onTodosRolledUp?.(rolledUp.map(change => ({ ...change, projectId: project.id, workspaceId })));
+  }
+  
+  async findProjectByTodoId(todoId: string): Promise<Project | null> {
+    const location = await this.locateTodo(todoId);
+    if (!location) return null;
+    
+    const project = await this.readProjectFile(location.workspaceId, location.projectId);
+    return project.todos.some(t => t.id === todoId) ? project : null;
+  }
+  
+  // Only the claiming worker may finish or release a claimed todo unless forced
+  private assertClaimOwner(todo: TodoItem, workerId: string, force?: boolean): void {
+    if (todo.claimedBy && todo.claimedBy !== workerId && !force) {
+      throw new ClaimOwnershipError(todo.id, todo.claimedBy, workerId);
+    }
+  }
+  
+  // Optimistic concurrency: reject writes that were based on an outdated read of the todo
+  private async assertExpectedVersion(
+    workspaceId: string,
+    projectId: string,
+    todo: TodoItem,
+    expectedVersion?: number
+  ): Promise<void> {
+    const currentVersion = todo.version || 0;
+    if (expectedVersion === undefined || expectedVersion === currentVersion) return;
+    
+    const logger = await this.getProjectLogger(projectId, workspaceId);
+    const [latestChange] = await logger.getChangeHistory('todo', todo.id);
+    
+    throw new ConflictError(
+      `Todo ${todo.id} is at version ${currentVersion}, expected ${expectedVersion}`,
+      [{
+        id: this.generateId(),
+        type: 'stale_data',
+        events: latestChange ? [latestChange] : [],
+        severity: 'medium',
+        autoResolvable: false,
+        description: `Todo "${todo.title}" changed since version ${expectedVersion} was read`,
+        suggestedResolution: 'Re-read the project and retry against the current version'
+      }]
+    );
+  }
+  
+  // Enhanced project operations with scoped tracking
+  async createProject(request: CreateProjectRequest): Promise<Project> {
+    this.ensureWorkerRegistered();
+    
+    const workspace = await this.getOrCreateWorkspace(request.workspacePath);
+    await this.assertWorkspaceAccess(workspace.id);
+    
+    return this.withWorkspaceLock(workspace.id, async () => {
+      const startTime = Date.now();
+      const project = await super.createProject(request);
+      
+      // Update worker's current project
+      await this.workerRegistry.setCurrentProject(
+        this.currentWorker!.workspaceId,
+        this.currentWorker!.id,
+        project.id
+      );
+      
+      // Log workspace-level event (project creation)
+      await this.logWorkspaceEvent(project.workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: 'workspace.project.created',
+        entityType: 'project',
+        entityId: project.id,
+        action: 'create',
+        newValue: { id: project.id, name: project.name },
+        reason: `Created project "${project.name}"`,
+        duration: Date.now() - startTime,
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+      
+      return project;
+    });
+  }
+  
+  async updateProject(projectId: string, updates: Partial<Project>): Promise<Project | null> {
+    this.ensureWorkerRegistered();
+    
+    const workspaceId = await this.findWorkspaceForProject(projectId);
+    if (!workspaceId) return null;
+    await this.assertWorkspaceAccess(workspaceId);
+    
+    return this.withProjectLock(workspaceId, projectId, async () => {
+      const startTime = Date.now();
+      const oldProject = await super.getProject(projectId);
+      const updatedProject = await super.updateProject(projectId, updates);
+      
+      if (updatedProject && oldProject) {
+        // Log project-level event
+        await this.logProjectEvent(projectId, updatedProject.workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'project.updated',
+          entityType: 'project',
+          entityId: projectId,
+          action: 'update',
+          oldValue: oldProject,
+          newValue: updatedProject,
+          reason: `Updated project "${updatedProject.name}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
+      }
+      
+      return updatedProject;
+    });
+  }
+  
+  async deleteProject(projectId: string): Promise<boolean> {
+    this.ensureWorkerRegistered();
+    
+    const workspaceId = await this.findWorkspaceForProject(projectId);
+    if (!workspaceId) return false;
+    await this.assertWorkspaceAccess(workspaceId);
+    
+    return this.withWorkspaceLock(workspaceId, () => this.withProjectLock(workspaceId, projectId, async () => {
+      const startTime = Date.now();
+      const project = await super.getProject(projectId);
+      const success = await super.deleteProject(projectId);
+      
+      if (success) {
+        await this.todoIndex.removeProject(projectId);
+        await this.fullTextIndex.removeProject(workspaceId, projectId);
+      }
+      
+      if (success && project) {
+        // Log workspace-level event
+        await this.logWorkspaceEvent(project.workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'workspace.project.deleted',
+          entityType: 'project',
+          entityId: projectId,
+          action: 'delete',
+          oldValue: { id: project.id, name: project.name },
+          reason: `Deleted project "${project.name}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
+      }
+      
+      return success;
+    }));
+  }
+  
+  // Enhanced todo operations with project-scoped tracking and dependency support
+  async createTodo(request: CreateTodoRequest): Promise<TodoItem | null> {
+    this.ensureWorkerRegistered();
+    
+    if (request.recurrence) {
+      validateRecurrence(request.recurrence);
+    }
+    
+    // Use our enhanced implementation instead of super.createTodo() to avoid single in-progress constraint
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return null;
+    await this.assertWorkspaceAccess(workspaceId);
+    
+    const created = await this.withProjectLock(workspaceId, request.projectId, async () => {
+      const startTime = Date.now();
+      
+      const project = await super.getProject(request.projectId);
+      if (!project) return null;
+      
+      // Subtasks start out in their parent's phase
+      const parent = request.parentId ? project.todos.find(t => t.id === request.parentId) : undefined;
+      
+      const todo: TodoItem = {
+        id: this.generateId(),
+        title: request.title,
+        description: request.description,
+        status: 'pending',
+        phaseId: request.phaseId || parent?.phaseId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        order: nextOrder(project.todos),
+        // Dependency fields
+        dependsOn: request.dependsOn || [],
+        dependents: [], // Will be computed
+        blockedBy: [], // Will be computed
+        estimatedDuration: request.estimatedDuration,
+        priority: request.priority || 'medium',
+        // Application areas
+        areas: request.areas,
+        primaryArea: request.primaryArea || request.areas[0],
+        // Documentation fields
+        notes: request.notes,
+        recurrence: request.recurrence,
+        parentId: request.parentId,
+        version: 1
+      };
+      
+      if (todo.parentId) {
+        validateParent(project.todos, todo.id, todo.parentId);
+      }
+      
+      // Validate dependencies with actual todo ID
+      if (todo.dependsOn.length > 0 || todo.parentId) {
+        for (const depId of todo.dependsOn) {
+          // Check if dependency exists in the project
+          const dependsOnTodo = project.todos.find(t => t.id === depId);
+          if (!dependsOnTodo) {
+            throw new Error(`Dependency todo with ID ${depId} not found in project`);
+          }
+        }
+        
+        // Check for cycles by temporarily adding the todo and testing; subtasks inherit their parent's dependencies
+        const testTodos = [...project.todos, todo];
+        const cycles = this.dependencyManager.detectCycles(testTodos);
+        if (cycles.length > 0) {
+          throw new Error(`Adding these dependencies would create a cycle: ${cycles[0].join(' -> ')}`);
+        }
+      }
+      
+      project.todos.push(todo);
+      project.updatedAt = new Date();
+      
+      await this.writeProject(workspaceId, project);
+      
+      // Log project-level event
+      await this.logProjectEvent(project.id, project.workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: 'todo.created',
+        entityType: 'todo',
+        entityId: todo.id,
+        action: 'create',
+        newValue: todo,
+        reason: `Created todo "${todo.title}"${todo.dependsOn.length > 0 ? ` with ${todo.dependsOn.length} dependencies` : ''}`,
+        duration: Date.now() - startTime,
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+      
+      return todo;
+    });
+    
+    if (created) await this.setWorkerProject(request.projectId);
+    return created;
+  }
+  
+  // Update worker's current project if not already set. Called once the project lock is
+  // released, since the registry takes the workspace lock and that one is always taken first.
+  private async setWorkerProject(projectId: string): Promise<void> {
+    const worker = this.currentWorker!;
+    if (worker.currentProjectId !== projectId) {
+      await this.workerRegistry.setCurrentProject(worker.workspaceId, worker.id, projectId);
+    }
+  }
+  
+  // Claim fields for a status transition: claiming records the owner, releasing, blocking
+  // and cancelling clear it, completion and failure keep it as a record of who did the work
+  private claimFieldsFor(
+    todo: TodoItem,
+    newStatus: TodoItem['status'] | undefined,
+    workerId: string
+  ): Pick<TodoItem, 'claimedBy' | 'claimedAt'> {
+    if (!newStatus || newStatus === todo.status) {
+      return { claimedBy: todo.claimedBy, claimedAt: todo.claimedAt };
+    }
+    
+    if (newStatus === 'in-progress') {
+      return { claimedBy: workerId, claimedAt: new Date() };
+    }
+    
+    if (newStatus === 'pending' || newStatus === 'blocked' || newStatus === 'cancelled') {
+      return { claimedBy: undefined, claimedAt: undefined };
+    }
+    
+    return { claimedBy: todo.claimedBy, claimedAt: todo.claimedAt };
+  }
+  
+  // Reason fields for a status transition; leaving blocked, failed or cancelled clears them
+  private statusFieldsFor(
+    newStatus: TodoStatus,
+    reason?: string,
+    dependentsPolicy?: DependentsPolicy
+  ): Pick<TodoItem, 'statusReason' | 'failureBlocksDependents'> {
+    return {
+      statusReason: requiresReason(newStatus) ? reason!.trim() : undefined,
+      failureBlocksDependents: newStatus === 'failed' ? dependentsPolicy === 'block' : undefined
+    };
+  }
+  
+  // Cancelling a todo cancels its open subtasks, and with the cascade policy its open
+  // dependents (and their subtasks) too. Replaces them in the project and returns them.
+  private cancelAlong(
+    project: Project,
+    cancelled: TodoItem,
+    cascade: boolean,
+    workerId: string
+  ): { oldTodo: TodoItem; todo: TodoItem }[] {
+    const changes: { oldTodo: TodoItem; todo: TodoItem }[] = [];
+    const seen = new Set([cancelled.id]);
+    const queue = [cancelled.id];
+    
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      const related = [
+        ...descendantsOf(project.todos, id),
+        ...(cascade ? project.todos.filter(t => t.dependsOn.includes(id)) : [])
+      ];
+      
+      for (const todo of related) {
+        if (seen.has(todo.id) || isClosed(todo)) continue;
+        seen.add(todo.id);
+        queue.push(todo.id);
+        
+        const updated: TodoItem = {
+          ...todo,
+          status: 'cancelled',
+          statusReason: `Cancelled along with "${cancelled.title}": ${cancelled.statusReason}`,
+          failureBlocksDependents: undefined,
+          version: this.nextVersion(todo),
+          updatedAt: new Date(),
+          ...this.claimFieldsFor(todo, 'cancelled', workerId)
+        };
+        project.todos[project.todos.indexOf(todo)] = updated;
+        changes.push({ oldTodo: todo, todo: updated });
+      }
+    }
+    
+    return changes;
+  }
+  
+  // Helper method to generate IDs (using the same method as base class)
+  private generateId(): string {
+    return require('uuid').v4();
+  }
+  
+  async updateTodo(request: UpdateTodoRequest, options: ClaimOptions = {}): Promise<TodoItem | null> {
+    this.ensureWorkerRegistered();
+    
+    const startTime = Date.now();
+    const workerId = options.workerId || this.currentWorker!.id;
+    
+    const location = await this.locateTodo(request.id);
+    if (!location) return null;
+    await this.assertWorkspaceAccess(location.workspaceId);
+    
+    const saved = await this.withProjectLock(location.workspaceId, location.projectId, async () => {
+      const workspaceId = location.workspaceId;
+      const targetProject = await this.readProjectFile(workspaceId, location.projectId);
+      
+      const todoIndex = targetProject.todos.findIndex(t => t.id === request.id);
+      if (todoIndex === -1) return null;
+      
+      const oldTodo = targetProject.todos[todoIndex];
+      await this.assertExpectedVersion(workspaceId, targetProject.id, oldTodo, options.expectedVersion);
+      
+      // Validate dependencies if being updated
+      if (request.dependsOn !== undefined) {
+        const tempUpdated = { ...oldTodo, dependsOn: request.dependsOn };
+        
+        // Remove old dependencies and add new ones for validation
+        const otherTodos = targetProject.todos.filter(t => t.id !== request.id);
+        for (const depId of request.dependsOn) {
+          this.dependencyManager.validateDependency([...otherTodos, tempUpdated], request.id, depId);
+        }
+      }
+      
+      // Moving a todo under a new parent can't create a loop, directly or through dependencies
+      if (request.parentId) {
+        validateParent(targetProject.todos, request.id, request.parentId);
+        
+        const testTodos = targetProject.todos.map(t => t.id === request.id
+          ? { ...t, parentId: request.parentId, dependsOn: request.dependsOn ?? t.dependsOn }
+          : t
+        );
+        const cycles = this.dependencyManager.detectCycles(testTodos);
+        if (cycles.length > 0) {
+          throw new ValidationError(`Moving this todo would create a cycle: ${cycles[0].join(' -> ')}`);
+        }
+      }
+      
+      // Check if todo can be moved to in-progress based on dependencies
+      if (request.status === 'in-progress') {
+        const currentDeps = request.dependsOn !== undefined ? request.dependsOn : oldTodo.dependsOn;
+        const { canStart, reason } = this.dependencyManager.canStartTodo(
+          targetProject.todos.map(t => t.id === request.id ? { ...t, dependsOn: currentDeps } : t),
+          request.id
+        );
+        
+        if (!canStart) {
+          throw new Error(`Cannot start todo: ${reason}`);
+        }
+      }
+      
+      if (request.recurrence) {
+        validateRecurrence(request.recurrence);
+      }
+      
+      // Blocking, failing and cancelling need a reason, which only changeStatus() takes
+      if (request.status && requiresReason(request.status)) {
+        throw new ValidationError(`A todo can't be marked ${request.status} by an update; block, fail or cancel it with a reason instead`);
+      }
+      
+      // Require completion summary when marking as completed
+      if (request.status === 'completed' && oldTodo.status !== 'completed') {
+        if (!request.completionSummary) {
+          throw new Error('Completion summary is required when marking a todo as completed');
+        }
+        assertSubtasksCompleted(targetProject.todos, oldTodo);
+      }
+      
+      // Finishing or releasing a claimed todo requires ownership
+      const isStatusChange = request.status !== undefined && request.status !== oldTodo.status;
+      if (isStatusChange && oldTodo.status === 'in-progress') {
+        this.assertClaimOwner(oldTodo, workerId, options.force);
+      }
+      
+      const updated: TodoItem = {
+        ...oldTodo,
+        ...request,
+        id: oldTodo.id, // Prevent ID change
+        version: this.nextVersion(oldTodo),
+        dependsOn: request.dependsOn !== undefined ? request.dependsOn : oldTodo.dependsOn,
+        dependents: oldTodo.dependents, // Keep computed field
+        blockedBy: oldTodo.blockedBy, // Keep computed field
+        recurrence: request.recurrence !== undefined ? request.recurrence || undefined : oldTodo.recurrence,
+        parentId: request.parentId !== undefined ? request.parentId || undefined : oldTodo.parentId,
+        ...(isStatusChange ? this.statusFieldsFor(request.status!) : {}),
+        updatedAt: new Date(),
+        // Set startedAt when status changes to in-progress
+        startedAt: request.status === 'in-progress' && oldTodo.status !== 'in-progress'
+          ? new Date()
+          : oldTodo.startedAt,
+        // Set completedAt when status changes to completed
+        completedAt: request.status === 'completed' && oldTodo.status !== 'completed' 
+          ? new Date() 
+          : oldTodo.completedAt,
+        ...this.claimFieldsFor(oldTodo, request.status, workerId)
+      };
+      
+      targetProject.todos[todoIndex] = updated;
+      targetProject.updatedAt = new Date();
+      
+      await this.writeProject(workspaceId, targetProject);
+      
+      // Determine specific change type
+      let changeType: 'todo.updated' = 'todo.updated';
+      let reason = `Updated todo "${updated.title}"`;
+      
+      if (oldTodo.status !== updated.status) {
+        if (updated.status === 'completed') {
+          reason = `Completed todo "${updated.title}"`;
+        } else if (oldTodo.status === 'pending' && updated.status === 'in-progress') {
+          reason = `Started work on todo "${updated.title}"`;
+        }
+      }
+      
+      if (request.dependsOn !== undefined && JSON.stringify(oldTodo.dependsOn) !== JSON.stringify(request.dependsOn)) {
+        reason += ` (updated dependencies)`;
+      }
+      
+      if (oldTodo.parentId !== updated.parentId) {
+        reason += updated.parentId ? ` (moved under ${updated.parentId})` : ` (moved to the top level)`;
+      }
+      
+      // Log project-level event
+      await this.logProjectEvent(targetProject.id, targetProject.workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: changeType,
+        entityType: 'todo',
+        entityId: request.id,
+        action: 'update',
+        oldValue: oldTodo,
+        newValue: updated,
+        reason,
+        duration: Date.now() - startTime,
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+      
+      return updated;
+    });
+    
+    if (saved) await this.setWorkerProject(location.projectId);
+    return saved;
+  }
 
-    const oldTodo = targetProject.todos[todoIndex];
+  async changeStatus(
+    todoId: string,
+    newStatus: TodoStatus,
+    options: StatusChangeOptions = {}
+  ): Promise<TodoItem | null> {
+    this.ensureWorkerRegistered();
     
-    // Check if todo can be moved to in-progress based on dependencies
-    if (newStatus === 'in-progress') {
-      const { canStart, reason } = this.dependencyManager.canStartTodo(
-        targetProject.todos,
-        todoId
+    const startTime = Date.now();
+    const workerId = options.workerId || this.currentWorker!.id;
+    const dependentsPolicy = validateStatusChange(newStatus, options.reason, options.dependentsPolicy);
+    
+    const location = await this.locateTodo(todoId);
+    if (!location) return null;
+    await this.assertWorkspaceAccess(location.workspaceId);
+    
+    return this.withProjectLock(location.workspaceId, location.projectId, async () => {
+      const workspaceId = location.workspaceId;
+      const targetProject = await this.readProjectFile(workspaceId, location.projectId);
+      
+      const todoIndex = targetProject.todos.findIndex(t => t.id === todoId);
+      if (todoIndex === -1) return null;
+
+      const oldTodo = targetProject.todos[todoIndex];
+      await this.assertExpectedVersion(workspaceId, targetProject.id, oldTodo, options.expectedVersion);
+      
+      // Check if todo can be moved to in-progress based on dependencies
+      if (newStatus === 'in-progress') {
+        const { canStart, reason } = this.dependencyManager.canStartTodo(
+          targetProject.todos,
+          todoId
+        );
+        
+        if (!canStart) {
+          throw new Error(`Cannot start todo: ${reason}`);
+        }
+      } else if (oldTodo.status === 'in-progress') {
+        this.assertClaimOwner(oldTodo, workerId, options.force);
+      }
+      
+      if (newStatus === 'completed' && oldTodo.status !== 'completed') {
+        assertSubtasksCompleted(targetProject.todos, oldTodo);
+      }
+      
+      // Only update status, reason, timestamps and claim fields, preserve all other fields
+      const updated: TodoItem = {
+        ...oldTodo,
+        status: newStatus,
+        ...this.statusFieldsFor(newStatus, options.reason, dependentsPolicy),
+        version: this.nextVersion(oldTodo),
+        updatedAt: new Date(),
+        startedAt: newStatus === 'in-progress' && oldTodo.status !== 'in-progress'
+          ? new Date()
+          : oldTodo.startedAt,
+        completedAt: newStatus === 'completed' && oldTodo.status !== 'completed'
+          ? new Date()
+          : oldTodo.completedAt,
+        ...this.claimFieldsFor(oldTodo, newStatus, workerId)
+      };
+      
+      targetProject.todos[todoIndex] = updated;
+      const cancelledAlong = newStatus === 'cancelled' && oldTodo.status !== 'cancelled'
+        ? this.cancelAlong(targetProject, updated, dependentsPolicy === 'cascade', workerId)
+        : [];
+      targetProject.updatedAt = new Date();
+      
+      await this.writeProject(workspaceId, targetProject);
+      
+      // Every event of a cascade shares the batch ID so it can be traced as one change
+      const relatedChanges = cancelledAlong.length > 0 ? [this.generateId()] : [];
+      
+      // Log project-level event
+      await this.logProjectEvent(targetProject.id, targetProject.workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: 'todo.updated',
+        entityType: 'todo',
+        entityId: todoId,
+        action: 'update',
+        oldValue: oldTodo,
+        newValue: updated,
+        reason: `Changed status from "${oldTodo.status}" to "${newStatus}"` +
+          (updated.statusReason ? `: ${updated.statusReason}` : '') +
+          (newStatus === 'failed' && !updated.failureBlocksDependents ? ' (dependents unblocked)' : '') +
+          (cancelledAlong.length > 0 ? ` (also cancelled ${cancelledAlong.length} subtask(s) and dependent(s))` : '') +
+          (oldTodo.claimedBy && oldTodo.claimedBy !== workerId ? ` (forced over claim by ${oldTodo.claimedBy})` : ''),
+        duration: Date.now() - startTime,
+        changes: [{
+          field: 'status',
+          oldValue: oldTodo.status,
+          newValue: newStatus,
+          type: 'modified'
+        }],
+        relatedChanges,
+        conflictsWith: []
+      });
+      
+      for (const { oldTodo: before, todo } of cancelledAlong) {
+        await this.logProjectEvent(targetProject.id, targetProject.workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'todo.updated',
+          entityType: 'todo',
+          entityId: todo.id,
+          action: 'update',
+          oldValue: before,
+          newValue: todo,
+          reason: todo.statusReason!,
+          changes: [{ field: 'status', oldValue: before.status, newValue: 'cancelled', type: 'modified' }],
+          relatedChanges,
+          conflictsWith: []
+        });
+      }
+      
+      return updated;
+    });
+  }
+  
+  async deleteTodo(todoId: string): Promise<boolean> {
+    this.ensureWorkerRegistered();
+    
+    const location = await this.locateTodo(todoId);
+    if (!location) return false;
+    await this.assertWorkspaceAccess(location.workspaceId);
+    
+    return this.withProjectLock(location.workspaceId, location.projectId, async () => {
+      const startTime = Date.now();
+      const project = await this.readProjectFile(location.workspaceId, location.projectId);
+      
+      const index = project.todos.findIndex(t => t.id === todoId);
+      if (index === -1) return false;
+      
+      const [todoToDelete] = project.todos.splice(index, 1);
+      
+      // Subtasks move up to the deleted todo's parent rather than being deleted with it
+      const movedSubtasks: { oldTodo: TodoItem; todo: TodoItem }[] = [];
+      project.todos = project.todos.map(todo => {
+        if (todo.parentId !== todoId) return todo;
+        
+        const moved = { ...todo, parentId: todoToDelete.parentId, version: this.nextVersion(todo), updatedAt: new Date() };
+        movedSubtasks.push({ oldTodo: todo, todo: moved });
+        return moved;
+      });
+      
+      project.updatedAt = new Date();
+      
+      await this.writeProject(location.workspaceId, project);
+      
+      // Log project-level event
+      await this.logProjectEvent(project.id, project.workspaceId, {
+        workerId: this.currentWorker!.id,
+        sessionId: this.currentWorker!.sessionId,
+        type: 'todo.deleted',
+        entityType: 'todo',
+        entityId: todoId,
+        action: 'delete',
+        oldValue: todoToDelete,
+        reason: `Deleted todo "${todoToDelete.title}"`,
+        duration: Date.now() - startTime,
+        changes: [],
+        relatedChanges: [],
+        conflictsWith: []
+      });
+      
+      for (const { oldTodo, todo } of movedSubtasks) {
+        await this.logProjectEvent(project.id, project.workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'todo.updated',
+          entityType: 'todo',
+          entityId: todo.id,
+          action: 'update',
+          oldValue: oldTodo,
+          newValue: todo,
+          reason: `Moved subtask "${todo.title}" up after its parent "${todoToDelete.title}" was deleted`,
+          changes: [{ field: 'parentId', oldValue: oldTodo.parentId, newValue: todo.parentId, type: 'modified' }],
+          relatedChanges: [],
+          conflictsWith: []
+        });
+      }
+      
+      return true;
+    });
+  }
+  
+  async reorderTodos(request: ReorderTodosRequest): Promise<boolean> {
+    this.ensureWorkerRegistered();
+    
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return false;
+    await this.assertWorkspaceAccess(workspaceId);
+    
+    return this.withProjectLock(workspaceId, request.projectId, async () => {
+      const startTime = Date.now();
+      const project = await super.getProject(request.projectId);
+      const oldOrder = project?.todos.map(t => ({ id: t.id, order: t.order })) || [];
+      
+      const success = await super.reorderTodos(request);
+      
+      if (success && project) {
+        // Log project-level event
+        await this.logProjectEvent(project.id, project.workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'todo.reordered',
+          entityType: 'todo',
+          entityId: request.projectId, // Use project ID since multiple todos are affected
+          action: 'reorder',
+          oldValue: { todoOrder: oldOrder },
+          newValue: { todoOrder: request.todoIds.map((id, index) => ({ id, order: index })) },
+          reason: `Reordered ${request.todoIds.length} todos in project "${project.name}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
+      }
+      
+      return success;
+    });
+  }
+  
+  // Creates a whole plan of todos and dependencies with a single project write
+  async createPlan(request: CreatePlanRequest): Promise<CreatePlanResult | null> {
+    this.ensureWorkerRegistered();
+    
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return null;
+    await this.assertWorkspaceAccess(workspaceId);
+    
+    return this.withProjectLock(workspaceId, request.projectId, async () => {
+      const startTime = Date.now();
+      const project = await this.readProjectFile(workspaceId, request.projectId);
+      const existingIds = new Set(project.todos.map(t => t.id));
+      
+      // Assign real IDs to every temp ID before resolving any references
+      const idMap = new Map<string, string>();
+      for (const input of request.todos) {
+        validateTodoTitle(input.title);
+        if (!input.areas || input.areas.length === 0) {
+          throw new ValidationError(`Todo "${input.tempId}" must have at least one area`);
+        }
+        if (idMap.has(input.tempId) || existingIds.has(input.tempId)) {
+          throw new ValidationError(`Duplicate todo ID in plan: ${input.tempId}`);
+        }
+        if (input.recurrence) {
+          validateRecurrence(input.recurrence);
+        }
+        idMap.set(input.tempId, this.generateId());
+      }
+      
+      const resolve = (ref: string): string => {
+        const id = idMap.get(ref);
+        if (id) return id;
+        if (existingIds.has(ref)) return ref;
+        throw new ValidationError(`Unknown todo reference in plan: ${ref}`);
+      };
+      
+      const newTodos: TodoItem[] = request.todos.map((input, index) => ({
+        id: idMap.get(input.tempId)!,
+        title: input.title,
+        description: input.description,
+        status: 'pending',
+        phaseId: input.phaseId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        order: nextOrder(project.todos) + index,
+        dependsOn: [...new Set((input.dependsOn || []).map(resolve))],
+        dependents: [],
+        blockedBy: [],
+        estimatedDuration: input.estimatedDuration,
+        priority: input.priority || 'medium',
+        areas: input.areas,
+        primaryArea: input.primaryArea || input.areas[0],
+        notes: input.notes,
+        recurrence: input.recurrence,
+        parentId: input.parentId ? resolve(input.parentId) : undefined,
+        version: 1
+      }));
+      
+      const todos = [...project.todos, ...newTodos];
+      const todoIndex = new Map(todos.map((todo, index) => [todo.id, index]));
+      const addedEdges: { todoId: string; dependsOnId: string }[] = [];
+      
+      for (const edge of request.dependencies || []) {
+        const todoId = resolve(edge.todoId);
+        const dependsOnId = resolve(edge.dependsOnId);
+        const index = todoIndex.get(todoId)!;
+        
+        if (todos[index].dependsOn.includes(dependsOnId)) continue;
+        
+        todos[index] = { ...todos[index], dependsOn: [...todos[index].dependsOn, dependsOnId] };
+        if (existingIds.has(todoId)) {
+          addedEdges.push({ todoId, dependsOnId });
+        }
+      }
+      
+      // Validate the complete graph before anything is written
+      const selfDependent = todos.find(t => t.dependsOn.includes(t.id));
+      if (selfDependent) {
+        throw new ValidationError(`Todo "${selfDependent.title}" cannot depend on itself`);
+      }
+      for (const todo of newTodos.filter(t => t.parentId)) {
+        validateParent(todos, todo.id, todo.parentId!);
+      }
+      
+      const cycles = this.dependencyManager.detectCycles(todos);
+      if (cycles.length > 0) {
+        const tempIds = new Map([...idMap].map(([tempId, id]) => [id, tempId]));
+        const cycle = cycles[0].map(id => tempIds.get(id) || id);
+        throw new ValidationError(`Plan contains a dependency cycle: ${cycle.join(' -> ')}`);
+      }
+      
+      // Existing todos that gained dependencies get a new version
+      const updatedIds = new Set(addedEdges.map(e => e.todoId));
+      project.todos = todos.map(todo => updatedIds.has(todo.id)
+        ? { ...todo, version: this.nextVersion(todo), updatedAt: new Date() }
+        : todo
+      );
+      project.updatedAt = new Date();
+      
+      await this.writeProject(workspaceId, project);
+      
+      const createdIds = new Set(idMap.values());
+      const created = project.todos.filter(t => createdIds.has(t.id));
+      const updatedTodos = project.todos.filter(t => updatedIds.has(t.id));
+      
+      // Every event of the plan shares the batch ID so the plan can be traced as one change
+      const batchId = this.generateId();
+      
+      for (const todo of created) {
+        await this.logProjectEvent(project.id, workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'todo.created',
+          entityType: 'todo',
+          entityId: todo.id,
+          action: 'create',
+          newValue: todo,
+          reason: `Created todo "${todo.title}" as part of a ${created.length}-todo plan`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [batchId],
+          conflictsWith: []
+        });
+      }
+      
+      for (const edge of addedEdges) {
+        await this.logProjectEvent(project.id, workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'todo.dependency.added',
+          entityType: 'todo',
+          entityId: edge.todoId,
+          action: 'update',
+          newValue: edge,
+          reason: `Added dependency: todo "${edge.todoId}" now depends on "${edge.dependsOnId}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [batchId],
+          conflictsWith: []
+        });
+      }
+      
+      return { batchId, idMap: Object.fromEntries(idMap), createdTodos: created, updatedTodos };
+    });
+  }
+  
+  // Templates - shared by every workspace
+  async listTemplates(): Promise<TodoTemplate[]> {
+    return this.templates.list();
+  }
+  
+  async getTemplate(name: string): Promise<TodoTemplate | null> {
+    return this.templates.get(name);
+  }
+  
+  async saveTemplate(request: SaveTemplateRequest): Promise<TodoTemplate> {
+    return this.templates.save(request);
+  }
+  
+  async deleteTemplate(name: string): Promise<boolean> {
+    return this.templates.delete(name);
+  }
+  
+  // Creates the template's project, or adds its phases and todos to an existing one.
+  // Phases are matched by name, so instantiating into a project reuses its phases.
+  async instantiateTemplate(request: InstantiateTemplateRequest): Promise<InstantiateTemplateResult> {
+    this.ensureWorkerRegistered();
+    
+    const stored = await this.templates.get(request.template);
+    if (!stored) {
+      throw new ValidationError(`Template not found: ${request.template}`);
+    }
+    const template = renderTemplate(stored, request.values);
+    
+    let project: Project | null;
+    if (request.projectId) {
+      project = await this.getProject(request.projectId);
+      if (!project) {
+        throw new ValidationError(`Project not found: ${request.projectId}`);
+      }
+    } else if (template.project && request.workspacePath) {
+      project = await this.createProject({ ...template.project, workspacePath: request.workspacePath });
+    } else {
+      throw new ValidationError(
+        template.project
+          ? 'A workspace path is required to create a project from a template'
+          : `Template "${template.name}" only contains todos; give the project to add them to`
       );
+    }
+    
+    const phaseIds = new Map(project.phases.map(phase => [phase.name, phase.id]));
+    const createdPhases: Phase[] = [];
+    const wantedPhases = [
+      ...template.phases,
+      ...template.todos.filter(todo => todo.phase).map(todo => ({ name: todo.phase!, description: undefined }))
+    ];
+    
+    for (const { name, description } of wantedPhases) {
+      if (phaseIds.has(name)) continue;
+      
+      const phase = await this.createPhase({ projectId: project.id, name, description });
+      if (phase) {
+        phaseIds.set(name, phase.id);
+        createdPhases.push(phase);
+      }
+    }
+    
+    const plan = await this.createPlan({
+      projectId: project.id,
+      todos: template.todos.map(({ phase, ...todo }) => ({
+        ...todo,
+        phaseId: phase ? phaseIds.get(phase) : undefined
+      }))
+    });
+    if (!plan) {
+      throw new ValidationError(`Project was deleted while instantiating the template: ${project.id}`);
+    }
+    
+    return { project: (await this.getProject(project.id)) || project, createdPhases, plan };
+  }
+  
+  // Recurring todos - run periodically by the servers. The previous instance is left
+  // as it was; a todo pointing back at it through recurrenceOf marks it as handled.
+  async regenerateRecurringTodos(now = new Date()): Promise<RecurringTodoInstance[]> {
+    const instances: RecurringTodoInstance[] = [];
+    
+    const isDue = (todo: TodoItem, todos: TodoItem[]): boolean => {
+      if (todo.status !== 'completed' || !todo.recurrence || !todo.completedAt) return false;
+      if (todos.some(t => t.recurrenceOf === todo.id)) return false;
+      
+      try {
+        return nextOccurrence(todo.recurrence, new Date(todo.completedAt)) <= now;
+      } catch {
+        return false; // Rule broken by a hand edit
+      }
+    };
+    
+    for (const { id: projectId, workspaceId, todos } of await this.listProjects()) {
+      if (!todos.some(todo => isDue(todo, todos))) continue;
+      
+      instances.push(...await this.withProjectLock(workspaceId, projectId, async () => {
+        const project = await this.readProjectFile(workspaceId, projectId);
+        const due = project.todos.filter(todo => isDue(todo, project.todos));
+        
+        const created: RecurringTodoInstance[] = due.map((previous, index) => ({
+          previous,
+          projectId,
+          workspaceId,
+          todo: {
+            id: this.generateId(),
+            title: previous.title,
+            description: previous.description,
+            status: 'pending',
+            phaseId: previous.phaseId,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            order: nextOrder(project.todos) + index,
+            dependsOn: [],
+            dependents: [],
+            blockedBy: [],
+            estimatedDuration: previous.estimatedDuration,
+            priority: previous.priority,
+            areas: previous.areas,
+            primaryArea: previous.primaryArea,
+            notes: previous.notes,
+            recurrence: previous.recurrence,
+            recurrenceOf: previous.id,
+            parentId: project.todos.some(t => t.id === previous.parentId) ? previous.parentId : undefined,
+            version: 1
+          }
+        }));
+        if (created.length === 0) return [];
+        
+        project.todos.push(...created.map(instance => instance.todo));
+        project.updatedAt = new Date();
+        await this.writeProject(workspaceId, project);
+        
+        const actor = this.currentWorker || SYSTEM_WORKER;
+        for (const { todo, previous } of created) {
+          await this.logProjectEvent(projectId, workspaceId, {
+            workerId: actor.id,
+            sessionId: actor.sessionId,
+            type: 'todo.created',
+            entityType: 'todo',
+            entityId: todo.id,
+            action: 'create',
+            newValue: todo,
+            reason: `Created next instance of recurring todo "${todo.title}" (${todo.recurrence}), ` +
+              `previous completed ${new Date(previous.completedAt!).toISOString()}`,
+            changes: [],
+            relatedChanges: [],
+            conflictsWith: []
+          });
+        }
+        
+        return created;
+      }));
+    }
+    
+    return instances;
+  }
+  
+  // Search - reads project files directly so results reflect writes by other processes
+  async searchTodos(request: SearchTodosRequest): Promise<SearchTodosResult> {
+    const filters = parseTodoQuery(request.query);
+    const limit = Math.max(1, Math.min(request.limit || 20, 200));
+    const offset = Math.max(0, request.offset || 0);
+    
+    let projects: Project[];
+    if (request.projectId) {
+      const project = await super.getProject(request.projectId);
+      projects = project ? [project] : [];
+    } else if (request.workspaceId) {
+      const snapshot = await this.snapshotWorkspace(request.workspaceId).catch(() => null);
+      projects = snapshot ? snapshot.projects : [];
+    } else {
+      projects = await this.listProjects();
+    }
+    
+    if (request.workspaceId) {
+      projects = projects.filter(p => p.workspaceId === request.workspaceId);
+    }
+    
+    const hits: TodoSearchHit[] = [];
+    for (const project of projects) {
+      for (const todo of project.todos) {
+        if (matchesTodoQuery(todo, project, filters)) {
+          hits.push({ todo, projectId: project.id, projectName: project.name, workspaceId: project.workspaceId });
+        }
+      }
+    }
+    
+    return {
+      hits: sortSearchHits(hits, request.sort).slice(offset, offset + limit),
+      total: hits.length,
+      offset,
+      limit
+    };
+  }
+  
+  // Ranks todos by how well their text matches the query, completed todos only by default
+  async findRelatedWork(request: FindRelatedWorkRequest): Promise<RelatedWorkHit[]> {
+    if (tokenize(request.query || '').length === 0) {
+      throw new ValidationError('Query must contain at least one searchable word');
+    }
+    
+    let projects: ProjectRef[];
+    if (request.projectId) {
+      const workspaceId = await this.findWorkspaceForProject(request.projectId);
+      projects = workspaceId ? [{ workspaceId, projectId: request.projectId }] : [];
+    } else {
+      projects = await this.listProjectRefs(request.workspaceId);
+    }
+    
+    // Projects not written since the index was introduced are indexed on first use
+    for (const { workspaceId, projectId } of projects) {
+      if (!(await this.fullTextIndex.hasProject(workspaceId, projectId))) {
+        await this.withProjectLock(workspaceId, projectId, async () => {
+          try {
+            await this.fullTextIndex.syncProject(workspaceId, await this.readProjectFile(workspaceId, projectId));
+          } catch {
+            // Invalid project file, skip
+          }
+        });
+      }
+    }
+    
+    const matches = await this.fullTextIndex.search(request.query, projects, {
+      statuses: request.includeOpen ? undefined : ['completed'],
+      limit: Math.max(1, Math.min(request.limit || 10, 100))
+    });
+    
+    const loaded = new Map<string, Project>();
+    const hits: RelatedWorkHit[] = [];
+    
+    for (const match of matches) {
+      if (!loaded.has(match.projectId)) {
+        loaded.set(match.projectId, await this.readProjectFile(match.workspaceId, match.projectId));
+      }
+      
+      const project = loaded.get(match.projectId)!;
+      const todo = project.todos.find(t => t.id === match.todoId);
+      if (!todo) continue;
+      
+      hits.push({
+        todo,
+        projectId: project.id,
+        projectName: project.name,
+        workspaceId: project.workspaceId,
+        score: match.score,
+        matchedTerms: match.matchedTerms
+      });
+    }
+    
+    return hits;
+  }
+  
+  // Export and import
+  async exportProject(projectId: string, format: ProjectExportFormat): Promise<string | null> {
+    const project = await super.getProject(projectId);
+    if (!project) return null;
+    
+    return exportProject(project, format);
+  }
+  
+  // Imports always create a new project; every ID is regenerated and claims are not carried over
+  async importProject(request: ImportProjectRequest): Promise<ImportProjectResult> {
+    this.ensureWorkerRegistered();
+    
+    const startTime = Date.now();
+    const data = parseProjectExport(request.content, request.format);
+    const name = request.name || data.name;
+    validateProjectName(name);
+    
+    const warnings: string[] = [];
+    const phaseIds = new Map(data.phases.map(phase => [phase.ref, this.generateId()]));
+    
+    const idMap = new Map<string, string>();
+    for (const imported of data.todos) {
+      if (idMap.has(imported.ref)) {
+        warnings.push(`Duplicate todo reference "${imported.ref}", dependencies resolve to the first one`);
+        continue;
+      }
+      idMap.set(imported.ref, this.generateId());
+    }
+    
+    // Todos with a duplicate reference still get imported under an ID of their own
+    const assigned = new Set<string>();
+    const todos: TodoItem[] = data.todos.map((imported, index) => {
+      const id = assigned.has(imported.ref) ? this.generateId() : idMap.get(imported.ref)!;
+      assigned.add(imported.ref);
+      
+      const dependsOn = imported.dependsOn.filter(ref => {
+        if (idMap.has(ref)) return true;
+        warnings.push(`Dropped dependency of "${imported.title}" on unknown todo "${ref}"`);
+        return false;
+      });
+      
+      if (imported.phaseRef && !phaseIds.has(imported.phaseRef)) {
+        warnings.push(`Dropped unknown phase "${imported.phaseRef}" of "${imported.title}"`);
+      }
+      if (imported.status === 'in-progress') {
+        warnings.push(`"${imported.title}" was in progress and is now pending`);
+      }
+      
+      return {
+        id,
+        title: imported.title,
+        description: imported.description,
+        status: imported.status === 'in-progress' ? 'pending' : imported.status,
+        statusReason: imported.status === 'in-progress' ? undefined : imported.statusReason,
+        phaseId: imported.phaseRef ? phaseIds.get(imported.phaseRef) : undefined,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        order: index,
+        dependsOn: [...new Set(dependsOn.map(ref => idMap.get(ref)!))],
+        dependents: [],
+        blockedBy: [],
+        estimatedDuration: imported.estimatedDuration,
+        actualDuration: imported.actualDuration,
+        priority: imported.priority,
+        areas: imported.areas,
+        primaryArea: imported.primaryArea,
+        notes: imported.notes,
+        completionSummary: imported.completionSummary,
+        completedAt: imported.status === 'completed' ? imported.completedAt : undefined,
+        startedAt: imported.status === 'completed' ? imported.startedAt : undefined,
+        version: 1
+      };
+    });
+    
+    // Validate the complete graph before the project is created
+    const cycles = this.dependencyManager.detectCycles(todos);
+    if (cycles.length > 0) {
+      const titles = new Map(todos.map(t => [t.id, t.title]));
+      throw new ValidationError(`Import contains a dependency cycle: ${cycles[0].map(id => titles.get(id)).join(' -> ')}`);
+    }
+    
+    const created = await this.createProject({
+      name,
+      description: data.description,
+      workspacePath: request.workspacePath
+    });
+    
+    return this.withProjectLock(created.workspaceId, created.id, async () => {
+      const project = await this.readProjectFile(created.workspaceId, created.id);
+      
+      project.phases = data.phases.map((phase, index) => ({
+        id: phaseIds.get(phase.ref)!,
+        name: phase.name,
+        description: phase.description,
+        order: index,
+        projectId: project.id
+      }));
+      project.documents = data.documents.map(doc => ({
+        ...doc,
+        id: this.generateId(),
+        createdAt: new Date()
+      }));
+      project.todos = todos;
+      project.updatedAt = new Date();
+      
+      await this.writeProject(project.workspaceId, project);
+      
+      // Every event of the import shares the batch ID so it can be traced as one change
+      const batchId = this.generateId();
+      const log = (event: Pick<ChangeEvent, 'type' | 'entityType' | 'entityId' | 'action' | 'newValue' | 'reason'>) =>
+        this.logProjectEvent(project.id, project.workspaceId, {
+          ...event,
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [batchId],
+          conflictsWith: []
+        });
+      
+      for (const phase of project.phases) {
+        await log({
+          type: 'phase.created',
+          entityType: 'phase',
+          entityId: phase.id,
+          action: 'create',
+          newValue: phase,
+          reason: `Imported phase "${phase.name}"`
+        });
+      }
+      for (const todo of project.todos) {
+        await log({
+          type: 'todo.created',
+          entityType: 'todo',
+          entityId: todo.id,
+          action: 'create',
+          newValue: todo,
+          reason: `Imported todo "${todo.title}" from ${request.format}`
+        });
+      }
+      for (const doc of project.documents) {
+        await log({
+          type: 'document.attached',
+          entityType: 'document',
+          entityId: doc.id,
+          action: 'create',
+          newValue: doc,
+          reason: `Imported document "${doc.title}"`
+        });
+      }
+      
+      return { project, batchId, idMap: Object.fromEntries(idMap), warnings };
+    });
+  }
+  
+  // Phase and document operations with project-scoped tracking
+  async createPhase(request: CreatePhaseRequest): Promise<Phase | null> {
+    this.ensureWorkerRegistered();
+    
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return null;
+    await this.assertWorkspaceAccess(workspaceId);
+    
+    return this.withProjectLock(workspaceId, request.projectId, async () => {
+      const startTime = Date.now();
+      const phase = await super.createPhase(request);
+      
+      if (phase) {
+        await this.logProjectEvent(request.projectId, workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'phase.created',
+          entityType: 'phase',
+          entityId: phase.id,
+          action: 'create',
+          newValue: phase,
+          reason: `Created phase "${phase.name}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
+      }
+      
+      return phase;
+    });
+  }
+  
+  async updatePhase(request: UpdatePhaseRequest): Promise<Phase | null> {
+    this.ensureWorkerRegistered();
+    
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return null;
+    await this.assertWorkspaceAccess(workspaceId);
+    
+    return this.withProjectLock(workspaceId, request.projectId, async () => {
+      const startTime = Date.now();
+      const project = await this.readProjectFile(workspaceId, request.projectId);
+      const oldPhase = project.phases.find(p => p.id === request.phaseId);
       
-      if (!canStart) {
-        throw new Error(`Cannot start todo: ${reason}`);
+      const phase = await super.updatePhase(request);
+      
+      if (phase && oldPhase) {
+        await this.logProjectEvent(request.projectId, workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'phase.updated',
+          entityType: 'phase',
+          entityId: phase.id,
+          action: 'update',
+          oldValue: oldPhase,
+          newValue: phase,
+          reason: oldPhase.name !== phase.name
+            ? `Renamed phase "${oldPhase.name}" to "${phase.name}"`
+            : `Updated phase "${phase.name}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
       }
-    }
-    
-    // Only update status and updatedAt, preserve all other fields
-    const updated: TodoItem = {
-      ...oldTodo,
-      status: newStatus,
-      updatedAt: new Date()
-    };
+      
+      return phase;
+    });
+  }
+  
+  async deletePhase(request: DeletePhaseRequest): Promise<boolean> {
+    this.ensureWorkerRegistered();
     
-    targetProject.todos[todoIndex] = updated;
-    targetProject.updatedAt = new Date();
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return false;
+    await this.assertWorkspaceAccess(workspaceId);
+    
+    return this.withProjectLock(workspaceId, request.projectId, async () => {
+      const startTime = Date.now();
+      const project = await this.readProjectFile(workspaceId, request.projectId);
+      const phase = project.phases.find(p => p.id === request.phaseId);
+      const reassignedTodoIds = project.todos.filter(t => t.phaseId === request.phaseId).map(t => t.id);
+      
+      const success = await super.deletePhase(request);
+      
+      if (success && phase) {
+        await this.logProjectEvent(request.projectId, workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'phase.deleted',
+          entityType: 'phase',
+          entityId: phase.id,
+          action: 'delete',
+          oldValue: phase,
+          newValue: { reassignedTodoIds, moveTodosToPhaseId: request.moveTodosToPhaseId },
+          reason: `Deleted phase "${phase.name}"` +
+            (reassignedTodoIds.length > 0
+              ? ` and ${request.moveTodosToPhaseId ? 'moved' : 'unassigned'} ${reassignedTodoIds.length} todo(s)`
+              : ''),
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
+      }
+      
+      return success;
+    });
+  }
+  
+  async moveTodosToPhase(request: MoveTodosToPhaseRequest): Promise<TodoItem[] | null> {
+    this.ensureWorkerRegistered();
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, targetProject.id),
-      targetProject
-    );
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return null;
+    await this.assertWorkspaceAccess(workspaceId);
     
-    // Log project-level event
-    await this.logProjectEvent(targetProject.id, targetProject.workspaceId, {
-      workerId: this.currentWorker!.id,
-      sessionId: this.currentWorker!.sessionId,
-      type: 'todo.updated',
-      entityType: 'todo',
-      entityId: todoId,
-      action: 'update',
-      oldValue: oldTodo,
-      newValue: updated,
-      reason: `Changed status from "${oldTodo.status}" to "${newStatus}"`,
-      duration: Date.now() - startTime,
-      changes: [{
-        field: 'status',
-        oldValue: oldTodo.status,
-        newValue: newStatus,
-        type: 'modified'
-      }],
-      relatedChanges: [],
-      conflictsWith: []
+    return this.withProjectLock(workspaceId, request.projectId, async () => {
+      const startTime = Date.now();
+      const project = await this.readProjectFile(workspaceId, request.projectId);
+      
+      const moved = await super.moveTodosToPhase(request);
+      if (!moved) return null;
+      
+      // One event per todo keeps each move individually reversible
+      for (const todo of moved) {
+        const oldTodo = project.todos.find(t => t.id === todo.id)!;
+        await this.logProjectEvent(request.projectId, workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'todo.updated',
+          entityType: 'todo',
+          entityId: todo.id,
+          action: 'update',
+          oldValue: oldTodo,
+          newValue: todo,
+          reason: `Moved todo "${todo.title}" ${todo.phaseId ? `to phase ${todo.phaseId}` : 'out of its phase'}`,
+          duration: Date.now() - startTime,
+          changes: [{
+            field: 'phaseId',
+            oldValue: oldTodo.phaseId,
+            newValue: todo.phaseId,
+            type: todo.phaseId ? (oldTodo.phaseId ? 'modified' : 'added') : 'removed'
+          }],
+          relatedChanges: [],
+          conflictsWith: []
+        });
+      }
+      
+      return moved;
     });
-    
-    return updated;
   }
   
-  async deleteTodo(todoId: string): Promise<boolean> {
+  async attachDocument(request: AttachDocumentRequest): Promise<Document | null> {
     this.ensureWorkerRegistered();
     
-    const startTime = Date.now();
-    
-    // Find the todo before deletion
-    const projects = await super.listProjects();
-    let todoToDelete: TodoItem | null = null;
-    let project: Project | null = null;
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return null;
+    await this.assertWorkspaceAccess(workspaceId);
     
-    for (const proj of projects) {
-      const found = proj.todos.find(t => t.id === todoId);
-      if (found) {
-        todoToDelete = found;
-        project = proj;
-        break;
+    return this.withProjectLock(workspaceId, request.projectId, async () => {
+      const startTime = Date.now();
+      const document = await super.attachDocument(request);
+      
+      if (document) {
+        await this.logProjectEvent(request.projectId, workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'document.attached',
+          entityType: 'document',
+          entityId: document.id,
+          action: 'create',
+          newValue: document,
+          reason: `Attached ${document.type} document "${document.title}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
       }
-    }
-    
-    const success = await super.deleteTodo(todoId);
+      
+      return document;
+    });
+  }
+  
+  async removeDocument(projectId: string, documentId: string): Promise<boolean> {
+    this.ensureWorkerRegistered();
     
-    if (success && todoToDelete && project) {
-      // Log project-level event
-      await this.logProjectEvent(project.id, project.workspaceId, {
-        workerId: this.currentWorker!.id,
-        sessionId: this.currentWorker!.sessionId,
-        type: 'todo.deleted',
-        entityType: 'todo',
-        entityId: todoId,
-        action: 'delete',
-        oldValue: todoToDelete,
-        reason: `Deleted todo "${todoToDelete.title}"`,
-        duration: Date.now() - startTime,
-        changes: [],
-        relatedChanges: [],
-        conflictsWith: []
-      });
-    }
+    const workspaceId = await this.findWorkspaceForProject(projectId);
+    if (!workspaceId) return false;
+    await this.assertWorkspaceAccess(workspaceId);
     
-    return success;
+    return this.withProjectLock(workspaceId, projectId, async () => {
+      const startTime = Date.now();
+      const project = await this.readProjectFile(workspaceId, projectId);
+      const document = project.documents.find(d => d.id === documentId);
+      
+      const success = await super.removeDocument(projectId, documentId);
+      
+      if (success && document) {
+        await this.logProjectEvent(projectId, workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'document.removed',
+          entityType: 'document',
+          entityId: documentId,
+          action: 'delete',
+          oldValue: document,
+          reason: `Removed document "${document.title}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
+      }
+      
+      return success;
+    });
   }
   
-  async reorderTodos(request: ReorderTodosRequest): Promise<boolean> {
+  // Dependency management methods
+  async addDependency(request: AddDependencyRequest, options: VersionCheckOptions = {}): Promise<TodoItem | null> {
     this.ensureWorkerRegistered();
     
     const startTime = Date.now();
-    const project = await super.getProject(request.projectId);
-    const oldOrder = project?.todos.map(t => ({ id: t.id, order: t.order })) || [];
     
-    const success = await super.reorderTodos(request);
+    const location = await this.locateTodo(request.todoId);
+    if (!location) return null;
+    await this.assertWorkspaceAccess(location.workspaceId);
     
-    if (success && project) {
-      // Log project-level event
-      await this.logProjectEvent(project.id, project.workspaceId, {
-        workerId: this.currentWorker!.id,
-        sessionId: this.currentWorker!.sessionId,
-        type: 'todo.reordered',
-        entityType: 'todo',
-        entityId: request.projectId, // Use project ID since multiple todos are affected
-        action: 'reorder',
-        oldValue: { todoOrder: oldOrder },
-        newValue: { todoOrder: request.todoIds.map((id, index) => ({ id, order: index })) },
-        reason: `Reordered ${request.todoIds.length} todos in project "${project.name}"`,
-        duration: Date.now() - startTime,
-        changes: [],
-        relatedChanges: [],
-        conflictsWith: []
-      });
-    }
-    
-    return success;
+    return this.withProjectLock(location.workspaceId, location.projectId, async () => {
+      const workspaceId = location.workspaceId;
+      const targetProject = await this.readProjectFile(workspaceId, location.projectId);
+      
+      const todo = targetProject.todos.find(t => t.id === request.todoId);
+      if (!todo) return null;
+      await this.assertExpectedVersion(workspaceId, targetProject.id, todo, options.expectedVersion);
+      
+      // Update todos with new dependency
+      const updatedTodos = this.dependencyManager.addDependency(
+        targetProject.todos,
+        request.todoId,
+        request.dependsOnId
+      );
+      
+      targetProject.todos = updatedTodos;
+      targetProject.updatedAt = new Date();
+      
+      await this.writeProject(workspaceId, targetProject);
+      
+      const updatedTodo = updatedTodos.find(t => t.id === request.todoId);
+      
+      if (updatedTodo) {
+        // Log project-level event
+        await this.logProjectEvent(targetProject.id, targetProject.workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'todo.dependency.added',
+          entityType: 'todo',
+          entityId: request.todoId,
+          action: 'update',
+          newValue: { todoId: request.todoId, dependsOnId: request.dependsOnId },
+          reason: `Added dependency: todo "${request.todoId}" now depends on "${request.dependsOnId}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
+      }
+      
+      return updatedTodo || null;
+    });
   }
   
-  // Dependency management methods
-  async addDependency(request: AddDependencyRequest): Promise<TodoItem | null> {
+  async removeDependency(request: RemoveDependencyRequest): Promise<TodoItem | null> {
     this.ensureWorkerRegistered();
     
     const startTime = Date.now();
     
-    // Find the project containing the todo
-    const projects = await this.listProjects();
-    let targetProject: Project | null = null;
-    let workspaceId: string | null = null;
+    const location = await this.locateTodo(request.todoId);
+    if (!location) return null;
+    await this.assertWorkspaceAccess(location.workspaceId);
     
-    for (const project of projects) {
-      if (project.todos.some(t => t.id === request.todoId)) {
-        targetProject = project;
-        workspaceId = await this.findWorkspaceForProject(project.id);
-        break;
+    return this.withProjectLock(location.workspaceId, location.projectId, async () => {
+      const workspaceId = location.workspaceId;
+      const targetProject = await this.readProjectFile(workspaceId, location.projectId);
+      
+      // Update todos removing dependency
+      const updatedTodos = this.dependencyManager.removeDependency(
+        targetProject.todos,
+        request.todoId,
+        request.dependsOnId
+      );
+      
+      targetProject.todos = updatedTodos;
+      targetProject.updatedAt = new Date();
+      
+      await this.writeProject(workspaceId, targetProject);
+      
+      const updatedTodo = updatedTodos.find(t => t.id === request.todoId);
+      
+      if (updatedTodo) {
+        // Log project-level event
+        await this.logProjectEvent(targetProject.id, targetProject.workspaceId, {
+          workerId: this.currentWorker!.id,
+          sessionId: this.currentWorker!.sessionId,
+          type: 'todo.dependency.removed',
+          entityType: 'todo',
+          entityId: request.todoId,
+          action: 'update',
+          newValue: { todoId: request.todoId, removedDependsOnId: request.dependsOnId },
+          reason: `Removed dependency: todo "${request.todoId}" no longer depends on "${request.dependsOnId}"`,
+          duration: Date.now() - startTime,
+          changes: [],
+          relatedChanges: [],
+          conflictsWith: []
+        });
       }
-    }
+      
+      return updatedTodo || null;
+    });
+  }
+  
+  async getDependencyGraph(projectId: string): Promise<DependencyGraphResult | null> {
+    const project = await super.getProject(projectId);
+    if (!project) return null;
     
-    if (!targetProject || !workspaceId) return null;
+    return this.dependencyManager.buildDependencyGraph(project.todos);
+  }
+  
+  async getScheduleForecast(projectId: string, options: ScheduleForecastOptions = {}): Promise<ScheduleForecast | null> {
+    const project = await super.getProject(projectId);
+    if (!project) return null;
     
-    // Update todos with new dependency
-    const updatedTodos = this.dependencyManager.addDependency(
-      targetProject.todos,
-      request.todoId,
-      request.dependsOnId
-    );
+    const workers = options.workers ?? (await this.workerRegistry.getActiveWorkersInWorkspace(project.workspaceId)).length;
     
-    targetProject.todos = updatedTodos;
-    targetProject.updatedAt = new Date();
+    return this.dependencyManager.forecastSchedule(project.id, project.todos, workers, options.hoursPerDay);
+  }
+  
+  async getAvailableWork(projectId: string, workerId?: string): Promise<TodoItem[]> {
+    const project = await super.getProject(projectId);
+    if (!project) return [];
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, targetProject.id),
-      targetProject
-    );
+    // Ordered for the named worker's capabilities, or the acting worker's
+    const worker = workerId
+      ? await this.workerRegistry.getWorker(project.workspaceId, workerId)
+      : this.currentWorker;
     
-    const updatedTodo = updatedTodos.find(t => t.id === request.todoId);
+    return this.dependencyManager.getAvailableWorkForWorker(project.todos, worker?.capabilities || []);
+  }
+  
+  // Workers default to the active workers of the project's workspace
+  async allocateWork(
+    projectId: string,
+    workers?: AllocationWorker[],
+    strategy?: AllocationStrategyName
+  ): Promise<WorkAllocationResult | null> {
+    const project = await super.getProject(projectId);
+    if (!project) return null;
     
-    if (updatedTodo) {
-      // Log project-level event
-      await this.logProjectEvent(targetProject.id, targetProject.workspaceId, {
-        workerId: this.currentWorker!.id,
-        sessionId: this.currentWorker!.sessionId,
-        type: 'todo.dependency.added',
-        entityType: 'todo',
-        entityId: request.todoId,
-        action: 'update',
-        newValue: { todoId: request.todoId, dependsOnId: request.dependsOnId },
-        reason: `Added dependency: todo "${request.todoId}" now depends on "${request.dependsOnId}"`,
-        duration: Date.now() - startTime,
-        changes: [],
-        relatedChanges: [],
-        conflictsWith: []
-      });
+    const allocationWorkers = workers ?? (await this.workerRegistry.getActiveWorkersInWorkspace(project.workspaceId))
+      .map(w => ({ id: w.id, capabilities: w.capabilities }));
+    
+    return this.dependencyManager.allocateWork(project.todos, allocationWorkers, strategy);
+  }
+  
+  // Orphaned work - todos left in progress by workers that stopped sending heartbeats
+  async cleanupInactiveWorkers(workspaceId?: string): Promise<void> {
+    const workspaceIds = workspaceId ? [workspaceId] : (await this.listWorkspaces()).map(w => w.id);
+    
+    for (const id of workspaceIds) {
+      await this.workerRegistry.cleanupInactiveWorkers(id);
+    }
+  }
+  
+  private async reclaimTodosOfWorkers(workspaceId: string, workers: ScopedWorkerIdentity[]): Promise<void> {
+    const expired = new Map(workers.map(w => [w.id, w]));
+    const reclaimed: ReclaimedTodo[] = [];
+    const workspace = await this.readWorkspaceMetadata(workspaceId);
+    
+    for (const projectId of workspace.projectIds) {
+      reclaimed.push(...await this.withProjectLock(workspaceId, projectId, async () => {
+        let project: Project;
+        try {
+          project = await this.readProjectFile(workspaceId, projectId);
+        } catch {
+          return []; // Project file missing, skip
+        }
+        
+        const released: ReclaimedTodo[] = [];
+        project.todos = project.todos.map(todo => {
+          const worker = todo.status === 'in-progress' && todo.claimedBy ? expired.get(todo.claimedBy) : undefined;
+          if (!worker) return todo;
+          
+          const updated: TodoItem = {
+            ...todo,
+            status: 'pending',
+            version: this.nextVersion(todo),
+            updatedAt: new Date(),
+            claimedBy: undefined,
+            claimedAt: undefined
+          };
+          released.push({ todo: updated, oldTodo: todo, projectId, workspaceId, workerId: worker.id });
+          return updated;
+        });
+        
+        if (released.length === 0) return [];
+        
+        project.updatedAt = new Date();
+        await this.writeProject(workspaceId, project);
+        
+        const actor = this.currentWorker || SYSTEM_WORKER;
+        for (const { todo, oldTodo, workerId } of released) {
+          await this.logProjectEvent(projectId, workspaceId, {
+            workerId: actor.id,
+            sessionId: actor.sessionId,
+            type: 'todo.updated',
+            entityType: 'todo',
+            entityId: todo.id,
+            action: 'update',
+            oldValue: oldTodo,
+            newValue: todo,
+            reason: `Released claim of worker ${expired.get(workerId)!.name || workerId}: ` +
+              `no heartbeat since ${expired.get(workerId)!.lastSeen.toISOString()}`,
+            changes: [
+              { field: 'status', oldValue: oldTodo.status, newValue: todo.status, type: 'modified' },
+              { field: 'claimedBy', oldValue: oldTodo.claimedBy, newValue: undefined, type: 'removed' }
+            ],
+            relatedChanges: [],
+            conflictsWith: []
+          });
+        }
+        
+        return released;
+      }));
     }
     
-    return updatedTodo || null;
+    if (reclaimed.length > 0) {
+      await this.hooks.onTodosReclaimed?.(reclaimed);
+    }
   }
   
-  async removeDependency(request: RemoveDependencyRequest): Promise<TodoItem | null> {
+  // Checkpoints and rollback
+  async createCheckpoint(request: CreateCheckpointRequest): Promise<Checkpoint> {
     this.ensureWorkerRegistered();
+    await this.assertWorkspaceAccess(request.workspaceId);
     
-    const startTime = Date.now();
-    
-    // Find the project containing the todo
-    const projects = await this.listProjects();
-    let targetProject: Project | null = null;
-    let workspaceId: string | null = null;
+    const snapshot = await this.snapshotWorkspace(request.workspaceId);
     
-    for (const project of projects) {
-      if (project.todos.some(t => t.id === request.todoId)) {
-        targetProject = project;
-        workspaceId = await this.findWorkspaceForProject(project.id);
-        break;
+    // Remember the newest change so later events can be identified as post-checkpoint
+    let lastEvent: ChangeEvent | undefined;
+    for (const project of snapshot.projects) {
+      const [latest] = await this.getProjectChangeHistory(project.id);
+      if (latest && (!lastEvent || latest.timestamp > lastEvent.timestamp)) {
+        lastEvent = latest;
       }
     }
     
-    if (!targetProject || !workspaceId) return null;
-    
-    // Update todos removing dependency
-    const updatedTodos = this.dependencyManager.removeDependency(
-      targetProject.todos,
-      request.todoId,
-      request.dependsOnId
-    );
+    return this.checkpointManager.saveCheckpoint({
+      workspaceId: request.workspaceId,
+      name: request.name,
+      description: request.description,
+      createdBy: this.currentWorker!.id,
+      dataSnapshot: snapshot,
+      changeEventId: lastEvent?.id || ''
+    });
+  }
+  
+  async listCheckpoints(request: ListCheckpointsRequest): Promise<Checkpoint[]> {
+    return this.checkpointManager.listCheckpoints(request.workspaceId, request.limit);
+  }
+  
+  async rollbackChange(request: RollbackChangeRequest): Promise<RollbackResult> {
+    this.ensureWorkerRegistered();
     
-    targetProject.todos = updatedTodos;
-    targetProject.updatedAt = new Date();
+    const located = await this.findChangeEvent(request.changeId);
+    if (!located) {
+      throw new TrackingError(`Change not found: ${request.changeId}`, 'CHANGE_NOT_FOUND', { changeId: request.changeId });
+    }
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, targetProject.id),
-      targetProject
-    );
+    const { event } = located;
+    if (event.workerId !== this.currentWorker!.id) {
+      await this.assertPermission('canRollbackAllChanges');
+    }
     
-    const updatedTodo = updatedTodos.find(t => t.id === request.todoId);
+    const projectId = located.project.id;
+    const workspaceId = await this.findWorkspaceForProject(projectId);
+    if (!workspaceId) {
+      throw new TrackingError(`Project not found: ${projectId}`, 'PROJECT_NOT_FOUND', { projectId });
+    }
+    await this.assertWorkspaceAccess(workspaceId);
     
-    if (updatedTodo) {
-      // Log project-level event
-      await this.logProjectEvent(targetProject.id, targetProject.workspaceId, {
+    return this.withProjectLock(workspaceId, projectId, async () => {
+      const project = await this.readProjectFile(workspaceId, projectId);
+      
+      // Refuse to undo a change that later changes to the same fields have built upon
+      const laterChanges = (await this.getProjectChangeHistory(projectId, event.entityType, event.entityId))
+        .filter(e => e.id !== event.id && e.timestamp > event.timestamp && buildsOn(e, event));
+      
+      if (laterChanges.length > 0) {
+        return {
+          success: false,
+          rolledBackChanges: [],
+          conflicts: [{
+            id: this.generateId(),
+            type: 'stale_data',
+            events: [event, ...laterChanges],
+            severity: 'medium',
+            autoResolvable: false,
+            description: `${event.entityType} ${event.entityId} was changed ${laterChanges.length} time(s) after ${event.id}`,
+            suggestedResolution: 'Roll back the later changes first, or roll back to a checkpoint'
+          }],
+          message: `Cannot roll back ${event.id}: ${event.entityType} was modified afterwards`
+        };
+      }
+      
+      let newCheckpointId: string | undefined;
+      if (request.createCheckpoint) {
+        const checkpoint = await this.createCheckpoint({
+          workspaceId,
+          name: `Before rollback of ${event.id}`,
+          description: request.reason
+        });
+        newCheckpointId = checkpoint.id;
+      }
+      
+      const inverse = this.applyInverseChange(project, event);
+      
+      project.updatedAt = new Date();
+      await this.writeProject(workspaceId, project);
+      
+      await this.logProjectEvent(project.id, project.workspaceId, {
         workerId: this.currentWorker!.id,
         sessionId: this.currentWorker!.sessionId,
-        type: 'todo.dependency.removed',
-        entityType: 'todo',
-        entityId: request.todoId,
-        action: 'update',
-        newValue: { todoId: request.todoId, removedDependsOnId: request.dependsOnId },
-        reason: `Removed dependency: todo "${request.todoId}" no longer depends on "${request.dependsOnId}"`,
-        duration: Date.now() - startTime,
+        type: inverse.type,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        action: inverse.action,
+        oldValue: inverse.oldValue,
+        newValue: inverse.newValue,
+        reason: `Rolled back change ${event.id}: ${request.reason}`,
         changes: [],
-        relatedChanges: [],
+        relatedChanges: [event.id],
         conflictsWith: []
       });
-    }
+      
+      return {
+        success: true,
+        rolledBackChanges: [event.id],
+        conflicts: [],
+        newCheckpointId,
+        message: `Rolled back ${event.type} on ${event.entityType} ${event.entityId}`
+      };
+    });
+  }
+  
+  async rollbackToCheckpoint(request: RollbackToCheckpointRequest): Promise<RollbackResult> {
+    this.ensureWorkerRegistered();
     
-    return updatedTodo || null;
+    const checkpoint = await this.checkpointManager.getCheckpoint(request.checkpointId);
+    const snapshot = checkpoint.dataSnapshot as CheckpointSnapshot;
+    const workspaceId = checkpoint.workspaceId;
+    await this.assertWorkspaceAccess(workspaceId);
+    
+    return this.withWorkspaceLock(workspaceId, async () => {
+      // Always keep a way back from the rollback itself
+      const safetyCheckpoint = await this.createCheckpoint({
+        workspaceId,
+        name: `Before rollback to "${checkpoint.name}"`,
+        description: request.reason
+      });
+      const current = safetyCheckpoint.dataSnapshot as CheckpointSnapshot;
+      
+      // Collect the changes being undone before their projects disappear
+      const rolledBackChanges: string[] = [];
+      for (const project of current.projects) {
+        const logger = await this.getProjectLogger(project.id, workspaceId);
+        const changes = await logger.getChanges({ since: checkpoint.createdAt });
+        rolledBackChanges.push(...changes.map(c => c.id));
+      }
+      
+      const restoredIds = new Set(snapshot.projects.map(p => p.id));
+      
+      for (const project of current.projects) {
+        if (!restoredIds.has(project.id)) {
+          await this.withProjectLock(workspaceId, project.id, () => this.removeProjectFile(workspaceId, project.id));
+          await this.todoIndex.removeProject(project.id);
+          await this.fullTextIndex.removeProject(workspaceId, project.id);
+          await this.logWorkspaceEvent(workspaceId, {
+            workerId: this.currentWorker!.id,
+            sessionId: this.currentWorker!.sessionId,
+            type: 'workspace.project.deleted',
+            entityType: 'project',
+            entityId: project.id,
+            action: 'delete',
+            oldValue: { id: project.id, name: project.name },
+            reason: `Rolled back to checkpoint "${checkpoint.name}": ${request.reason}`,
+            changes: [],
+            relatedChanges: [],
+            conflictsWith: []
+          });
+        }
+      }
+      
+      for (const project of snapshot.projects) {
+        await this.withProjectLock(workspaceId, project.id, async () => {
+          // Restored entities continue their version sequence so stale copies stay detectable
+          const currentProject = current.projects.find(p => p.id === project.id);
+          const restored: Project = {
+            ...project,
+            version: currentProject?.version ?? project.version,
+            todos: project.todos.map(todo => ({
+              ...todo,
+              version: this.nextVersion(currentProject?.todos.find(t => t.id === todo.id) || todo)
+            }))
+          };
+          
+          await this.writeProject(workspaceId, restored);
+          await this.logProjectEvent(project.id, workspaceId, {
+            workerId: this.currentWorker!.id,
+            sessionId: this.currentWorker!.sessionId,
+            type: 'project.updated',
+            entityType: 'project',
+            entityId: project.id,
+            action: 'update',
+            oldValue: currentProject,
+            newValue: restored,
+            reason: `Rolled back to checkpoint "${checkpoint.name}": ${request.reason}`,
+            changes: [],
+            relatedChanges: [],
+            conflictsWith: []
+          });
+        });
+      }
+      
+      await this.adapter.writeWorkspace({
+        ...snapshot.workspace,
+        projectIds: snapshot.projects.map(p => p.id),
+        updatedAt: new Date()
+      });
+      this.evictWorkspaceCache(workspaceId);
+      
+      return {
+        success: true,
+        rolledBackChanges,
+        conflicts: [],
+        newCheckpointId: safetyCheckpoint.id,
+        message: `Restored ${snapshot.projects.length} project(s) from checkpoint "${checkpoint.name}"`
+      };
+    });
   }
   
-  async getDependencyGraph(projectId: string): Promise<DependencyGraphResult | null> {
-    const project = await super.getProject(projectId);
-    if (!project) return null;
+  private async snapshotWorkspace(workspaceId: string): Promise<CheckpointSnapshot> {
+    const workspace = await this.readWorkspaceMetadata(workspaceId);
+    const projects: Project[] = [];
+    
+    for (const projectId of workspace.projectIds) {
+      try {
+        projects.push(await this.readProjectFile(workspaceId, projectId));
+      } catch {
+        // Project file missing, skip
+      }
+    }
     
-    return this.dependencyManager.buildDependencyGraph(project.todos);
+    return { workspace, projects };
   }
   
-  async getAvailableWork(projectId: string, workerId?: string): Promise<TodoItem[]> {
-    const project = await super.getProject(projectId);
-    if (!project) return [];
+  private async findChangeEvent(changeId: string): Promise<{ event: ChangeEvent; project: Project } | null> {
+    const projects = await this.listProjects();
     
-    const actualWorkerId = workerId || this.currentWorker?.id || 'unknown';
+    for (const project of projects) {
+      const logger = await this.getProjectLogger(project.id, project.workspaceId);
+      const [event] = (await logger.getChanges()).filter(e => e.id === changeId);
+      if (event) {
+        return { event, project };
+      }
+    }
     
-    return this.dependencyManager.getAvailableWorkForWorker(
-      project.todos,
-      actualWorkerId,
-      this.currentWorker?.capabilities || []
-    );
+    return null;
   }
   
-  async allocateWork(
-    projectId: string,
-    workers: Array<{ id: string; capabilities: string[]; maxConcurrentTodos?: number }>
-  ): Promise<WorkAllocationResult | null> {
-    const project = await super.getProject(projectId);
-    if (!project) return null;
-    
-    return this.dependencyManager.allocateWork(project.todos, workers);
+  // Mutates the project to undo a logged change and describes the inverse change for the audit log
+  private applyInverseChange(project: Project, event: ChangeEvent): {
+    type: ChangeType;
+    action: ActionType;
+    oldValue?: unknown;
+    newValue?: unknown;
+  } {
+    const todoIndex = project.todos.findIndex(t => t.id === event.entityId);
+    const currentTodo = todoIndex === -1 ? undefined : project.todos[todoIndex];
+    
+    switch (event.type) {
+      case 'todo.created': {
+        if (!currentTodo) {
+          throw new TrackingError(`Todo ${event.entityId} no longer exists`, 'ROLLBACK_FAILED', { changeId: event.id });
+        }
+        const dependents = project.todos.filter(t => t.dependsOn.includes(event.entityId));
+        if (dependents.length > 0) {
+          throw new TrackingError(
+            `Cannot remove todo ${event.entityId}: ${dependents.length} todo(s) depend on it`,
+            'ROLLBACK_FAILED',
+            { changeId: event.id, dependents: dependents.map(t => t.id) }
+          );
+        }
+        project.todos.splice(todoIndex, 1);
+        return { type: 'todo.deleted', action: 'delete', oldValue: currentTodo };
+      }
+      
+      case 'todo.updated': {
+        if (!currentTodo) {
+          throw new TrackingError(`Todo ${event.entityId} no longer exists`, 'ROLLBACK_FAILED', { changeId: event.id });
+        }
+        // Only the fields this change touched, so later changes to other fields survive
+        const oldTodo = event.oldValue as TodoItem;
+        const fields = changedFields(event);
+        const previous = fields
+          ? { ...currentTodo, ...Object.fromEntries([...fields].map(field => [field, oldTodo[field as keyof TodoItem]])) }
+          : oldTodo;
+        const restored = { ...previous, version: this.nextVersion(currentTodo), updatedAt: new Date() };
+        project.todos[todoIndex] = restored;
+        return { type: 'todo.updated', action: 'update', oldValue: currentTodo, newValue: restored };
+      }
+      
+      case 'todo.deleted': {
+        if (currentTodo) {
+          throw new TrackingError(`Todo ${event.entityId} already exists`, 'ROLLBACK_FAILED', { changeId: event.id });
+        }
+        const deleted = event.oldValue as TodoItem;
+        const restored: TodoItem = { ...deleted, version: this.nextVersion(deleted), updatedAt: new Date() };
+        // Back into the gap it left
+        project.todos.push(restored);
+        project.todos.sort((a, b) => a.order - b.order);
+        return { type: 'todo.created', action: 'create', newValue: restored };
+      }
+      
+      case 'todo.dependency.added': {
+        const { dependsOnId } = event.newValue as { dependsOnId: string };
+        project.todos = this.dependencyManager.removeDependency(project.todos, event.entityId, dependsOnId);
+        return {
+          type: 'todo.dependency.removed',
+          action: 'update',
+          newValue: { todoId: event.entityId, removedDependsOnId: dependsOnId }
+        };
+      }
+      
+      case 'todo.dependency.removed': {
+        const dependsOnId = (event.newValue as { removedDependsOnId: string }).removedDependsOnId;
+        project.todos = this.dependencyManager.addDependency(project.todos, event.entityId, dependsOnId);
+        return {
+          type: 'todo.dependency.added',
+          action: 'update',
+          newValue: { todoId: event.entityId, dependsOnId }
+        };
+      }
+      
+      case 'todo.reordered': {
+        const oldOrder = (event.oldValue as { todoOrder: { id: string; order: number }[] }).todoOrder;
+        const orderMap = new Map(oldOrder.map(o => [o.id, o.order]));
+        const currentOrder = project.todos.map(t => ({ id: t.id, order: t.order }));
+        project.todos.sort((a, b) => (orderMap.get(a.id) ?? a.order) - (orderMap.get(b.id) ?? b.order));
+        project.todos.forEach((todo, index) => {
+          todo.order = index;
+        });
+        return {
+          type: 'todo.reordered',
+          action: 'reorder',
+          oldValue: { todoOrder: currentOrder },
+          newValue: { todoOrder: oldOrder }
+        };
+      }
+      
+      case 'project.updated': {
+        const { todos, phases, documents, version, ...fields } = event.oldValue as Project;
+        const currentFields = { name: project.name, description: project.description };
+        const restoredTodos = todos.map(todo => ({
+          ...todo,
+          version: this.nextVersion(project.todos.find(t => t.id === todo.id) || todo)
+        }));
+        Object.assign(project, fields, { todos: restoredTodos, phases, documents });
+        return { type: 'project.updated', action: 'update', oldValue: currentFields, newValue: fields };
+      }
+      
+      default:
+        throw new TrackingError(`Rollback is not supported for ${event.type} changes`, 'ROLLBACK_UNSUPPORTED', {
+          changeId: event.id
+        });
+    }
   }
   
   // Query methods - now properly scoped
@@ -787,6 +3161,69 @@ export class ScopedTodosStorage extends TodosStorageV2 {
     return this.workerRegistry.getWorkerStatus(workspaceId, targetWorkerId);
   }
   
+  // Todos the worker still holds, claims it lost while it was away, its last project
+  // and what changed in the workspace since it was last seen
+  async getSessionResume(changeLimit: number = 10): Promise<SessionResume> {
+    this.ensureWorkerRegistered();
+    
+    const current = this.currentWorker!;
+    const worker = await this.workerRegistry.getWorker(current.workspaceId, current.id) || current;
+    const since = worker.previousSession?.lastSeen;
+    const projectIds = await this.readWorkspaceMetadata(worker.workspaceId)
+      .then(workspace => workspace.projectIds)
+      .catch(() => [] as string[]); // Workspace without projects yet
+    
+    const resume: SessionResume = { worker, claimedTodos: [], releasedTodos: [], lastProject: null, recentChanges: [] };
+    const changes: ChangeEvent[] = [];
+    
+    for (const projectId of projectIds) {
+      let project: Project;
+      try {
+        project = await this.readProjectFile(worker.workspaceId, projectId);
+      } catch {
+        continue; // Project file missing, skip
+      }
+      
+      const todos = new Map(project.todos.map(t => [t.id, t]));
+      for (const todo of project.todos) {
+        if (todo.status === 'in-progress' && todo.claimedBy === worker.id) {
+          resume.claimedTodos.push({ todo, projectId, projectName: project.name });
+        }
+      }
+      
+      const logger = await this.getProjectLogger(projectId, worker.workspaceId);
+      const projectChanges = await logger.getChanges({ since, limit: since ? undefined : changeLimit });
+      changes.push(...projectChanges);
+      
+      if (!since) continue;
+      
+      // Newest first, so each todo is reported with its latest release
+      const released = new Set<string>();
+      for (const event of projectChanges) {
+        const todo = todos.get(event.entityId);
+        if (
+          !todo || released.has(todo.id) || event.workerId === worker.id ||
+          (event.oldValue as Partial<TodoItem> | undefined)?.claimedBy !== worker.id ||
+          (event.newValue as Partial<TodoItem> | undefined)?.claimedBy === worker.id
+        ) continue;
+        
+        released.add(todo.id);
+        if (todo.claimedBy !== worker.id) {
+          resume.releasedTodos.push({ todo, projectId, projectName: project.name, releasedBy: event.workerId, reason: event.reason });
+        }
+      }
+    }
+    
+    if (worker.currentProjectId) {
+      resume.lastProject = await this.getProject(worker.currentProjectId);
+    }
+    
+    changes.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    resume.recentChanges = (await this.visibleChanges(worker.workspaceId, changes)).slice(0, changeLimit);
+    
+    return resume;
+  }
+  
   async getWorkspaceWorkers(workspaceId: string) {
     return this.workerRegistry.getActiveWorkersInWorkspace(workspaceId);
   }
@@ -803,7 +3240,12 @@ export class ScopedTodosStorage extends TodosStorageV2 {
     if (!project) return null;
     
     const logger = await this.getProjectLogger(projectId, project.workspaceId);
-    return logger.getStats();
+    const todosByStatus = Object.fromEntries(TODO_STATUSES.map(status => [
+      status,
+      project.todos.filter(t => t.status === status).length
+    ])) as Record<TodoStatus, number>;
+    
+    return { ...await logger.getStats(), todosByStatus };
   }
   
   async getWorkspaceStats(workspaceId: string) {
@@ -813,9 +3255,11 @@ export class ScopedTodosStorage extends TodosStorageV2 {
   // Graceful shutdown
   async shutdown(): Promise<void> {
     await this.deregisterWorker();
+    await this.webhooks.shutdown();
     
     // Clear caches
     this.projectLoggers.clear();
     this.workspaceLoggers.clear();
+    this.adapter.close();
   }
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { getDataRoot } from './paths.js';
 import * as os from 'os';
+import { createHash, randomBytes } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import {
   WorkerIdentity,
@@ -9,14 +11,58 @@ import {
   RegisterWorkerRequest,
   TrackingConfig,
   WorkerNotFoundError,
-  TrackingError
+  TrackingError,
+  AuthenticationError,
+  WorkerIdentityInUseError,
+  WorkerRole
 } from './tracking-types.js';
+import { DEFAULT_TRACKING_CONFIG } from './config.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('worker-registry');
 
 // Updated WorkerIdentity for workspace scoping
 export interface ScopedWorkerIdentity extends Omit<WorkerIdentity, 'startedAt'> {
   workspaceId: string;           // Which workspace this worker is active in
   registeredAt: Date;            // When registered in this workspace
   currentProjectId?: string;     // Currently active project
+  role: WorkerRole;              // Granted by the API token the worker registered with
+  tokenId?: string;              // That token; absent while the workspace issued none
+  identity?: string;             // Stable name the worker registered with
+  previousSession?: {            // Session this registration resumed
+    sessionId: string;
+    lastSeen: Date;
+  };
+}
+
+export interface WorkerRegistration {
+  worker: ScopedWorkerIdentity;
+  resumeToken: string;           // Resumes the worker when registering again; only shown once
+}
+
+// What is kept of a worker after it leaves the registry, so a later registration with
+// its identity or resume token gets the same ID back
+interface StoredWorkerIdentity {
+  workerId: string;
+  identity?: string;
+  resumeTokenHash: string;       // sha256 of the latest resume token
+  tokenId?: string;              // API token the worker registered with
+  sessionId: string;
+  lastSeen: Date;
+  currentProjectId?: string;
+}
+
+const RESUME_TOKEN_PREFIX = 'wrs_';
+
+function hashResumeToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export interface WorkerRegistryHooks {
+  // Called during cleanup with workers whose heartbeat expired more than the grace period ago
+  onWorkersExpired?: (workspaceId: string, workers: ScopedWorkerIdentity[]) => Promise<void>;
+  // Runs a read-modify-write of registry.json or identities.json under the workspace lock
+  withWorkspaceLock?: <T>(workspaceId: string, fn: () => Promise<T>) => Promise<T>;
 }
 
 interface WorkspaceWorkerRegistry {
@@ -27,26 +73,22 @@ interface WorkspaceWorkerRegistry {
 }
 
 export class ScopedWorkerRegistryManager {
-  private baseDir = path.join(os.homedir(), '.claude-todos-mcp');
+  private baseDir = getDataRoot();
   private dataDir = path.join(this.baseDir, 'data');
   
   // Cache of workspace registries
   private registryCache = new Map<string, WorkspaceWorkerRegistry>();
   private config: TrackingConfig;
   
-  constructor(config?: Partial<TrackingConfig>) {
-    this.config = {
-      enabled: true,
-      maxEventsPerFile: 10000,
-      retentionDays: 90,
-      compactionInterval: 24 * 60 * 60 * 1000, // 24 hours
-      maxFileSize: 10 * 1024 * 1024, // 10MB
-      enableRealTimeSync: true,
-      enableConflictDetection: true,
-      workerTimeoutMs: 5 * 60 * 1000, // 5 minutes
-      heartbeatIntervalMs: 60 * 1000, // 60 seconds
-      ...config
-    };
+  constructor(config?: Partial<TrackingConfig>, private hooks: WorkerRegistryHooks = {}) {
+    this.config = { ...DEFAULT_TRACKING_CONFIG, ...config };
+  }
+  
+  updateConfig(config: TrackingConfig): void {
+    this.config = config;
+    for (const registry of this.registryCache.values()) {
+      registry.inactiveTimeoutMs = config.workerTimeoutMs;
+    }
   }
   
   private async ensureDirectories(workspaceId: string): Promise<void> {
@@ -71,6 +113,10 @@ export class ScopedWorkerRegistryManager {
     return path.join(this.getWorkersDir(workspaceId), `${workerId}.json`);
   }
   
+  private getIdentitiesFile(workspaceId: string): string {
+    return path.join(this.getWorkersDir(workspaceId), 'identities.json');
+  }
+  
   private async loadRegistry(workspaceId: string): Promise<WorkspaceWorkerRegistry> {
     const cached = this.registryCache.get(workspaceId);
     if (cached) return cached;
@@ -88,9 +134,14 @@ export class ScopedWorkerRegistryManager {
       for (const [workerId, workerData] of Object.entries(parsed.workers || {})) {
         const worker = workerData as any;
         workers.set(workerId, {
+          role: 'admin',  // Registered before roles existed, when every worker had full access
           ...worker,
           registeredAt: new Date(worker.registeredAt),
-          lastSeen: new Date(worker.lastSeen)
+          lastSeen: new Date(worker.lastSeen),
+          previousSession: worker.previousSession && {
+            ...worker.previousSession,
+            lastSeen: new Date(worker.previousSession.lastSeen)
+          }
         });
       }
       
@@ -98,7 +149,8 @@ export class ScopedWorkerRegistryManager {
         workspaceId,
         workers,
         lastCleanup: new Date(parsed.lastCleanup || Date.now()),
-        inactiveTimeoutMs: parsed.inactiveTimeoutMs || this.config.workerTimeoutMs
+        // The configured timeout applies to existing registries too
+        inactiveTimeoutMs: this.config.workerTimeoutMs
       };
       
       this.registryCache.set(workspaceId, registry);
@@ -121,6 +173,16 @@ export class ScopedWorkerRegistryManager {
     }
   }
   
+  // Reloads the registry under the workspace lock, so changes written by other processes
+  // since it was cached are not overwritten
+  private async mutateRegistry<T>(workspaceId: string, fn: (registry: WorkspaceWorkerRegistry) => Promise<T>): Promise<T> {
+    const run = async () => {
+      this.registryCache.delete(workspaceId);
+      return fn(await this.loadRegistry(workspaceId));
+    };
+    return this.hooks.withWorkspaceLock ? this.hooks.withWorkspaceLock(workspaceId, run) : run();
+  }
+  
   private async saveRegistry(registry: WorkspaceWorkerRegistry): Promise<void> {
     await this.ensureDirectories(registry.workspaceId);
     
@@ -149,6 +211,34 @@ export class ScopedWorkerRegistryManager {
     await fs.rename(tempFile, workerFile);
   }
   
+  private async loadIdentities(workspaceId: string): Promise<StoredWorkerIdentity[]> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.getIdentitiesFile(workspaceId), 'utf-8'));
+      return (data.identities || []).map((identity: any) => ({ ...identity, lastSeen: new Date(identity.lastSeen) }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw new TrackingError(`Failed to load worker identities for workspace ${workspaceId}`, 'REGISTRY_LOAD_ERROR', error);
+    }
+  }
+  
+  private async saveIdentities(workspaceId: string, identities: StoredWorkerIdentity[]): Promise<void> {
+    await this.ensureDirectories(workspaceId);
+    
+    const identitiesFile = this.getIdentitiesFile(workspaceId);
+    const tempFile = `${identitiesFile}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify({ identities }, null, 2));
+    await fs.rename(tempFile, identitiesFile);
+  }
+  
+  // Same identity, same ID; the workspace is part of the hash so the ID stays unique
+  // across workspaces
+  private stableWorkerId(workspaceId: string, identity: string): string {
+    const slug = identity.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 32) || 'worker';
+    const hash = createHash('sha256').update(`${workspaceId}\0${identity}`).digest('hex').slice(0, 8);
+    
+    return `worker-${slug}-${hash}`;
+  }
+  
   private generateWorkerId(): string {
     // Create a stable but unique worker ID based on hostname and process
     const hostname = os.hostname();
@@ -163,17 +253,65 @@ export class ScopedWorkerRegistryManager {
     return `session-${Date.now()}-${uuidv4().slice(0, 8)}`;
   }
   
-  async registerWorker(workspaceId: string, request: RegisterWorkerRequest): Promise<ScopedWorkerIdentity> {
-    const registry = await this.loadRegistry(workspaceId);
+  // Registering with an identity or resume token resumes the worker that used it last:
+  // same ID, so its claims and change history carry over, and a new session. Only the
+  // API token a worker registered with can resume it.
+  async registerWorker(
+    workspaceId: string,
+    request: RegisterWorkerRequest,
+    access: Pick<ScopedWorkerIdentity, 'role' | 'tokenId'>
+  ): Promise<WorkerRegistration> {
+    return this.mutateRegistry(workspaceId, registry => this.registerWorkerLocked(workspaceId, registry, request, access));
+  }
+  
+  private async registerWorkerLocked(
+    workspaceId: string,
+    registry: WorkspaceWorkerRegistry,
+    request: RegisterWorkerRequest,
+    access: Pick<ScopedWorkerIdentity, 'role' | 'tokenId'>
+  ): Promise<WorkerRegistration> {
+    const identities = await this.loadIdentities(workspaceId);
+    
+    const stored = request.resumeToken
+      ? identities.find(i => i.resumeTokenHash === hashResumeToken(request.resumeToken!))
+      : request.identity
+        ? identities.find(i => i.workerId === this.stableWorkerId(workspaceId, request.identity!))
+        : undefined;
+    if (request.resumeToken && !stored) {
+      throw new AuthenticationError('Unknown resume token for this workspace');
+    }
+    if (stored && stored.tokenId !== access.tokenId) {
+      throw new AuthenticationError(`Worker ${stored.workerId} can only be resumed with the API token it registered with`);
+    }
+    
+    const id = stored?.workerId ||
+      (request.identity ? this.stableWorkerId(workspaceId, request.identity) : this.generateWorkerId());
+    
+    // A worker still in the registry is more up to date than its stored identity
+    const registered = registry.workers.get(id);
+    if (registered && !request.force && await this.isWorkerAlive(workspaceId, id)) {
+      throw new WorkerIdentityInUseError(id);
+    }
+    const previous = registered
+      ? {
+          sessionId: registered.sessionId,
+          lastSeen: (await this.readLastSeen(workspaceId, id)) || registered.lastSeen,
+          currentProjectId: registered.currentProjectId
+        }
+      : stored;
     
     const worker: ScopedWorkerIdentity = {
-      id: this.generateWorkerId(),
+      id,
       sessionId: this.generateSessionId(),
       workspaceId,
-      name: request.name,
+      name: request.name || registered?.name,
       capabilities: request.capabilities || [],
       registeredAt: new Date(),
       lastSeen: new Date(),
+      identity: request.identity || stored?.identity,
+      currentProjectId: previous?.currentProjectId,
+      previousSession: previous && { sessionId: previous.sessionId, lastSeen: previous.lastSeen },
+      ...access,
       metadata: {
         model: process.env.CLAUDE_MODEL || 'unknown',
         user: process.env.USER || process.env.USERNAME || 'unknown',
@@ -181,52 +319,82 @@ export class ScopedWorkerRegistryManager {
       }
     };
     
+    // Every registration rotates the resume token
+    const resumeToken = RESUME_TOKEN_PREFIX + randomBytes(24).toString('base64url');
+    const identity: StoredWorkerIdentity = {
+      workerId: id,
+      identity: worker.identity,
+      resumeTokenHash: hashResumeToken(resumeToken),
+      tokenId: access.tokenId,
+      sessionId: worker.sessionId,
+      lastSeen: worker.lastSeen,
+      currentProjectId: worker.currentProjectId
+    };
+    await this.saveIdentities(workspaceId, [...identities.filter(i => i.workerId !== id), identity]);
+    
     registry.workers.set(worker.id, worker);
     await this.saveRegistry(registry);
     await this.saveWorkerState(worker);
     
-    console.log(`🤖 Worker registered in workspace ${workspaceId}: ${worker.name || worker.id}`);
-    return worker;
+    log.info(`Worker ${previous ? 'resumed' : 'registered'}: ${worker.name || worker.id}`, { workspaceId, workerId: worker.id });
+    return { worker, resumeToken };
   }
   
   async updateHeartbeat(workspaceId: string, workerId: string): Promise<void> {
-    const registry = await this.loadRegistry(workspaceId);
-    const worker = registry.workers.get(workerId);
-    
-    if (!worker) {
-      throw new WorkerNotFoundError(workerId);
-    }
-    
-    worker.lastSeen = new Date();
-    registry.workers.set(workerId, worker);
-    
-    await this.saveRegistry(registry);
-    await this.saveWorkerState(worker);
+    await this.mutateRegistry(workspaceId, async registry => {
+      const worker = registry.workers.get(workerId);
+      
+      if (!worker) {
+        throw new WorkerNotFoundError(workerId);
+      }
+      
+      worker.lastSeen = new Date();
+      registry.workers.set(workerId, worker);
+      
+      await this.saveRegistry(registry);
+      await this.saveWorkerState(worker);
+    });
   }
   
   async setCurrentProject(workspaceId: string, workerId: string, projectId?: string): Promise<void> {
-    const registry = await this.loadRegistry(workspaceId);
-    const worker = registry.workers.get(workerId);
-    
-    if (!worker) {
-      throw new WorkerNotFoundError(workerId);
-    }
-    
-    worker.currentProjectId = projectId;
-    worker.lastSeen = new Date();
-    registry.workers.set(workerId, worker);
-    
-    await this.saveRegistry(registry);
-    await this.saveWorkerState(worker);
+    await this.mutateRegistry(workspaceId, async registry => {
+      const worker = registry.workers.get(workerId);
+      
+      if (!worker) {
+        throw new WorkerNotFoundError(workerId);
+      }
+      
+      worker.currentProjectId = projectId;
+      worker.lastSeen = new Date();
+      registry.workers.set(workerId, worker);
+      
+      await this.saveRegistry(registry);
+      await this.saveWorkerState(worker);
+    });
   }
   
   async deregisterWorker(workspaceId: string, workerId: string): Promise<void> {
-    const registry = await this.loadRegistry(workspaceId);
+    return this.mutateRegistry(workspaceId, registry => this.deregisterWorkerLocked(registry, workerId));
+  }
+  
+  private async deregisterWorkerLocked(registry: WorkspaceWorkerRegistry, workerId: string): Promise<void> {
+    const workspaceId = registry.workspaceId;
+    const worker = registry.workers.get(workerId);
     
-    if (!registry.workers.has(workerId)) {
+    if (!worker) {
       return; // Already deregistered
     }
     
+    // Remember where the worker left off for when it is resumed
+    const identities = await this.loadIdentities(workspaceId);
+    const identity = identities.find(i => i.workerId === workerId);
+    if (identity) {
+      identity.sessionId = worker.sessionId;
+      identity.lastSeen = (await this.readLastSeen(workspaceId, workerId)) || worker.lastSeen;
+      identity.currentProjectId = worker.currentProjectId;
+      await this.saveIdentities(workspaceId, identities);
+    }
+    
     registry.workers.delete(workerId);
     await this.saveRegistry(registry);
     
@@ -238,7 +406,7 @@ export class ScopedWorkerRegistryManager {
       // File may not exist, ignore
     }
     
-    console.log(`🤖 Worker deregistered from workspace ${workspaceId}: ${workerId}`);
+    log.info(`Worker deregistered: ${workerId}`, { workspaceId, workerId });
   }
   
   async getActiveWorkersInWorkspace(workspaceId: string): Promise<ScopedWorkerIdentity[]> {
@@ -264,6 +432,59 @@ export class ScopedWorkerRegistryManager {
     return registry.workers.get(workerId) || null;
   }
   
+  // Workspace holding the worker's state file, for callers that only know the worker ID
+  async findWorkerWorkspace(workerId: string): Promise<string | null> {
+    try {
+      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
+      
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        try {
+          await fs.access(this.getWorkerFile(entry.name, workerId));
+          return entry.name;
+        } catch {
+          // Not registered in this workspace
+        }
+      }
+    } catch {
+      // Data directory doesn't exist yet
+    }
+    
+    return null;
+  }
+  
+  // Workers with a recent heartbeat, read from their state files so that workers of other
+  // processes are included
+  async getLiveWorkerIds(workspaceId: string): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.getWorkersDir(workspaceId));
+    } catch {
+      return []; // No worker registered yet
+    }
+    
+    const workerIds = files
+      .filter(file => file.endsWith('.json') && file !== 'registry.json' && file !== 'identities.json')
+      .map(file => file.slice(0, -'.json'.length));
+    const alive = await Promise.all(workerIds.map(workerId => this.isWorkerAlive(workspaceId, workerId)));
+    return workerIds.filter((workerId, i) => alive[i]);
+  }
+  
+  // Reads the worker state file directly so heartbeats from other processes are visible
+  async isWorkerAlive(workspaceId: string, workerId: string): Promise<boolean> {
+    const lastSeen = await this.readLastSeen(workspaceId, workerId);
+    return !!lastSeen && Date.now() - lastSeen.getTime() < this.config.workerTimeoutMs;
+  }
+  
+  private async readLastSeen(workspaceId: string, workerId: string): Promise<Date | null> {
+    try {
+      const data = await fs.readFile(this.getWorkerFile(workspaceId, workerId), 'utf-8');
+      return new Date(JSON.parse(data).lastSeen);
+    } catch {
+      return null;
+    }
+  }
+  
   async getWorkerStatus(workspaceId: string, workerId: string): Promise<WorkerStatus | null> {
     const worker = await this.getWorker(workspaceId, workerId);
     if (!worker) return null;
@@ -299,29 +520,53 @@ export class ScopedWorkerRegistryManager {
     };
   }
   
-  private async cleanupInactiveWorkers(workspaceId: string): Promise<void> {
-    const registry = await this.loadRegistry(workspaceId);
-    const now = Date.now();
-    
+  // Workers past the grace period are reported through onWorkersExpired before they are removed
+  async cleanupInactiveWorkers(workspaceId: string): Promise<void> {
     // Only cleanup if it's been a while since last cleanup
-    const timeSinceCleanup = now - registry.lastCleanup.getTime();
-    if (timeSinceCleanup < 60 * 1000) return; // Cleanup at most once per minute
+    const isDue = (registry: WorkspaceWorkerRegistry) => Date.now() - registry.lastCleanup.getTime() >= 60 * 1000;
+    if (!isDue(await this.loadRegistry(workspaceId))) return; // Cleanup at most once per minute
     
+    await this.mutateRegistry(workspaceId, async registry => {
+      if (isDue(registry)) await this.cleanupInactiveWorkersLocked(registry);
+    });
+  }
+  
+  private async cleanupInactiveWorkersLocked(registry: WorkspaceWorkerRegistry): Promise<void> {
+    const workspaceId = registry.workspaceId;
+    const now = Date.now();
+    registry.lastCleanup = new Date();
+    
+    const expired: ScopedWorkerIdentity[] = [];
     const toRemove: string[] = [];
     
     for (const [workerId, worker] of registry.workers) {
-      const timeSinceLastSeen = now - worker.lastSeen.getTime();
-      if (timeSinceLastSeen > registry.inactiveTimeoutMs * 2) { // Extra buffer before removal
-        toRemove.push(workerId);
+      // The cached lastSeen misses heartbeats sent by other processes
+      const lastSeen = (await this.readLastSeen(workspaceId, workerId)) || worker.lastSeen;
+      const timeSinceLastSeen = now - lastSeen.getTime();
+      
+      if (timeSinceLastSeen > registry.inactiveTimeoutMs + this.config.orphanedTodoGracePeriodMs) {
+        expired.push({ ...worker, lastSeen });
+        if (timeSinceLastSeen > registry.inactiveTimeoutMs * 2) { // Extra buffer before removal
+          toRemove.push(workerId);
+        }
+      }
+    }
+    
+    if (expired.length > 0) {
+      try {
+        await this.hooks.onWorkersExpired?.(workspaceId, expired);
+      } catch (error) {
+        // Keep the workers registered so the next cleanup retries
+        log.error('Failed to handle expired workers', { workspaceId, error });
+        toRemove.length = 0;
       }
     }
     
     for (const workerId of toRemove) {
-      console.log(`🧹 Cleaning up inactive worker in workspace ${workspaceId}: ${workerId}`);
-      await this.deregisterWorker(workspaceId, workerId);
+      log.info(`Cleaning up inactive worker: ${workerId}`, { workspaceId, workerId });
+      await this.deregisterWorkerLocked(registry, workerId);
     }
     
-    registry.lastCleanup = new Date();
     await this.saveRegistry(registry);
   }
   
@@ -349,27 +594,29 @@ export class ScopedWorkerRegistryManager {
   
   // Utility methods for testing and debugging
   async resetWorkspaceRegistry(workspaceId: string): Promise<void> {
-    const registry: WorkspaceWorkerRegistry = {
-      workspaceId,
-      workers: new Map(),
-      lastCleanup: new Date(),
-      inactiveTimeoutMs: this.config.workerTimeoutMs
-    };
-    
-    await this.saveRegistry(registry);
-    
-    // Clean up worker state files
-    try {
-      const workersDir = this.getWorkersDir(workspaceId);
-      const files = await fs.readdir(workersDir);
-      for (const file of files) {
-        if (file.endsWith('.json') && file !== 'registry.json') {
-          await fs.unlink(path.join(workersDir, file));
+    await this.mutateRegistry(workspaceId, async () => {
+      const registry: WorkspaceWorkerRegistry = {
+        workspaceId,
+        workers: new Map(),
+        lastCleanup: new Date(),
+        inactiveTimeoutMs: this.config.workerTimeoutMs
+      };
+      
+      await this.saveRegistry(registry);
+      
+      // Clean up worker state files
+      try {
+        const workersDir = this.getWorkersDir(workspaceId);
+        const files = await fs.readdir(workersDir);
+        for (const file of files) {
+          if (file.endsWith('.json') && file !== 'registry.json') {
+            await fs.unlink(path.join(workersDir, file));
+          }
         }
+      } catch {
+        // Directory may not exist
       }
-    } catch {
-      // Directory may not exist
-    }
+    });
   }
   
   async getRegistryStats(workspaceId: string): Promise<{
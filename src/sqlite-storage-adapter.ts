@@ -0,0 +1,329 @@
+import { mkdirSync } from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { getDataRoot } from './paths.js';
+import { Project, TodoItem } from './types.js';
+import { ChangeEvent } from './tracking-types.js';
+import { WorkspaceMetadata } from './storage-v2.js';
+import {
+  AuditEventBatch,
+  AuditLogKey,
+  AuditLogStore,
+  StorageAdapter,
+  StoredAuditLog,
+  assertNewerVersion
+} from './storage-adapter.js';
+
+const SCHEMA_VERSION = 1;
+
+// Documents are kept as JSON text, so every backend returns the same shapes
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS workspaces (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  -- Projects without their todos, which are rows of their own
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS projects_by_workspace ON projects (workspace_id);
+
+  CREATE TABLE IF NOT EXISTS todos (
+    project_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (project_id, id)
+  );
+
+  -- project_id is '' for the workspace log
+  CREATE TABLE IF NOT EXISTS audit_logs (
+    workspace_id TEXT NOT NULL,
+    project_id TEXT NOT NULL,
+    last_compacted TEXT NOT NULL,
+    retention_days INTEGER NOT NULL,
+    version TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    PRIMARY KEY (workspace_id, project_id)
+  );
+
+  -- seq orders events across all logs for readAuditEventsSince()
+  CREATE TABLE IF NOT EXISTS audit_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id TEXT NOT NULL,
+    project_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    UNIQUE (workspace_id, project_id, id)
+  );
+
+  CREATE TABLE IF NOT EXISTS audit_archives (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id TEXT NOT NULL,
+    project_id TEXT NOT NULL,
+    archived_at TEXT NOT NULL,
+    events TEXT NOT NULL
+  );
+`;
+
+interface AuditLogRow {
+  last_compacted: string;
+  retention_days: number;
+  version: string;
+  size: number;
+}
+
+class SqliteAuditLog implements AuditLogStore {
+  readonly location: string;
+  private projectId: string;
+
+  constructor(private db: Database.Database, dbFile: string, private key: AuditLogKey) {
+    this.projectId = key.projectId || '';
+    this.location = `${dbFile}#${key.workspaceId}/${key.projectId || 'workspace'}`;
+  }
+
+  async read(): Promise<{ log: StoredAuditLog; size: number } | null> {
+    const header = this.db.prepare(
+      'SELECT last_compacted, retention_days, version, size FROM audit_logs WHERE workspace_id = ? AND project_id = ?'
+    ).get(this.key.workspaceId, this.projectId) as AuditLogRow | undefined;
+    if (!header) return null;
+
+    const rows = this.db.prepare(
+      'SELECT data FROM audit_events WHERE workspace_id = ? AND project_id = ? ORDER BY seq'
+    ).all(this.key.workspaceId, this.projectId) as { data: string }[];
+
+    return {
+      log: {
+        events: rows.map(row => JSON.parse(row.data)),
+        lastCompacted: new Date(header.last_compacted),
+        retentionDays: header.retention_days,
+        version: header.version
+      },
+      size: header.size
+    };
+  }
+
+  private writeHeader(log: StoredAuditLog, size: number): void {
+    this.db.prepare(`
+      INSERT INTO audit_logs (workspace_id, project_id, last_compacted, retention_days, version, size)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (workspace_id, project_id) DO UPDATE SET
+        last_compacted = excluded.last_compacted,
+        retention_days = excluded.retention_days,
+        version = excluded.version,
+        size = excluded.size
+    `).run(this.key.workspaceId, this.projectId, log.lastCompacted.toISOString(), log.retentionDays, log.version, size);
+  }
+
+  // Inserts only the new event instead of rewriting the log
+  async append(log: StoredAuditLog): Promise<number> {
+    const event = log.events[log.events.length - 1];
+    const data = JSON.stringify(event);
+
+    return this.db.transaction(() => {
+      const header = this.db.prepare(
+        'SELECT size FROM audit_logs WHERE workspace_id = ? AND project_id = ?'
+      ).get(this.key.workspaceId, this.projectId) as { size: number } | undefined;
+      const size = (header?.size || 0) + data.length;
+
+      this.db.prepare(
+        'INSERT INTO audit_events (workspace_id, project_id, id, data) VALUES (?, ?, ?, ?)'
+      ).run(this.key.workspaceId, this.projectId, event.id, data);
+      this.writeHeader(log, size);
+      return size;
+    })();
+  }
+
+  // Removes events that are gone and updates changed ones; events that stay keep their seq
+  async write(log: StoredAuditLog): Promise<number> {
+    return this.db.transaction(() => {
+      const stored = new Map((this.db.prepare(
+        'SELECT id, data FROM audit_events WHERE workspace_id = ? AND project_id = ?'
+      ).all(this.key.workspaceId, this.projectId) as { id: string; data: string }[]).map(row => [row.id, row.data]));
+
+      const upsert = this.db.prepare(`
+        INSERT INTO audit_events (workspace_id, project_id, id, data) VALUES (?, ?, ?, ?)
+        ON CONFLICT (workspace_id, project_id, id) DO UPDATE SET data = excluded.data
+      `);
+      let size = 0;
+      for (const event of log.events) {
+        const data = JSON.stringify(event);
+        size += data.length;
+        if (stored.get(event.id) !== data) {
+          upsert.run(this.key.workspaceId, this.projectId, event.id, data);
+        }
+        stored.delete(event.id);
+      }
+
+      const remove = this.db.prepare('DELETE FROM audit_events WHERE workspace_id = ? AND project_id = ? AND id = ?');
+      for (const id of stored.keys()) {
+        remove.run(this.key.workspaceId, this.projectId, id);
+      }
+
+      this.writeHeader(log, size);
+      return size;
+    })();
+  }
+
+  async archive(events: ChangeEvent[]): Promise<string> {
+    const { lastInsertRowid } = this.db.prepare(
+      'INSERT INTO audit_archives (workspace_id, project_id, archived_at, events) VALUES (?, ?, ?, ?)'
+    ).run(this.key.workspaceId, this.projectId, new Date().toISOString(), JSON.stringify(events));
+    return `${this.location} (audit_archives ${lastInsertRowid})`;
+  }
+
+  async remove(): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM audit_events WHERE workspace_id = ? AND project_id = ?').run(this.key.workspaceId, this.projectId);
+      this.db.prepare('DELETE FROM audit_logs WHERE workspace_id = ? AND project_id = ?').run(this.key.workspaceId, this.projectId);
+    })();
+  }
+}
+
+/**
+ * Everything in one SQLite database, todos.db in the data root. Each write is a
+ * transaction that touches only the rows that changed: a todo update rewrites that todo,
+ * and logging a change inserts one event. Project writes based on an outdated read are
+ * refused, even from processes that don't hold the project lock.
+ */
+export class SqliteStorageAdapter implements StorageAdapter {
+  readonly backend = 'sqlite';
+  readonly location: string;
+  private db: Database.Database;
+
+  constructor(dbFile = path.join(getDataRoot(), 'todos.db')) {
+    mkdirSync(path.dirname(dbFile), { recursive: true });
+    this.location = dbFile;
+    this.db = new Database(dbFile);
+    // Readers don't block the writer, and processes wait for each other's transactions
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+
+    if (this.db.pragma('user_version', { simple: true }) === 0) {
+      this.db.exec(SCHEMA);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    }
+  }
+
+  async listWorkspaceIds(): Promise<string[]> {
+    return (this.db.prepare('SELECT id FROM workspaces ORDER BY id').all() as { id: string }[]).map(row => row.id);
+  }
+
+  async readWorkspace(workspaceId: string): Promise<WorkspaceMetadata | null> {
+    const row = this.db.prepare('SELECT data FROM workspaces WHERE id = ?').get(workspaceId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async writeWorkspace(workspace: WorkspaceMetadata): Promise<void> {
+    this.db.prepare('INSERT INTO workspaces (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data')
+      .run(workspace.id, JSON.stringify(workspace));
+  }
+
+  async listProjectIds(workspaceId: string): Promise<string[]> {
+    return (this.db.prepare('SELECT id FROM projects WHERE workspace_id = ? ORDER BY id').all(workspaceId) as { id: string }[])
+      .map(row => row.id);
+  }
+
+  async projectExists(workspaceId: string, projectId: string): Promise<boolean> {
+    return !!this.db.prepare('SELECT 1 FROM projects WHERE id = ? AND workspace_id = ?').get(projectId, workspaceId);
+  }
+
+  async readProject(workspaceId: string, projectId: string): Promise<Project | null> {
+    // One transaction, so the todos match the project row
+    return this.db.transaction(() => {
+      const row = this.db.prepare('SELECT data FROM projects WHERE id = ? AND workspace_id = ?').get(projectId, workspaceId) as
+        { data: string } | undefined;
+      if (!row) return null;
+
+      const todos = this.db.prepare('SELECT data FROM todos WHERE project_id = ? ORDER BY position').all(projectId) as { data: string }[];
+      return { ...JSON.parse(row.data), todos: todos.map(todo => JSON.parse(todo.data) as TodoItem) };
+    })();
+  }
+
+  async writeProject(workspaceId: string, project: Project): Promise<void> {
+    const { todos, ...rest } = project;
+
+    this.db.transaction(() => {
+      const stored = this.db.prepare('SELECT version FROM projects WHERE id = ?').get(project.id) as { version: number } | undefined;
+      if (stored) assertNewerVersion(stored, project);
+
+      this.db.prepare(`
+        INSERT INTO projects (id, workspace_id, version, data) VALUES (?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET workspace_id = excluded.workspace_id, version = excluded.version, data = excluded.data
+      `).run(project.id, workspaceId, project.version || 0, JSON.stringify(rest));
+
+      const existing = new Map((this.db.prepare('SELECT id, position, data FROM todos WHERE project_id = ?').all(project.id) as
+        { id: string; position: number; data: string }[]).map(row => [row.id, row]));
+
+      const upsert = this.db.prepare(`
+        INSERT INTO todos (project_id, id, position, data) VALUES (?, ?, ?, ?)
+        ON CONFLICT (project_id, id) DO UPDATE SET position = excluded.position, data = excluded.data
+      `);
+      todos.forEach((todo, position) => {
+        const data = JSON.stringify(todo);
+        const row = existing.get(todo.id);
+        if (!row || row.position !== position || row.data !== data) {
+          upsert.run(project.id, todo.id, position, data);
+        }
+        existing.delete(todo.id);
+      });
+
+      const remove = this.db.prepare('DELETE FROM todos WHERE project_id = ? AND id = ?');
+      for (const todoId of existing.keys()) {
+        remove.run(project.id, todoId);
+      }
+    })();
+  }
+
+  async deleteProject(workspaceId: string, projectId: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const { changes } = this.db.prepare('DELETE FROM projects WHERE id = ? AND workspace_id = ?').run(projectId, workspaceId);
+      if (changes > 0) {
+        this.db.prepare('DELETE FROM todos WHERE project_id = ?').run(projectId);
+      }
+      return changes > 0;
+    })();
+  }
+
+  auditLog(key: AuditLogKey): AuditLogStore {
+    return new SqliteAuditLog(this.db, this.location, key);
+  }
+
+  async listAuditLogs(workspaceId: string): Promise<AuditLogKey[]> {
+    return (this.db.prepare('SELECT project_id FROM audit_logs WHERE workspace_id = ? ORDER BY project_id').all(workspaceId) as
+      { project_id: string }[]).map(row => ({ workspaceId, projectId: row.project_id || null }));
+  }
+
+  async readAuditEventsSince(cursor: number | null): Promise<{ cursor: number; batches: AuditEventBatch[] }> {
+    if (cursor === null) {
+      const { seq } = this.db.prepare('SELECT COALESCE(MAX(seq), 0) AS seq FROM audit_events').get() as { seq: number };
+      return { cursor: seq, batches: [] };
+    }
+
+    const rows = this.db.prepare(
+      'SELECT seq, workspace_id, project_id, data FROM audit_events WHERE seq > ? ORDER BY seq LIMIT 1000'
+    ).all(cursor) as { seq: number; workspace_id: string; project_id: string; data: string }[];
+
+    // Consecutive events of one log form a batch
+    const batches: AuditEventBatch[] = [];
+    for (const row of rows) {
+      const last = batches[batches.length - 1];
+      const projectId = row.project_id || null;
+      if (last && last.key.workspaceId === row.workspace_id && last.key.projectId === projectId) {
+        last.events.push(JSON.parse(row.data));
+      } else {
+        batches.push({ key: { workspaceId: row.workspace_id, projectId }, events: [JSON.parse(row.data)] });
+      }
+    }
+
+    return { cursor: rows.length > 0 ? rows[rows.length - 1].seq : cursor, batches };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
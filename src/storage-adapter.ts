@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Project } from './types.js';
+import { ChangeEvent, ConflictError } from './tracking-types.js';
+import { WorkspaceMetadata } from './storage-v2.js';
+import { JsonStorageAdapter } from './json-storage-adapter.js';
+import { SqliteStorageAdapter } from './sqlite-storage-adapter.js';
+import { MemoryStorageAdapter } from './memory-storage-adapter.js';
+
+/**
+ * Where workspaces, projects and audit logs are persisted. TodosStorageV2 and the change
+ * loggers only talk to this interface; the backend is chosen with the storage.backend
+ * setting:
+ *
+ *   json     one file per workspace, project and audit log in the data root (the default)
+ *   sqlite   todos.db in the data root; todos are rows and audit events are appended, so
+ *            a change writes what changed rather than the whole file
+ *   memory   nothing leaves the process, for tests
+ *
+ * Workspaces in repo mode keep their projects in the workspace instead (see repo-store.ts),
+ * whatever the backend. Workers, locks, tokens, webhooks, templates, checkpoints and the
+ * indexes are always files in the data root.
+ */
+
+export type StorageBackend = 'json' | 'sqlite' | 'memory';
+
+export const STORAGE_BACKENDS: readonly StorageBackend[] = ['json', 'sqlite', 'memory'];
+
+// A project's audit log, or with a null projectId the workspace's own
+export interface AuditLogKey {
+  workspaceId: string;
+  projectId: string | null;
+}
+
+export interface StoredAuditLog {
+  events: ChangeEvent[];     // In the order they were logged
+  lastCompacted: Date;
+  retentionDays: number;
+  version: string;
+}
+
+export interface AuditLogStore {
+  readonly location: string;   // Differs between stores that keep the same log in different places
+
+  // Null when nothing was logged yet; size is what the log takes up in bytes
+  read(): Promise<{ log: StoredAuditLog; size: number } | null>;
+  // Adds the last event of the log; backends that can't append write the whole log
+  append(log: StoredAuditLog): Promise<number>;
+  write(log: StoredAuditLog): Promise<number>;
+  // Keeps events dropped by compaction; returns where they went
+  archive(events: ChangeEvent[]): Promise<string>;
+  remove(): Promise<void>;
+}
+
+export interface AuditEventBatch {
+  key: AuditLogKey;
+  events: ChangeEvent[];
+}
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  readonly location: string;
+
+  listWorkspaceIds(): Promise<string[]>;
+  readWorkspace(workspaceId: string): Promise<WorkspaceMetadata | null>;
+  writeWorkspace(workspace: WorkspaceMetadata): Promise<void>;
+
+  listProjectIds(workspaceId: string): Promise<string[]>;
+  projectExists(workspaceId: string, projectId: string): Promise<boolean>;
+  readProject(workspaceId: string, projectId: string): Promise<Project | null>;
+  // Backends with transactions refuse a write whose version isn't past the stored one
+  writeProject(workspaceId: string, project: Project): Promise<void>;
+  deleteProject(workspaceId: string, projectId: string): Promise<boolean>;
+
+  auditLog(key: AuditLogKey): AuditLogStore;
+  // Every audit log of the workspace, including those of deleted projects
+  listAuditLogs(workspaceId: string): Promise<AuditLogKey[]>;
+
+  // Audit events logged after the cursor by any process, for backends whose logs can't be
+  // watched as files. A null cursor returns the current position and no events.
+  readAuditEventsSince?(cursor: number | null): Promise<{ cursor: number; batches: AuditEventBatch[] }>;
+
+  close(): void;
+}
+
+// Every write bumps the project version, so a write that doesn't move past the stored
+// version was based on an outdated read and would undo another writer's changes
+export function assertNewerVersion(stored: { version?: number }, project: Project): void {
+  const storedVersion = stored.version || 0;
+  if ((project.version || 0) > storedVersion) return;
+
+  throw new ConflictError(
+    `Project ${project.id} is at version ${storedVersion}, the write was based on version ${(project.version || 0) - 1}`,
+    [{
+      id: uuidv4(),
+      type: 'stale_data',
+      events: [],
+      severity: 'high',
+      autoResolvable: false,
+      description: `Project "${project.name}" was changed by another writer in the meantime`,
+      suggestedResolution: 'Re-read the project and retry'
+    }]
+  );
+}
+
+export function createStorageAdapter(backend: StorageBackend): StorageAdapter {
+  switch (backend) {
+    case 'json':
+      return new JsonStorageAdapter();
+    case 'sqlite':
+      return new SqliteStorageAdapter();
+    case 'memory':
+      return new MemoryStorageAdapter();
+  }
+}
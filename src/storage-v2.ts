@@ -1,6 +1,9 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as os from 'os';
+import { getDataRoot } from './paths.js';
+import { RepoProjectStore, RepoSettings, readRepoSettings } from './repo-store.js';
+import { StorageAdapter, createStorageAdapter } from './storage-adapter.js';
+import { ConfigLoader } from './config.js';
 import { v4 as uuidv4 } from 'uuid';
 import {
   Project,
@@ -13,6 +16,9 @@ import {
   CreateTodoRequest,
   UpdateTodoRequest,
   CreatePhaseRequest,
+  UpdatePhaseRequest,
+  DeletePhaseRequest,
+  MoveTodosToPhaseRequest,
   AttachDocumentRequest,
   ReorderTodosRequest,
 } from './types.js';
@@ -25,8 +31,11 @@ import {
   validateDocumentData,
   validatePhaseName
 } from './validation.js';
+import { createLogger } from './logger.js';
 
-interface WorkspaceMetadata {
+const log = createLogger('storage');
+
+export interface WorkspaceMetadata {
   id: string;
   path: string;
   name: string;
@@ -35,86 +44,134 @@ interface WorkspaceMetadata {
   projectIds: string[];
 }
 
-interface Config {
-  version: string;
-  dataDirectory: string;
-  backupEnabled: boolean;
-  backupRetentionDays: number;
-  features: {
-    dependencies: boolean;
-    concurrentWork: boolean;
-  };
-}
-
 export class TodosStorageV2 {
-  private homeDir = os.homedir();
-  private baseDir = path.join(this.homeDir, '.claude-todos-mcp');
+  private baseDir = getDataRoot();
   private dataDir = path.join(this.baseDir, 'data');
-  private configPath = path.join(this.baseDir, 'config.json');
-  private config: Config | null = null;
   
   // Cache for workspace metadata
   private workspaceCache = new Map<string, WorkspaceMetadata>();
   
-  constructor() {}
+  // Workspaces, projects and audit logs go through the adapter; by default the backend
+  // in the storage.backend setting
+  constructor(protected adapter: StorageAdapter = createStorageAdapter(new ConfigLoader().resolveSync().storage.backend)) {}
   
   private async ensureDirectories(): Promise<void> {
     await fs.mkdir(this.baseDir, { recursive: true });
     await fs.mkdir(this.dataDir, { recursive: true });
   }
   
-  private async loadConfig(): Promise<Config> {
-    if (this.config) return this.config;
+  // Path helper methods
+  protected getWorkspaceDir(workspaceId: string): string {
+    return path.join(this.dataDir, workspaceId);
+  }
+  
+  protected async readWorkspace(workspaceId: string): Promise<WorkspaceMetadata> {
+    const workspace = await this.adapter.readWorkspace(workspaceId);
+    if (!workspace) {
+      throw new Error(`Workspace not found: ${workspaceId}`);
+    }
+    return workspace;
+  }
+  
+  protected async readWorkspaceMetadata(workspaceId: string): Promise<WorkspaceMetadata> {
+    const workspace = await this.readWorkspace(workspaceId);
+    return { ...workspace, projectIds: await this.listProjectIds(workspace) };
+  }
+  
+  // Workspaces in repo mode keep their projects in <workspace>/.todos, see repo-store.ts
+  protected async getRepoStore(workspaceId: string): Promise<RepoProjectStore | null> {
+    const workspace = this.workspaceCache.get(workspaceId) || await this.adapter.readWorkspace(workspaceId).catch(() => null);
+    if (!workspace) return null;
     
-    try {
-      const data = await fs.readFile(this.configPath, 'utf-8');
-      this.config = JSON.parse(data);
-      return this.config!;
-    } catch {
-      // Create default config
-      this.config = {
-        version: '2.0.0',
-        dataDirectory: this.dataDir,
-        backupEnabled: true,
-        backupRetentionDays: 30,
-        features: {
-          dependencies: false,
-          concurrentWork: false
-        }
-      };
-      
-      await this.saveConfig();
-      return this.config;
+    const settings = await readRepoSettings(workspace.path);
+    return settings ? this.createRepoStore(workspaceId, workspace.path, settings) : null;
+  }
+  
+  protected createRepoStore(workspaceId: string, workspacePath: string, settings: RepoSettings): RepoProjectStore {
+    return new RepoProjectStore(workspacePath, workspaceId, path.join(this.getWorkspaceDir(workspaceId), 'repo-projects'), settings);
+  }
+  
+  // A clone brings projects this machine never created, so repo listings win over workspace.json
+  protected async listProjectIds(workspace: WorkspaceMetadata): Promise<string[]> {
+    const repo = await this.getRepoStore(workspace.id);
+    return repo ? repo.listProjectIds() : workspace.projectIds;
+  }
+  
+  // Drop cached metadata after the workspace file was rewritten outside this class
+  protected evictWorkspaceCache(workspaceId: string): void {
+    this.workspaceCache.delete(workspaceId);
+  }
+  
+  // Every project write bumps its version so holders of an older copy can detect it; the
+  // SQLite and memory backends refuse the write when the stored version moved on meanwhile
+  protected async writeProject(workspaceId: string, project: Project): Promise<void> {
+    project.version = (project.version || 0) + 1;
+    
+    const repo = await this.getRepoStore(workspaceId);
+    if (repo) {
+      await repo.write(project);
+    } else {
+      await this.adapter.writeProject(workspaceId, project);
     }
   }
   
-  private async saveConfig(): Promise<void> {
-    await this.ensureDirectories();
-    await fs.writeFile(this.configPath, JSON.stringify(this.config, null, 2));
+  protected async readProjectFile(workspaceId: string, projectId: string): Promise<Project> {
+    const repo = await this.getRepoStore(workspaceId);
+    if (repo) return repo.read(projectId);
+    
+    const project = await this.adapter.readProject(workspaceId, projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+    return project;
   }
   
-  // Path helper methods
-  protected getWorkspaceDir(workspaceId: string): string {
-    return path.join(this.dataDir, workspaceId);
+  protected async projectExists(workspaceId: string, projectId: string): Promise<boolean> {
+    const repo = await this.getRepoStore(workspaceId);
+    return repo ? repo.exists(projectId) : this.adapter.projectExists(workspaceId, projectId);
   }
   
-  protected getWorkspaceFile(workspaceId: string): string {
-    return path.join(this.getWorkspaceDir(workspaceId), 'workspace.json');
+  protected async removeProjectFile(workspaceId: string, projectId: string): Promise<void> {
+    const repo = await this.getRepoStore(workspaceId);
+    if (repo) {
+      await repo.remove(projectId);
+    } else if (!await this.adapter.deleteProject(workspaceId, projectId)) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
   }
   
-  protected getProjectFile(workspaceId: string, projectId: string): string {
-    return path.join(this.getWorkspaceDir(workspaceId), `project-${projectId}.json`);
+  // Every project of one workspace, whichever mode it is in
+  protected async readWorkspaceProjects(workspaceId: string): Promise<Project[]> {
+    const projects: Project[] = [];
+    
+    for (const { projectId } of await this.listProjectRefs(workspaceId)) {
+      try {
+        projects.push(await this.readProjectFile(workspaceId, projectId));
+      } catch {
+        // Invalid project file, skip
+      }
+    }
+    
+    return projects;
   }
   
-  // Atomic file operations
-  protected async writeJsonFile(filePath: string, data: any): Promise<void> {
-    // Ensure directory exists
-    const dir = path.dirname(filePath);
-    await fs.mkdir(dir, { recursive: true });
+  // Workspace and project IDs of every project, without reading the projects
+  protected async listProjectRefs(workspaceId?: string): Promise<{ workspaceId: string; projectId: string }[]> {
+    const refs: { workspaceId: string; projectId: string }[] = [];
     
-    const tempPath = `${filePath}.tmp`;
-    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
-    await fs.rename(tempPath, filePath);
+    const workspaceIds = workspaceId ? [workspaceId] : await this.adapter.listWorkspaceIds();
+    
+    for (const id of workspaceIds) {
+      const repo = await this.getRepoStore(id);
+      const projectIds = repo ? await repo.listProjectIds() : await this.adapter.listProjectIds(id);
+      refs.push(...projectIds.map(projectId => ({ workspaceId: id, projectId })));
+    }
+    
+    return refs;
+  }
+  
+  protected nextVersion(entity: { version?: number }): number {
+    return (entity.version || 0) + 1;
   }
   
   protected async readJsonFile<T>(filePath: string): Promise<T> {
@@ -138,7 +195,7 @@ export class TodosStorageV2 {
     
     try {
       const oldData = await this.readJsonFile<TodosData>(sourcePath);
-      console.log(`Migrating ${oldData.workspaces.length} workspaces...`);
+      log.info(`Migrating ${oldData.workspaces.length} workspaces`, { sourcePath });
       
       await this.ensureDirectories();
       
@@ -157,17 +214,14 @@ export class TodosStorageV2 {
           projectIds: workspace.projects.map(p => p.id)
         };
         
-        await this.writeJsonFile(this.getWorkspaceFile(workspaceId), workspaceMeta);
+        await this.adapter.writeWorkspace(workspaceMeta);
         
         // Save each project
         for (const project of workspace.projects) {
-          await this.writeJsonFile(
-            this.getProjectFile(workspaceId, project.id),
-            project
-          );
+          await this.adapter.writeProject(workspaceId, project);
         }
         
-        console.log(`Migrated workspace: ${workspace.path} (${workspace.projects.length} projects)`);
+        log.info(`Migrated workspace: ${workspace.path}`, { workspaceId, projects: workspace.projects.length });
       }
       
       // Archive old file
@@ -176,10 +230,10 @@ export class TodosStorageV2 {
       const backupPath = path.join(backupDir, `todos-data-v1-${Date.now()}.json`);
       await fs.copyFile(sourcePath, backupPath);
       
-      console.log(`Migration complete! Old data backed up to: ${backupPath}`);
+      log.info('Migration complete', { backupPath });
     } catch (error) {
       if ((error as any).code === 'ENOENT') {
-        console.log('No old data file found, starting fresh.');
+        log.info('No old data file found, starting fresh', { sourcePath });
       } else {
         throw error;
       }
@@ -197,28 +251,20 @@ export class TodosStorageV2 {
       }
     }
     
-    // Check all workspace directories
-    try {
-      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          try {
-            const workspaceFile = this.getWorkspaceFile(entry.name);
-            const workspace = await this.readJsonFile<WorkspaceMetadata>(workspaceFile);
-            
-            this.workspaceCache.set(workspace.id, workspace);
-            
-            if (workspace.path === workspacePath) {
-              return workspace;
-            }
-          } catch {
-            // Invalid workspace directory, skip
-          }
+    // Check all stored workspaces
+    for (const id of await this.adapter.listWorkspaceIds()) {
+      try {
+        const workspace = await this.adapter.readWorkspace(id);
+        if (!workspace) continue;
+        
+        this.workspaceCache.set(workspace.id, workspace);
+        
+        if (workspace.path === workspacePath) {
+          return workspace;
         }
+      } catch {
+        // Invalid workspace, skip
       }
-    } catch {
-      // Data directory doesn't exist yet
     }
     
     // Create new workspace
@@ -232,9 +278,10 @@ export class TodosStorageV2 {
       projectIds: []
     };
     
+    // Workers, locks and settings live in the directory whatever the backend
     const workspaceDir = this.getWorkspaceDir(workspaceId);
     await fs.mkdir(workspaceDir, { recursive: true });
-    await this.writeJsonFile(this.getWorkspaceFile(workspaceId), workspace);
+    await this.adapter.writeWorkspace(workspace);
     
     this.workspaceCache.set(workspaceId, workspace);
     return workspace;
@@ -256,43 +303,30 @@ export class TodosStorageV2 {
       updatedAt: new Date(),
       phases: [],
       todos: [],
-      documents: []
+      documents: [],
+      version: 0 // Becomes 1 when first written
     };
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspace.id, project.id),
-      project
-    );
+    await this.writeProject(workspace.id, project);
     
     // Update workspace metadata
     workspace.projectIds.push(project.id);
     workspace.updatedAt = new Date();
-    await this.writeJsonFile(this.getWorkspaceFile(workspace.id), workspace);
+    await this.adapter.writeWorkspace(workspace);
     
     return project;
   }
   
   async getProject(projectId: string): Promise<Project | null> {
-    // Search all workspaces for the project
+    const workspaceId = await this.findWorkspaceForProject(projectId);
+    if (!workspaceId) return null;
+    
     try {
-      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          try {
-            const projectFile = this.getProjectFile(entry.name, projectId);
-            const project = await this.readJsonFile<Project>(projectFile);
-            return project;
-          } catch {
-            // Project not in this workspace
-          }
-        }
-      }
+      return await this.readProjectFile(workspaceId, projectId);
     } catch {
-      // Data directory doesn't exist
+      // Project removed since it was located
+      return null;
     }
-    
-    return null;
   }
   
   async updateProject(projectId: string, updates: Partial<Project>): Promise<Project | null> {
@@ -306,13 +340,11 @@ export class TodosStorageV2 {
       ...project,
       ...updates,
       id: project.id, // Prevent ID change
+      version: project.version, // Versions only move forward on write
       updatedAt: new Date()
     };
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, projectId),
-      updated
-    );
+    await this.writeProject(workspaceId, updated);
     
     return updated;
   }
@@ -322,15 +354,13 @@ export class TodosStorageV2 {
     if (!workspaceId) return false;
     
     try {
-      await fs.unlink(this.getProjectFile(workspaceId, projectId));
+      await this.removeProjectFile(workspaceId, projectId);
       
       // Update workspace metadata
-      const workspace = await this.readJsonFile<WorkspaceMetadata>(
-        this.getWorkspaceFile(workspaceId)
-      );
+      const workspace = await this.readWorkspace(workspaceId);
       workspace.projectIds = workspace.projectIds.filter(id => id !== projectId);
       workspace.updatedAt = new Date();
-      await this.writeJsonFile(this.getWorkspaceFile(workspaceId), workspace);
+      await this.adapter.writeWorkspace(workspace);
       
       return true;
     } catch {
@@ -341,30 +371,8 @@ export class TodosStorageV2 {
   async listProjects(): Promise<Project[]> {
     const projects: Project[] = [];
     
-    try {
-      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          const workspaceDir = this.getWorkspaceDir(entry.name);
-          const files = await fs.readdir(workspaceDir);
-          
-          for (const file of files) {
-            if (file.startsWith('project-') && file.endsWith('.json')) {
-              try {
-                const project = await this.readJsonFile<Project>(
-                  path.join(workspaceDir, file)
-                );
-                projects.push(project);
-              } catch {
-                // Invalid project file, skip
-              }
-            }
-          }
-        }
-      }
-    } catch {
-      // Data directory doesn't exist
+    for (const workspaceId of await this.adapter.listWorkspaceIds()) {
+      projects.push(...await this.readWorkspaceProjects(workspaceId));
     }
     
     return projects;
@@ -405,16 +413,14 @@ export class TodosStorageV2 {
       areas: request.areas || ['backend'],
       primaryArea: request.primaryArea || request.areas?.[0] || 'backend',
       // Documentation fields
-      notes: request.notes
+      notes: request.notes,
+      version: 1
     };
     
     project.todos.push(todo);
     project.updatedAt = new Date();
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, request.projectId),
-      project
-    );
+    await this.writeProject(workspaceId, project);
     
     return todo;
   }
@@ -453,6 +459,7 @@ export class TodosStorageV2 {
       ...oldTodo,
       ...request,
       id: oldTodo.id, // Prevent ID change
+      version: this.nextVersion(oldTodo),
       updatedAt: new Date(),
       // Set startedAt when status changes to in-progress
       startedAt: request.status === 'in-progress' && oldTodo.status !== 'in-progress'
@@ -467,10 +474,7 @@ export class TodosStorageV2 {
     targetProject.todos[todoIndex] = updated;
     targetProject.updatedAt = new Date();
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, targetProject.id),
-      targetProject
-    );
+    await this.writeProject(workspaceId, targetProject);
     
     return updated;
   }
@@ -509,6 +513,7 @@ export class TodosStorageV2 {
     const updated = {
       ...existingTodo,
       status: newStatus,
+      version: this.nextVersion(existingTodo),
       updatedAt: new Date(),
       // Set startedAt when status changes to in-progress
       startedAt: newStatus === 'in-progress' && existingTodo.status !== 'in-progress'
@@ -523,10 +528,7 @@ export class TodosStorageV2 {
     targetProject.todos[todoIndex] = updated;
     targetProject.updatedAt = new Date();
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, targetProject.id),
-      targetProject
-    );
+    await this.writeProject(workspaceId, targetProject);
     
     return updated;
   }
@@ -549,10 +551,7 @@ export class TodosStorageV2 {
         
         project.updatedAt = new Date();
         
-        await this.writeJsonFile(
-          this.getProjectFile(workspaceId, project.id),
-          project
-        );
+        await this.writeProject(workspaceId, project);
         
         return true;
       }
@@ -563,22 +562,10 @@ export class TodosStorageV2 {
   
   // Helper method to find workspace containing a project
   protected async findWorkspaceForProject(projectId: string): Promise<string | null> {
-    try {
-      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          const projectFile = this.getProjectFile(entry.name, projectId);
-          try {
-            await fs.access(projectFile);
-            return entry.name;
-          } catch {
-            // Project not in this workspace
-          }
-        }
+    for (const workspaceId of await this.adapter.listWorkspaceIds()) {
+      if (await this.projectExists(workspaceId, projectId)) {
+        return workspaceId;
       }
-    } catch {
-      // Data directory doesn't exist
     }
     
     return null;
@@ -604,14 +591,101 @@ export class TodosStorageV2 {
     project.phases.push(phase);
     project.updatedAt = new Date();
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, request.projectId),
-      project
-    );
+    await this.writeProject(workspaceId, project);
     
     return phase;
   }
   
+  async updatePhase(request: UpdatePhaseRequest): Promise<Phase | null> {
+    if (request.name !== undefined) {
+      validatePhaseName(request.name);
+    }
+    
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return null;
+    
+    const project = await this.getProject(request.projectId);
+    if (!project) return null;
+    
+    const phase = project.phases.find(p => p.id === request.phaseId);
+    if (!phase) return null;
+    
+    if (request.name !== undefined) phase.name = request.name;
+    if (request.description !== undefined) phase.description = request.description;
+    project.updatedAt = new Date();
+    
+    await this.writeProject(workspaceId, project);
+    
+    return phase;
+  }
+  
+  async deletePhase(request: DeletePhaseRequest): Promise<boolean> {
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return false;
+    
+    const project = await this.getProject(request.projectId);
+    if (!project) return false;
+    
+    const phaseIndex = project.phases.findIndex(p => p.id === request.phaseId);
+    if (phaseIndex === -1) return false;
+    
+    if (request.moveTodosToPhaseId !== undefined) {
+      if (request.moveTodosToPhaseId === request.phaseId || !project.phases.some(p => p.id === request.moveTodosToPhaseId)) {
+        throw new ValidationError(`Target phase ${request.moveTodosToPhaseId} not found in project`);
+      }
+    }
+    
+    project.phases.splice(phaseIndex, 1);
+    
+    // Reorder remaining phases
+    project.phases.forEach((phase, index) => {
+      phase.order = index;
+    });
+    
+    // Reassign todos so none point at the deleted phase
+    project.todos = project.todos.map(todo => todo.phaseId === request.phaseId
+      ? { ...todo, phaseId: request.moveTodosToPhaseId, version: this.nextVersion(todo), updatedAt: new Date() }
+      : todo
+    );
+    project.updatedAt = new Date();
+    
+    await this.writeProject(workspaceId, project);
+    
+    return true;
+  }
+  
+  async moveTodosToPhase(request: MoveTodosToPhaseRequest): Promise<TodoItem[] | null> {
+    const workspaceId = await this.findWorkspaceForProject(request.projectId);
+    if (!workspaceId) return null;
+    
+    const project = await this.getProject(request.projectId);
+    if (!project) return null;
+    
+    if (request.phaseId !== undefined && !project.phases.some(p => p.id === request.phaseId)) {
+      throw new ValidationError(`Phase ${request.phaseId} not found in project`);
+    }
+    
+    const missing = request.todoIds.filter(id => !project.todos.some(t => t.id === id));
+    if (missing.length > 0) {
+      throw new ValidationError(`Todos not found in project: ${missing.join(', ')}`);
+    }
+    
+    const moved: TodoItem[] = [];
+    project.todos = project.todos.map(todo => {
+      if (!request.todoIds.includes(todo.id) || todo.phaseId === request.phaseId) {
+        return todo;
+      }
+      const updated = { ...todo, phaseId: request.phaseId, version: this.nextVersion(todo), updatedAt: new Date() };
+      moved.push(updated);
+      return updated;
+    });
+    project.updatedAt = new Date();
+    
+    await this.writeProject(workspaceId, project);
+    
+    return moved;
+  }
+  
   async reorderTodos(request: ReorderTodosRequest): Promise<boolean> {
     const workspaceId = await this.findWorkspaceForProject(request.projectId);
     if (!workspaceId) return false;
@@ -632,15 +706,14 @@ export class TodosStorageV2 {
     project.todos = reorderedTodos;
     project.updatedAt = new Date();
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, request.projectId),
-      project
-    );
+    await this.writeProject(workspaceId, project);
     
     return true;
   }
   
   async attachDocument(request: AttachDocumentRequest): Promise<Document | null> {
+    validateDocumentData(request.type, request);
+    
     const workspaceId = await this.findWorkspaceForProject(request.projectId);
     if (!workspaceId) return null;
     
@@ -661,10 +734,7 @@ export class TodosStorageV2 {
     project.documents.push(document);
     project.updatedAt = new Date();
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, request.projectId),
-      project
-    );
+    await this.writeProject(workspaceId, project);
     
     return document;
   }
@@ -682,10 +752,7 @@ export class TodosStorageV2 {
     project.documents.splice(docIndex, 1);
     project.updatedAt = new Date();
     
-    await this.writeJsonFile(
-      this.getProjectFile(workspaceId, projectId),
-      project
-    );
+    await this.writeProject(workspaceId, project);
     
     return true;
   }
@@ -694,7 +761,7 @@ export class TodosStorageV2 {
     const workspaceMeta = await this.getOrCreateWorkspace(workspacePath);
     const projects: Project[] = [];
     
-    for (const projectId of workspaceMeta.projectIds) {
+    for (const projectId of await this.listProjectIds(workspaceMeta)) {
       const project = await this.getProject(projectId);
       if (project) {
         projects.push(project);
@@ -713,38 +780,29 @@ export class TodosStorageV2 {
   async listWorkspaces(): Promise<Workspace[]> {
     const workspaces: Workspace[] = [];
     
-    try {
-      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          try {
-            const workspaceMeta = await this.readJsonFile<WorkspaceMetadata>(
-              this.getWorkspaceFile(entry.name)
-            );
-            
-            const projects: Project[] = [];
-            for (const projectId of workspaceMeta.projectIds) {
-              const project = await this.getProject(projectId);
-              if (project) {
-                projects.push(project);
-              }
-            }
-            
-            workspaces.push({
-              id: workspaceMeta.id,
-              path: workspaceMeta.path,
-              name: workspaceMeta.name,
-              createdAt: workspaceMeta.createdAt,
-              projects
-            });
-          } catch {
-            // Invalid workspace directory, skip
+    for (const workspaceId of await this.adapter.listWorkspaceIds()) {
+      try {
+        const workspaceMeta = await this.adapter.readWorkspace(workspaceId);
+        if (!workspaceMeta) continue;
+        
+        const projects: Project[] = [];
+        for (const projectId of await this.listProjectIds(workspaceMeta)) {
+          const project = await this.getProject(projectId);
+          if (project) {
+            projects.push(project);
           }
         }
+        
+        workspaces.push({
+          id: workspaceMeta.id,
+          path: workspaceMeta.path,
+          name: workspaceMeta.name,
+          createdAt: workspaceMeta.createdAt,
+          projects
+        });
+      } catch {
+        // Invalid workspace, skip
       }
-    } catch {
-      // Data directory doesn't exist
     }
     
     return workspaces;
@@ -0,0 +1,185 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+import { TodoTemplate, SaveTemplateRequest, getAllAreas } from './types.js';
+import { ValidationError } from './validation.js';
+import { validateRecurrence } from './recurrence.js';
+
+const TEMPLATE_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_-]+)\s*\}\}/g;
+
+/**
+ * Project and todo templates, one JSON file per template in the templates directory
+ * next to config.json. Templates are shared by every workspace and can be edited by hand.
+ */
+export class TemplateStore {
+  private baseDir = getDataRoot();
+  private templatesDir = path.join(this.baseDir, 'templates');
+
+  private getTemplateFile(name: string): string {
+    if (!TEMPLATE_NAME.test(name)) {
+      throw new ValidationError(`Invalid template name "${name}": use letters, digits, "-" and "_"`);
+    }
+    return path.join(this.templatesDir, `${name}.json`);
+  }
+
+  async list(): Promise<TodoTemplate[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.templatesDir);
+    } catch {
+      return [];
+    }
+
+    const templates: TodoTemplate[] = [];
+    for (const file of files.filter(f => f.endsWith('.json')).sort()) {
+      const template = await this.get(path.basename(file, '.json')).catch(() => null);
+      if (template) templates.push(template);
+    }
+    return templates;
+  }
+
+  async get(name: string): Promise<TodoTemplate | null> {
+    try {
+      const template = JSON.parse(await fs.readFile(this.getTemplateFile(name), 'utf-8'));
+      return { placeholders: [], phases: [], ...template, name };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(request: SaveTemplateRequest): Promise<TodoTemplate> {
+    const templateFile = this.getTemplateFile(request.name);
+    const existing = await this.get(request.name);
+
+    const template: TodoTemplate = {
+      ...request,
+      placeholders: request.placeholders || [],
+      phases: request.phases || [],
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date()
+    };
+    validateTemplate(template);
+
+    await fs.mkdir(this.templatesDir, { recursive: true });
+    const tempFile = `${templateFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(template, null, 2));
+    await fs.rename(tempFile, templateFile);
+    return template;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.getTemplateFile(name));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+}
+
+// Checks what can be checked before placeholders are filled in
+export function validateTemplate(template: TodoTemplate): void {
+  const areas = new Set<string>(getAllAreas());
+
+  if (template.todos.length === 0) {
+    throw new ValidationError('Template must contain at least one todo');
+  }
+
+  const tempIds = new Set<string>();
+  for (const todo of template.todos) {
+    if (!todo.tempId || tempIds.has(todo.tempId)) {
+      throw new ValidationError(`Template todos need unique tempIds: "${todo.tempId}"`);
+    }
+    tempIds.add(todo.tempId);
+
+    if (!todo.title || !todo.areas || todo.areas.length === 0) {
+      throw new ValidationError(`Template todo "${todo.tempId}" needs a title and at least one area`);
+    }
+    const unknownArea = todo.areas.find(area => !areas.has(area));
+    if (unknownArea) {
+      throw new ValidationError(`Template todo "${todo.tempId}" has an unknown area: ${unknownArea}`);
+    }
+    if (todo.recurrence) {
+      validateRecurrence(todo.recurrence);
+    }
+  }
+
+  // Templates only reference their own todos; instances get fresh IDs
+  for (const todo of template.todos) {
+    const unknown = (todo.dependsOn || []).find(ref => !tempIds.has(ref));
+    if (unknown) {
+      throw new ValidationError(`Template todo "${todo.tempId}" depends on unknown tempId "${unknown}"`);
+    }
+    if (todo.parentId && (!tempIds.has(todo.parentId) || todo.parentId === todo.tempId)) {
+      throw new ValidationError(`Template todo "${todo.tempId}" has an invalid parent tempId "${todo.parentId}"`);
+    }
+  }
+
+  const declared = new Set(template.placeholders.map(p => p.name));
+  const undeclared = placeholdersUsedBy(template).filter(name => !declared.has(name));
+  if (undeclared.length > 0) {
+    throw new ValidationError(`Template uses undeclared placeholders: ${undeclared.join(', ')}`);
+  }
+}
+
+function textsOf(template: TodoTemplate): (string | undefined)[] {
+  return [
+    template.project?.name,
+    template.project?.description,
+    ...template.phases.flatMap(phase => [phase.name, phase.description]),
+    ...template.todos.flatMap(todo => [todo.title, todo.description, todo.notes, todo.phase])
+  ];
+}
+
+function placeholdersUsedBy(template: TodoTemplate): string[] {
+  const names = new Set<string>();
+  for (const text of textsOf(template)) {
+    for (const [, name] of (text || '').matchAll(PLACEHOLDER)) {
+      names.add(name);
+    }
+  }
+  return [...names];
+}
+
+// Fills in {{placeholders}}, using their defaults for values not given
+export function renderTemplate(template: TodoTemplate, values: Record<string, string> = {}): TodoTemplate {
+  const resolved: Record<string, string> = {};
+  const missing: string[] = [];
+
+  for (const placeholder of template.placeholders) {
+    const value = values[placeholder.name] ?? placeholder.default;
+    if (value === undefined) {
+      missing.push(placeholder.name);
+    } else {
+      resolved[placeholder.name] = value;
+    }
+  }
+  if (missing.length > 0) {
+    throw new ValidationError(`Template "${template.name}" needs values for: ${missing.join(', ')}`);
+  }
+
+  const fill = (text: string) => text.replace(PLACEHOLDER, (_, name: string) => resolved[name] ?? '');
+  const fillOptional = (text?: string) => text === undefined ? undefined : fill(text);
+
+  return {
+    ...template,
+    project: template.project && {
+      name: fill(template.project.name),
+      description: fillOptional(template.project.description)
+    },
+    phases: template.phases.map(phase => ({
+      name: fill(phase.name),
+      description: fillOptional(phase.description)
+    })),
+    todos: template.todos.map(todo => ({
+      ...todo,
+      title: fill(todo.title),
+      description: fillOptional(todo.description),
+      notes: fillOptional(todo.notes),
+      phase: fillOptional(todo.phase)
+    }))
+  };
+}
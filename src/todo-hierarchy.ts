@@ -0,0 +1,166 @@
+import { TodoItem } from './types.js';
+import { ValidationError } from './validation.js';
+import { isClosed } from './todo-status.js';
+
+/**
+ * Subtasks: todos with a parentId pointing at another todo of the same project,
+ * nested to any depth.
+ *
+ * A parent is worked on through its subtasks. Its durations are the sums of theirs,
+ * it is in progress as soon as one of them is, and it can only be completed once all
+ * of them are. A subtask can't start before its parent could, so it inherits the
+ * parent's dependencies.
+ */
+
+export interface RolledUpChange {
+  todo: TodoItem;
+  oldTodo: TodoItem;
+}
+
+function groupChildren(todos: TodoItem[]): Map<string, TodoItem[]> {
+  const todoIds = new Set(todos.map(t => t.id));
+  const children = new Map<string, TodoItem[]>();
+
+  for (const todo of todos) {
+    if (todo.parentId && todoIds.has(todo.parentId)) {
+      children.set(todo.parentId, [...(children.get(todo.parentId) || []), todo]);
+    }
+  }
+
+  return children;
+}
+
+// Direct parent first; stops at a missing parent or a loop from a hand edit
+function ancestorChain(todoMap: Map<string, TodoItem>, todo: TodoItem): TodoItem[] {
+  const ancestors: TodoItem[] = [];
+  const seen = new Set([todo.id]);
+
+  let parent = todo.parentId ? todoMap.get(todo.parentId) : undefined;
+  while (parent && !seen.has(parent.id)) {
+    ancestors.push(parent);
+    seen.add(parent.id);
+    parent = parent.parentId ? todoMap.get(parent.parentId) : undefined;
+  }
+
+  return ancestors;
+}
+
+export function hasSubtasks(todos: TodoItem[], todoId: string): boolean {
+  return todos.some(t => t.parentId === todoId);
+}
+
+export function descendantsOf(todos: TodoItem[], todoId: string): TodoItem[] {
+  const children = groupChildren(todos);
+  const descendants: TodoItem[] = [];
+  const seen = new Set([todoId]);
+
+  const queue = [todoId];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) || []) {
+      if (seen.has(child.id)) continue;
+      seen.add(child.id);
+      descendants.push(child);
+      queue.push(child.id);
+    }
+  }
+
+  return descendants;
+}
+
+export function validateParent(todos: TodoItem[], todoId: string, parentId: string): void {
+  if (parentId === todoId) {
+    throw new ValidationError('A todo cannot be its own parent');
+  }
+  if (!todos.some(t => t.id === parentId)) {
+    throw new ValidationError(`Parent todo with ID ${parentId} not found in project`);
+  }
+  if (descendantsOf(todos, todoId).some(t => t.id === parentId)) {
+    throw new ValidationError(`Todo ${parentId} is a subtask of ${todoId} and cannot become its parent`);
+  }
+}
+
+export function assertSubtasksCompleted(todos: TodoItem[], todo: TodoItem): void {
+  const open = descendantsOf(todos, todo.id).filter(t => !isClosed(t));
+  if (open.length > 0) {
+    throw new ValidationError(
+      `Cannot complete "${todo.title}" while ${open.length} subtask(s) are open: ${open.map(t => `"${t.title}"`).join(', ')}`
+    );
+  }
+}
+
+// What has to be completed before a todo can start: its own dependencies and those
+// of its ancestors
+export function inheritedDependencies(todos: TodoItem[]): Map<string, string[]> {
+  const todoMap = new Map(todos.map(t => [t.id, t]));
+
+  return new Map(todos.map(todo => [todo.id, [...new Set([
+    ...todo.dependsOn,
+    ...ancestorChain(todoMap, todo).flatMap(ancestor => ancestor.dependsOn)
+  ])]]));
+}
+
+// Inherited dependencies plus, for parents, their direct subtasks - a parent is only
+// done once they are. This is the graph cycles and schedules are computed on.
+export function effectiveDependencies(todos: TodoItem[]): Map<string, string[]> {
+  const children = groupChildren(todos);
+  const dependencies = inheritedDependencies(todos);
+
+  for (const [parentId, subtasks] of children) {
+    dependencies.set(parentId, [...new Set([...dependencies.get(parentId)!, ...subtasks.map(t => t.id)])]);
+  }
+
+  return dependencies;
+}
+
+const sumOf = (todos: TodoItem[], field: 'estimatedDuration' | 'actualDuration'): number | undefined =>
+  todos.some(t => t[field] !== undefined) ? todos.reduce((sum, t) => sum + (t[field] || 0), 0) : undefined;
+
+const earliest = (dates: (Date | undefined)[]): Date | undefined =>
+  dates.filter((d): d is Date => !!d).map(d => new Date(d)).sort((a, b) => a.getTime() - b.getTime())[0];
+
+/**
+ * Recomputes every parent from its subtasks, deepest first, replacing the parents
+ * that changed in the given array. Completion is never rolled up: parents are
+ * finished explicitly, with a summary.
+ */
+export function rollUpHierarchy(todos: TodoItem[], now: Date = new Date()): RolledUpChange[] {
+  const todoMap = new Map(todos.map(t => [t.id, t]));
+  const children = groupChildren(todos);
+  const depth = (todo: TodoItem) => ancestorChain(todoMap, todo).length;
+
+  const parents = todos.filter(t => children.has(t.id)).sort((a, b) => depth(b) - depth(a));
+  const changes: RolledUpChange[] = [];
+
+  for (const parent of parents) {
+    const subtasks = children.get(parent.id)!.map(child => todoMap.get(child.id)!);
+    const rolledUp: TodoItem = {
+      ...parent,
+      estimatedDuration: sumOf(subtasks, 'estimatedDuration') ?? parent.estimatedDuration,
+      actualDuration: sumOf(subtasks, 'actualDuration') ?? parent.actualDuration
+    };
+
+    const started = subtasks.some(t => t.status === 'in-progress' || t.status === 'completed');
+    const open = subtasks.some(t => !isClosed(t));
+    if (parent.status === 'pending' && started) {
+      rolledUp.status = 'in-progress';
+      rolledUp.startedAt = earliest(subtasks.map(t => t.startedAt)) || now;
+    } else if (parent.status === 'completed' && open) {
+      // A subtask was added or reopened after the parent was finished
+      rolledUp.status = 'in-progress';
+      rolledUp.completedAt = undefined;
+    }
+
+    if (
+      rolledUp.status === parent.status &&
+      rolledUp.estimatedDuration === parent.estimatedDuration &&
+      rolledUp.actualDuration === parent.actualDuration
+    ) continue;
+
+    const updated = { ...rolledUp, version: (parent.version || 0) + 1, updatedAt: now };
+    todoMap.set(parent.id, updated);
+    todos[todos.indexOf(parent)] = updated;
+    changes.push({ todo: updated, oldTodo: parent });
+  }
+
+  return changes;
+}
@@ -0,0 +1,146 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+import { Project } from './types.js';
+
+export interface TodoLocation {
+  workspaceId: string;
+  projectId: string;
+}
+
+interface TodoIndexFile {
+  version: string;
+  projects: Record<string, string>;        // projectId -> workspaceId
+  todos: Record<string, TodoLocation>;     // todoId -> location
+  updatedAt: Date;
+}
+
+/**
+ * Persistent lookup of which workspace and project hold each todo.
+ *
+ * The index is a cache of the project files: entries may lag behind writes made by
+ * other processes, so callers verify hits and call rebuild() on a miss. Rebuilds read
+ * the projects through the storage, which knows where each workspace keeps them.
+ */
+export class TodoIndex {
+  private baseDir = getDataRoot();
+  private indexFile = path.join(this.baseDir, 'index.json');
+
+  private projects = new Map<string, string>();
+  private todos = new Map<string, TodoLocation>();
+  private loaded: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private scanProjects: () => Promise<Project[]>) {}
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data: TodoIndexFile = JSON.parse(await fs.readFile(this.indexFile, 'utf-8'));
+      this.projects = new Map(Object.entries(data.projects));
+      this.todos = new Map(Object.entries(data.todos));
+    } catch {
+      // Missing or unreadable index, rebuild from the project files
+      await this.rebuild();
+    }
+  }
+
+  // Saves are chained so writes from this process land in order
+  private save(): Promise<void> {
+    this.saving = this.saving.catch(() => {}).then(() => this.writeIndex());
+    return this.saving;
+  }
+
+  private async writeIndex(): Promise<void> {
+    const data: TodoIndexFile = {
+      version: '1.0.0',
+      projects: Object.fromEntries(this.projects),
+      todos: Object.fromEntries(this.todos),
+      updatedAt: new Date()
+    };
+
+    await fs.mkdir(this.baseDir, { recursive: true });
+
+    // Per-process temp file so concurrent writers never interleave
+    const tempFile = `${this.indexFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(data, null, 2));
+    await fs.rename(tempFile, this.indexFile);
+  }
+
+  // Scans every project in every workspace
+  async rebuild(): Promise<void> {
+    const projects = new Map<string, string>();
+    const todos = new Map<string, TodoLocation>();
+
+    for (const project of await this.scanProjects()) {
+      projects.set(project.id, project.workspaceId);
+      for (const todo of project.todos) {
+        todos.set(todo.id, { workspaceId: project.workspaceId, projectId: project.id });
+      }
+    }
+
+    this.projects = projects;
+    this.todos = todos;
+    this.loaded = Promise.resolve();
+    await this.save();
+  }
+
+  async locateTodo(todoId: string): Promise<TodoLocation | null> {
+    await this.ensureLoaded();
+    return this.todos.get(todoId) || null;
+  }
+
+  async findWorkspaceForProject(projectId: string): Promise<string | null> {
+    await this.ensureLoaded();
+    return this.projects.get(projectId) || null;
+  }
+
+  // Replaces the indexed todos of a project with its current todos, saving only on change
+  async syncProject(workspaceId: string, project: Project): Promise<void> {
+    await this.ensureLoaded();
+
+    const currentIds = new Set(project.todos.map(t => t.id));
+    let changed = this.projects.get(project.id) !== workspaceId;
+    this.projects.set(project.id, workspaceId);
+
+    for (const [todoId, location] of this.todos) {
+      if (location.projectId === project.id && !currentIds.has(todoId)) {
+        this.todos.delete(todoId);
+        changed = true;
+      }
+    }
+    for (const todoId of currentIds) {
+      const location = this.todos.get(todoId);
+      if (location?.projectId !== project.id || location.workspaceId !== workspaceId) {
+        this.todos.set(todoId, { workspaceId, projectId: project.id });
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.save();
+    }
+  }
+
+  async removeProject(projectId: string): Promise<void> {
+    await this.ensureLoaded();
+
+    this.projects.delete(projectId);
+    for (const [todoId, location] of this.todos) {
+      if (location.projectId === projectId) {
+        this.todos.delete(todoId);
+      }
+    }
+
+    await this.save();
+  }
+}
@@ -0,0 +1,198 @@
+import { TodoItem, Project, TodoSearchHit, isApplicationArea } from './types.js';
+import { ValidationError } from './validation.js';
+
+/**
+ * Filter expressions for search_todos and /api/search.
+ *
+ *   status:pending,in-progress priority:high area:backend -claimedBy:none
+ *   phase:"Phase 1" created:>=2024-01-01 completed:2024-01-01..2024-01-31 "login page" bug
+ *
+ * Terms are ANDed, comma-separated values are ORed and a leading "-" negates a term.
+ * Bare words and quoted phrases match title, description, notes and completion summary.
+ */
+
+type ValueField = 'status' | 'priority' | 'area' | 'primaryArea' | 'phase' | 'claimedBy' | 'id';
+type DateField = 'created' | 'updated' | 'started' | 'completed';
+
+export type TodoFilter =
+  | { kind: 'value'; field: ValueField; values: string[]; negate: boolean }
+  | { kind: 'date'; field: DateField; from?: Date; before?: Date; negate: boolean }
+  | { kind: 'text'; text: string; negate: boolean };
+
+// Maps, so keys from user input can't match Object.prototype members
+const VALUE_FIELDS = new Map<string, ValueField>([
+  ['status', 'status'],
+  ['priority', 'priority'],
+  ['area', 'area'],
+  ['areas', 'area'],
+  ['primaryarea', 'primaryArea'],
+  ['phase', 'phase'],
+  ['claimedby', 'claimedBy'],
+  ['claimant', 'claimedBy'],
+  ['id', 'id']
+]);
+
+const DATE_FIELDS = new Map<string, DateField>([
+  ['created', 'created'],
+  ['updated', 'updated'],
+  ['started', 'started'],
+  ['completed', 'completed']
+]);
+
+const DATE_VALUES: Record<DateField, (todo: TodoItem) => Date | string | undefined> = {
+  created: todo => todo.createdAt,
+  updated: todo => todo.updatedAt,
+  started: todo => todo.startedAt,
+  completed: todo => todo.completedAt
+};
+
+const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
+const statusOrder = { 'in-progress': 6, blocked: 5, pending: 4, failed: 3, completed: 2, cancelled: 1 };
+
+const updatedTime = (hit: TodoSearchHit): number => new Date(hit.todo.updatedAt).getTime();
+
+const SORT_KEYS = new Map<string, (hit: TodoSearchHit) => number | string>([
+  ['priority', hit => priorityOrder[hit.todo.priority]],
+  ['status', hit => statusOrder[hit.todo.status]],
+  ['created', hit => new Date(hit.todo.createdAt).getTime()],
+  ['updated', updatedTime],
+  ['completed', hit => hit.todo.completedAt ? new Date(hit.todo.completedAt).getTime() : 0],
+  ['title', hit => hit.todo.title.toLowerCase()],
+  ['order', hit => hit.todo.order]
+]);
+
+export const SORT_FIELDS = [...SORT_KEYS.keys()];
+
+export function parseTodoQuery(expression = ''): TodoFilter[] {
+  const filters: TodoFilter[] = [];
+  const termPattern = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"|(\S+))/g;
+
+  for (const match of expression.matchAll(termPattern)) {
+    const [, minus, key, quoted, bare] = match;
+    const negate = minus === '-';
+    const value = quoted ?? bare;
+
+    if (!key) {
+      if (value) filters.push({ kind: 'text', text: value.toLowerCase(), negate });
+      continue;
+    }
+
+    const valueField = VALUE_FIELDS.get(key.toLowerCase());
+    const dateField = DATE_FIELDS.get(key.toLowerCase());
+
+    if (valueField) {
+      const values = (quoted !== undefined ? [quoted] : value.split(',')).map(v => v.trim()).filter(Boolean);
+      if (values.length === 0) {
+        throw new ValidationError(`Missing value for "${key}:"`);
+      }
+      filters.push({ kind: 'value', field: valueField, values, negate });
+    } else if (dateField) {
+      filters.push({ kind: 'date', field: dateField, ...parseDateRange(key, value), negate });
+    } else if (key.toLowerCase() === 'text') {
+      filters.push({ kind: 'text', text: value.toLowerCase(), negate });
+    } else {
+      throw new ValidationError(
+        `Unknown search field "${key}". Use one of: ${[...new Set(VALUE_FIELDS.values()), ...DATE_FIELDS.values(), 'text'].join(', ')}`
+      );
+    }
+  }
+
+  return filters;
+}
+
+// A date-only bound covers the whole (UTC) day, a timestamp bound is exact
+function parseBound(key: string, value: string): { start: Date; end: Date } {
+  const start = new Date(value);
+  if (!value || isNaN(start.getTime())) {
+    throw new ValidationError(`Invalid date "${value}" for "${key}:"`);
+  }
+
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return { start, end: new Date(start.getTime() + (dateOnly ? 24 * 60 * 60 * 1000 : 1)) };
+}
+
+function parseDateRange(key: string, value: string): { from?: Date; before?: Date } {
+  const range = value.match(/^(.*)\.\.(.*)$/);
+  if (range) {
+    return {
+      from: range[1] ? parseBound(key, range[1]).start : undefined,
+      before: range[2] ? parseBound(key, range[2]).end : undefined
+    };
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<)(.*)$/);
+  if (comparison) {
+    const bound = parseBound(key, comparison[2]);
+    switch (comparison[1]) {
+      case '>=': return { from: bound.start };
+      case '>': return { from: bound.end };
+      case '<=': return { before: bound.end };
+      case '<': return { before: bound.start };
+    }
+  }
+
+  const bound = parseBound(key, value);
+  return { from: bound.start, before: bound.end };
+}
+
+function matchesFilter(todo: TodoItem, project: Project, filter: TodoFilter): boolean {
+  switch (filter.kind) {
+    case 'text':
+      return [todo.title, todo.description, todo.notes, todo.completionSummary]
+        .some(text => text?.toLowerCase().includes(filter.text));
+
+    case 'date': {
+      const value = DATE_VALUES[filter.field](todo);
+      if (!value) return false;
+      const time = new Date(value).getTime();
+      return (!filter.from || time >= filter.from.getTime()) && (!filter.before || time < filter.before.getTime());
+    }
+
+    case 'value':
+      return filter.values.some(value => {
+        const lower = value.toLowerCase();
+        switch (filter.field) {
+          case 'status':
+            return todo.status === lower;
+          case 'priority':
+            return todo.priority === lower;
+          case 'area':
+            return isApplicationArea(lower) && (todo.areas.includes(lower) || todo.primaryArea === lower);
+          case 'primaryArea':
+            return todo.primaryArea === lower;
+          case 'id':
+            return todo.id === value;
+          case 'claimedBy':
+            return lower === 'none' ? !todo.claimedBy : todo.claimedBy === value;
+          case 'phase': {
+            if (lower === 'none') return !todo.phaseId;
+            const phase = project.phases.find(p => p.id === todo.phaseId);
+            return !!phase && (phase.id === value || phase.name.toLowerCase() === lower);
+          }
+        }
+      });
+  }
+}
+
+export function matchesTodoQuery(todo: TodoItem, project: Project, filters: TodoFilter[]): boolean {
+  return filters.every(filter => matchesFilter(todo, project, filter) !== filter.negate);
+}
+
+// "field" sorts ascending, "-field" descending; ties fall back to the most recently updated
+export function sortSearchHits(hits: TodoSearchHit[], sort = '-priority'): TodoSearchHit[] {
+  const descending = sort.startsWith('-');
+  const field = descending ? sort.slice(1) : sort;
+  const key = SORT_KEYS.get(field);
+  if (!key) {
+    throw new ValidationError(`Invalid sort field "${field}". Must be one of: ${SORT_FIELDS.join(', ')}`);
+  }
+
+  return [...hits].sort((a, b) => {
+    const aKey = key(a);
+    const bKey = key(b);
+    if (aKey !== bKey) {
+      return (aKey < bKey ? -1 : 1) * (descending ? -1 : 1);
+    }
+    return updatedTime(b) - updatedTime(a);
+  });
+}
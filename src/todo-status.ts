@@ -0,0 +1,59 @@
+import { TodoItem, TodoStatus, DependentsPolicy, TODO_STATUSES } from './types.js';
+import { ValidationError } from './validation.js';
+
+/**
+ * Status rules shared by storage and the dependency graph.
+ *
+ * Completed, failed and cancelled todos are closed: no work is left on them. Whether
+ * a closed todo still holds up its dependents depends on how it was closed - a
+ * failed todo blocks them unless it was failed with the "unblock" policy.
+ */
+
+const REASON_REQUIRED: TodoStatus[] = ['blocked', 'failed', 'cancelled'];
+
+const DEPENDENTS_POLICIES: Partial<Record<TodoStatus, DependentsPolicy[]>> = {
+  failed: ['block', 'unblock'],
+  cancelled: ['unblock', 'cascade']
+};
+
+export function isClosed(todo: Pick<TodoItem, 'status'>): boolean {
+  return todo.status === 'completed' || todo.status === 'failed' || todo.status === 'cancelled';
+}
+
+// Whether todos depending on this one may start
+export function satisfiesDependents(todo: TodoItem): boolean {
+  return todo.status === 'completed' ||
+    todo.status === 'cancelled' ||
+    (todo.status === 'failed' && todo.failureBlocksDependents === false);
+}
+
+export function requiresReason(status: TodoStatus): boolean {
+  return REASON_REQUIRED.includes(status);
+}
+
+// Checks the reason and dependents policy given for a status change and fills in the
+// policy's default
+export function validateStatusChange(
+  status: TodoStatus,
+  reason?: string,
+  dependentsPolicy?: DependentsPolicy
+): DependentsPolicy | undefined {
+  if (!TODO_STATUSES.includes(status)) {
+    throw new ValidationError(`Invalid status. Must be one of: ${TODO_STATUSES.join(', ')}`);
+  }
+  if (requiresReason(status) && !reason?.trim()) {
+    throw new ValidationError(`A reason is required when marking a todo as ${status}`);
+  }
+
+  const policies = DEPENDENTS_POLICIES[status];
+  if (!policies) {
+    if (dependentsPolicy) {
+      throw new ValidationError(`A dependents policy only applies to failed and cancelled todos`);
+    }
+    return undefined;
+  }
+  if (dependentsPolicy && !policies.includes(dependentsPolicy)) {
+    throw new ValidationError(`Invalid dependents policy for ${status} todos. Must be one of: ${policies.join(', ')}`);
+  }
+  return dependentsPolicy || policies[0];
+}
@@ -28,8 +28,8 @@ export interface ChangeEvent {
   
   // Change details
   action: ActionType;      // create, update, delete, reorder
-  oldValue?: any;          // Previous state (for updates/deletes)
-  newValue?: any;          // New state (for creates/updates)
+  oldValue?: unknown;      // Previous state (for updates/deletes)
+  newValue?: unknown;      // New state (for creates/updates)
   changes: FieldChange[];  // Specific field changes
   
   // Context
@@ -49,15 +49,18 @@ export type ChangeType =
   | 'lock.acquired' | 'lock.released'          // Future
   | 'worker.registered' | 'worker.heartbeat' | 'worker.deregistered'
   | 'workspace.worker.registered' | 'workspace.worker.deregistered'
-  | 'workspace.project.created' | 'workspace.project.deleted';
+  | 'workspace.project.created' | 'workspace.project.deleted'
+  | 'workspace.token.issued' | 'workspace.token.revoked'
+  | 'workspace.webhook.created' | 'workspace.webhook.deleted'
+  | 'workspace.config.updated' | 'workspace.storage.updated';
 
-export type EntityType = 'project' | 'todo' | 'phase' | 'document' | 'workspace' | 'worker';
+export type EntityType = 'project' | 'todo' | 'phase' | 'document' | 'workspace' | 'worker' | 'token' | 'webhook';
 export type ActionType = 'create' | 'update' | 'delete' | 'reorder' | 'lock' | 'unlock' | 'register' | 'heartbeat';
 
 export interface FieldChange {
   field: string;
-  oldValue?: any;
-  newValue?: any;
+  oldValue?: unknown;
+  newValue?: unknown;
   type: 'added' | 'modified' | 'removed';
 }
 
@@ -196,6 +199,10 @@ export interface RegisterWorkerRequest {
   capabilities?: string[];
   purpose?: string;
   metadata?: Record<string, any>;
+  token?: string;  // API token; required once the workspace has issued tokens
+  identity?: string;     // Stable name; registering with it again resumes the same worker
+  resumeToken?: string;  // Returned by an earlier registration; resumes that worker
+  force?: boolean;       // Resume the worker even while its previous session still sends heartbeats
 }
 
 export interface ListWorkersRequest {
@@ -262,6 +269,7 @@ export interface TrackingConfig {
   enableConflictDetection: boolean; // Default: true
   workerTimeoutMs: number;       // Default: 5 minutes
   heartbeatIntervalMs: number;   // Default: 60 seconds
+  orphanedTodoGracePeriodMs: number; // Default: 5 minutes past the worker timeout
 }
 
 export interface AuditPermissions {
@@ -271,7 +279,41 @@ export interface AuditPermissions {
   canRollbackAllChanges: boolean; // Default: false (admin only)
   canDeleteAuditLogs: boolean;    // Default: false (admin only)
   canCreateCheckpoints: boolean;  // Default: true
-  canManageWorkers: boolean;      // Default: false (admin only)
+  canManageWorkers: boolean;      // Default: false (admin only), includes issuing API tokens
+  canEditTodos: boolean;          // Default: true; create and change projects, todos, phases, documents
+  canDeleteTodos: boolean;        // Default: false (admin only); delete projects, todos, phases, documents
+}
+
+export type WorkerRole = 'viewer' | 'worker' | 'admin';
+
+// Outbound delivery of change events to HTTP endpoints
+export interface WebhookSubscription {
+  id: string;
+  workspaceId: string;
+  url: string;
+  secret: string;                 // HMAC-SHA256 key for the X-Todos-Signature header
+  eventTypes: string[];           // ChangeTypes, "todo.*" style prefixes or "*"
+  projectIds: string[];           // Empty for every project; workspace events only match when empty
+  createdAt: Date;
+  createdBy: string;
+}
+
+export interface CreateWebhookRequest {
+  workspaceId: string;
+  url: string;
+  eventTypes?: string[];          // Default: every event
+  projectIds?: string[];
+  secret?: string;                // Generated when omitted
+}
+
+export interface WebhookDeadLetter {
+  deliveryId: string;
+  subscriptionId: string;
+  url: string;
+  event: ChangeEvent;
+  attempts: number;
+  lastError: string;
+  failedAt: Date;
 }
 
 // Error types
@@ -294,8 +336,54 @@ export class WorkerNotFoundError extends TrackingError {
   }
 }
 
+export class ClaimOwnershipError extends TrackingError {
+  constructor(todoId: string, claimedBy: string, workerId: string) {
+    super(
+      `Todo ${todoId} is claimed by worker ${claimedBy}; use force to override`,
+      'CLAIM_OWNERSHIP',
+      { todoId, claimedBy, workerId }
+    );
+  }
+}
+
+export class WorkerIdentityInUseError extends TrackingError {
+  constructor(workerId: string) {
+    super(
+      `Worker ${workerId} is still active with a fresh heartbeat; register with force to take it over`,
+      'WORKER_IDENTITY_IN_USE',
+      { workerId }
+    );
+  }
+}
+
+export class LockTimeoutError extends TrackingError {
+  constructor(resource: string, holder?: { workerId: string; acquiredAt: string }) {
+    super(
+      `Timed out waiting for lock on ${resource}${holder ? ` held by worker ${holder.workerId} since ${holder.acquiredAt}` : ''}`,
+      'LOCK_TIMEOUT',
+      { resource, holder }
+    );
+  }
+}
+
 export class AuditLogCorruptError extends TrackingError {
   constructor(workspaceId: string, reason: string) {
     super(`Audit log corrupted for workspace ${workspaceId}: ${reason}`, 'AUDIT_LOG_CORRUPT', { workspaceId, reason });
   }
+}
+
+export class AuthenticationError extends TrackingError {
+  constructor(message: string) {
+    super(message, 'AUTHENTICATION_FAILED');
+  }
+}
+
+export class PermissionDeniedError extends TrackingError {
+  constructor(workerId: string, role: WorkerRole, permission: string) {
+    super(
+      `Worker ${workerId} (role ${role}) lacks permission ${permission}`,
+      'PERMISSION_DENIED',
+      { workerId, role, permission }
+    );
+  }
 }
\ No newline at end of file
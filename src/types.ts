@@ -138,12 +138,25 @@ export const APPLICATION_AREAS: Record<ApplicationArea, AreaConfig> = {
 // Helper functions for areas
 export const getAreaConfig = (area: ApplicationArea): AreaConfig => APPLICATION_AREAS[area];
 export const getAllAreas = (): ApplicationArea[] => Object.keys(APPLICATION_AREAS) as ApplicationArea[];
+export const isApplicationArea = (value: unknown): value is ApplicationArea =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(APPLICATION_AREAS, value);
+
+// Todo lifecycle. Blocked, failed and cancelled todos always carry a statusReason.
+export type TodoStatus = 'pending' | 'in-progress' | 'completed' | 'blocked' | 'failed' | 'cancelled';
+
+export const TODO_STATUSES: TodoStatus[] = ['pending', 'in-progress', 'completed', 'blocked', 'failed', 'cancelled'];
+
+// What happens to the dependents of a failed or cancelled todo: "block" keeps them
+// waiting, "unblock" lets them start anyway and "cascade" cancels them too
+export type DependentsPolicy = 'block' | 'unblock' | 'cascade';
 
 export interface TodoItem {
   id: string;
   title: string;
   description?: string;
-  status: 'pending' | 'in-progress' | 'completed';
+  status: TodoStatus;
+  statusReason?: string;           // External blocker, failure reason or why the todo was cancelled
+  failureBlocksDependents?: boolean; // Whether dependents of a failed todo keep waiting for it
   phaseId?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -163,6 +176,16 @@ export interface TodoItem {
   completionSummary?: string;      // Summary of changes when completed
   completedAt?: Date;              // When the todo was completed
   startedAt?: Date;                // When the todo was moved to in-progress
+  // Ownership fields
+  claimedBy?: string;              // Worker ID that claimed this todo
+  claimedAt?: Date;                // When the todo was claimed
+  // Recurrence
+  recurrence?: string;             // Cron-like rule; the next instance is created once this one is completed
+  recurrenceOf?: string;           // Previous instance of a recurring todo
+  // Hierarchy
+  parentId?: string;               // Parent todo in the same project; parents roll up status and durations
+  // Concurrency control
+  version: number;                 // Incremented whenever the todo itself changes
 }
 
 export interface Phase {
@@ -194,6 +217,7 @@ export interface Project {
   documents: Document[];
   createdAt: Date;
   updatedAt: Date;
+  version: number;  // Incremented on every write of the project file
 }
 
 export interface Workspace {
@@ -226,6 +250,8 @@ export interface CreateTodoRequest {
   areas: ApplicationArea[];        // Required: areas this todo affects
   primaryArea?: ApplicationArea;   // Optional: will default to first area if not specified
   notes?: string;                  // Optional notes/context for the todo
+  recurrence?: string;             // Optional cron-like rule, see recurrence.ts
+  parentId?: string;               // Optional parent todo, making this a subtask
 }
 
 export interface UpdateTodoRequest {
@@ -240,6 +266,22 @@ export interface UpdateTodoRequest {
   priority?: 'low' | 'medium' | 'high' | 'critical';
   notes?: string;
   completionSummary?: string;  // Required when status changes to 'completed'
+  recurrence?: string;         // Empty string stops the recurrence
+  parentId?: string;           // Empty string moves the todo to the top level
+}
+
+export interface VersionCheckOptions {
+  expectedVersion?: number;  // Reject the write if the stored todo version differs
+}
+
+export interface ClaimOptions extends VersionCheckOptions {
+  workerId?: string;  // Acting worker (defaults to the registered worker)
+  force?: boolean;    // Override a claim held by another worker
+}
+
+export interface StatusChangeOptions extends ClaimOptions {
+  reason?: string;                      // Required for blocked, failed and cancelled
+  dependentsPolicy?: DependentsPolicy;  // Failed: block (default) or unblock; cancelled: unblock (default) or cascade
 }
 
 export interface CreatePhaseRequest {
@@ -248,6 +290,25 @@ export interface CreatePhaseRequest {
   projectId: string;
 }
 
+export interface UpdatePhaseRequest {
+  projectId: string;
+  phaseId: string;
+  name?: string;
+  description?: string;
+}
+
+export interface DeletePhaseRequest {
+  projectId: string;
+  phaseId: string;
+  moveTodosToPhaseId?: string;  // Todos in the deleted phase move here; unassigned when omitted
+}
+
+export interface MoveTodosToPhaseRequest {
+  projectId: string;
+  todoIds: string[];
+  phaseId?: string;  // Omit to remove the todos from any phase
+}
+
 export interface AttachDocumentRequest {
   projectId: string;
   type: 'link' | 'file' | 'confluence';
@@ -274,6 +335,132 @@ export interface RemoveDependencyRequest {
   dependsOnId: string;
 }
 
+// Batch planning - temporary IDs let a whole plan reference its own todos before they exist
+export interface PlanTodoInput extends Omit<CreateTodoRequest, 'projectId'> {
+  tempId: string;         // Client-side ID, unique within the plan
+  dependsOn?: string[];   // Temp IDs from this plan or existing todo IDs
+  parentId?: string;      // Temp ID from this plan or existing todo ID
+}
+
+export interface PlanDependencyInput {
+  todoId: string;       // Temp ID or existing todo ID
+  dependsOnId: string;  // Temp ID or existing todo ID
+}
+
+export interface CreatePlanRequest {
+  projectId: string;
+  todos: PlanTodoInput[];
+  dependencies?: PlanDependencyInput[];  // Extra edges, e.g. existing todos depending on new ones
+}
+
+export interface CreatePlanResult {
+  batchId: string;                  // Shared relatedChanges ID of every logged event
+  idMap: Record<string, string>;    // tempId -> created todo ID
+  createdTodos: TodoItem[];
+  updatedTodos: TodoItem[];         // Existing todos that gained dependencies
+}
+
+// Templates - reusable checklists stored in ~/.claude-todos-mcp/templates, with
+// {{placeholder}} substitution in names, titles, descriptions and notes
+export interface TemplatePlaceholder {
+  name: string;
+  description?: string;
+  default?: string;       // Placeholders without a default must be given a value
+}
+
+export interface TemplatePhase {
+  name: string;
+  description?: string;
+}
+
+export interface TemplateTodo extends Omit<PlanTodoInput, 'phaseId'> {
+  phase?: string;         // Name of a phase of the template or the target project
+}
+
+export interface TodoTemplate {
+  name: string;           // Unique; letters, digits, "-" and "_"
+  description?: string;
+  placeholders: TemplatePlaceholder[];
+  project?: {             // Set for templates that can create a whole project
+    name: string;
+    description?: string;
+  };
+  phases: TemplatePhase[];
+  todos: TemplateTodo[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SaveTemplateRequest extends Omit<TodoTemplate, 'createdAt' | 'updatedAt' | 'placeholders' | 'phases'> {
+  placeholders?: TemplatePlaceholder[];
+  phases?: TemplatePhase[];
+}
+
+export interface InstantiateTemplateRequest {
+  template: string;
+  values?: Record<string, string>;  // Placeholder name -> value
+  projectId?: string;               // Add to this project instead of creating one
+  workspacePath?: string;           // Where to create the project (project templates)
+}
+
+export interface InstantiateTemplateResult {
+  project: Project;
+  createdPhases: Phase[];
+  plan: CreatePlanResult;
+}
+
+export type ProjectExportFormat = 'markdown' | 'json' | 'csv';
+
+export interface ImportProjectRequest {
+  workspacePath: string;
+  format: ProjectExportFormat;
+  content: string;
+  name?: string;                    // Required for CSV, which carries no project name
+}
+
+export interface ImportProjectResult {
+  project: Project;
+  batchId: string;                  // Shared relatedChanges ID of every logged event
+  idMap: Record<string, string>;    // Exported todo reference (ID, or title for Markdown) -> new todo ID
+  warnings: string[];               // Dropped references and other lossy conversions
+}
+
+export interface SearchTodosRequest {
+  query?: string;       // Filter expression, see todo-search.ts
+  workspaceId?: string; // Omit to search every workspace
+  projectId?: string;
+  sort?: string;        // Sort field, "-" prefix for descending (default: -priority)
+  limit?: number;       // Default: 20
+  offset?: number;
+}
+
+export interface TodoSearchHit {
+  todo: TodoItem;
+  projectId: string;
+  projectName: string;
+  workspaceId: string;
+}
+
+export interface SearchTodosResult {
+  hits: TodoSearchHit[];
+  total: number;        // Matches before pagination
+  offset: number;
+  limit: number;
+}
+
+export interface FindRelatedWorkRequest {
+  query: string;
+  workspaceId?: string; // Omit to search every workspace
+  projectId?: string;
+  includeOpen?: boolean; // Also rank pending and in-progress todos
+  limit?: number;       // Default: 10
+}
+
+export interface RelatedWorkHit extends TodoSearchHit {
+  score: number;
+  matchedTerms: string[];   // Stemmed query terms found in the todo
+}
+
 export interface DependencyGraphNode {
   todo: TodoItem;
   dependencies: TodoItem[];
@@ -281,6 +468,11 @@ export interface DependencyGraphNode {
   isBlocked: boolean;
   canStart: boolean;
   depth: number;
+  // Schedule fields, in minutes of remaining work from now
+  remainingDuration: number;
+  earliestStart: number;
+  latestStart: number;
+  slack: number;                   // 0 on the critical path
 }
 
 export interface DependencyGraphResult {
@@ -289,10 +481,80 @@ export interface DependencyGraphResult {
   blocked: TodoItem[];
   cycles: string[][];
   criticalPath: TodoItem[];
+  criticalPathDuration: number;    // Remaining minutes along the critical path
+}
+
+export interface TodoSchedule {
+  remainingDuration: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  slack: number;
+}
+
+export interface ScheduleForecastOptions {
+  workers?: number;        // Parallel workers (defaults to active workers in the workspace)
+  hoursPerDay?: number;    // Working hours per calendar day (defaults to 8)
+}
+
+export interface ScheduleForecast {
+  projectId: string;
+  remainingTodos: number;
+  unestimatedTodos: number;          // Remaining todos without an estimatedDuration
+  assumedMinutesPerUnestimatedTodo: number;  // Average estimate, or actual duration, of the project's todos
+  remainingMinutes: number;          // Sum of remaining estimates, assumed ones included
+  criticalPathMinutes: number;
+  criticalPath: TodoItem[];
+  workers: number;
+  estimateAccuracyRatio: number;     // Historical actual / estimated duration (1 without history)
+  historicalSampleSize: number;
+  forecastMinutes: number;           // Adjusted working minutes until completion
+  projectedCompletion: Date;
+}
+
+export type AllocationStrategyName = 'round-robin' | 'critical-path-first' | 'load-balanced' | 'area-affinity';
+
+export interface AllocationWorker {
+  id: string;
+  capabilities: string[];          // Matched against todo areas by area-affinity
+  maxConcurrentTodos?: number;     // Includes todos the worker already has in progress (default 3)
+}
+
+export interface AllocationDecision {
+  todoId: string;
+  workerId: string;
+  reason: string;                  // Why this worker got this todo
 }
 
 export interface WorkAllocationResult {
+  strategy: AllocationStrategyName;
   assignedTodos: { workerId: string; todos: TodoItem[] }[];
+  decisions: AllocationDecision[];
   unassignedTodos: TodoItem[];
   conflicts: { todoId: string; reason: string }[];
+}
+// A todo released because the worker holding it stopped sending heartbeats
+export interface ReclaimedTodo {
+  todo: TodoItem;
+  oldTodo: TodoItem;
+  projectId: string;
+  workspaceId: string;
+  workerId: string;  // Worker whose claim was released
+}
+
+// A parent todo whose status or durations changed because its subtasks did
+export interface RolledUpTodo {
+  todo: TodoItem;
+  oldTodo: TodoItem;
+  projectId: string;
+  workspaceId: string;
+}
+
+// The next instance of a recurring todo, created when the rule's next time after the
+// previous instance's completion has come
+export interface RecurringTodoInstance {
+  todo: TodoItem;
+  previous: TodoItem;
+  projectId: string;
+  workspaceId: string;
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { ApplicationArea, APPLICATION_AREAS, AllocationWorker, isApplicationArea } from './types.js';
+
 export class ValidationError extends Error {
   constructor(message: string) {
     super(message);
@@ -33,7 +35,7 @@ export function validateTodoTitle(title: string): void {
 }
 
 export function validateTodoStatus(status: string): void {
-  const validStatuses = ['pending', 'in-progress', 'completed'];
+  const validStatuses = ['pending', 'in-progress', 'completed', 'blocked', 'failed', 'cancelled'];
   if (!validStatuses.includes(status)) {
     throw new ValidationError(`Invalid todo status. Must be one of: ${validStatuses.join(', ')}`);
   }
@@ -87,4 +89,49 @@ export function validateUUID(id: string): void {
   if (!uuidRegex.test(id)) {
     throw new ValidationError('Invalid UUID format');
   }
-}
\ No newline at end of file
+}
+
+// Areas of a todo from tool or REST input; the primary area defaults to the first one
+export function parseAreas(areas: unknown, primaryArea?: unknown): { areas: ApplicationArea[]; primaryArea: ApplicationArea } {
+  const validAreas = Object.keys(APPLICATION_AREAS).join(', ');
+  
+  if (!Array.isArray(areas) || areas.length === 0) {
+    throw new ValidationError('At least one area is required');
+  }
+  const unknownArea = areas.find(area => !isApplicationArea(area));
+  if (unknownArea !== undefined) {
+    throw new ValidationError(`Invalid area "${unknownArea}". Must be one of: ${validAreas}`);
+  }
+  if (primaryArea !== undefined && !isApplicationArea(primaryArea)) {
+    throw new ValidationError(`Invalid primary area "${primaryArea}". Must be one of: ${validAreas}`);
+  }
+  
+  return { areas, primaryArea: primaryArea ?? areas[0] };
+}
+
+// Worker definitions passed to allocate_work
+export function parseAllocationWorkers(workers: unknown): AllocationWorker[] | undefined {
+  if (workers === undefined) return undefined;
+  if (!Array.isArray(workers)) {
+    throw new ValidationError('Workers must be an array');
+  }
+  
+  return workers.map((worker: unknown, index) => {
+    if (typeof worker !== 'object' || worker === null) {
+      throw new ValidationError(`Worker ${index} must be an object`);
+    }
+    const { id, capabilities = [], maxConcurrentTodos } = worker as Record<string, unknown>;
+    
+    if (typeof id !== 'string' || id.trim().length === 0) {
+      throw new ValidationError(`Worker ${index} needs an id`);
+    }
+    if (!Array.isArray(capabilities) || !capabilities.every(c => typeof c === 'string')) {
+      throw new ValidationError(`Capabilities of worker ${id} must be an array of strings`);
+    }
+    if (maxConcurrentTodos !== undefined && (!Number.isInteger(maxConcurrentTodos) || (maxConcurrentTodos as number) < 1)) {
+      throw new ValidationError(`maxConcurrentTodos of worker ${id} must be a positive integer`);
+    }
+    
+    return { id, capabilities, ...(maxConcurrentTodos !== undefined && { maxConcurrentTodos: maxConcurrentTodos as number }) };
+  });
+}
@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataRoot } from '../paths.js';
+import { ChangeEvent } from '../tracking-types.js';
+import { StorageAdapter } from '../storage-adapter.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('change-log-watcher');
+
+export interface ChangeLogBatch {
+  workspaceId: string;
+  projectId: string | null;     // null for the workspace audit log
+  events: ChangeEvent[];        // Oldest first
+}
+
+export interface ChangeLogWatcherOptions {
+  debounceMs: number;           // Changes to one audit log within this window are read once
+  localEventTtlMs: number;      // How long to remember events this process logged
+  pollIntervalMs: number;       // How often backends without audit log files are asked for new events
+}
+
+const AUDIT_LOG_FILE = 'audit-log.json';
+
+/**
+ * Follows the audit logs of every workspace and reports events that other processes
+ * appended, e.g. an MCP server changing todos on behalf of Claude.
+ *
+ * The data directory is watched rather than the logs themselves: change loggers
+ * replace the logs by renaming a temp file over them, which would end a watch on
+ * the file. Events this process logged itself are passed to ignore() and skipped.
+ * Workspaces keeping their project audit logs in the repository (see repo-store.ts)
+ * are added with watchAuditDir(). Storage backends that keep audit logs in a database
+ * (see storage-adapter.ts) are polled for events past the last ones seen instead.
+ */
+export class ChangeLogWatcher {
+  private dataDir = path.join(getDataRoot(), 'data');
+  private options: ChangeLogWatcherOptions;
+  private watcher: fs.FSWatcher | null = null;
+  private auditDirs = new Map<string, { workspaceId: string; watcher: fs.FSWatcher }>();
+
+  // Audit log path -> IDs of the events it held when last read
+  private knownEvents = new Map<string, Set<string>>();
+  private pendingReads = new Map<string, NodeJS.Timeout>();
+  private localEvents = new Map<string, number>(); // event ID -> when it was logged
+
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polled: { adapter: StorageAdapter; cursor: number } | null = null;
+
+  constructor(
+    private onChanges: (batch: ChangeLogBatch) => Promise<void>,
+    options: Partial<ChangeLogWatcherOptions> = {},
+    // The adapter may be swapped by migrate_storage, so it is looked up on every poll
+    private getAdapter: () => StorageAdapter | null = () => null
+  ) {
+    this.options = {
+      debounceMs: 250,
+      localEventTtlMs: 60 * 1000,
+      pollIntervalMs: 1000,
+      ...options
+    };
+  }
+
+  async start(): Promise<void> {
+    await fs.promises.mkdir(this.dataDir, { recursive: true });
+
+    await this.rememberEvents(await this.findAuditLogs());
+
+    this.watcher = fs.watch(this.dataDir, { recursive: true }, (_eventType, filename) => {
+      if (filename && path.basename(filename.toString()) === AUDIT_LOG_FILE) {
+        this.scheduleRead(path.join(this.dataDir, filename.toString()));
+      }
+    });
+    this.watcher.on('error', error => log.error('Change log watcher failed', { dataDir: this.dataDir, error }));
+
+    await this.poll();
+    this.schedulePoll();
+  }
+
+  // Follows .todos/audit/<projectId>/audit-log.json of a workspace in repo mode
+  async watchAuditDir(workspaceId: string, auditDir: string): Promise<void> {
+    if (this.auditDirs.has(auditDir)) return;
+    await fs.promises.mkdir(auditDir, { recursive: true });
+
+    const projects = await fs.promises.readdir(auditDir);
+    await this.rememberEvents(projects.map(project => path.join(auditDir, project, AUDIT_LOG_FILE)));
+
+    const watcher = fs.watch(auditDir, { recursive: true }, (_eventType, filename) => {
+      if (filename && path.basename(filename.toString()) === AUDIT_LOG_FILE) {
+        this.scheduleRead(path.join(auditDir, filename.toString()));
+      }
+    });
+    watcher.on('error', error => log.error('Change log watcher failed', { auditDir, error }));
+    this.auditDirs.set(auditDir, { workspaceId, watcher });
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = null;
+    for (const { watcher } of this.auditDirs.values()) {
+      watcher.close();
+    }
+    this.auditDirs.clear();
+    for (const timer of this.pendingReads.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingReads.clear();
+  }
+
+  // Marks an event as logged by this process, which already broadcast it
+  ignore(event: ChangeEvent): void {
+    this.localEvents.set(event.id, Date.now());
+  }
+
+  // One poll at a time, so no batch is reported twice
+  private schedulePoll(): void {
+    this.pollTimer = setTimeout(() => {
+      this.poll()
+        .catch(error => log.error('Failed to read new audit events', { error }))
+        .finally(() => {
+          if (this.pollTimer) this.schedulePoll();
+        });
+    }, this.options.pollIntervalMs);
+  }
+
+  private async poll(): Promise<void> {
+    const adapter = this.getAdapter();
+    if (!adapter?.readAuditEventsSince) {
+      this.polled = null;
+      return;
+    }
+
+    // Events already stored are history, as with rememberEvents()
+    if (this.polled?.adapter !== adapter) {
+      this.polled = { adapter, cursor: (await adapter.readAuditEventsSince(null)).cursor };
+      return;
+    }
+
+    const { cursor, batches } = await adapter.readAuditEventsSince(this.polled.cursor);
+    this.polled.cursor = cursor;
+
+    for (const { key, events } of batches) {
+      const parsed = events.map(e => ({ ...e, timestamp: new Date(e.timestamp) }));
+      const external = parsed.filter(e => !this.localEvents.has(e.id));
+      this.forgetLocalEvents(parsed);
+      if (external.length > 0) {
+        await this.onChanges({ ...key, events: external });
+      }
+    }
+  }
+
+  // Events already on disk are history, not changes
+  private async rememberEvents(logPaths: string[]): Promise<void> {
+    for (const logPath of logPaths) {
+      const events = await this.readEvents(logPath).catch(() => null);
+      if (events) {
+        this.knownEvents.set(logPath, new Set(events.map(e => e.id)));
+      }
+    }
+  }
+
+  private async findAuditLogs(): Promise<string[]> {
+    const logs: string[] = [];
+
+    for (const workspace of await fs.promises.readdir(this.dataDir, { withFileTypes: true })) {
+      if (!workspace.isDirectory()) continue;
+
+      const workspaceDir = path.join(this.dataDir, workspace.name);
+      logs.push(path.join(workspaceDir, AUDIT_LOG_FILE));
+
+      try {
+        for (const project of await fs.promises.readdir(path.join(workspaceDir, 'projects'))) {
+          logs.push(path.join(workspaceDir, 'projects', project, AUDIT_LOG_FILE));
+        }
+      } catch {
+        // Workspace without projects
+      }
+    }
+
+    return logs;
+  }
+
+  // Every save fires several watch events, and agents often log a few changes in a
+  // row; a fixed window rather than a sliding one keeps busy logs from starving
+  private scheduleRead(logPath: string): void {
+    if (this.pendingReads.has(logPath)) return;
+
+    this.pendingReads.set(logPath, setTimeout(() => {
+      this.pendingReads.delete(logPath);
+      this.readNewEvents(logPath).catch(error => log.error(`Failed to read ${logPath}`, { error }));
+    }, this.options.debounceMs));
+  }
+
+  // Returns null when the log doesn't exist (any more)
+  private async readEvents(logPath: string): Promise<ChangeEvent[] | null> {
+    try {
+      const { events } = JSON.parse(await fs.promises.readFile(logPath, 'utf-8'));
+      return events.map((e: any) => ({ ...e, timestamp: new Date(e.timestamp) }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async readNewEvents(logPath: string): Promise<void> {
+    const events = await this.readEvents(logPath);
+    if (!events) {
+      // Removed along with its project
+      this.knownEvents.delete(logPath);
+      return;
+    }
+
+    // Logs created after start() are new, so all their events are too
+    const known = this.knownEvents.get(logPath) || new Set<string>();
+    this.knownEvents.set(logPath, new Set(events.map(e => e.id)));
+
+    const external = events.filter(e => !known.has(e.id) && !this.localEvents.has(e.id));
+    this.forgetLocalEvents(events);
+    if (external.length === 0) return;
+
+    await this.onChanges({ ...this.locate(logPath), events: external });
+  }
+
+  private locate(logPath: string): { workspaceId: string; projectId: string | null } {
+    const projectDir = path.dirname(logPath);
+    const auditDir = this.auditDirs.get(path.dirname(projectDir));
+    if (auditDir) {
+      return { workspaceId: auditDir.workspaceId, projectId: path.basename(projectDir) };
+    }
+
+    const relative = path.relative(this.dataDir, projectDir).split(path.sep);
+    return {
+      workspaceId: relative[0],
+      projectId: relative[1] === 'projects' ? relative[2] : null
+    };
+  }
+
+  private forgetLocalEvents(seen: ChangeEvent[]): void {
+    for (const event of seen) {
+      this.localEvents.delete(event.id);
+    }
+
+    // Events logged while tracking was disabled never show up in a log
+    const cutoff = Date.now() - this.options.localEventTtlMs;
+    for (const [id, loggedAt] of this.localEvents) {
+      if (loggedAt < cutoff) this.localEvents.delete(id);
+    }
+  }
+}
@@ -133,7 +133,7 @@ interface TodoItem {
   id: string;
   title: string;
   description?: string;
-  status: 'pending' | 'in-progress' | 'completed';
+  status: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'failed' | 'cancelled';
   phaseId?: string;
   createdAt: Date;
   updatedAt: Date;
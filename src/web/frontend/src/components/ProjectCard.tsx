@@ -23,7 +23,7 @@ interface TodoItem {
   id: string;
   title: string;
   description?: string;
-  status: 'pending' | 'in-progress' | 'completed';
+  status: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'failed' | 'cancelled';
   phaseId?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -504,6 +504,11 @@ export function ProjectCard({ project, onCreateTodo, onUpdateTodo }: ProjectCard
         return 'border-green-400 bg-green-50 text-green-800';
       case 'in-progress':
         return 'border-orange-400 bg-orange-50 text-orange-800';
+      case 'blocked':
+      case 'failed':
+        return 'border-red-400 bg-red-50 text-red-800';
+      case 'cancelled':
+        return 'border-gray-300 bg-gray-50 text-gray-500';
       default:
         return 'border-gray-300 bg-white text-gray-900';
     }
@@ -537,7 +542,10 @@ export function ProjectCard({ project, onCreateTodo, onUpdateTodo }: ProjectCard
     const nextStatus = {
       'pending': 'in-progress',
       'in-progress': 'completed',
-      'completed': 'pending'
+      'completed': 'pending',
+      'blocked': 'pending',
+      'failed': 'pending',
+      'cancelled': 'pending'
     }[todo.status] || 'pending';
 
     onUpdateTodo(todo.id, { status: nextStatus });
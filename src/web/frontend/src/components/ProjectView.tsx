@@ -1,6 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Plus, Settings, Eye, List, Network, CheckCircle, Clock, AlertCircle, Link, Filter } from 'lucide-react';
+import { ArrowLeft, Plus, Settings, Eye, List, Network, CheckCircle, Clock, AlertCircle, Link, Filter, ChevronRight, ChevronDown, Ban, XCircle, CircleSlash } from 'lucide-react';
 
 // Area configuration for visual consistency
 const AREA_COLORS: Record<string, { color: string; bgColor: string; icon: string }> = {
@@ -23,7 +23,8 @@ interface TodoItem {
   id: string;
   title: string;
   description?: string;
-  status: 'pending' | 'in-progress' | 'completed';
+  status: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'failed' | 'cancelled';
+  statusReason?: string;
   phaseId?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -39,6 +40,7 @@ interface TodoItem {
   notes?: string;
   completionSummary?: string;
   completedAt?: Date;
+  parentId?: string;
 }
 
 interface Phase {
@@ -100,6 +102,29 @@ interface ProjectViewProps {
   onUpdateTodo: (id: string, updates: any) => void;
 }
 
+// Blocked, failed and cancelled todos carry a reason; failing and cancelling also
+// decide what happens to the todos depending on them (the first policy is the default)
+type StoppedStatus = 'blocked' | 'failed' | 'cancelled';
+const STOPPED_STATUSES: StoppedStatus[] = ['blocked', 'failed', 'cancelled'];
+
+const STOP_ACTIONS: Record<StoppedStatus, { label: string; policies: { value: string; label: string }[] }> = {
+  blocked: { label: 'Block', policies: [] },
+  failed: {
+    label: 'Fail',
+    policies: [
+      { value: 'block', label: 'Dependent todos keep waiting' },
+      { value: 'unblock', label: 'Dependent todos may start anyway' }
+    ]
+  },
+  cancelled: {
+    label: 'Cancel',
+    policies: [
+      { value: 'unblock', label: 'Dependent todos may start without it' },
+      { value: 'cascade', label: 'Cancel dependent todos as well' }
+    ]
+  }
+};
+
 // Utility functions for time formatting
 const formatDuration = (minutes: number): string => {
   if (minutes < 60) {
@@ -150,12 +175,20 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
     todoTitle: string;
   } | null>(null);
   const [completionSummary, setCompletionSummary] = useState('');
+  const [stopModal, setStopModal] = useState<{
+    todoId: string;
+    todoTitle: string;
+    status: StoppedStatus;
+  } | null>(null);
+  const [stopReason, setStopReason] = useState('');
+  const [dependentsPolicy, setDependentsPolicy] = useState<string>('');
   const [editingNotes, setEditingNotes] = useState<string | null>(null);
   const [editingCompletion, setEditingCompletion] = useState<string | null>(null);
   const [editNotesValue, setEditNotesValue] = useState('');
   const [editCompletionValue, setEditCompletionValue] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedStatuses, setSelectedStatuses] = useState<string[]>([]);
+  const [collapsedTodos, setCollapsedTodos] = useState<Set<string>>(new Set());
 
   const project = projects.find(p => p.id === projectId);
 
@@ -428,6 +461,12 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
         return 'border-green-500 bg-green-50 text-green-900';
       case 'in-progress':
         return 'border-orange-500 bg-orange-50 text-orange-900';
+      case 'blocked':
+        return 'border-red-400 bg-red-50 text-red-900';
+      case 'failed':
+        return 'border-red-600 bg-red-50 text-red-900';
+      case 'cancelled':
+        return 'border-gray-300 bg-gray-50 text-gray-500';
       default:
         return 'border-gray-300 bg-white text-gray-900';
     }
@@ -439,6 +478,12 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
         return <CheckCircle className="w-4 h-4 text-green-600" />;
       case 'in-progress':
         return <Clock className="w-4 h-4 text-orange-600" />;
+      case 'blocked':
+        return <Ban className="w-4 h-4 text-red-500" />;
+      case 'failed':
+        return <XCircle className="w-4 h-4 text-red-600" />;
+      case 'cancelled':
+        return <CircleSlash className="w-4 h-4 text-gray-400" />;
       default:
         return <div className="w-4 h-4 rounded-full border-2 border-gray-300" />;
     }
@@ -461,7 +506,10 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
     const nextStatus = {
       'pending': 'in-progress',
       'in-progress': 'completed',
-      'completed': 'pending'
+      'completed': 'pending',
+      'blocked': 'pending',
+      'failed': 'pending',
+      'cancelled': 'pending'
     }[todo.status] || 'pending';
 
     // If moving to completed, show completion modal
@@ -476,7 +524,9 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
     const statusMessages = {
       'in-progress': `Started working on "${todo.title}"`,
       'completed': `Completed "${todo.title}"`,
-      'pending': `Moved "${todo.title}" back to pending`
+      'pending': STOPPED_STATUSES.includes(todo.status as StoppedStatus)
+        ? `Reopened "${todo.title}"`
+        : `Moved "${todo.title}" back to pending`
     };
 
     // Show notification
@@ -514,6 +564,34 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
     setCompletionSummary('');
   };
   
+  const openStopModal = (todo: TodoItem, status: StoppedStatus) => {
+    setStopModal({ todoId: todo.id, todoTitle: todo.title, status });
+    setStopReason('');
+    setDependentsPolicy(STOP_ACTIONS[status].policies[0]?.value || '');
+  };
+  
+  const handleStopTodo = () => {
+    if (!stopModal || !stopReason.trim()) return;
+    
+    onUpdateTodo(stopModal.todoId, {
+      status: stopModal.status,
+      reason: stopReason.trim(),
+      dependentsPolicy: dependentsPolicy || undefined
+    });
+    
+    setStatusChangeNotification({
+      message: `Marked "${stopModal.todoTitle}" as ${stopModal.status}`,
+      type: 'warning'
+    });
+    
+    setTimeout(() => {
+      setStatusChangeNotification(null);
+    }, 3000);
+    
+    setStopModal(null);
+    setStopReason('');
+  };
+  
   const startEditingNotes = (todoId: string, currentNotes: string) => {
     setEditingNotes(todoId);
     setEditNotesValue(currentNotes || '');
@@ -697,6 +775,41 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
     filteredTodos = filteredTodos.filter(todo => selectedStatuses.includes(todo.status));
   }
 
+  // Subtasks are listed under their parent; todos whose parent is filtered out become roots
+  const todoTree = (() => {
+    const visibleIds = new Set(filteredTodos.map(t => t.id));
+    const children = new Map<string, TodoItem[]>();
+    filteredTodos.forEach(todo => {
+      const parentKey = todo.parentId && visibleIds.has(todo.parentId) ? todo.parentId : '';
+      children.set(parentKey, [...(children.get(parentKey) || []), todo]);
+    });
+
+    const rows: { todo: TodoItem; depth: number; subtasks: TodoItem[] }[] = [];
+    const addRows = (parentKey: string, depth: number) => {
+      (children.get(parentKey) || []).forEach(todo => {
+        const subtasks = children.get(todo.id) || [];
+        rows.push({ todo, depth, subtasks });
+        if (!collapsedTodos.has(todo.id)) {
+          addRows(todo.id, depth + 1);
+        }
+      });
+    };
+    addRows('', 0);
+    return rows;
+  })();
+
+  const toggleCollapsed = (todoId: string) => {
+    setCollapsedTodos(prev => {
+      const next = new Set(prev);
+      if (next.has(todoId)) {
+        next.delete(todoId);
+      } else {
+        next.add(todoId);
+      }
+      return next;
+    });
+  };
+
   const toggleStatusFilter = (status: string) => {
     if (selectedStatuses.includes(status)) {
       setSelectedStatuses(selectedStatuses.filter(s => s !== status));
@@ -742,6 +855,10 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
   const originalCompletedTodos = sortedTodos.filter(t => t.status === 'completed').length;
   const originalInProgressTodos = sortedTodos.filter(t => t.status === 'in-progress').length;
   const originalPendingTodos = sortedTodos.filter(t => t.status === 'pending').length;
+  const originalStoppedCounts = STOPPED_STATUSES.map(status => ({
+    status,
+    count: sortedTodos.filter(t => t.status === status).length
+  }));
   const originalTotalTodos = sortedTodos.length;
   const originalCompletedPercent = originalTotalTodos > 0 ? (originalCompletedTodos / originalTotalTodos) * 100 : 0;
   const originalInProgressPercent = originalTotalTodos > 0 ? (originalInProgressTodos / originalTotalTodos) * 100 : 0;
@@ -1051,7 +1168,7 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
           <div className="space-y-4">
             {/* Stats Overview */}
             {originalTotalTodos > 0 && (
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
                 <button
                   onClick={() => setSelectedStatuses([])}
                   className={`bg-white rounded-lg p-4 border transition-all duration-200 text-left w-full ${
@@ -1124,6 +1241,31 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
                     </div>
                   </div>
                 </button>
+                <button
+                  onClick={() => setSelectedStatuses(
+                    STOPPED_STATUSES.every(s => selectedStatuses.includes(s))
+                      ? selectedStatuses.filter(s => !STOPPED_STATUSES.includes(s as StoppedStatus))
+                      : [...new Set([...selectedStatuses, ...STOPPED_STATUSES])]
+                  )}
+                  className={`bg-white rounded-lg p-4 border transition-all duration-200 text-left w-full ${
+                    STOPPED_STATUSES.every(s => selectedStatuses.includes(s))
+                      ? 'border-red-400 bg-red-50 shadow-md' 
+                      : 'border-gray-200 hover:border-gray-300 hover:shadow-sm'
+                  }`}
+                  title={originalStoppedCounts.map(({ status, count }) => `${count} ${status}`).join(', ')}
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-red-600">Stopped</p>
+                      <p className="text-2xl font-bold text-red-900">
+                        {originalStoppedCounts.reduce((sum, { count }) => sum + count, 0)}
+                      </p>
+                    </div>
+                    <div className="w-8 h-8 bg-red-100 rounded-full flex items-center justify-center">
+                      <Ban className="w-4 h-4 text-red-600" />
+                    </div>
+                  </div>
+                </button>
               </div>
             )}
 
@@ -1166,7 +1308,7 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
                 </div>
               )
             ) : (
-              filteredTodos.map((todo, index) => (
+              todoTree.map(({ todo, depth, subtasks }, index) => (
                 <div
                   key={todo.id}
                   className={`
@@ -1178,7 +1320,8 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
                   `}
                   style={{ 
                     animationDelay: `${index * 50}ms`,
-                    animation: 'fadeInUp 0.4s ease-out forwards'
+                    animation: 'fadeInUp 0.4s ease-out forwards',
+                    marginLeft: depth * 32
                   }}
                   onClick={(e) => {
                     e.preventDefault();
@@ -1186,6 +1329,18 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
                   }}
                 >
                   <div className="flex items-start gap-4">
+                    {subtasks.length > 0 && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleCollapsed(todo.id);
+                        }}
+                        className="flex-shrink-0 mt-1 -mr-2 p-1 rounded hover:bg-gray-100 text-gray-500"
+                        title={`${subtasks.filter(t => t.status === 'completed').length}/${subtasks.length} subtasks completed`}
+                      >
+                        {collapsedTodos.has(todo.id) ? <ChevronRight className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+                      </button>
+                    )}
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -1215,6 +1370,14 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
                             <p className="text-gray-600 mb-3 leading-relaxed">{todo.description}</p>
                           )}
                           
+                          {/* Why the todo is blocked, failed or cancelled */}
+                          {todo.statusReason && STOPPED_STATUSES.includes(todo.status as StoppedStatus) && (
+                            <div className="mt-3 p-3 bg-red-50 rounded-lg border border-red-200">
+                              <h4 className="text-sm font-medium text-red-900 mb-1 capitalize">{todo.status}</h4>
+                              <p className="text-sm text-red-800 whitespace-pre-wrap">{todo.statusReason}</p>
+                            </div>
+                          )}
+                          
                           {/* Notes section */}
                           {(todo.notes || editingNotes === todo.id) && (
                             <div className="mt-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
@@ -1365,6 +1528,23 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
                           </span>
                         )}
                         
+                        {(todo.status === 'pending' || todo.status === 'in-progress') && (
+                          <span className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                            {STOPPED_STATUSES.map(status => (
+                              <button
+                                key={status}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  openStopModal(todo, status);
+                                }}
+                                className="text-xs text-red-600 hover:text-red-700 font-medium"
+                              >
+                                {STOP_ACTIONS[status].label}
+                              </button>
+                            ))}
+                          </span>
+                        )}
+                        
                         <span className="text-xs text-gray-400 ml-auto">
                           Updated {new Date(todo.updatedAt).toLocaleDateString()}
                         </span>
@@ -1844,6 +2024,68 @@ export function ProjectView({ projects, onCreateTodo, onUpdateTodo }: ProjectVie
         </div>
       </div>
     )}
+    
+    {/* Block / Fail / Cancel Modal */}
+    {stopModal && (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {STOP_ACTIONS[stopModal.status].label} Todo: {stopModal.todoTitle}
+          </h2>
+          
+          <div className="mb-4">
+            <label htmlFor="stop-reason" className="block text-sm font-medium text-gray-700 mb-2">
+              Reason:
+            </label>
+            <textarea
+              id="stop-reason"
+              value={stopReason}
+              onChange={(e) => setStopReason(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors resize-vertical"
+              placeholder={stopModal.status === 'blocked' ? 'What is this todo waiting for?' : 'Why is this todo not going to be done?'}
+              autoFocus
+            />
+          </div>
+          
+          {STOP_ACTIONS[stopModal.status].policies.length > 0 && (
+            <div className="mb-4 space-y-2">
+              {STOP_ACTIONS[stopModal.status].policies.map(policy => (
+                <label key={policy.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="dependents-policy"
+                    value={policy.value}
+                    checked={dependentsPolicy === policy.value}
+                    onChange={() => setDependentsPolicy(policy.value)}
+                  />
+                  {policy.label}
+                </label>
+              ))}
+            </div>
+          )}
+          
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => {
+                setStopModal(null);
+                setStopReason('');
+              }}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleStopTodo}
+              disabled={!stopReason.trim()}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {STOP_ACTIONS[stopModal.status].label} Todo
+            </button>
+          </div>
+        </div>
+      </div>
+    )}
     </>
   );
 }
\ No newline at end of file
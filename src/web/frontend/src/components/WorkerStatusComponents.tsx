@@ -20,11 +20,18 @@ interface ScopedWorkerIdentity {
   };
 }
 
+export interface ClaimedTodo {
+  id: string;
+  title: string;
+  claimedAt?: Date;
+}
+
 interface WorkerStatusRowProps {
   worker: ScopedWorkerIdentity;
+  claimedTodos?: ClaimedTodo[];
 }
 
-export function WorkerStatusRow({ worker }: WorkerStatusRowProps) {
+export function WorkerStatusRow({ worker, claimedTodos = [] }: WorkerStatusRowProps) {
   const formatTimeAgo = (date: Date) => {
     const now = new Date();
     const diffMs = now.getTime() - new Date(date).getTime();
@@ -65,7 +72,9 @@ export function WorkerStatusRow({ worker }: WorkerStatusRowProps) {
           </div>
           
           {/* Current activity */}
-          {worker.currentProjectId ? (
+          {claimedTodos.length > 0 ? (
+            <ClaimedTodoList todos={claimedTodos} />
+          ) : worker.currentProjectId ? (
             <div className="text-xs text-blue-600 mt-1 flex items-center gap-1">
               <Activity className="w-3 h-3" />
               Working on project
@@ -97,6 +106,23 @@ export function WorkerStatusRow({ worker }: WorkerStatusRowProps) {
   );
 }
 
+interface ClaimedTodoListProps {
+  todos: ClaimedTodo[];
+}
+
+export function ClaimedTodoList({ todos }: ClaimedTodoListProps) {
+  return (
+    <div className="mt-1 space-y-0.5">
+      {todos.map(todo => (
+        <div key={todo.id} className="text-xs text-blue-600 flex items-center gap-1 truncate">
+          <Activity className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">Claimed: {todo.title}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 interface WorkerStatusBadgeProps {
   worker: ScopedWorkerIdentity;
   isCurrentUser?: boolean;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Users, User, Bot, Activity } from 'lucide-react';
-import { WorkerStatusRow, WorkerStatusBadge, ConnectionStatusDot } from './WorkerStatusComponents';
+import { WorkerStatusRow, WorkerStatusBadge, ConnectionStatusDot, ClaimedTodoList } from './WorkerStatusComponents';
+import type { ClaimedTodo } from './WorkerStatusComponents';
 
 // Define types directly in this file to avoid import issues
 interface ScopedWorkerIdentity {
@@ -21,12 +22,30 @@ interface ScopedWorkerIdentity {
   };
 }
 
+interface ClaimableTodo extends ClaimedTodo {
+  status: string;
+  claimedBy?: string;
+}
+
 interface WorkerStatusDashboardProps {
   workers: ScopedWorkerIdentity[];
   currentUser: ScopedWorkerIdentity | null;
+  projects?: { todos: ClaimableTodo[] }[];
 }
 
-export function WorkerStatusDashboard({ workers, currentUser }: WorkerStatusDashboardProps) {
+export function WorkerStatusDashboard({ workers, currentUser, projects = [] }: WorkerStatusDashboardProps) {
+  // Group in-progress todos by the worker that claimed them
+  const claimedByWorker = new Map<string, ClaimedTodo[]>();
+  projects.forEach(project => {
+    project.todos
+      .filter(todo => todo.status === 'in-progress' && todo.claimedBy)
+      .forEach(todo => {
+        const claimed = claimedByWorker.get(todo.claimedBy!) || [];
+        claimed.push(todo);
+        claimedByWorker.set(todo.claimedBy!, claimed);
+      });
+  });
+
   return (
     <div className="bg-white rounded-lg shadow-lg">
       {/* Header with total worker count */}
@@ -58,13 +77,18 @@ export function WorkerStatusDashboard({ workers, currentUser }: WorkerStatusDash
             </div>
             <WorkerStatusBadge worker={currentUser} isCurrentUser={true} />
           </div>
+          {claimedByWorker.has(currentUser.id) && (
+            <div className="mt-2">
+              <ClaimedTodoList todos={claimedByWorker.get(currentUser.id)!} />
+            </div>
+          )}
         </div>
       )}
 
       {/* Other workers */}
       <div className="divide-y divide-gray-100">
         {workers.filter(w => w.id !== currentUser?.id).map(worker => (
-          <WorkerStatusRow key={worker.id} worker={worker} />
+          <WorkerStatusRow key={worker.id} worker={worker} claimedTodos={claimedByWorker.get(worker.id)} />
         ))}
       </div>
 
@@ -14,7 +14,7 @@ interface TodoItem {
   id: string;
   title: string;
   description?: string;
-  status: 'pending' | 'in-progress' | 'completed';
+  status: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'failed' | 'cancelled';
   phaseId?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -30,6 +30,8 @@ interface TodoItem {
   notes?: string;
   completionSummary?: string;
   completedAt?: Date;
+  claimedBy?: string;
+  claimedAt?: Date;
 }
 
 interface Phase {
@@ -330,7 +332,7 @@ export function WorkspaceView() {
           )}
 
           {activeTab === 'workers' && (
-            <WorkerStatusDashboard workers={workers} currentUser={currentWorker} />
+            <WorkerStatusDashboard workers={workers} currentUser={currentWorker} projects={projects} />
           )}
 
           {activeTab === 'activity' && (
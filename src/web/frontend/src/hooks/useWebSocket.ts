@@ -6,7 +6,8 @@ interface TodoItem {
   id: string;
   title: string;
   description?: string;
-  status: 'pending' | 'in-progress' | 'completed';
+  status: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'failed' | 'cancelled';
+  statusReason?: string;
   phaseId?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -22,6 +23,8 @@ interface TodoItem {
   notes?: string;
   completionSummary?: string;
   completedAt?: Date;
+  claimedBy?: string;
+  claimedAt?: Date;
 }
 
 interface Phase {
@@ -67,6 +70,7 @@ interface ScopedWorkerIdentity {
   registeredAt: Date;
   lastSeen: Date;
   currentProjectId?: string;
+  role?: 'viewer' | 'worker' | 'admin';
   isConnected?: boolean;
   metadata: {
     model?: string;
@@ -115,7 +119,7 @@ interface LiveUpdateEvent {
 }
 
 interface SocketEvents {
-  'worker:register': (data: { name: string; capabilities: string[]; purpose?: string; workspacePath?: string }) => void;
+  'worker:register': (data: { name: string; capabilities: string[]; purpose?: string; workspacePath?: string; token?: string }) => void;
   'worker:registered': (data: { worker: ScopedWorkerIdentity; workspace: Workspace }) => void;
   'worker:registration-failed': (data: { error: string }) => void;
   'worker:heartbeat': () => void;
@@ -126,7 +130,7 @@ interface SocketEvents {
   'todo:create': (data: { projectId: string; title: string; description?: string; dependsOn?: string[]; priority?: string; estimatedDuration?: number }) => void;
   'todo:created': (data: { todo: TodoItem; projectId: string; workerId: string; timestamp: Date }) => void;
   'todo:update': (data: { id: string; title?: string; description?: string; status?: string; dependsOn?: string[] }) => void;
-  'todo:updated': (data: { todo: TodoItem; oldTodo: TodoItem; projectId: string; workerId: string; timestamp: Date; changes: string[] }) => void;
+  'todo:updated': (data: { todo: TodoItem; oldTodo: TodoItem; projectId: string; workerId: string; claimedBy?: string; timestamp: Date; changes: string[] }) => void;
   'dependency:add': (data: { todoId: string; dependsOnId: string }) => void;
   'dependency:added': (data: { todoId: string; dependsOnId: string; workerId: string; timestamp: Date }) => void;
   'dependency:remove': (data: { todoId: string; dependsOnId: string }) => void;
@@ -167,6 +171,24 @@ const getStableClientId = () => {
   return clientId;
 };
 
+// API token for workspaces that require one. Open the UI once with ?token=... to store it.
+const getApiToken = () => {
+  const fromUrl = new URLSearchParams(window.location.search).get('token');
+  if (fromUrl) {
+    localStorage.setItem('todos-mcp-api-token', fromUrl);
+  }
+  return localStorage.getItem('todos-mcp-api-token') || undefined;
+};
+
+// Workspaces that require API tokens only answer REST reads for their own workers
+const apiHeaders = (workerId?: string): Record<string, string> => {
+  const token = getApiToken();
+  return {
+    ...(workerId && { 'X-Worker-Id': workerId }),
+    ...(workerId && token && { Authorization: `Bearer ${token}` })
+  };
+};
+
 export function useWebSocket({
   workspacePath = '/workspace',
   workerName = 'Web User',
@@ -222,7 +244,8 @@ export function useWebSocket({
         capabilities: stableCapabilities.current,
         purpose: stablePurpose.current,
         workspacePath: stableWorkspacePath.current,
-        clientId: stableClientId.current
+        clientId: stableClientId.current,
+        token: getApiToken()
       });
     });
 
@@ -254,7 +277,7 @@ export function useWebSocket({
       
       // Load projects for this workspace as fallback
       if (data.workspace?.id) {
-        loadProjects(data.workspace.id);
+        loadProjects(data.workspace.id, data.worker?.id);
       }
     });
 
@@ -458,9 +481,9 @@ export function useWebSocket({
     }
   }, []);
 
-  const loadProjects = useCallback(async (workspaceId?: string) => {
+  const loadProjects = useCallback(async (workspaceId?: string, workerId?: string) => {
     try {
-      const response = await fetch('http://localhost:3003/api/projects');
+      const response = await fetch('http://localhost:3003/api/projects', { headers: apiHeaders(workerId) });
       if (response.ok) {
         const allProjects = await response.json();
         console.log('📋 All projects loaded via API:', allProjects);
@@ -499,7 +522,8 @@ export function useWebSocket({
         capabilities: stableCapabilities.current,
         purpose: stablePurpose.current,
         workspacePath: workspacePath,
-        clientId: stableClientId.current
+        clientId: stableClientId.current,
+        token: getApiToken()
       });
     }
   }, [state.socket]);
@@ -534,12 +558,21 @@ export function useWebSocket({
   const updateTodo = useCallback((id: string, updates: {
     title?: string;
     description?: string;
-    status?: 'pending' | 'in-progress' | 'completed';
+    status?: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'failed' | 'cancelled';
     dependsOn?: string[];
     notes?: string;
     completionSummary?: string;
+    reason?: string;
+    dependentsPolicy?: 'block' | 'unblock' | 'cascade';
   }) => {
     if (state.socket) {
+      // Blocking, failing and cancelling carry a reason and go through their own event
+      if (updates.status === 'blocked' || updates.status === 'failed' || updates.status === 'cancelled') {
+        const { status, reason, dependentsPolicy } = updates;
+        state.socket.emit('todo:set-status', { todoId: id, status, reason, dependentsPolicy });
+        return;
+      }
+
       // Use specific status change events for better data integrity
       if (updates.status && (Object.keys(updates).length === 1 || (Object.keys(updates).length === 2 && updates.completionSummary))) {
         switch (updates.status) {
@@ -622,7 +655,8 @@ export function useWebSocket({
         capabilities: stableCapabilities.current,
         purpose: stablePurpose.current,
         workspacePath: workspacePath,
-        clientId: stableClientId.current
+        clientId: stableClientId.current,
+        token: getApiToken()
       });
     }
   }, [workspacePath, state.isConnected, state.socket, state.currentWorker]);
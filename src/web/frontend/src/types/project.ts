@@ -14,6 +14,8 @@ export interface TodoItem {
   estimatedDuration?: number;
   actualDuration?: number;
   priority: 'low' | 'medium' | 'high' | 'critical';
+  claimedBy?: string;
+  claimedAt?: Date;
 }
 
 export interface Phase {
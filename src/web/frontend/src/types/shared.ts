@@ -27,6 +27,8 @@ export interface TodoItem {
   estimatedDuration?: number;
   actualDuration?: number;
   priority: 'low' | 'medium' | 'high' | 'critical';
+  claimedBy?: string;
+  claimedAt?: Date;
 }
 
 export interface Phase {
@@ -114,7 +116,7 @@ export interface SocketEvents {
   'todo:create': (data: { projectId: string; title: string; description?: string; dependsOn?: string[]; priority?: string; estimatedDuration?: number }) => void;
   'todo:created': (data: { todo: TodoItem; projectId: string; workerId: string; timestamp: Date }) => void;
   'todo:update': (data: { id: string; title?: string; description?: string; status?: string; dependsOn?: string[] }) => void;
-  'todo:updated': (data: { todo: TodoItem; oldTodo: TodoItem; projectId: string; workerId: string; timestamp: Date; changes: string[] }) => void;
+  'todo:updated': (data: { todo: TodoItem; oldTodo: TodoItem; projectId: string; workerId: string; claimedBy?: string; timestamp: Date; changes: string[] }) => void;
   
   // Dependency events
   'dependency:add': (data: { todoId: string; dependsOnId: string }) => void;
@@ -0,0 +1,314 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+import { EXPORT_FORMATS } from '../project-export.js';
+
+/**
+ * Generates shared/openapi.json for the REST API from the interfaces in shared/types.ts.
+ *
+ *   npm run openapi
+ *   npm run openapi:check   # Fails when the committed document is out of date
+ *
+ * Schemas come from the types; the route table below lists which types each route
+ * takes and returns and must be kept in step with server-scoped.ts.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+interface RouteSpec {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string;                       // Express syntax, e.g. /api/todos/:id
+  summary: string;
+  tag: string;
+  body?: string;                      // Shared type of the JSON body
+  response?: string;                  // Shared type of the response, "Type[]" for arrays
+  produces?: string[];                // Media types of a response that isn't one of the shared types
+  status?: number;                    // Success status, 200 by default
+  query?: Record<string, string>;     // Query parameter -> description
+  write?: boolean;                    // Needs the X-Worker-Id header
+  read?: boolean;                     // Needs X-Worker-Id only for workspaces that issued API tokens
+  auth?: boolean;                     // Takes the API token of secured workspaces
+}
+
+const TYPES_FILE = path.join(__dirname, 'shared', 'types.ts');
+const OUTPUT_FILE = path.join(__dirname, 'shared', 'openapi.json');
+
+// Event handler maps, not data
+const SKIPPED_TYPES = new Set(['SocketEvents']);
+
+const routes: RouteSpec[] = [
+  { method: 'get', path: '/api/workspaces', summary: 'List workspaces with the projects the caller may read', tag: 'Workspaces', response: 'Workspace[]', read: true },
+  { method: 'get', path: '/api/projects', summary: 'List the projects the caller may read', tag: 'Projects', response: 'Project[]', read: true },
+  { method: 'get', path: '/api/projects/:id', summary: 'Get a project', tag: 'Projects', response: 'Project', read: true },
+  { method: 'get', path: '/api/projects/:id/dependency-graph', summary: 'Get the dependency graph of a project', tag: 'Projects', response: 'DependencyGraphResult', read: true },
+  {
+    method: 'get', path: '/api/projects/:id/available-work', summary: 'List todos that are ready to be claimed', tag: 'Todos', response: 'TodoItem[]', read: true,
+    query: { workerId: 'Worker to pick work for' }
+  },
+  {
+    method: 'get', path: '/api/projects/:id/changes', summary: 'Get the change history of a project, newest first', tag: 'Projects', response: 'ChangeEvent[]', read: true,
+    query: { limit: 'Maximum number of changes (default 50)', entityType: 'Only changes to this kind of entity, e.g. todo', entityId: 'Only changes to this entity' }
+  },
+  { method: 'get', path: '/api/workspaces/:id/workers', summary: 'List active workers of a workspace', tag: 'Workers', response: 'ScopedWorkerIdentity[]', read: true },
+
+  {
+    method: 'get', path: '/api/search', summary: "Search the todos of the worker's workspace", tag: 'Todos', response: 'SearchTodosResult', write: true,
+    query: {
+      q: 'Filter expression, e.g. status:pending priority:high',
+      projectId: 'Only todos of this project',
+      sort: 'Sort field, "-" prefix for descending (default -priority)',
+      limit: 'Page size (default 20)',
+      offset: 'Matches to skip'
+    }
+  },
+  {
+    method: 'get', path: '/api/projects/:id/export', summary: 'Export a project', tag: 'Projects', write: true,
+    produces: Object.values(EXPORT_FORMATS).map(format => format.contentType),
+    query: { format: `One of ${Object.keys(EXPORT_FORMATS).join(', ')} (default json)` }
+  },
+  { method: 'post', path: '/api/projects/import', summary: 'Import a project from an export', tag: 'Projects', body: 'ImportProjectBody', response: 'ImportProjectResult', status: 201, write: true },
+
+  { method: 'post', path: '/api/workers', summary: 'Register a worker to attribute writes to', tag: 'Workers', body: 'RegisterWorkerBody', response: 'ScopedWorkerIdentity', status: 201, auth: true },
+  { method: 'delete', path: '/api/workers/:id', summary: 'Deregister the calling worker', tag: 'Workers', status: 204, write: true },
+
+  { method: 'post', path: '/api/projects', summary: 'Create a project', tag: 'Projects', body: 'CreateProjectBody', response: 'Project', status: 201, write: true },
+  { method: 'patch', path: '/api/projects/:id', summary: 'Rename or describe a project', tag: 'Projects', body: 'UpdateProjectBody', response: 'Project', write: true },
+  { method: 'delete', path: '/api/projects/:id', summary: 'Delete a project', tag: 'Projects', status: 204, write: true },
+
+  { method: 'post', path: '/api/projects/:id/todos', summary: 'Create a todo', tag: 'Todos', body: 'CreateTodoBody', response: 'TodoItem', status: 201, write: true },
+  { method: 'patch', path: '/api/todos/:id', summary: 'Update a todo', tag: 'Todos', body: 'UpdateTodoBody', response: 'TodoItem', write: true },
+  { method: 'delete', path: '/api/todos/:id', summary: 'Delete a todo', tag: 'Todos', status: 204, write: true },
+  { method: 'post', path: '/api/todos/:id/claim', summary: 'Claim a todo and start it', tag: 'Todos', body: 'ClaimTodoBody', response: 'TodoItem', write: true },
+  { method: 'post', path: '/api/todos/:id/finish', summary: 'Complete a claimed todo', tag: 'Todos', body: 'FinishTodoBody', response: 'TodoItem', write: true },
+  { method: 'post', path: '/api/todos/:id/unclaim', summary: 'Return a todo to pending', tag: 'Todos', body: 'UnclaimTodoBody', response: 'TodoItem', write: true },
+  { method: 'post', path: '/api/todos/:id/status', summary: 'Block, fail, cancel or reopen a todo', tag: 'Todos', body: 'SetTodoStatusBody', response: 'TodoItem', write: true },
+
+  { method: 'post', path: '/api/projects/:id/phases', summary: 'Create a phase', tag: 'Phases', body: 'CreatePhaseBody', response: 'Phase', status: 201, write: true },
+  { method: 'patch', path: '/api/projects/:id/phases/:phaseId', summary: 'Update a phase', tag: 'Phases', body: 'UpdatePhaseBody', response: 'Phase', write: true },
+  {
+    method: 'delete', path: '/api/projects/:id/phases/:phaseId', summary: 'Delete a phase', tag: 'Phases', status: 204, write: true,
+    query: { moveTodosToPhaseId: 'Phase that receives the todos of the deleted phase; they are unassigned when omitted' }
+  },
+
+  { method: 'post', path: '/api/projects/:id/documents', summary: 'Attach a document', tag: 'Documents', body: 'AttachDocumentBody', response: 'Document', status: 201, write: true },
+  { method: 'delete', path: '/api/projects/:id/documents/:documentId', summary: 'Remove a document', tag: 'Documents', status: 204, write: true },
+
+  { method: 'post', path: '/api/todos/:id/dependencies', summary: 'Make a todo depend on another', tag: 'Dependencies', body: 'AddDependencyBody', response: 'TodoItem', status: 201, write: true },
+  { method: 'delete', path: '/api/todos/:id/dependencies/:dependsOnId', summary: 'Remove a dependency', tag: 'Dependencies', response: 'TodoItem', write: true }
+];
+
+function typeToSchema(node: ts.TypeNode, known: Set<string>): JsonSchema {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { type: 'string' };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: 'number' };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: 'boolean' };
+    case ts.SyntaxKind.AnyKeyword:
+    case ts.SyntaxKind.UnknownKeyword:
+      return {};
+  }
+
+  if (ts.isArrayTypeNode(node)) {
+    return { type: 'array', items: typeToSchema(node.elementType, known) };
+  }
+
+  if (ts.isLiteralTypeNode(node) && ts.isStringLiteral(node.literal)) {
+    return { type: 'string', enum: [node.literal.text] };
+  }
+
+  if (ts.isUnionTypeNode(node)) {
+    const literals = node.types.filter(
+      (t): t is ts.LiteralTypeNode => ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal)
+    );
+    if (literals.length === node.types.length) {
+      return { type: 'string', enum: literals.map(t => (t.literal as ts.StringLiteral).text) };
+    }
+    return { oneOf: node.types.map(t => typeToSchema(t, known)) };
+  }
+
+  if (ts.isTypeLiteralNode(node)) {
+    return membersToSchema(node.members, known);
+  }
+
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText();
+    const [keyType, valueType] = node.typeArguments || [];
+
+    if (name === 'Date') {
+      return { type: 'string', format: 'date-time' };
+    }
+    if (name === 'Record' && valueType) {
+      return { type: 'object', additionalProperties: typeToSchema(valueType, known) };
+    }
+    if (name === 'Array' && keyType) {
+      return { type: 'array', items: typeToSchema(keyType, known) };
+    }
+    if (known.has(name)) {
+      return { $ref: `#/components/schemas/${name}` };
+    }
+  }
+
+  throw new Error(`Unsupported type in shared types: ${node.getText()}`);
+}
+
+function membersToSchema(members: ts.NodeArray<ts.TypeElement>, known: Set<string>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const member of members) {
+    if (!ts.isPropertySignature(member) || !member.type) continue;
+
+    const name = member.name.getText();
+    properties[name] = typeToSchema(member.type, known);
+    if (!member.questionToken) {
+      required.push(name);
+    }
+  }
+
+  return { type: 'object', properties, ...(required.length > 0 && { required }) };
+}
+
+function generateSchemas(): Record<string, JsonSchema> {
+  const source = ts.createSourceFile(TYPES_FILE, fs.readFileSync(TYPES_FILE, 'utf-8'), ts.ScriptTarget.ES2020, true);
+  const interfaces = source.statements.filter(
+    (s): s is ts.InterfaceDeclaration => ts.isInterfaceDeclaration(s) && !SKIPPED_TYPES.has(s.name.text)
+  );
+  const known = new Set(interfaces.map(i => i.name.text));
+
+  return Object.fromEntries(interfaces.map(i => [i.name.text, membersToSchema(i.members, known)]));
+}
+
+function responseContent(type: string): JsonSchema {
+  const schema = type.endsWith('[]')
+    ? { type: 'array', items: { $ref: `#/components/schemas/${type.slice(0, -2)}` } }
+    : { $ref: `#/components/schemas/${type}` };
+  return { 'application/json': { schema } };
+}
+
+function generatePaths(schemas: Record<string, JsonSchema>): Record<string, Record<string, JsonSchema>> {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  const errorResponse = (description: string) => ({ description, content: responseContent('ApiError') });
+
+  for (const route of routes) {
+    for (const type of [route.body, route.response?.replace(/\[\]$/, '')]) {
+      if (type && !schemas[type]) {
+        throw new Error(`Route ${route.method.toUpperCase()} ${route.path} uses unknown type ${type}`);
+      }
+    }
+
+    const pathParameters = [...route.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' }
+    }));
+    const queryParameters = Object.entries(route.query || {}).map(([name, description]) => ({
+      name,
+      in: 'query',
+      description,
+      schema: { type: 'string' }
+    }));
+    const workerHeader = route.write ? [{ $ref: '#/components/parameters/WorkerId' }, { $ref: '#/components/parameters/WorkspaceId' }]
+      : route.read ? [{ $ref: '#/components/parameters/ReaderId' }, { $ref: '#/components/parameters/WorkspaceId' }]
+      : [];
+
+    const status = route.status || 200;
+    const content = route.response
+      ? responseContent(route.response)
+      : route.produces && Object.fromEntries(route.produces.map(type => [type, { schema: { type: 'string' } }]));
+    const responses: Record<string, JsonSchema> = {
+      [status]: content ? { description: 'Success', content } : { description: 'Success' },
+      '400': errorResponse('Invalid request'),
+      '404': errorResponse('Not found')
+    };
+    if (route.write || route.read || route.auth) {
+      responses['401'] = errorResponse('Missing or unknown X-Worker-Id, or missing, invalid or revoked API token');
+    }
+    if (route.write) {
+      responses['403'] = errorResponse("The worker's role doesn't allow this");
+      responses['409'] = errorResponse('Version conflict, or the todo is claimed by another worker');
+    }
+
+    const openApiPath = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[openApiPath] = {
+      ...paths[openApiPath],
+      [route.method]: {
+        summary: route.summary,
+        tags: [route.tag],
+        parameters: [...workerHeader, ...pathParameters, ...queryParameters],
+        // The token is optional until the workspace issues its first one
+        ...((route.write || route.read || route.auth) && { security: [{ apiToken: [] }, {}] }),
+        ...(route.body && {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: `#/components/schemas/${route.body}` } } }
+          }
+        }),
+        responses
+      }
+    };
+  }
+
+  return paths;
+}
+
+const schemas = generateSchemas();
+const document = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Todos MCP REST API',
+    version: '1.0.0',
+    description: 'Read and write access to projects and todos without a websocket client. ' +
+      'Writes are attributed to the worker in X-Worker-Id and broadcast to websocket clients like any other change.'
+  },
+  paths: generatePaths(schemas),
+  components: {
+    schemas,
+    securitySchemes: {
+      apiToken: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'API token issued with the issue_api_token MCP tool'
+      }
+    },
+    parameters: {
+      WorkerId: {
+        name: 'X-Worker-Id',
+        in: 'header',
+        required: true,
+        description: 'Worker registered with POST /api/workers',
+        schema: { type: 'string' }
+      },
+      ReaderId: {
+        name: 'X-Worker-Id',
+        in: 'header',
+        required: false,
+        description: 'Worker registered with POST /api/workers; needed to read workspaces that require API tokens',
+        schema: { type: 'string' }
+      },
+      WorkspaceId: {
+        name: 'X-Workspace-Id',
+        in: 'header',
+        required: false,
+        description: 'Workspace the worker is registered in; looked up when omitted',
+        schema: { type: 'string' }
+      }
+    }
+  }
+};
+
+const output = JSON.stringify(document, null, 2) + '\n';
+
+if (process.argv.includes('--check')) {
+  const committed = fs.existsSync(OUTPUT_FILE) ? fs.readFileSync(OUTPUT_FILE, 'utf-8') : '';
+  if (committed !== output) {
+    console.error(`❌ ${OUTPUT_FILE} is out of date; run npm run openapi`);
+    process.exit(1);
+  }
+  console.log(`✅ ${OUTPUT_FILE} is up to date`);
+} else {
+  fs.writeFileSync(OUTPUT_FILE, output);
+  console.log(`📄 Wrote ${OUTPUT_FILE} (${routes.length} routes, ${Object.keys(schemas).length} schemas)`);
+}
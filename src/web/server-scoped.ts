@@ -3,19 +3,53 @@ import { createServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import * as path from 'path';
 import { ScopedTodosStorage } from '../scoped-storage.js';
-import { ValidationError } from '../validation.js';
+import { ValidationError, parseAreas } from '../validation.js';
 import { 
   RegisterWorkerRequest, 
-  ChangeEvent 
+  ChangeEvent,
+  ConflictError,
+  ClaimOwnershipError,
+  WorkerIdentityInUseError,
+  LockTimeoutError,
+  WorkerNotFoundError,
+  AuditPermissions,
+  AuthenticationError,
+  PermissionDeniedError
 } from '../tracking-types.js';
 import { ScopedWorkerIdentity } from '../scoped-worker-registry.js';
 import {
+  Project,
+  TodoItem,
   CreateProjectRequest,
   CreateTodoRequest,
   UpdateTodoRequest,
   AddDependencyRequest,
-  RemoveDependencyRequest
+  RemoveDependencyRequest,
+  ProjectExportFormat
 } from '../types.js';
+import { EXPORT_FORMATS } from '../project-export.js';
+import { ChangeLogWatcher, ChangeLogBatch } from './change-log-watcher.js';
+import {
+  RegisterWorkerBody,
+  CreateProjectBody,
+  UpdateProjectBody,
+  CreateTodoBody,
+  UpdateTodoBody,
+  ClaimTodoBody,
+  FinishTodoBody,
+  UnclaimTodoBody,
+  SetTodoStatusBody,
+  CreatePhaseBody,
+  UpdatePhaseBody,
+  AttachDocumentBody,
+  AddDependencyBody,
+  ImportProjectBody
+} from './shared/types.js';
+import { createLogger, configureLogger } from '../logger.js';
+
+// Separate from the MCP servers' log, which several processes may share
+configureLogger({ fileName: 'todos-web' });
+const log = createLogger('web-server');
 
 const app = express();
 const server = createServer(app);
@@ -26,13 +60,48 @@ const io = new SocketIOServer(server, {
   }
 });
 
-const storage = new ScopedTodosStorage();
+// Todos released from expired workers are broadcast like any other update so
+// other workers can pick them up
+const storage = new ScopedTodosStorage({}, {
+  onTodosReclaimed: async (reclaimed) => {
+    const projects = new Map<string, string>(); // projectId -> workspaceId
+    
+    for (const { todo, oldTodo, projectId, workspaceId, workerId } of reclaimed) {
+      broadcastTodoUpdated(workspaceId, projectId, oldTodo, todo, 'system', ['status', 'claimedBy'], workerId);
+      projects.set(projectId, workspaceId);
+    }
+    
+    for (const [projectId, workspaceId] of projects) {
+      await broadcastDependencyGraph(workspaceId, projectId, 'system');
+    }
+  },
+  // Parents follow their subtasks; the subtask change itself is broadcast by its handler
+  onTodosRolledUp: async (rolledUp) => {
+    for (const { todo, oldTodo, projectId, workspaceId } of rolledUp) {
+      broadcastTodoUpdated(workspaceId, projectId, oldTodo, todo, 'system');
+    }
+  },
+  onChangeLogged: (event) => changeLogWatcher.ignore(event)
+});
+
+// Changes made by other processes, such as MCP servers working for Claude, only
+// reach this server through their audit logs
+const changeLogWatcher = new ChangeLogWatcher(
+  batch => batch.projectId ? broadcastExternalProjectChanges(batch) : broadcastExternalWorkspaceChanges(batch),
+  {},
+  () => storage.storageAdapter
+);
+
+// REST writes act for the worker named in this header
+const WORKER_HEADER = 'X-Worker-Id';
+// Optional, saves looking up which workspace the worker is registered in
+const WORKSPACE_HEADER = 'X-Workspace-Id';
 
 // CORS middleware for Express routes
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', `Origin, X-Requested-With, Content-Type, Accept, Authorization, ${WORKER_HEADER}, ${WORKSPACE_HEADER}`);
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -42,7 +111,8 @@ app.use((req, res, next) => {
   }
 });
 
-app.use(express.json());
+// Project imports carry whole projects in the body
+app.use(express.json({ limit: '10mb' }));
 app.use(express.static(path.join(__dirname, 'public')));
 
 // Track connected workers and their socket connections
@@ -51,20 +121,37 @@ const socketToWorker = new Map<string, string>(); // socketId -> workerId
 
 // WebSocket connection handling
 io.on('connection', (socket) => {
-  console.log(`🔌 Client connected: ${socket.id}`);
+  log.debug(`Client connected: ${socket.id}`);
+
+  // Writes act for the socket's own worker. Clients register as external workers, so no
+  // process-wide worker exists that another client's writes could be attributed to.
+  const asSocketWorker = async (permission: keyof AuditPermissions, fn: (workerId: string) => Promise<void>) => {
+    const workerId = socketToWorker.get(socket.id);
+    if (!workerId) {
+      socket.emit('error', { message: 'Worker not registered' });
+      return;
+    }
+    
+    await storage.actAsWorker(workerId, async () => {
+      await storage.assertPermission(permission);
+      await fn(workerId);
+    }, connectedWorkers.get(workerId)?.worker.workspaceId);
+  };
 
   // Worker registration via WebSocket
+  // Workspaces that issued API tokens only accept workers presenting one
   socket.on('worker:register', async (data: RegisterWorkerRequest & { workspacePath?: string }) => {
     try {
-      console.log(`👤 Worker registering: ${data.name}`);
+      log.debug(`Worker registering: ${data.name}`);
       
       const workspacePath = data.workspacePath || process.cwd();
       const workspace = await storage.getOrCreateWorkspace(workspacePath);
       
-      const worker = await storage.registerWorkerForWorkspace(workspace.id, {
+      const { worker } = await storage.registerExternalWorker(workspace.id, {
         name: data.name,
         capabilities: data.capabilities || [],
-        purpose: data.purpose || 'Web interface user'
+        purpose: data.purpose || 'Web interface user',
+        token: data.token
       });
 
       // Track the connection
@@ -75,7 +162,7 @@ io.on('connection', (socket) => {
       socket.join(`workspace:${workspace.id}`);
       socket.join(`worker:${worker.id}`);
 
-      console.log(`✅ Worker registered: ${worker.name} (${worker.id}) in workspace ${workspace.id}`);
+      log.info(`Worker registered: ${worker.name}`, { workerId: worker.id, workspaceId: workspace.id });
 
       // Send worker info back to client
       socket.emit('worker:registered', { worker, workspace });
@@ -94,7 +181,7 @@ io.on('connection', (socket) => {
       });
 
     } catch (error) {
-      console.error('❌ Worker registration failed:', error);
+      log.warn('Worker registration failed', { error });
       socket.emit('worker:registration-failed', { 
         error: error instanceof Error ? error.message : 'Registration failed' 
       });
@@ -105,7 +192,8 @@ io.on('connection', (socket) => {
   socket.on('worker:heartbeat', async () => {
     const workerId = socketToWorker.get(socket.id);
     if (workerId) {
-      await storage.heartbeat();
+      // Acting for the worker counts as its heartbeat
+      await storage.actAsWorker(workerId, async () => {}, connectedWorkers.get(workerId)?.worker.workspaceId);
       
       // Broadcast heartbeat to workspace
       const workerData = connectedWorkers.get(workerId);
@@ -121,19 +209,15 @@ io.on('connection', (socket) => {
   // Project operations
   socket.on('project:create', async (data: CreateProjectRequest) => {
     try {
-      const workerId = socketToWorker.get(socket.id);
-      if (!workerId) {
-        socket.emit('error', { message: 'Worker not registered' });
-        return;
-      }
+      await asSocketWorker('canEditTodos', async workerId => {
+        const project = await storage.createProject(data);
+        const workspace = await storage.getOrCreateWorkspace(data.workspacePath);
 
-      const project = await storage.createProject(data);
-      const workspace = await storage.getOrCreateWorkspace(data.workspacePath);
-
-      // Broadcast to workspace
-      io.to(`workspace:${workspace.id}`).emit('project:created', { project, workerId });
-      
-      console.log(`📋 Project created: ${project.name} by worker ${workerId}`);
+        // Broadcast to workspace
+        io.to(`workspace:${workspace.id}`).emit('project:created', { project, workerId });
+        
+        log.info(`Project created: ${project.name}`, { projectId: project.id, workerId });
+      });
     } catch (error) {
       socket.emit('error', { 
         message: error instanceof Error ? error.message : 'Failed to create project' 
@@ -144,33 +228,15 @@ io.on('connection', (socket) => {
   // Todo operations with real-time updates
   socket.on('todo:create', async (data: CreateTodoRequest) => {
     try {
-      const workerId = socketToWorker.get(socket.id);
-      if (!workerId) {
-        socket.emit('error', { message: 'Worker not registered' });
-        return;
-      }
-
-      const todo = await storage.createTodo(data);
-      if (todo) {
-        const project = await storage.getProject(data.projectId);
-        if (project) {
-          // Broadcast to workspace
-          io.to(`workspace:${project.workspaceId}`).emit('todo:created', { 
-            todo, 
-            projectId: data.projectId,
-            workerId,
-            timestamp: new Date()
-          });
-
-          // Check if this unblocks other todos
-          const graph = await storage.getDependencyGraph(data.projectId);
-          io.to(`workspace:${project.workspaceId}`).emit('dependency-graph:updated', {
-            projectId: data.projectId,
-            graph,
-            workerId
-          });
+      await asSocketWorker('canEditTodos', async workerId => {
+        const todo = await storage.createTodo(data);
+        if (todo) {
+          const project = await storage.getProject(data.projectId);
+          if (project) {
+            await broadcastTodoCreated(project, todo, workerId);
+          }
         }
-      }
+      });
     } catch (error) {
       socket.emit('error', { 
         message: error instanceof Error ? error.message : 'Failed to create todo' 
@@ -179,160 +245,102 @@ io.on('connection', (socket) => {
   });
 
   // Dedicated status change handlers that preserve data integrity
-  socket.on('todo:claim', async (data: { todoId: string }) => {
+  socket.on('todo:claim', async (data: { todoId: string; expectedVersion?: number }) => {
     try {
-      const workerId = socketToWorker.get(socket.id);
-      if (!workerId) {
-        socket.emit('error', { message: 'Worker not registered' });
-        return;
-      }
-
-      const oldTodo = await findTodoById(data.todoId);
-      const updatedTodo = await storage.changeStatus(data.todoId, 'in-progress');
-      
-      if (updatedTodo && oldTodo) {
-        const project = await findProjectByTodoId(data.todoId);
-        if (project) {
-          // Broadcast update to workspace
-          io.to(`workspace:${project.workspaceId}`).emit('todo:updated', {
-            todo: updatedTodo,
-            oldTodo,
-            projectId: project.id,
-            workerId,
-            timestamp: new Date(),
-            changes: ['status']
-          });
-
-          // Update dependency graph
-          const graph = await storage.getDependencyGraph(project.id);
-          io.to(`workspace:${project.workspaceId}`).emit('dependency-graph:updated', {
-            projectId: project.id,
-            graph,
-            workerId
-          });
+      await asSocketWorker('canEditTodos', async workerId => {
+        const oldTodo = await findTodoById(data.todoId);
+        const updatedTodo = await storage.changeStatus(data.todoId, 'in-progress', {
+          workerId,
+          expectedVersion: data.expectedVersion
+        });
+        
+        if (updatedTodo && oldTodo) {
+          const project = await findProjectByTodoId(data.todoId);
+          if (project) {
+            await broadcastStatusChange(project, oldTodo, updatedTodo, workerId, ['status', 'claimedBy']);
+          }
         }
-      }
+      });
     } catch (error) {
-      console.error('Error claiming todo:', error);
+      log.warn('Error claiming todo', { todoId: data.todoId, error });
       socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to claim todo' });
     }
   });
 
-  socket.on('todo:finish', async (data: { todoId: string }) => {
+  socket.on('todo:finish', async (data: { todoId: string; force?: boolean }) => {
     try {
-      const workerId = socketToWorker.get(socket.id);
-      if (!workerId) {
-        socket.emit('error', { message: 'Worker not registered' });
-        return;
-      }
-
-      const oldTodo = await findTodoById(data.todoId);
-      const updatedTodo = await storage.changeStatus(data.todoId, 'completed');
-      
-      if (updatedTodo && oldTodo) {
-        const project = await findProjectByTodoId(data.todoId);
-        if (project) {
-          // Broadcast update to workspace
-          io.to(`workspace:${project.workspaceId}`).emit('todo:updated', {
-            todo: updatedTodo,
-            oldTodo,
-            projectId: project.id,
-            workerId,
-            timestamp: new Date(),
-            changes: ['status']
-          });
-
-          // Update dependency graph
-          const graph = await storage.getDependencyGraph(project.id);
-          io.to(`workspace:${project.workspaceId}`).emit('dependency-graph:updated', {
-            projectId: project.id,
-            graph,
-            workerId
-          });
+      await asSocketWorker('canEditTodos', async workerId => {
+        const oldTodo = await findTodoById(data.todoId);
+        const updatedTodo = await storage.changeStatus(data.todoId, 'completed', { workerId, force: data.force });
+        
+        if (updatedTodo && oldTodo) {
+          const project = await findProjectByTodoId(data.todoId);
+          if (project) {
+            await broadcastStatusChange(project, oldTodo, updatedTodo, workerId);
+          }
         }
-      }
+      });
     } catch (error) {
-      console.error('Error finishing todo:', error);
+      log.warn('Error finishing todo', { todoId: data.todoId, error });
       socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to finish todo' });
     }
   });
 
-  socket.on('todo:unclaim', async (data: { todoId: string }) => {
+  socket.on('todo:unclaim', async (data: { todoId: string; force?: boolean }) => {
     try {
-      const workerId = socketToWorker.get(socket.id);
-      if (!workerId) {
-        socket.emit('error', { message: 'Worker not registered' });
-        return;
-      }
-
-      const oldTodo = await findTodoById(data.todoId);
-      const updatedTodo = await storage.changeStatus(data.todoId, 'pending');
-      
-      if (updatedTodo && oldTodo) {
-        const project = await findProjectByTodoId(data.todoId);
-        if (project) {
-          // Broadcast update to workspace
-          io.to(`workspace:${project.workspaceId}`).emit('todo:updated', {
-            todo: updatedTodo,
-            oldTodo,
-            projectId: project.id,
-            workerId,
-            timestamp: new Date(),
-            changes: ['status']
-          });
-
-          // Update dependency graph
-          const graph = await storage.getDependencyGraph(project.id);
-          io.to(`workspace:${project.workspaceId}`).emit('dependency-graph:updated', {
-            projectId: project.id,
-            graph,
-            workerId
-          });
+      await asSocketWorker('canEditTodos', async workerId => {
+        const oldTodo = await findTodoById(data.todoId);
+        const updatedTodo = await storage.changeStatus(data.todoId, 'pending', { workerId, force: data.force });
+        
+        if (updatedTodo && oldTodo) {
+          const project = await findProjectByTodoId(data.todoId);
+          if (project) {
+            await broadcastStatusChange(project, oldTodo, updatedTodo, workerId);
+          }
         }
-      }
+      });
     } catch (error) {
-      console.error('Error unclaiming todo:', error);
+      log.warn('Error unclaiming todo', { todoId: data.todoId, error });
       socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to unclaim todo' });
     }
   });
 
-  socket.on('todo:update', async (data: UpdateTodoRequest) => {
+  socket.on('todo:set-status', async (data: { todoId: string } & SetTodoStatusBody) => {
     try {
-      const workerId = socketToWorker.get(socket.id);
-      if (!workerId) {
-        socket.emit('error', { message: 'Worker not registered' });
-        return;
-      }
-
-      const oldTodo = await findTodoById(data.id);
-      const updatedTodo = await storage.updateTodo(data);
-      
-      if (updatedTodo && oldTodo) {
-        const project = await findProjectByTodoId(data.id);
-        if (project) {
-          // Broadcast update to workspace
-          io.to(`workspace:${project.workspaceId}`).emit('todo:updated', {
-            todo: updatedTodo,
-            oldTodo,
-            projectId: project.id,
-            workerId,
-            timestamp: new Date(),
-            changes: getChangedFields(oldTodo, updatedTodo)
-          });
-
-          // If status changed, update dependency graph
-          if (oldTodo.status !== updatedTodo.status) {
-            const graph = await storage.getDependencyGraph(project.id);
-            io.to(`workspace:${project.workspaceId}`).emit('dependency-graph:updated', {
-              projectId: project.id,
-              graph,
-              workerId
-            });
+      await asSocketWorker('canEditTodos', async workerId => {
+        const { todoId, status, ...options } = data;
+        const oldTodo = await findTodoById(todoId);
+        const updatedTodo = await storage.changeStatus(todoId, status, { workerId, ...options });
+        
+        if (updatedTodo && oldTodo) {
+          const project = await findProjectByTodoId(todoId);
+          if (project) {
+            await broadcastSetStatus(project, oldTodo, updatedTodo, workerId);
           }
+        }
+      });
+    } catch (error) {
+      log.warn('Error changing todo status', { todoId: data.todoId, error });
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to change todo status' });
+    }
+  });
 
-          console.log(`📝 Todo updated: ${updatedTodo.title} -> ${updatedTodo.status} by worker ${workerId}`);
+  socket.on('todo:update', async (data: UpdateTodoRequest & { expectedVersion?: number }) => {
+    try {
+      await asSocketWorker('canEditTodos', async workerId => {
+        const oldTodo = await findTodoById(data.id);
+        const { expectedVersion, ...request } = data;
+        const updatedTodo = await storage.updateTodo(request, { workerId, expectedVersion });
+        
+        if (updatedTodo && oldTodo) {
+          const project = await findProjectByTodoId(data.id);
+          if (project) {
+            await broadcastTodoUpdate(project, oldTodo, updatedTodo, workerId);
+
+            log.debug(`Todo updated: ${updatedTodo.title} -> ${updatedTodo.status}`, { todoId: updatedTodo.id, workerId });
+          }
         }
-      }
+      });
     } catch (error) {
       socket.emit('error', { 
         message: error instanceof Error ? error.message : 'Failed to update todo' 
@@ -343,32 +351,15 @@ io.on('connection', (socket) => {
   // Dependency management
   socket.on('dependency:add', async (data: AddDependencyRequest) => {
     try {
-      const workerId = socketToWorker.get(socket.id);
-      if (!workerId) {
-        socket.emit('error', { message: 'Worker not registered' });
-        return;
-      }
-
-      const result = await storage.addDependency(data);
-      if (result) {
-        const project = await findProjectByTodoId(data.todoId);
-        if (project) {
-          const graph = await storage.getDependencyGraph(project.id);
-          
-          io.to(`workspace:${project.workspaceId}`).emit('dependency:added', {
-            todoId: data.todoId,
-            dependsOnId: data.dependsOnId,
-            workerId,
-            timestamp: new Date()
-          });
-
-          io.to(`workspace:${project.workspaceId}`).emit('dependency-graph:updated', {
-            projectId: project.id,
-            graph,
-            workerId
-          });
+      await asSocketWorker('canEditTodos', async workerId => {
+        const result = await storage.addDependency(data);
+        if (result) {
+          const project = await findProjectByTodoId(data.todoId);
+          if (project) {
+            await broadcastDependencyChange(project, 'dependency:added', data, workerId);
+          }
         }
-      }
+      });
     } catch (error) {
       socket.emit('error', { 
         message: error instanceof Error ? error.message : 'Failed to add dependency' 
@@ -378,32 +369,15 @@ io.on('connection', (socket) => {
 
   socket.on('dependency:remove', async (data: RemoveDependencyRequest) => {
     try {
-      const workerId = socketToWorker.get(socket.id);
-      if (!workerId) {
-        socket.emit('error', { message: 'Worker not registered' });
-        return;
-      }
-
-      const result = await storage.removeDependency(data);
-      if (result) {
-        const project = await findProjectByTodoId(data.todoId);
-        if (project) {
-          const graph = await storage.getDependencyGraph(project.id);
-          
-          io.to(`workspace:${project.workspaceId}`).emit('dependency:removed', {
-            todoId: data.todoId,
-            dependsOnId: data.dependsOnId,
-            workerId,
-            timestamp: new Date()
-          });
-
-          io.to(`workspace:${project.workspaceId}`).emit('dependency-graph:updated', {
-            projectId: project.id,
-            graph,
-            workerId
-          });
+      await asSocketWorker('canEditTodos', async workerId => {
+        const result = await storage.removeDependency(data);
+        if (result) {
+          const project = await findProjectByTodoId(data.todoId);
+          if (project) {
+            await broadcastDependencyChange(project, 'dependency:removed', data, workerId);
+          }
         }
-      }
+      });
     } catch (error) {
       socket.emit('error', { 
         message: error instanceof Error ? error.message : 'Failed to remove dependency' 
@@ -439,7 +413,7 @@ io.on('connection', (socket) => {
       const workerData = connectedWorkers.get(workerId);
       
       if (workerData) {
-        console.log(`👋 Worker disconnected: ${workerData.worker.name} (${workerId})`);
+        log.info(`Worker disconnected: ${workerData.worker.name}`, { workerId });
         
         // Broadcast to workspace
         socket.to(`workspace:${workerData.worker.workspaceId}`).emit('worker:disconnected', {
@@ -452,11 +426,11 @@ io.on('connection', (socket) => {
         socketToWorker.delete(socket.id);
 
         // Deregister worker from storage
-        await storage.deregisterWorker();
+        await storage.actAsWorker(workerId, () => storage.deregisterWorker(), workerData.worker.workspaceId);
       }
     }
     
-    console.log(`🔌 Client disconnected: ${socket.id}`);
+    log.debug(`Client disconnected: ${socket.id}`);
   });
 });
 
@@ -467,24 +441,17 @@ async function getWorkspaceProjects(workspaceId: string) {
 }
 
 async function findTodoById(todoId: string) {
-  const projects = await storage.listProjects();
-  for (const project of projects) {
-    const todo = project.todos.find(t => t.id === todoId);
-    if (todo) return todo;
-  }
-  return null;
+  const project = await storage.findProjectByTodoId(todoId);
+  return project?.todos.find(t => t.id === todoId) || null;
 }
 
 async function findProjectByTodoId(todoId: string) {
-  const projects = await storage.listProjects();
-  return projects.find(project => 
-    project.todos.some(todo => todo.id === todoId)
-  ) || null;
+  return storage.findProjectByTodoId(todoId);
 }
 
 function getChangedFields(oldTodo: any, newTodo: any): string[] {
   const changes: string[] = [];
-  const fields = ['title', 'description', 'status', 'priority', 'dependsOn'];
+  const fields = ['title', 'description', 'status', 'priority', 'dependsOn', 'claimedBy'];
   
   for (const field of fields) {
     if (JSON.stringify(oldTodo[field]) !== JSON.stringify(newTodo[field])) {
@@ -495,104 +462,681 @@ function getChangedFields(oldTodo: any, newTodo: any): string[] {
   return changes;
 }
 
-// REST API endpoints (for non-real-time operations)
-app.get('/api/workspaces', async (req, res) => {
-  try {
-    const workspaces = await storage.listWorkspaces();
-    res.json(workspaces);
-  } catch (error) {
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+// Broadcasts shared by the socket handlers and the REST write API, so clients see
+// the same events whichever way a change was made
+function broadcastTodoUpdated(
+  workspaceId: string,
+  projectId: string,
+  oldTodo: TodoItem,
+  todo: TodoItem,
+  workerId: string,
+  changes: string[] = getChangedFields(oldTodo, todo),
+  reclaimedFrom?: string
+) {
+  io.to(`workspace:${workspaceId}`).emit('todo:updated', {
+    todo,
+    oldTodo,
+    projectId,
+    workerId,
+    claimedBy: todo.claimedBy,
+    reclaimedFrom,
+    timestamp: new Date(),
+    changes
+  });
+}
+
+async function broadcastDependencyGraph(workspaceId: string, projectId: string, workerId: string) {
+  const graph = await storage.getDependencyGraph(projectId);
+  io.to(`workspace:${workspaceId}`).emit('dependency-graph:updated', {
+    projectId,
+    graph,
+    workerId
+  });
+}
+
+async function broadcastTodoCreated(project: Project, todo: TodoItem, workerId: string) {
+  io.to(`workspace:${project.workspaceId}`).emit('todo:created', { 
+    todo, 
+    projectId: project.id,
+    workerId,
+    timestamp: new Date()
+  });
+
+  // Check if this unblocks other todos
+  await broadcastDependencyGraph(project.workspaceId, project.id, workerId);
+}
+
+// Claiming, finishing and unclaiming always changes what is ready to work on
+async function broadcastStatusChange(project: Project, oldTodo: TodoItem, todo: TodoItem, workerId: string, changes?: string[]) {
+  broadcastTodoUpdated(project.workspaceId, project.id, oldTodo, todo, workerId, changes);
+  await broadcastDependencyGraph(project.workspaceId, project.id, workerId);
+}
+
+// Cancelling can cancel subtasks and dependents along with the todo, so clients get
+// the whole project
+async function broadcastSetStatus(project: Project, oldTodo: TodoItem, todo: TodoItem, workerId: string) {
+  await broadcastStatusChange(project, oldTodo, todo, workerId);
+  if (todo.status === 'cancelled') {
+    await broadcastProjectUpdated(project.id, workerId);
   }
-});
+}
 
-app.get('/api/projects', async (req, res) => {
-  try {
-    const projects = await storage.listProjects();
-    res.json(projects);
-  } catch (error) {
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
+// Other edits only change the graph when the status or dependencies changed
+async function broadcastTodoUpdate(project: Project, oldTodo: TodoItem, todo: TodoItem, workerId: string) {
+  const changes = getChangedFields(oldTodo, todo);
+  broadcastTodoUpdated(project.workspaceId, project.id, oldTodo, todo, workerId, changes);
+  
+  if (changes.includes('status') || changes.includes('dependsOn')) {
+    await broadcastDependencyGraph(project.workspaceId, project.id, workerId);
+  }
+}
+
+async function broadcastDependencyChange(
+  project: Project,
+  event: 'dependency:added' | 'dependency:removed',
+  dependency: { todoId: string; dependsOnId: string },
+  workerId: string
+) {
+  io.to(`workspace:${project.workspaceId}`).emit(event, {
+    todoId: dependency.todoId,
+    dependsOnId: dependency.dependsOnId,
+    workerId,
+    timestamp: new Date()
+  });
+
+  await broadcastDependencyGraph(project.workspaceId, project.id, workerId);
+}
+
+// Phase and document changes are sent as the whole updated project
+async function broadcastProjectUpdated(projectId: string, workerId: string) {
+  const project = await storage.getProject(projectId);
+  if (project) {
+    io.to(`workspace:${project.workspaceId}`).emit('project:updated', {
+      project,
+      workerId,
+      timestamp: new Date()
     });
   }
-});
+}
 
-app.get('/api/projects/:id', async (req, res) => {
-  try {
-    const project = await storage.getProject(req.params.id);
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
+// Project changes logged by other processes, reduced to the events a socket or REST
+// write would have sent. Todos are sent as they are now, so a burst of edits to one
+// todo arrives as a single update.
+async function broadcastExternalProjectChanges({ workspaceId, projectId, events }: ChangeLogBatch) {
+  await storage.invalidateCaches(workspaceId, projectId!);
+  const project = await storage.getProject(projectId!);
+  if (!project) return;  // Deleted since; the workspace log reports that
+  
+  const room = io.to(`workspace:${workspaceId}`);
+  const workerId = events[events.length - 1].workerId;
+  const updatedTodos = new Map<string, { oldTodo: TodoItem; workerId: string }>();
+  let projectChanged = false;
+  let graphChanged = false;
+  
+  for (const event of events) {
+    switch (event.type) {
+      case 'todo.created': {
+        const todo = project.todos.find(t => t.id === event.entityId);
+        if (todo) {
+          room.emit('todo:created', { todo, projectId: project.id, workerId: event.workerId, timestamp: event.timestamp });
+        }
+        graphChanged = true;
+        break;
+      }
+      case 'todo.updated':
+        // Keep the state from before the first of several updates
+        updatedTodos.set(event.entityId, {
+          oldTodo: updatedTodos.get(event.entityId)?.oldTodo || event.oldValue as TodoItem,
+          workerId: event.workerId
+        });
+        break;
+      case 'todo.deleted':
+        updatedTodos.delete(event.entityId);
+        room.emit('todo:deleted', { todoId: event.entityId, projectId: project.id, workerId: event.workerId, timestamp: event.timestamp });
+        graphChanged = true;
+        break;
+      case 'todo.dependency.added':
+      case 'todo.dependency.removed':
+        graphChanged = true;
+        break;
+      case 'todo.reordered':
+      case 'project.updated':
+      case 'phase.created':
+      case 'phase.updated':
+      case 'phase.deleted':
+      case 'document.attached':
+      case 'document.removed':
+        projectChanged = true;
+        break;
     }
-    res.json(project);
-  } catch (error) {
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
   }
-});
+  
+  for (const [todoId, { oldTodo, workerId }] of updatedTodos) {
+    const todo = project.todos.find(t => t.id === todoId);
+    if (!todo) continue;
+    
+    const changes = getChangedFields(oldTodo, todo);
+    broadcastTodoUpdated(workspaceId, project.id, oldTodo, todo, workerId, changes);
+    graphChanged = graphChanged || changes.includes('status') || changes.includes('dependsOn');
+  }
+  
+  if (projectChanged) {
+    room.emit('project:updated', { project, workerId, timestamp: new Date() });
+  }
+  if (graphChanged) {
+    await broadcastDependencyGraph(workspaceId, project.id, workerId);
+  }
+}
 
-app.get('/api/projects/:id/dependency-graph', async (req, res) => {
-  try {
-    const graph = await storage.getDependencyGraph(req.params.id);
-    if (!graph) {
-      return res.status(404).json({ error: 'Project not found' });
+async function broadcastExternalWorkspaceChanges({ workspaceId, events }: ChangeLogBatch) {
+  await storage.invalidateCaches(workspaceId);
+  const room = io.to(`workspace:${workspaceId}`);
+  
+  for (const event of events) {
+    switch (event.type) {
+      case 'workspace.project.created': {
+        const project = await storage.getProject(event.entityId);
+        if (project) {
+          room.emit('project:created', { project, workerId: event.workerId });
+        }
+        break;
+      }
+      case 'workspace.project.deleted':
+        room.emit('project:deleted', { projectId: event.entityId, workerId: event.workerId, timestamp: event.timestamp });
+        break;
+      case 'workspace.worker.registered':
+        room.emit('worker:joined', event.newValue);
+        break;
+      case 'workspace.worker.deregistered':
+        room.emit('worker:disconnected', { workerId: event.entityId, timestamp: event.timestamp });
+        break;
+      case 'workspace.storage.updated':
+        await watchRepoAuditLogs(workspaceId);
+        break;
     }
-    res.json(graph);
-  } catch (error) {
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
   }
-});
+}
 
-app.get('/api/projects/:id/available-work', async (req, res) => {
-  try {
-    const workerId = req.query.workerId as string;
-    const availableWork = await storage.getAvailableWork(req.params.id, workerId);
-    res.json(availableWork);
-  } catch (error) {
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+// Workspaces in repo mode may keep project audit logs in the repository, outside the data root
+async function watchRepoAuditLogs(workspaceId: string) {
+  const { auditLogs, auditDirectory } = await storage.getWorkspaceStorage(workspaceId);
+  if (auditLogs === 'repo' && auditDirectory) {
+    await changeLogWatcher.watchAuditDir(workspaceId, auditDirectory);
   }
-});
+}
 
-app.get('/api/projects/:id/changes', async (req, res) => {
-  try {
-    const limit = parseInt(req.query.limit as string) || 50;
-    const entityType = req.query.entityType as string;
-    const entityId = req.query.entityId as string;
-    
-    const changes = await storage.getProjectChangeHistory(req.params.id, entityType, entityId);
-    res.json(changes.slice(0, limit));
-  } catch (error) {
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+// REST API endpoints (for non-real-time operations)
+app.get('/api/workspaces', readRoute(async () => undefined, async (req, res) => {
+  const workspaces = await storage.listWorkspaces();
+  const readable = await Promise.all(workspaces.map(workspace => storage.canReadWorkspace(workspace.id)));
+  res.json(workspaces.map((workspace, i) => readable[i] ? workspace : { ...workspace, projects: [] }));
+}));
+
+app.get('/api/projects', readRoute(async () => undefined, async (req, res) => {
+  const projects = await storage.listProjects();
+  const readable = await Promise.all(projects.map(project => storage.canReadWorkspace(project.workspaceId)));
+  res.json(projects.filter((project, i) => readable[i]));
+}));
+
+app.get('/api/projects/:id', readRoute(projectWorkspace, async (req, res) => {
+  const project = await storage.getProject(req.params.id);
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
   }
+  res.json(project);
+}));
+
+app.get('/api/projects/:id/dependency-graph', readRoute(projectWorkspace, async (req, res) => {
+  const graph = await storage.getDependencyGraph(req.params.id);
+  if (!graph) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  res.json(graph);
+}));
+
+app.get('/api/projects/:id/available-work', readRoute(projectWorkspace, async (req, res) => {
+  const workerId = req.query.workerId as string;
+  const availableWork = await storage.getAvailableWork(req.params.id, workerId);
+  res.json(availableWork);
+}));
+
+app.get('/api/projects/:id/changes', readRoute(projectWorkspace, async (req, res) => {
+  const limit = parseInt(req.query.limit as string) || 50;
+  const entityType = req.query.entityType as string;
+  const entityId = req.query.entityId as string;
+  
+  const project = await storage.getProject(req.params.id);
+  const changes = await storage.getProjectChangeHistory(req.params.id, entityType, entityId);
+  const visible = project ? await storage.visibleChanges(project.workspaceId, changes) : changes;
+  res.json(visible.slice(0, limit));
+}));
+
+app.get('/api/workspaces/:id/workers', readRoute(async req => req.params.id, async (req, res) => {
+  const workers = await storage.getWorkspaceWorkers(req.params.id);
+  const connectedWorkerIds = Array.from(connectedWorkers.keys());
+  
+  // Add real-time connection status
+  const workersWithStatus = workers.map(worker => ({
+    ...worker,
+    isConnected: connectedWorkerIds.includes(worker.id),
+    socketId: connectedWorkers.get(worker.id)?.socketId
+  }));
+  
+  res.json(workersWithStatus);
+}));
+
+// REST write API for clients without a websocket (CI scripts, bots). Mirrors the MCP
+// tools; every write needs the X-Worker-Id header of a worker from POST /api/workers,
+// and is checked against that worker's role like the tools are.
+function errorStatus(error: unknown): number {
+  if (error instanceof ValidationError) return 400;
+  if (error instanceof WorkerNotFoundError || error instanceof AuthenticationError) return 401;
+  if (error instanceof PermissionDeniedError) return 403;
+  if (error instanceof ConflictError || error instanceof ClaimOwnershipError || error instanceof WorkerIdentityInUseError) return 409;
+  if (error instanceof LockTimeoutError) return 503;
+  return 500;
+}
+
+type WriteHandler = (req: express.Request, res: express.Response, workerId: string) => Promise<unknown>;
+
+// API token from "Authorization: Bearer <token>"
+function bearerToken(req: express.Request): string | undefined {
+  return req.header('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+}
+
+// Workers registered with a token must send it with every write, since worker IDs are
+// visible to everyone in the workspace
+function writeRoute(permission: keyof AuditPermissions | null, handler: WriteHandler): express.RequestHandler {
+  return async (req, res) => {
+    const workerId = req.header(WORKER_HEADER);
+    if (!workerId) {
+      res.status(401).json({ error: `Missing ${WORKER_HEADER} header. Register a worker with POST /api/workers first.` });
+      return;
+    }
+    
+    try {
+      await storage.actAsWorker(workerId, async () => {
+        await storage.verifyWorkerToken(bearerToken(req));
+        if (permission) {
+          await storage.assertPermission(permission);
+        }
+        return handler(req, res, workerId);
+      }, req.header(WORKSPACE_HEADER));
+    } catch (error) {
+      res.status(errorStatus(error)).json({ 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+    }
+  };
+}
+
+type ReadHandler = (req: express.Request, res: express.Response) => Promise<unknown>;
+
+// Workspace whose data a read route serves, undefined when the route spans workspaces or
+// the target doesn't exist
+type WorkspaceResolver = (req: express.Request) => Promise<string | undefined>;
+
+async function projectWorkspace(req: express.Request): Promise<string | undefined> {
+  return (await storage.getProject(req.params.id))?.workspaceId;
+}
+
+// Reads of open workspaces need no worker. Workspaces that issued API tokens are only
+// readable with the X-Worker-Id header (and token) of a worker registered there.
+function readRoute(workspaceOf: WorkspaceResolver, handler: ReadHandler): express.RequestHandler {
+  const read = async (req: express.Request, res: express.Response) => {
+    const workspaceId = await workspaceOf(req);
+    if (workspaceId) {
+      await storage.assertReadAccess(workspaceId);
+    }
+    return handler(req, res);
+  };
+  
+  return async (req, res) => {
+    const workerId = req.header(WORKER_HEADER);
+    try {
+      if (!workerId) {
+        await read(req, res);
+        return;
+      }
+      await storage.actAsWorker(workerId, async () => {
+        await storage.verifyWorkerToken(bearerToken(req));
+        return read(req, res);
+      }, req.header(WORKSPACE_HEADER));
+    } catch (error) {
+      res.status(errorStatus(error)).json({ 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+    }
+  };
+}
+
+app.get('/api/openapi.json', (req, res) => {
+  res.sendFile(path.join(__dirname, 'shared', 'openapi.json'));
 });
 
-app.get('/api/workspaces/:id/workers', async (req, res) => {
+app.post('/api/workers', async (req, res) => {
   try {
-    const workers = await storage.getWorkspaceWorkers(req.params.id);
-    const connectedWorkerIds = Array.from(connectedWorkers.keys());
+    const { name, capabilities, purpose, workspacePath } = req.body as RegisterWorkerBody;
+    const workspace = await storage.getOrCreateWorkspace(workspacePath || process.cwd());
     
-    // Add real-time connection status
-    const workersWithStatus = workers.map(worker => ({
-      ...worker,
-      isConnected: connectedWorkerIds.includes(worker.id),
-      socketId: connectedWorkers.get(worker.id)?.socketId
-    }));
+    const { worker } = await storage.registerExternalWorker(workspace.id, {
+      name,
+      capabilities: capabilities || [],
+      metadata: { purpose: purpose || 'REST API client' },
+      token: bearerToken(req)
+    });
     
-    res.json(workersWithStatus);
+    io.to(`workspace:${workspace.id}`).emit('worker:joined', worker);
+    res.status(201).json(worker);
   } catch (error) {
-    res.status(500).json({ 
+    res.status(errorStatus(error)).json({ 
       error: error instanceof Error ? error.message : 'Unknown error' 
     });
   }
 });
 
+app.delete('/api/workers/:id', writeRoute(null, async (req, res, workerId) => {
+  if (req.params.id !== workerId) {
+    return res.status(403).json({ error: 'Workers can only deregister themselves' });
+  }
+  
+  const worker = await storage.getCurrentWorker();
+  await storage.deregisterWorker();
+  
+  io.to(`workspace:${worker!.workspaceId}`).emit('worker:disconnected', {
+    workerId,
+    timestamp: new Date()
+  });
+  res.sendStatus(204);
+}));
+
+// Search and export expose todo content, so like writes they need a worker, with its
+// token if it has one, and only see the worker's workspace.
+// Query parameters: q (filter expression), projectId, sort, limit, offset
+app.get('/api/search', writeRoute(null, async (req, res) => {
+  const worker = await storage.getCurrentWorker();
+  const result = await storage.searchTodos({
+    query: req.query.q as string,
+    workspaceId: worker!.workspaceId,
+    projectId: req.query.projectId as string,
+    sort: req.query.sort as string,
+    limit: parseInt(req.query.limit as string) || undefined,
+    offset: parseInt(req.query.offset as string) || undefined
+  });
+  res.json(result);
+}));
+
+app.get('/api/projects/:id/export', writeRoute(null, async (req, res) => {
+  const worker = await storage.getCurrentWorker();
+  const project = await storage.getProject(req.params.id);
+  if (!project || project.workspaceId !== worker!.workspaceId) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  
+  const format = (req.query.format as ProjectExportFormat) || 'json';
+  const content = await storage.exportProject(req.params.id, format);
+  if (content === null) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  res.type(contentType).attachment(`project-${req.params.id}.${extension}`).send(content);
+}));
+
+app.post('/api/projects/import', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const result = await storage.importProject(req.body as ImportProjectBody);
+  
+  io.to(`workspace:${result.project.workspaceId}`).emit('project:created', { project: result.project, workerId });
+  res.status(201).json(result);
+}));
+
+app.post('/api/projects', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const { name, description, workspacePath } = req.body as CreateProjectBody;
+  const project = await storage.createProject({ name, description, workspacePath });
+  
+  io.to(`workspace:${project.workspaceId}`).emit('project:created', { project, workerId });
+  res.status(201).json(project);
+}));
+
+app.patch('/api/projects/:id', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const { name, description } = req.body as UpdateProjectBody;
+  const updates = Object.fromEntries(
+    Object.entries({ name, description }).filter(([, value]) => value !== undefined)
+  );
+  
+  const project = await storage.updateProject(req.params.id, updates);
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  
+  io.to(`workspace:${project.workspaceId}`).emit('project:updated', { project, workerId, timestamp: new Date() });
+  res.json(project);
+}));
+
+app.delete('/api/projects/:id', writeRoute('canDeleteTodos', async (req, res, workerId) => {
+  const project = await storage.getProject(req.params.id);
+  if (!project || !await storage.deleteProject(req.params.id)) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  
+  io.to(`workspace:${project.workspaceId}`).emit('project:deleted', {
+    projectId: project.id,
+    workerId,
+    timestamp: new Date()
+  });
+  res.sendStatus(204);
+}));
+
+app.post('/api/projects/:id/todos', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const body = req.body as CreateTodoBody;
+  const todo = await storage.createTodo({
+    projectId: req.params.id,
+    title: body.title,
+    description: body.description,
+    phaseId: body.phaseId,
+    dependsOn: body.dependsOn,
+    estimatedDuration: body.estimatedDuration,
+    priority: body.priority,
+    ...parseAreas(body.areas, body.primaryArea),
+    notes: body.notes,
+    recurrence: body.recurrence,
+    parentId: body.parentId
+  });
+  
+  const project = todo && await storage.getProject(req.params.id);
+  if (!todo || !project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  
+  await broadcastTodoCreated(project, todo, workerId);
+  res.status(201).json(todo);
+}));
+
+app.patch('/api/todos/:id', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const { expectedVersion, ...changes } = req.body as UpdateTodoBody;
+  const oldTodo = await findTodoById(req.params.id);
+  const todo = await storage.updateTodo({ ...changes, id: req.params.id }, { workerId, expectedVersion });
+  
+  const project = todo && await findProjectByTodoId(req.params.id);
+  if (!todo || !oldTodo || !project) {
+    return res.status(404).json({ error: 'Todo not found' });
+  }
+  
+  await broadcastTodoUpdate(project, oldTodo, todo, workerId);
+  res.json(todo);
+}));
+
+app.delete('/api/todos/:id', writeRoute('canDeleteTodos', async (req, res, workerId) => {
+  const project = await findProjectByTodoId(req.params.id);
+  if (!project || !await storage.deleteTodo(req.params.id)) {
+    return res.status(404).json({ error: 'Todo not found' });
+  }
+  
+  io.to(`workspace:${project.workspaceId}`).emit('todo:deleted', {
+    todoId: req.params.id,
+    projectId: project.id,
+    workerId,
+    timestamp: new Date()
+  });
+  await broadcastDependencyGraph(project.workspaceId, project.id, workerId);
+  res.sendStatus(204);
+}));
+
+app.post('/api/todos/:id/claim', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const { expectedVersion } = req.body as ClaimTodoBody;
+  const oldTodo = await findTodoById(req.params.id);
+  const todo = await storage.changeStatus(req.params.id, 'in-progress', { workerId, expectedVersion });
+  
+  const project = todo && await findProjectByTodoId(req.params.id);
+  if (!todo || !oldTodo || !project) {
+    return res.status(404).json({ error: 'Todo not found' });
+  }
+  
+  await broadcastStatusChange(project, oldTodo, todo, workerId, ['status', 'claimedBy']);
+  res.json(todo);
+}));
+
+// Same as finish_todo: a completion summary is required
+app.post('/api/todos/:id/finish', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const { completionSummary, force } = req.body as FinishTodoBody;
+  const oldTodo = await findTodoById(req.params.id);
+  const todo = await storage.updateTodo(
+    { id: req.params.id, status: 'completed', completionSummary },
+    { workerId, force }
+  );
+  
+  const project = todo && await findProjectByTodoId(req.params.id);
+  if (!todo || !oldTodo || !project) {
+    return res.status(404).json({ error: 'Todo not found' });
+  }
+  
+  await broadcastStatusChange(project, oldTodo, todo, workerId);
+  res.json(todo);
+}));
+
+app.post('/api/todos/:id/unclaim', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const { force } = req.body as UnclaimTodoBody;
+  const oldTodo = await findTodoById(req.params.id);
+  const todo = await storage.changeStatus(req.params.id, 'pending', { workerId, force });
+  
+  const project = todo && await findProjectByTodoId(req.params.id);
+  if (!todo || !oldTodo || !project) {
+    return res.status(404).json({ error: 'Todo not found' });
+  }
+  
+  await broadcastStatusChange(project, oldTodo, todo, workerId);
+  res.json(todo);
+}));
+
+app.post('/api/todos/:id/status', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const { status, ...options } = req.body as SetTodoStatusBody;
+  // Starting and completing go through claim and finish
+  if (!['pending', 'blocked', 'failed', 'cancelled'].includes(status)) {
+    throw new ValidationError('Status must be one of: pending, blocked, failed, cancelled');
+  }
+  const oldTodo = await findTodoById(req.params.id);
+  const todo = await storage.changeStatus(req.params.id, status, { workerId, ...options });
+  
+  const project = todo && await findProjectByTodoId(req.params.id);
+  if (!todo || !oldTodo || !project) {
+    return res.status(404).json({ error: 'Todo not found' });
+  }
+  
+  await broadcastSetStatus(project, oldTodo, todo, workerId);
+  res.json(todo);
+}));
+
+app.post('/api/projects/:id/phases', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const { name, description } = req.body as CreatePhaseBody;
+  const phase = await storage.createPhase({ projectId: req.params.id, name, description });
+  if (!phase) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  
+  await broadcastProjectUpdated(req.params.id, workerId);
+  res.status(201).json(phase);
+}));
+
+app.patch('/api/projects/:id/phases/:phaseId', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const { name, description } = req.body as UpdatePhaseBody;
+  const phase = await storage.updatePhase({ projectId: req.params.id, phaseId: req.params.phaseId, name, description });
+  if (!phase) {
+    return res.status(404).json({ error: 'Phase not found' });
+  }
+  
+  await broadcastProjectUpdated(req.params.id, workerId);
+  res.json(phase);
+}));
+
+// Query parameters: moveTodosToPhaseId (todos are unassigned when omitted)
+app.delete('/api/projects/:id/phases/:phaseId', writeRoute('canDeleteTodos', async (req, res, workerId) => {
+  const deleted = await storage.deletePhase({
+    projectId: req.params.id,
+    phaseId: req.params.phaseId,
+    moveTodosToPhaseId: req.query.moveTodosToPhaseId as string
+  });
+  if (!deleted) {
+    return res.status(404).json({ error: 'Phase not found' });
+  }
+  
+  await broadcastProjectUpdated(req.params.id, workerId);
+  res.sendStatus(204);
+}));
+
+app.post('/api/projects/:id/documents', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const body = req.body as AttachDocumentBody;
+  const document = await storage.attachDocument({
+    projectId: req.params.id,
+    type: body.type,
+    title: body.title,
+    url: body.url,
+    filePath: body.filePath,
+    confluenceSpace: body.confluenceSpace,
+    confluencePage: body.confluencePage
+  });
+  if (!document) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  
+  await broadcastProjectUpdated(req.params.id, workerId);
+  res.status(201).json(document);
+}));
+
+app.delete('/api/projects/:id/documents/:documentId', writeRoute('canDeleteTodos', async (req, res, workerId) => {
+  if (!await storage.removeDocument(req.params.id, req.params.documentId)) {
+    return res.status(404).json({ error: 'Document not found' });
+  }
+  
+  await broadcastProjectUpdated(req.params.id, workerId);
+  res.sendStatus(204);
+}));
+
+app.post('/api/todos/:id/dependencies', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const dependency = { todoId: req.params.id, dependsOnId: (req.body as AddDependencyBody).dependsOnId };
+  const todo = await storage.addDependency(dependency);
+  
+  const project = todo && await findProjectByTodoId(req.params.id);
+  if (!todo || !project) {
+    return res.status(404).json({ error: 'Todo not found' });
+  }
+  
+  await broadcastDependencyChange(project, 'dependency:added', dependency, workerId);
+  res.status(201).json(todo);
+}));
+
+app.delete('/api/todos/:id/dependencies/:dependsOnId', writeRoute('canEditTodos', async (req, res, workerId) => {
+  const dependency = { todoId: req.params.id, dependsOnId: req.params.dependsOnId };
+  const todo = await storage.removeDependency(dependency);
+  
+  const project = todo && await findProjectByTodoId(req.params.id);
+  if (!todo || !project) {
+    return res.status(404).json({ error: 'Todo not found' });
+  }
+  
+  await broadcastDependencyChange(project, 'dependency:removed', dependency, workerId);
+  res.json(todo);
+}));
+
 // Serve the web interface
 app.get('/', (req, res) => {
   res.sendFile(path.join(__dirname, 'public', 'index.html'));
@@ -600,31 +1144,59 @@ app.get('/', (req, res) => {
 
 const PORT = process.env.PORT || 3003;
 server.listen(PORT, () => {
-  console.log(`🚀 Scoped todos server running on http://localhost:${PORT}`);
-  console.log(`🔌 WebSocket server ready for real-time collaboration`);
+  log.info(`Scoped todos server running on http://localhost:${PORT}`, { port: PORT });
 });
 
+changeLogWatcher.start()
+  .then(async () => {
+    for (const workspace of await storage.listWorkspaces()) {
+      await watchRepoAuditLogs(workspace.id);
+    }
+  })
+  .catch(error => {
+    log.error('Changes made by MCP servers will not be broadcast', { error });
+  });
+
+// Sweep for expired workers even when no client is listing workers
+setInterval(() => {
+  storage.cleanupInactiveWorkers().catch(error => log.error('Worker cleanup failed', { error }));
+}, 60 * 1000);
+
+// Recurring todos come back once their next time has come
+setInterval(async () => {
+  try {
+    for (const { todo, projectId } of await storage.regenerateRecurringTodos()) {
+      const project = await storage.getProject(projectId);
+      if (project) await broadcastTodoCreated(project, todo, 'system');
+    }
+  } catch (error) {
+    log.error('Recurring todo check failed', { error });
+  }
+}, 60 * 1000);
+
 // Graceful shutdown
 process.on('SIGINT', async () => {
-  console.log('\n🛑 Shutting down server...');
+  log.info('Shutting down server');
   
   // Disconnect all workers
   for (const [workerId, data] of connectedWorkers) {
     try {
-      await storage.deregisterWorker();
+      await storage.actAsWorker(workerId, () => storage.deregisterWorker(), data.worker.workspaceId);
     } catch (error) {
-      console.error(`Failed to deregister worker ${workerId}:`, error);
+      log.error(`Failed to deregister worker ${workerId}`, { error });
     }
   }
   
+  changeLogWatcher.stop();
   await storage.shutdown();
   server.close(() => {
-    console.log('✅ Server shutdown complete');
+    log.info('Server shutdown complete');
     process.exit(0);
   });
 });
 
 process.on('SIGTERM', async () => {
+  changeLogWatcher.stop();
   await storage.shutdown();
   process.exit(0);
 });
\ No newline at end of file
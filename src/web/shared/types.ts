@@ -9,13 +9,16 @@ export interface Project {
   documents: Document[];
   createdAt: Date;
   updatedAt: Date;
+  version: number;
 }
 
 export interface TodoItem {
   id: string;
   title: string;
   description?: string;
-  status: 'pending' | 'in-progress' | 'completed';
+  status: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'failed' | 'cancelled';
+  statusReason?: string;    // Why a todo is blocked, failed or cancelled
+  failureBlocksDependents?: boolean;
   phaseId?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -27,6 +30,18 @@ export interface TodoItem {
   estimatedDuration?: number;
   actualDuration?: number;
   priority: 'low' | 'medium' | 'high' | 'critical';
+  areas: string[];
+  primaryArea: string;
+  notes?: string;
+  completionSummary?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  claimedBy?: string;
+  claimedAt?: Date;
+  recurrence?: string;
+  recurrenceOf?: string;
+  parentId?: string;
+  version: number;
 }
 
 export interface Phase {
@@ -60,6 +75,10 @@ export interface ScopedWorkerIdentity {
   registeredAt: Date;
   lastSeen: Date;
   currentProjectId?: string;
+  role: 'viewer' | 'worker' | 'admin';
+  tokenId?: string;
+  identity?: string;
+  previousSession?: { sessionId: string; lastSeen: Date };
   isConnected?: boolean;
   metadata: {
     model?: string;
@@ -99,7 +118,7 @@ export interface DependencyGraphNode {
 // WebSocket event types
 export interface SocketEvents {
   // Worker events
-  'worker:register': (data: { name: string; capabilities: string[]; purpose?: string; workspacePath?: string }) => void;
+  'worker:register': (data: { name: string; capabilities: string[]; purpose?: string; workspacePath?: string; token?: string }) => void;
   'worker:registered': (data: { worker: ScopedWorkerIdentity; workspace: Workspace }) => void;
   'worker:registration-failed': (data: { error: string }) => void;
   'worker:heartbeat': () => void;
@@ -109,12 +128,16 @@ export interface SocketEvents {
   // Project events
   'project:create': (data: { name: string; description?: string; workspacePath?: string }) => void;
   'project:created': (data: { project: Project; workerId: string }) => void;
+  'project:updated': (data: { project: Project; workerId: string; timestamp: Date }) => void;
+  'project:deleted': (data: { projectId: string; workerId: string; timestamp: Date }) => void;
   
   // Todo events
   'todo:create': (data: { projectId: string; title: string; description?: string; dependsOn?: string[]; priority?: string; estimatedDuration?: number }) => void;
   'todo:created': (data: { todo: TodoItem; projectId: string; workerId: string; timestamp: Date }) => void;
   'todo:update': (data: { id: string; title?: string; description?: string; status?: string; dependsOn?: string[] }) => void;
-  'todo:updated': (data: { todo: TodoItem; oldTodo: TodoItem; projectId: string; workerId: string; timestamp: Date; changes: string[] }) => void;
+  'todo:set-status': (data: { todoId: string } & SetTodoStatusBody) => void;
+  'todo:updated': (data: { todo: TodoItem; oldTodo: TodoItem; projectId: string; workerId: string; claimedBy?: string; reclaimedFrom?: string; timestamp: Date; changes: string[] }) => void;
+  'todo:deleted': (data: { todoId: string; projectId: string; workerId: string; timestamp: Date }) => void;
   
   // Dependency events
   'dependency:add': (data: { todoId: string; dependsOnId: string }) => void;
@@ -144,4 +167,163 @@ export interface LiveUpdateEvent {
   message: string;
   projectId?: string;
   todoId?: string;
+}
+
+// REST write API request bodies. Writes act for the worker named in the X-Worker-Id
+// header; register one with POST /api/workers first. Workspaces that issued API tokens
+// also need "Authorization: Bearer <token>" on registration and every write.
+export interface RegisterWorkerBody {
+  name: string;
+  capabilities?: string[];
+  purpose?: string;
+  workspacePath?: string;
+}
+
+export interface CreateProjectBody {
+  name: string;
+  description?: string;
+  workspacePath: string;
+}
+
+export interface UpdateProjectBody {
+  name?: string;
+  description?: string;
+}
+
+export interface CreateTodoBody {
+  title: string;
+  description?: string;
+  phaseId?: string;
+  dependsOn?: string[];
+  estimatedDuration?: number;
+  priority?: 'low' | 'medium' | 'high' | 'critical';
+  areas: string[];
+  primaryArea?: string;
+  notes?: string;
+  recurrence?: string;
+  parentId?: string;
+}
+
+export interface UpdateTodoBody {
+  title?: string;
+  description?: string;
+  status?: 'pending' | 'in-progress' | 'completed';
+  phaseId?: string;
+  dependsOn?: string[];
+  estimatedDuration?: number;
+  actualDuration?: number;
+  priority?: 'low' | 'medium' | 'high' | 'critical';
+  notes?: string;
+  completionSummary?: string;
+  recurrence?: string;
+  parentId?: string;
+  expectedVersion?: number;
+}
+
+export interface ClaimTodoBody {
+  expectedVersion?: number;
+}
+
+export interface FinishTodoBody {
+  completionSummary: string;
+  force?: boolean;
+}
+
+export interface UnclaimTodoBody {
+  force?: boolean;
+}
+
+// Blocking, failing and cancelling need a reason. Failed todos block their dependents
+// unless dependentsPolicy is "unblock"; cancelled ones unblock them, or cancel them too
+// with "cascade".
+export interface SetTodoStatusBody {
+  status: 'pending' | 'blocked' | 'failed' | 'cancelled';
+  reason?: string;
+  dependentsPolicy?: 'block' | 'unblock' | 'cascade';
+  force?: boolean;
+}
+
+export interface CreatePhaseBody {
+  name: string;
+  description?: string;
+}
+
+export interface UpdatePhaseBody {
+  name?: string;
+  description?: string;
+}
+
+export interface AttachDocumentBody {
+  type: 'link' | 'file' | 'confluence';
+  title: string;
+  url?: string;
+  filePath?: string;
+  confluenceSpace?: string;
+  confluencePage?: string;
+}
+
+export interface AddDependencyBody {
+  dependsOnId: string;
+}
+
+// Project export as produced by GET /api/projects/:id/export?format=json, or in the
+// format named here
+export interface ImportProjectBody {
+  workspacePath: string;
+  format: 'markdown' | 'json' | 'csv';
+  content: string;
+  name?: string;            // Required for CSV, which carries no project name
+}
+
+export interface ImportProjectResult {
+  project: Project;
+  batchId: string;
+  idMap: Record<string, string>;  // Exported todo reference -> new todo ID
+  warnings: string[];
+}
+
+export interface TodoSearchHit {
+  todo: TodoItem;
+  projectId: string;
+  projectName: string;
+  workspaceId: string;
+}
+
+export interface SearchTodosResult {
+  hits: TodoSearchHit[];
+  total: number;            // Matches before pagination
+  offset: number;
+  limit: number;
+}
+
+export interface FieldChange {
+  field: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  type: 'added' | 'modified' | 'removed';
+}
+
+// Entry of a project's change history
+export interface ChangeEvent {
+  id: string;
+  workerId: string;
+  sessionId: string;
+  timestamp: Date;
+  type: string;
+  entityType: string;
+  entityId: string;
+  projectId?: string;
+  workspaceId: string;
+  action: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  changes: FieldChange[];
+  reason?: string;
+  relatedChanges: string[];
+  conflictsWith?: string[];
+  duration?: number;
+}
+
+export interface ApiError {
+  error: string;
 }
\ No newline at end of file
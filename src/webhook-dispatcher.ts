@@ -0,0 +1,268 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDataRoot } from './paths.js';
+import { createHmac, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ChangeEvent, WebhookSubscription, CreateWebhookRequest, WebhookDeadLetter } from './tracking-types.js';
+import { ValidationError } from './validation.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('webhooks');
+
+export interface WebhookDispatcherOptions {
+  maxAttempts: number;        // Including the first delivery
+  retryBaseDelayMs: number;   // Tripled after every failed attempt
+  requestTimeoutMs: number;
+}
+
+interface PendingDelivery {
+  id: string;
+  subscription: WebhookSubscription;
+  event: ChangeEvent;
+  attempts: number;
+  lastError?: string;
+  timer?: NodeJS.Timeout;
+}
+
+const EVENT_PATTERN = /^(\*|[a-z]+(\.[a-z]+)*(\.\*)?)$/;
+
+// Receivers recompute this over the X-Todos-Timestamp header and the raw body
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Per-workspace webhook subscriptions, and delivery of the change events this process
+ * logs to them.
+ *
+ * Every process delivers only its own events, so changes made through the MCP server
+ * and the web server each reach subscribers once. Failed deliveries are retried with
+ * backoff and end up in data/<workspace>/webhooks-dead-letter.jsonl.
+ */
+export class WebhookDispatcher {
+  private baseDir = getDataRoot();
+  private dataDir = path.join(this.baseDir, 'data');
+  private options: WebhookDispatcherOptions;
+
+  // Subscriptions per workspace, reloaded when another process changed the file
+  private cache = new Map<string, { mtimeMs: number; subscriptions: WebhookSubscription[] }>();
+  private pending = new Map<string, PendingDelivery>();
+
+  constructor(options: Partial<WebhookDispatcherOptions> = {}) {
+    this.options = {
+      maxAttempts: 6,
+      retryBaseDelayMs: 5000,
+      requestTimeoutMs: 10000,
+      ...options
+    };
+  }
+
+  private getSubscriptionsFile(workspaceId: string): string {
+    return path.join(this.dataDir, workspaceId, 'webhooks.json');
+  }
+
+  private getDeadLetterFile(workspaceId: string): string {
+    return path.join(this.dataDir, workspaceId, 'webhooks-dead-letter.jsonl');
+  }
+
+  private async load(workspaceId: string): Promise<WebhookSubscription[]> {
+    const subscriptionsFile = this.getSubscriptionsFile(workspaceId);
+
+    try {
+      const { mtimeMs } = await fs.stat(subscriptionsFile);
+      const cached = this.cache.get(workspaceId);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.subscriptions;
+      }
+
+      const { subscriptions } = JSON.parse(await fs.readFile(subscriptionsFile, 'utf-8'));
+      this.cache.set(workspaceId, { mtimeMs, subscriptions });
+      return subscriptions;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  // Callers hold the workspace lock
+  private async save(workspaceId: string, subscriptions: WebhookSubscription[]): Promise<void> {
+    const subscriptionsFile = this.getSubscriptionsFile(workspaceId);
+    await fs.mkdir(path.dirname(subscriptionsFile), { recursive: true });
+
+    // Holds the signing secrets
+    const tempFile = `${subscriptionsFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify({ version: '1.0.0', subscriptions }, null, 2), { mode: 0o600 });
+    await fs.rename(tempFile, subscriptionsFile);
+    this.cache.delete(workspaceId);
+  }
+
+  async list(workspaceId: string): Promise<WebhookSubscription[]> {
+    return this.load(workspaceId);
+  }
+
+  async create(request: CreateWebhookRequest & { createdBy: string }): Promise<WebhookSubscription> {
+    let url: URL;
+    try {
+      url = new URL(request.url);
+    } catch {
+      throw new ValidationError(`Invalid webhook URL: ${request.url}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new ValidationError('Webhook URL must use http or https');
+    }
+
+    const eventTypes = request.eventTypes?.length ? request.eventTypes : ['*'];
+    const invalid = eventTypes.filter(type => !EVENT_PATTERN.test(type));
+    if (invalid.length > 0) {
+      throw new ValidationError(`Invalid event types: ${invalid.join(', ')}. Use change types like "todo.updated", prefixes like "todo.*" or "*"`);
+    }
+
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      workspaceId: request.workspaceId,
+      url: url.toString(),
+      secret: request.secret || 'whsec_' + randomBytes(24).toString('base64url'),
+      eventTypes,
+      projectIds: request.projectIds || [],
+      createdAt: new Date(),
+      createdBy: request.createdBy
+    };
+
+    await this.save(request.workspaceId, [...await this.load(request.workspaceId), subscription]);
+    return subscription;
+  }
+
+  async remove(workspaceId: string, subscriptionId: string): Promise<WebhookSubscription | null> {
+    const subscriptions = await this.load(workspaceId);
+    const removed = subscriptions.find(s => s.id === subscriptionId);
+    if (!removed) return null;
+
+    await this.save(workspaceId, subscriptions.filter(s => s.id !== subscriptionId));
+    for (const delivery of this.pending.values()) {
+      if (delivery.subscription.id === subscriptionId) {
+        clearTimeout(delivery.timer);
+        this.pending.delete(delivery.id);
+      }
+    }
+    return removed;
+  }
+
+  // Most recent failures first
+  async listDeadLetters(workspaceId: string, limit = 20): Promise<WebhookDeadLetter[]> {
+    try {
+      const lines = (await fs.readFile(this.getDeadLetterFile(workspaceId), 'utf-8')).split('\n').filter(Boolean);
+      return lines.slice(-limit).reverse().map(line => JSON.parse(line));
+    } catch {
+      return [];
+    }
+  }
+
+  private matches(subscription: WebhookSubscription, event: ChangeEvent): boolean {
+    const typeMatches = subscription.eventTypes.some(pattern =>
+      pattern === '*' ||
+      pattern === event.type ||
+      (pattern.endsWith('.*') && event.type.startsWith(pattern.slice(0, -1)))
+    );
+    const projectMatches = subscription.projectIds.length === 0 ||
+      (!!event.projectId && subscription.projectIds.includes(event.projectId));
+    return typeMatches && projectMatches;
+  }
+
+  // Queues the event for every matching subscription; delivery never fails the change itself
+  async publish(event: ChangeEvent): Promise<void> {
+    try {
+      for (const subscription of await this.load(event.workspaceId)) {
+        if (this.matches(subscription, event)) {
+          this.deliver({ id: uuidv4(), subscription, event, attempts: 0 });
+        }
+      }
+    } catch (error) {
+      log.error(`Failed to queue webhooks for ${event.type}`, { workspaceId: event.workspaceId, eventId: event.id, error });
+    }
+  }
+
+  private deliver(delivery: PendingDelivery): void {
+    this.pending.set(delivery.id, delivery);
+    this.attempt(delivery).catch(error => log.error(`Webhook delivery ${delivery.id} failed`, { webhookId: delivery.subscription.id, error }));
+  }
+
+  private async attempt(delivery: PendingDelivery): Promise<void> {
+    delivery.attempts++;
+    delivery.timer = undefined;
+
+    const body = JSON.stringify({
+      deliveryId: delivery.id,
+      subscriptionId: delivery.subscription.id,
+      workspaceId: delivery.event.workspaceId,
+      event: delivery.event
+    });
+    const timestamp = Date.now().toString();
+
+    let retryable = true;
+    try {
+      const response = await fetch(delivery.subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'todos-mcp-webhooks/1.0',
+          'X-Todos-Event': delivery.event.type,
+          'X-Todos-Delivery': delivery.id,
+          'X-Todos-Timestamp': timestamp,
+          'X-Todos-Signature': signWebhookPayload(delivery.subscription.secret, timestamp, body)
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.requestTimeoutMs)
+      });
+
+      if (response.ok) {
+        this.pending.delete(delivery.id);
+        return;
+      }
+
+      // Other client errors won't go away by retrying
+      retryable = response.status >= 500 || response.status === 429 || response.status === 408;
+      delivery.lastError = `HTTP ${response.status} ${response.statusText}`;
+    } catch (error) {
+      delivery.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (!this.pending.has(delivery.id)) return;  // Subscription removed meanwhile
+
+    if (retryable && delivery.attempts < this.options.maxAttempts) {
+      const delay = this.options.retryBaseDelayMs * 3 ** (delivery.attempts - 1);
+      delivery.timer = setTimeout(() => this.deliver(delivery), delay);
+      delivery.timer.unref();
+      return;
+    }
+
+    this.pending.delete(delivery.id);
+    await this.deadLetter(delivery);
+  }
+
+  private async deadLetter(delivery: PendingDelivery): Promise<void> {
+    const entry: WebhookDeadLetter = {
+      deliveryId: delivery.id,
+      subscriptionId: delivery.subscription.id,
+      url: delivery.subscription.url,
+      event: delivery.event,
+      attempts: delivery.attempts,
+      lastError: delivery.lastError || 'Unknown error',
+      failedAt: new Date()
+    };
+
+    const deadLetterFile = this.getDeadLetterFile(delivery.event.workspaceId);
+    await fs.mkdir(path.dirname(deadLetterFile), { recursive: true });
+    await fs.appendFile(deadLetterFile, JSON.stringify(entry) + '\n');
+  }
+
+  // Deliveries still waiting for a retry are dead-lettered rather than lost
+  async shutdown(): Promise<void> {
+    const waiting = [...this.pending.values()].filter(delivery => delivery.timer);
+    for (const delivery of waiting) {
+      clearTimeout(delivery.timer);
+      this.pending.delete(delivery.id);
+      delivery.lastError = `${delivery.lastError}; process shut down before the next retry`;
+      await this.deadLetter(delivery);
+    }
+  }
+}
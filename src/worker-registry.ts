@@ -1,5 +1,6 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { getDataRoot } from './paths.js';
 import * as os from 'os';
 import { v4 as uuidv4 } from 'uuid';
 import {
@@ -13,9 +14,13 @@ import {
   WorkerNotFoundError,
   TrackingError
 } from './tracking-types.js';
+import { DEFAULT_TRACKING_CONFIG } from './config.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('worker-registry');
 
 export class WorkerRegistryManager {
-  private baseDir = path.join(os.homedir(), '.claude-todos-mcp');
+  private baseDir = getDataRoot();
   private workersDir = path.join(this.baseDir, 'workers');
   private registryFile = path.join(this.workersDir, 'worker-registry.json');
   
@@ -23,17 +28,7 @@ export class WorkerRegistryManager {
   private currentWorker: WorkerIdentity | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   
-  private config: TrackingConfig = {
-    enabled: true,
-    maxEventsPerFile: 10000,
-    retentionDays: 90,
-    compactionInterval: 24 * 60 * 60 * 1000, // 24 hours
-    maxFileSize: 10 * 1024 * 1024, // 10MB
-    enableRealTimeSync: true,
-    enableConflictDetection: true,
-    workerTimeoutMs: 5 * 60 * 1000, // 5 minutes
-    heartbeatIntervalMs: 60 * 1000 // 60 seconds
-  };
+  private config: TrackingConfig = DEFAULT_TRACKING_CONFIG;
   
   constructor(config?: Partial<TrackingConfig>) {
     if (config) {
@@ -135,7 +130,7 @@ export class WorkerRegistryManager {
     this.currentWorker = worker;
     this.startHeartbeat();
     
-    console.log(`🤖 Worker registered: ${worker.name || worker.id}`);
+    log.info(`Worker registered: ${worker.name || worker.id}`, { workerId: worker.id });
     return worker;
   }
   
@@ -181,7 +176,7 @@ export class WorkerRegistryManager {
       this.currentWorker = null;
     }
     
-    console.log(`🤖 Worker deregistered: ${targetId}`);
+    log.info(`Worker deregistered: ${targetId}`, { workerId: targetId });
   }
   
   async getActiveWorkers(workspaceId?: string): Promise<WorkerIdentity[]> {
@@ -266,7 +261,7 @@ export class WorkerRegistryManager {
     }
     
     for (const workerId of toRemove) {
-      console.log(`🧹 Cleaning up inactive worker: ${workerId}`);
+      log.info(`Cleaning up inactive worker: ${workerId}`, { workerId });
       await this.deregisterWorker(workerId);
     }
     
@@ -281,7 +276,7 @@ export class WorkerRegistryManager {
       try {
         await this.updateHeartbeat();
       } catch (error) {
-        console.error('❌ Heartbeat failed:', error);
+        log.warn('Heartbeat failed', { workerId: this.currentWorker?.id, error });
       }
     }, this.config.heartbeatIntervalMs);
   }
@@ -361,7 +356,7 @@ export function getWorkerRegistry(config?: Partial<TrackingConfig>): WorkerRegis
 // Graceful shutdown handling
 process.on('SIGINT', async () => {
   if (globalRegistry) {
-    console.log('\n🛑 Shutting down worker registry...');
+    log.info('Shutting down worker registry');
     await globalRegistry.shutdown();
   }
   process.exit(0);
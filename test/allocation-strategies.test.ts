@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DependencyManager } from '../src/dependency-manager.js';
+import { AllocationStrategyName, AllocationWorker, WorkAllocationResult } from '../src/types.js';
+import { ValidationError } from '../src/validation.js';
+import { todo } from './fixtures.js';
+
+const manager = new DependencyManager();
+
+const assigned = (result: WorkAllocationResult) =>
+  Object.fromEntries(result.decisions.map(d => [d.todoId, d.workerId]));
+
+describe('allocation strategies', () => {
+  const workers: AllocationWorker[] = [
+    { id: 'w1', capabilities: ['frontend'] },
+    { id: 'w2', capabilities: ['database'] }
+  ];
+
+  it('round-robin takes turns in priority order', () => {
+    const result = manager.allocateWork([
+      todo('low', { priority: 'low' }),
+      todo('critical', { priority: 'critical' }),
+      todo('high', { priority: 'high' })
+    ], workers, 'round-robin');
+
+    assert.deepEqual(result.decisions.map(d => d.todoId), ['critical', 'high', 'low']);
+    assert.deepEqual(assigned(result), { critical: 'w1', high: 'w2', low: 'w1' });
+  });
+
+  it('critical-path-first hands out zero-slack todos before anything else', () => {
+    const result = manager.allocateWork([
+      todo('slack', { estimatedDuration: 10, priority: 'critical' }),
+      todo('critical', { estimatedDuration: 100, priority: 'low' }),
+      todo('after', { estimatedDuration: 10, dependsOn: ['critical'] })
+    ], workers, 'critical-path-first');
+
+    assert.deepEqual(result.decisions.map(d => d.todoId), ['critical', 'slack']);
+    assert.match(result.decisions[0].reason, /On the critical path/);
+    assert.match(result.decisions[1].reason, /100 min of slack/);
+    assert.deepEqual(result.unassignedTodos.map(t => t.id), ['after']);
+  });
+
+  it('load-balanced counts work already in progress', () => {
+    const result = manager.allocateWork([
+      todo('busy', { estimatedDuration: 120, status: 'in-progress', claimedBy: 'w1' }),
+      todo('big', { estimatedDuration: 90 }),
+      todo('small', { estimatedDuration: 20 })
+    ], workers, 'load-balanced');
+
+    assert.deepEqual(assigned(result), { big: 'w2', small: 'w2' });
+  });
+
+  it('area-affinity prefers workers covering the todo areas', () => {
+    const result = manager.allocateWork([
+      todo('ui', { areas: ['frontend'], primaryArea: 'frontend' }),
+      todo('schema', { areas: ['database', 'backend'], primaryArea: 'database' }),
+      todo('docs', { areas: ['documentation'], primaryArea: 'documentation' })
+    ], workers, 'area-affinity');
+
+    const decisions = Object.fromEntries(result.decisions.map(d => [d.todoId, d]));
+    assert.equal(decisions.ui.workerId, 'w1');
+    assert.equal(decisions.schema.workerId, 'w2');
+    assert.match(decisions.schema.reason, /including primary area database/);
+    assert.match(decisions.docs.reason, /No available worker covers documentation/);
+  });
+
+  it('stops at each worker\'s capacity', () => {
+    const result = manager.allocateWork(
+      [todo('a'), todo('b'), todo('c')],
+      [{ id: 'w1', capabilities: [], maxConcurrentTodos: 2 }],
+      'round-robin'
+    );
+
+    assert.equal(result.decisions.length, 2);
+    assert.deepEqual(result.conflicts, [{ todoId: 'c', reason: 'All workers at capacity' }]);
+  });
+
+  it('rejects unknown strategies', () => {
+    assert.throws(
+      () => manager.allocateWork([todo('a')], workers, 'fastest' as AllocationStrategyName),
+      ValidationError
+    );
+    assert.throws(
+      () => manager.allocateWork([todo('a')], workers, 'constructor' as AllocationStrategyName),
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DependencyManager } from '../src/dependency-manager.js';
+import { todo } from './fixtures.js';
+
+const manager = new DependencyManager();
+const ids = (todos: { id: string }[]) => todos.map(t => t.id);
+
+describe('DependencyManager scheduling', () => {
+  //   a(30) -> b(60) -> d(10)
+  //   a(30) -> c(20) -> d(10)
+  const diamond = [
+    todo('a', { estimatedDuration: 30 }),
+    todo('b', { estimatedDuration: 60, dependsOn: ['a'] }),
+    todo('c', { estimatedDuration: 20, dependsOn: ['a'] }),
+    todo('d', { estimatedDuration: 10, dependsOn: ['b', 'c'] })
+  ];
+
+  it('computes earliest and latest starts with slack off the critical path', () => {
+    const schedule = manager.calculateSchedule(diamond);
+
+    assert.deepEqual(schedule.get('b'), { remainingDuration: 60, earliestStart: 30, earliestFinish: 90, latestStart: 30, slack: 0 });
+    assert.deepEqual(schedule.get('c'), { remainingDuration: 20, earliestStart: 30, earliestFinish: 50, latestStart: 70, slack: 40 });
+    assert.equal(schedule.get('d')!.earliestStart, 90);
+  });
+
+  it('follows zero-slack todos for the critical path', () => {
+    const graph = manager.buildDependencyGraph(diamond);
+
+    assert.deepEqual(ids(graph.criticalPath), ['a', 'b', 'd']);
+    assert.equal(graph.criticalPathDuration, 100);
+  });
+
+  it('drops completed work and subtracts time already spent', () => {
+    const graph = manager.buildDependencyGraph([
+      todo('a', { estimatedDuration: 30, status: 'completed' }),
+      todo('b', { estimatedDuration: 60, actualDuration: 50, status: 'in-progress', dependsOn: ['a'] }),
+      todo('c', { estimatedDuration: 20, dependsOn: ['a'] }),
+      todo('d', { estimatedDuration: 10, dependsOn: ['b', 'c'] })
+    ]);
+
+    assert.deepEqual(ids(graph.criticalPath), ['c', 'd']);
+    assert.equal(graph.criticalPathDuration, 30);
+  });
+
+  it('gives parents no duration of their own', () => {
+    const schedule = manager.calculateSchedule([
+      todo('parent', { estimatedDuration: 500 }),
+      todo('child-1', { estimatedDuration: 15, parentId: 'parent' }),
+      todo('child-2', { estimatedDuration: 25, parentId: 'parent', dependsOn: ['child-1'] })
+    ]);
+
+    assert.equal(schedule.get('parent')!.remainingDuration, 0);
+    assert.equal(schedule.get('child-2')!.earliestFinish, 40);
+  });
+
+  it('forecasts unestimated todos at the average estimate', () => {
+    const forecast = manager.forecastSchedule('project-1', [
+      todo('a', { estimatedDuration: 30 }),
+      todo('b', { estimatedDuration: 90, dependsOn: ['a'] }),
+      todo('c', { dependsOn: ['b'] })
+    ], 1, 8, new Date('2024-01-01T00:00:00Z'));
+
+    assert.equal(forecast.unestimatedTodos, 1);
+    assert.equal(forecast.assumedMinutesPerUnestimatedTodo, 60);
+    assert.equal(forecast.remainingMinutes, 180);
+    assert.deepEqual(ids(forecast.criticalPath), ['a', 'b', 'c']);
+    assert.equal(forecast.criticalPath[2].estimatedDuration, undefined);
+  });
+
+  it('scales forecasts by how far actual durations drifted from estimates', () => {
+    const forecast = manager.forecastSchedule('project-1', [
+      todo('done', { estimatedDuration: 60, actualDuration: 90, status: 'completed' }),
+      todo('a', { estimatedDuration: 40 }),
+      todo('b', { estimatedDuration: 40 })
+    ], 2);
+
+    assert.equal(forecast.estimateAccuracyRatio, 1.5);
+    assert.equal(forecast.forecastMinutes, 60);
+  });
+});
@@ -0,0 +1,37 @@
+import { TodoItem, Project } from '../src/types.js';
+
+const created = new Date('2024-01-01T00:00:00Z');
+
+export function todo(id: string, fields: Partial<TodoItem> = {}): TodoItem {
+  return {
+    id,
+    title: `Todo ${id}`,
+    status: 'pending',
+    createdAt: created,
+    updatedAt: created,
+    order: 0,
+    dependsOn: [],
+    dependents: [],
+    blockedBy: [],
+    priority: 'medium',
+    areas: ['backend'],
+    primaryArea: 'backend',
+    version: 1,
+    ...fields
+  };
+}
+
+export function project(todos: TodoItem[], fields: Partial<Project> = {}): Project {
+  return {
+    id: 'project-1',
+    name: 'Project',
+    workspaceId: 'workspace-1',
+    phases: [],
+    todos,
+    documents: [],
+    createdAt: created,
+    updatedAt: created,
+    version: 1,
+    ...fields
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FullTextIndex, tokenize } from '../src/fulltext-index.js';
+import { todo, project } from './fixtures.js';
+
+const projectRef = { workspaceId: 'workspace-1', projectId: 'project-1' };
+const options = { limit: 10 };
+
+describe('tokenize', () => {
+  it('drops stop words and short tokens and shares stems', () => {
+    assert.deepEqual(tokenize('Caching the cached caches, a B2 fix'), ['cach', 'cach', 'cach', 'b2', 'fix']);
+  });
+});
+
+describe('FullTextIndex', () => {
+  const indexed = project([
+    todo('title', { title: 'Cache invalidation bug' }),
+    todo('notes', { title: 'Review', notes: 'Invalidation of the cache is slow' }),
+    todo('done', { title: 'Cache warmup', status: 'completed', completionSummary: 'Warmed the cache' }),
+    todo('object', { title: 'Call the constructor before toString' })
+  ]);
+
+  it('ranks title matches above matches in notes', async () => {
+    const index = new FullTextIndex();
+    await index.syncProject('workspace-1', indexed);
+
+    const matches = await index.search('cache invalidation', [projectRef], options);
+
+    assert.deepEqual(matches.map(m => m.todoId), ['title', 'notes', 'done']);
+    assert.deepEqual(matches[0].matchedTerms, ['cach', 'invalidation']);
+  });
+
+  it('filters by status', async () => {
+    const matches = await new FullTextIndex().search('cache', [projectRef], { ...options, statuses: ['completed'] });
+    assert.deepEqual(matches.map(m => m.todoId), ['done']);
+  });
+
+  it('indexes terms named like Object members, and reads them back from disk', async () => {
+    // A fresh instance has nothing cached, like another process
+    const matches = await new FullTextIndex().search('constructor', [projectRef], options);
+    assert.deepEqual(matches.map(m => m.todoId), ['object']);
+    assert.equal((Object as unknown as Record<string, unknown>).object, undefined);
+  });
+
+  it('drops removed and changed todos on the next sync', async () => {
+    const index = new FullTextIndex();
+    await index.syncProject('workspace-1', project([
+      todo('title', { title: 'Renamed', version: 2 }),
+      todo('object', { title: 'Call the constructor before toString' })
+    ]));
+
+    assert.deepEqual(await index.search('cache', [projectRef], options), []);
+    assert.deepEqual((await index.search('constructor', [projectRef], options)).map(m => m.todoId), ['object']);
+  });
+});
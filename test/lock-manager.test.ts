@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { LockManager, LockHolder } from '../src/lock-manager.js';
+import { ScopedWorkerRegistryManager } from '../src/scoped-worker-registry.js';
+import { LockTimeoutError } from '../src/tracking-types.js';
+import { getDataRoot } from '../src/paths.js';
+
+const worker = { id: 'worker-a', sessionId: 'session-a' };
+
+// Registry stand-in that reports every worker as alive or as gone
+function registry(alive: boolean): ScopedWorkerRegistryManager {
+  return { isWorkerAlive: async () => alive } as unknown as ScopedWorkerRegistryManager;
+}
+
+async function plantLock(workspaceId: string, resource: string, holder: Partial<LockHolder>): Promise<void> {
+  const lockFile = path.join(getDataRoot(), 'data', workspaceId, 'locks', `${resource}.lock`);
+  await fs.mkdir(path.dirname(lockFile), { recursive: true });
+  await fs.writeFile(lockFile, JSON.stringify({
+    token: 'planted',
+    workerId: 'worker-b',
+    sessionId: 'session-b',
+    hostname: os.hostname(),
+    pid: process.pid,
+    acquiredAt: new Date().toISOString(),
+    ...holder
+  }));
+}
+
+describe('LockManager stale lock detection', () => {
+  it('reclaims a lock whose process on this machine has exited', async () => {
+    const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+    await plantLock('ws-dead', 'project', { pid: deadPid });
+
+    const locks = new LockManager(registry(true), { acquireTimeoutMs: 500, retryIntervalMs: 10 });
+    let broken: LockHolder | undefined;
+    await locks.withLock('ws-dead', 'project', worker, async () => {}, {
+      onAcquired: async acquisition => { broken = acquisition.brokeStaleLock; }
+    });
+
+    assert.equal(broken?.token, 'planted');
+  });
+
+  it('waits for a young lock held on another machine', async () => {
+    await plantLock('ws-young', 'project', { hostname: 'elsewhere' });
+
+    const locks = new LockManager(registry(false), { acquireTimeoutMs: 100, retryIntervalMs: 10 });
+    await assert.rejects(locks.withLock('ws-young', 'project', worker, async () => {}), LockTimeoutError);
+  });
+
+  it('keeps an old lock while its holder still sends heartbeats', async () => {
+    await plantLock('ws-alive', 'project', { hostname: 'elsewhere', acquiredAt: new Date(Date.now() - 60_000).toISOString() });
+
+    const locks = new LockManager(registry(true), { acquireTimeoutMs: 100, retryIntervalMs: 10, staleLockAgeMs: 1000 });
+    await assert.rejects(locks.withLock('ws-alive', 'project', worker, async () => {}), LockTimeoutError);
+  });
+
+  it('reclaims an old lock once its holder stops sending heartbeats', async () => {
+    await plantLock('ws-silent', 'project', { hostname: 'elsewhere', acquiredAt: new Date(Date.now() - 60_000).toISOString() });
+
+    const locks = new LockManager(registry(false), { acquireTimeoutMs: 100, retryIntervalMs: 10, staleLockAgeMs: 1000 });
+    const result = await locks.withLock('ws-silent', 'project', worker, async () => 'done');
+    assert.equal(result, 'done');
+  });
+
+  it('never removes a lock that was reclaimed from its holder', async () => {
+    const locks = new LockManager(registry(true));
+    await locks.withLock('ws-reclaimed', 'project', worker, async () => {
+      await plantLock('ws-reclaimed', 'project', { token: 'successor' });
+    });
+
+    const lockFile = path.join(getDataRoot(), 'data', 'ws-reclaimed', 'locks', 'project.lock');
+    assert.equal(JSON.parse(await fs.readFile(lockFile, 'utf-8')).token, 'successor');
+  });
+
+  it('is reentrant within a call chain and serializes concurrent callers', async () => {
+    const locks = new LockManager(registry(true));
+    const order: string[] = [];
+
+    await Promise.all(['first', 'second'].map(name =>
+      locks.withLock('ws-queue', 'project', worker, async () => {
+        order.push(`${name} start`);
+        await locks.withLock('ws-queue', 'project', worker, async () => {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        });
+        order.push(`${name} end`);
+      })
+    ));
+
+    assert.deepEqual(order, ['first start', 'first end', 'second start', 'second end']);
+  });
+});
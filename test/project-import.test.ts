@@ -0,0 +1,49 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { ScopedTodosStorage } from '../src/scoped-storage.js';
+import { exportProject } from '../src/project-export.js';
+import { getDataRoot } from '../src/paths.js';
+import { todo, project } from './fixtures.js';
+
+describe('importProject', () => {
+  const storage = new ScopedTodosStorage();
+  const workspacePath = path.join(getDataRoot(), 'workspace');
+
+  before(async () => {
+    const workspace = await storage.getOrCreateWorkspace(workspacePath);
+    await storage.registerWorkerForWorkspace(workspace.id, { name: 'tester' });
+  });
+
+  after(() => storage.shutdown());
+
+  it('gives every todo a new ID and maps dependencies onto them', async () => {
+    const content = exportProject(project([
+      todo('first'),
+      todo('second', { dependsOn: ['first'] })
+    ]), 'json');
+
+    const { project: imported, idMap, warnings } = await storage.importProject({ workspacePath, format: 'json', content });
+
+    const [first, second] = imported.todos;
+    assert.deepEqual(warnings, []);
+    assert.equal(idMap.first, first.id);
+    assert.notEqual(first.id, 'first');
+    assert.deepEqual(second.dependsOn, [first.id]);
+  });
+
+  it('treats references named like Object members as ordinary references', async () => {
+    const content = exportProject(project([
+      todo('constructor'),
+      todo('other', { dependsOn: ['constructor', 'toString'] })
+    ]), 'json');
+
+    const { project: imported, warnings } = await storage.importProject({ workspacePath, format: 'json', content });
+
+    const [first, second] = imported.todos;
+    assert.equal(typeof first.id, 'string');
+    assert.deepEqual(second.dependsOn, [first.id]);
+    assert.deepEqual(warnings, ['Dropped dependency of "Todo other" on unknown todo "toString"']);
+    assert.equal((await storage.getProject(imported.id))!.todos[0].id, first.id);
+  });
+});
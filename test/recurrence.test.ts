@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRecurrence, nextOccurrence, validateRecurrence } from '../src/recurrence.js';
+import { ValidationError } from '../src/validation.js';
+
+// Rules run in local time, so every date here is built from local parts
+const local = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe('parseRecurrence', () => {
+  it('expands ranges, lists and steps', () => {
+    const rule = parseRecurrence('0-30/10 8,17 1-3 * 1-5');
+    assert.deepEqual([...rule.minutes], [0, 10, 20, 30]);
+    assert.deepEqual([...rule.hours], [8, 17]);
+    assert.deepEqual([...rule.daysOfMonth], [1, 2, 3]);
+    assert.deepEqual([...rule.daysOfWeek], [1, 2, 3, 4, 5]);
+    assert.equal(rule.months.size, 12);
+    assert.equal(rule.anyDayOfMonth, false);
+    assert.equal(rule.anyDayOfWeek, false);
+  });
+
+  it('treats day of week 7 as Sunday and expands aliases', () => {
+    assert.deepEqual([...parseRecurrence('0 9 * * 7').daysOfWeek], [0]);
+    assert.deepEqual(parseRecurrence('@weekly'), parseRecurrence('0 0 * * 0'));
+  });
+
+  it('rejects malformed and out-of-range fields', () => {
+    assert.throws(() => parseRecurrence('0 9 * *'), ValidationError);
+    assert.throws(() => parseRecurrence('60 * * * *'), ValidationError);
+    assert.throws(() => parseRecurrence('0 9 5-1 * *'), ValidationError);
+    assert.throws(() => parseRecurrence('0 9 * * mon'), ValidationError);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    assert.deepEqual(nextOccurrence('30 8 * * *', local(2024, 3, 4, 8, 30)), local(2024, 3, 5, 8, 30));
+    assert.deepEqual(nextOccurrence('30 8 * * *', local(2024, 3, 4, 8, 29)), local(2024, 3, 4, 8, 30));
+  });
+
+  it('skips to the next matching weekday', () => {
+    // 2024-03-08 is a Friday
+    assert.deepEqual(nextOccurrence('0 17 * * 1-5', local(2024, 3, 8, 18)), local(2024, 3, 11, 17));
+  });
+
+  it('matches either day field when both are restricted, as cron does', () => {
+    // The 15th, or any Monday; 2024-03-11 is a Monday
+    assert.deepEqual(nextOccurrence('0 9 15 * 1', local(2024, 3, 9)), local(2024, 3, 11, 9));
+    assert.deepEqual(nextOccurrence('0 9 15 * 1', local(2024, 3, 12)), local(2024, 3, 15, 9));
+  });
+
+  it('rolls over months and years', () => {
+    assert.deepEqual(nextOccurrence('@monthly', local(2024, 12, 15)), local(2025, 1, 1));
+    assert.deepEqual(nextOccurrence('0 0 29 2 *', local(2024, 3, 1)), local(2028, 2, 29));
+  });
+
+  it('rejects rules that never match', () => {
+    assert.throws(() => validateRecurrence('0 0 31 2 *'), /never matches/);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { ScopedTodosStorage } from '../src/scoped-storage.js';
+import { TodoItem } from '../src/types.js';
+import { getDataRoot } from '../src/paths.js';
+
+describe('rollbackChange', () => {
+  const storage = new ScopedTodosStorage();
+  const workspacePath = path.join(getDataRoot(), 'workspace');
+  let projectId: string;
+
+  before(async () => {
+    const workspace = await storage.getOrCreateWorkspace(workspacePath);
+    await storage.registerWorkerForWorkspace(workspace.id, { name: 'tester' });
+    projectId = (await storage.createProject({ name: 'Rollback', workspacePath })).id;
+  });
+
+  after(() => storage.shutdown());
+
+  const createTodo = async (title: string) =>
+    (await storage.createTodo({ projectId, title, areas: ['backend'] }))!;
+
+  const readTodo = async (todoId: string): Promise<TodoItem> =>
+    (await storage.getProject(projectId))!.todos.find(t => t.id === todoId)!;
+
+  const rollBackLatest = async (todoId: string) => {
+    const [latest] = await storage.getProjectChangeHistory(projectId, 'todo', todoId);
+    return storage.rollbackChange({ changeId: latest.id, reason: 'test' });
+  };
+
+  it('undoes every field a status change moved, not just the status', async () => {
+    const todo = await createTodo('Claimed');
+    await storage.changeStatus(todo.id, 'in-progress');
+
+    assert.equal((await rollBackLatest(todo.id)).success, true);
+
+    const restored = await readTodo(todo.id);
+    assert.equal(restored.status, 'pending');
+    assert.equal(restored.claimedBy, undefined);
+    assert.equal(restored.claimedAt, undefined);
+    assert.equal(restored.startedAt, undefined);
+  });
+
+  it('drops the completion details when a finish is rolled back', async () => {
+    const todo = await createTodo('Finished');
+    await storage.changeStatus(todo.id, 'in-progress');
+    await storage.updateTodo({ id: todo.id, status: 'completed', completionSummary: 'Done' });
+
+    assert.equal((await rollBackLatest(todo.id)).success, true);
+
+    const restored = await readTodo(todo.id);
+    assert.equal(restored.status, 'in-progress');
+    assert.equal(restored.completedAt, undefined);
+    assert.equal(restored.completionSummary, undefined);
+  });
+
+  it('drops the reason when a block is rolled back', async () => {
+    const todo = await createTodo('Blocked');
+    await storage.changeStatus(todo.id, 'blocked', { reason: 'Waiting for access' });
+
+    assert.equal((await rollBackLatest(todo.id)).success, true);
+
+    const restored = await readTodo(todo.id);
+    assert.equal(restored.status, 'pending');
+    assert.equal(restored.statusReason, undefined);
+  });
+
+  it('keeps later changes to other fields and refuses to undo fields changed since', async () => {
+    const todo = await createTodo('Original');
+    await storage.updateTodo({ id: todo.id, title: 'Renamed' });
+    const [rename] = await storage.getProjectChangeHistory(projectId, 'todo', todo.id);
+    await storage.updateTodo({ id: todo.id, priority: 'high' });
+
+    assert.equal((await storage.rollbackChange({ changeId: rename.id, reason: 'test' })).success, true);
+    const restored = await readTodo(todo.id);
+    assert.equal(restored.title, 'Original');
+    assert.equal(restored.priority, 'high');
+
+    await storage.updateTodo({ id: todo.id, title: 'Again' });
+    const [again] = await storage.getProjectChangeHistory(projectId, 'todo', todo.id);
+    await storage.updateTodo({ id: todo.id, title: 'Once more' });
+    assert.equal((await storage.rollbackChange({ changeId: again.id, reason: 'test' })).success, false);
+  });
+});
@@ -0,0 +1,13 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Each test file runs in its own process with a throwaway data root, set before any
+// module reads it
+const dataRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'todos-mcp-test-'));
+process.env.TODOS_MCP_DATA_DIR = dataRoot;
+process.env.TODOS_MCP_LOG_LEVEL = 'error';
+
+process.on('exit', () => {
+  fs.rmSync(dataRoot, { recursive: true, force: true });
+});
@@ -0,0 +1,117 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { StorageAdapter } from '../src/storage-adapter.js';
+import { JsonStorageAdapter } from '../src/json-storage-adapter.js';
+import { SqliteStorageAdapter } from '../src/sqlite-storage-adapter.js';
+import { MemoryStorageAdapter } from '../src/memory-storage-adapter.js';
+import { ChangeEvent, ConflictError } from '../src/tracking-types.js';
+import { WorkspaceMetadata } from '../src/storage-v2.js';
+import { getDataRoot } from '../src/paths.js';
+import { todo, project } from './fixtures.js';
+
+// What any backend hands back: the document as it looks after a trip through JSON
+const stored = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const workspace: WorkspaceMetadata = {
+  id: 'workspace-1',
+  path: '/repo',
+  name: 'repo',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  projectIds: ['project-1']
+};
+
+const event: ChangeEvent = {
+  id: 'change-1',
+  workerId: 'worker-1',
+  sessionId: 'session-1',
+  timestamp: new Date('2024-01-02T00:00:00Z'),
+  type: 'todo.created',
+  entityType: 'todo',
+  entityId: 'a',
+  projectId: 'project-1',
+  workspaceId: 'workspace-1',
+  action: 'create',
+  newValue: { id: 'a' },
+  changes: [],
+  relatedChanges: []
+};
+
+const backends: { name: string; create: () => StorageAdapter; checksVersions: boolean }[] = [
+  { name: 'json', create: () => new JsonStorageAdapter(), checksVersions: false },
+  { name: 'sqlite', create: () => new SqliteStorageAdapter(path.join(getDataRoot(), 'adapter-test.db')), checksVersions: true },
+  { name: 'memory', create: () => new MemoryStorageAdapter(), checksVersions: true }
+];
+
+for (const { name, create, checksVersions } of backends) {
+  describe(`${name} storage adapter`, () => {
+    const adapter = create();
+    after(() => adapter.close());
+
+    it('round-trips workspaces and projects', async () => {
+      const written = project([
+        todo('a', { estimatedDuration: 30, claimedBy: 'worker-1' }),
+        todo('b', { order: 1, dependsOn: ['a'], parentId: 'a' })
+      ], { phases: [{ id: 'phase-1', name: 'Phase 1', order: 0, projectId: 'project-1' }] });
+
+      await adapter.writeWorkspace(workspace);
+      await adapter.writeProject('workspace-1', written);
+
+      assert.deepEqual(await adapter.listWorkspaceIds(), ['workspace-1']);
+      assert.deepEqual(await adapter.readWorkspace('workspace-1'), stored(workspace));
+      assert.deepEqual(await adapter.listProjectIds('workspace-1'), ['project-1']);
+      assert.deepEqual(await adapter.readProject('workspace-1', 'project-1'), stored(written));
+      assert.equal(await adapter.readProject('workspace-1', 'missing'), null);
+    });
+
+    it('keeps todo order, updates and removals across writes', async () => {
+      const current = (await adapter.readProject('workspace-1', 'project-1'))!;
+      const next = {
+        ...current,
+        version: current.version + 1,
+        todos: [todo('c'), { ...current.todos[0], title: 'Renamed' }]
+      };
+
+      await adapter.writeProject('workspace-1', next);
+
+      const read = (await adapter.readProject('workspace-1', 'project-1'))!;
+      assert.deepEqual(read.todos.map(t => t.id), ['c', 'a']);
+      assert.equal(read.todos[1].title, 'Renamed');
+      assert.equal(read.version, 2);
+    });
+
+    it(checksVersions ? 'refuses writes based on a stale version' : 'leaves version checks to the project lock', async () => {
+      const current = (await adapter.readProject('workspace-1', 'project-1'))!;
+      const stale = adapter.writeProject('workspace-1', { ...current, name: 'Stale' });
+
+      if (checksVersions) {
+        await assert.rejects(stale, ConflictError);
+        assert.equal((await adapter.readProject('workspace-1', 'project-1'))!.name, 'Project');
+      } else {
+        await stale;
+        assert.equal((await adapter.readProject('workspace-1', 'project-1'))!.name, 'Stale');
+      }
+    });
+
+    it('round-trips audit logs', async () => {
+      const key = { workspaceId: 'workspace-1', projectId: 'project-1' };
+      const log = { events: [event], lastCompacted: new Date('2024-01-01T00:00:00Z'), retentionDays: 30, version: '1.0' };
+
+      assert.equal(await adapter.auditLog(key).read(), null);
+      await adapter.auditLog(key).write(log);
+      await adapter.auditLog(key).append({ ...log, events: [event, { ...event, id: 'change-2' }] });
+
+      const read = (await adapter.auditLog(key).read())!;
+      assert.deepEqual(read.log.events, stored([event, { ...event, id: 'change-2' }]));
+      assert.equal(new Date(read.log.lastCompacted).getTime(), log.lastCompacted.getTime());
+      assert.deepEqual(await adapter.listAuditLogs('workspace-1'), [key]);
+    });
+
+    it('deletes projects', async () => {
+      assert.equal(await adapter.deleteProject('workspace-1', 'project-1'), true);
+      assert.equal(await adapter.projectExists('workspace-1', 'project-1'), false);
+      assert.equal(await adapter.deleteProject('workspace-1', 'project-1'), false);
+    });
+  });
+}
@@ -0,0 +1,37 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { ScopedTodosStorage } from '../src/scoped-storage.js';
+import { ValidationError } from '../src/validation.js';
+import { getDataRoot } from '../src/paths.js';
+
+describe('storage migration', () => {
+  const storage = new ScopedTodosStorage();
+  const workspacePath = path.join(getDataRoot(), 'workspace');
+  let otherId: string;
+
+  before(async () => {
+    const workspace = await storage.getOrCreateWorkspace(workspacePath);
+    await storage.registerWorkerForWorkspace(workspace.id, { name: 'admin' });
+    await storage.createProject({ name: 'Migrated', workspacePath });
+    otherId = (await storage.registerExternalWorker(workspace.id, { name: 'other server' })).worker.id;
+  });
+
+  after(() => storage.shutdown());
+
+  it('refuses to migrate while other workers are active', async () => {
+    await assert.rejects(storage.migrateStorage('sqlite'), (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.match(error.message, new RegExp(otherId));
+      return true;
+    });
+    assert.equal(storage.storageAdapter.backend, 'json');
+  });
+
+  it('migrates anyway when forced', async () => {
+    const migration = await storage.migrateStorage('sqlite', { force: true });
+    assert.equal(migration.projects, 1);
+    assert.equal(storage.storageAdapter.backend, 'sqlite');
+    assert.deepEqual((await storage.listProjects()).map(project => project.name), ['Migrated']);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  rollUpHierarchy,
+  validateParent,
+  assertSubtasksCompleted,
+  inheritedDependencies,
+  descendantsOf
+} from '../src/todo-hierarchy.js';
+import { ValidationError } from '../src/validation.js';
+import { todo } from './fixtures.js';
+
+const now = new Date('2024-02-01T12:00:00Z');
+
+describe('rollUpHierarchy', () => {
+  it('sums durations from the deepest subtasks up', () => {
+    const todos = [
+      todo('root'),
+      todo('middle', { parentId: 'root' }),
+      todo('leaf-1', { parentId: 'middle', estimatedDuration: 30, actualDuration: 10 }),
+      todo('leaf-2', { parentId: 'middle', estimatedDuration: 45 }),
+      todo('leaf-3', { parentId: 'root', estimatedDuration: 15 })
+    ];
+
+    const changes = rollUpHierarchy(todos, now);
+
+    assert.deepEqual(changes.map(c => c.todo.id), ['middle', 'root']);
+    assert.equal(todos[1].estimatedDuration, 75);
+    assert.equal(todos[0].estimatedDuration, 90);
+    assert.equal(todos[0].actualDuration, 10);
+    assert.equal(todos[0].version, 2);
+    assert.equal(changes[1].oldTodo.estimatedDuration, undefined);
+  });
+
+  it('starts a pending parent with its first started subtask', () => {
+    const startedAt = new Date('2024-01-20T09:00:00Z');
+    const todos = [
+      todo('parent'),
+      todo('child-1', { parentId: 'parent', status: 'in-progress', startedAt }),
+      todo('child-2', { parentId: 'parent' })
+    ];
+
+    rollUpHierarchy(todos, now);
+
+    assert.equal(todos[0].status, 'in-progress');
+    assert.deepEqual(todos[0].startedAt, startedAt);
+  });
+
+  it('reopens a completed parent when a subtask is open again, but never completes one', () => {
+    const reopened = [
+      todo('parent', { status: 'completed', completedAt: now }),
+      todo('child', { parentId: 'parent' })
+    ];
+    rollUpHierarchy(reopened, now);
+    assert.equal(reopened[0].status, 'in-progress');
+    assert.equal(reopened[0].completedAt, undefined);
+
+    const finished = [
+      todo('parent', { status: 'in-progress' }),
+      todo('child', { parentId: 'parent', status: 'completed' })
+    ];
+    assert.deepEqual(rollUpHierarchy(finished, now), []);
+    assert.equal(finished[0].status, 'in-progress');
+  });
+
+  it('reports nothing when parents are already up to date', () => {
+    const todos = [
+      todo('parent', { estimatedDuration: 20 }),
+      todo('child', { parentId: 'parent', estimatedDuration: 20 })
+    ];
+    assert.deepEqual(rollUpHierarchy(todos, now), []);
+  });
+});
+
+describe('subtask rules', () => {
+  const todos = [
+    todo('root', { dependsOn: ['setup'] }),
+    todo('child', { parentId: 'root', title: 'Child' }),
+    todo('grandchild', { parentId: 'child', dependsOn: ['other'] }),
+    todo('setup'),
+    todo('other')
+  ];
+
+  it('refuses parents that would create a loop', () => {
+    assert.throws(() => validateParent(todos, 'root', 'grandchild'), ValidationError);
+    assert.throws(() => validateParent(todos, 'root', 'root'), ValidationError);
+    assert.throws(() => validateParent(todos, 'root', 'missing'), ValidationError);
+    assert.doesNotThrow(() => validateParent(todos, 'grandchild', 'root'));
+  });
+
+  it('blocks completing a parent with open subtasks', () => {
+    assert.throws(() => assertSubtasksCompleted(todos, todos[0]), /2 subtask\(s\) are open/);
+  });
+
+  it('passes ancestor dependencies down to subtasks', () => {
+    assert.deepEqual(inheritedDependencies(todos).get('grandchild'), ['other', 'setup']);
+    assert.deepEqual(descendantsOf(todos, 'root').map(t => t.id), ['child', 'grandchild']);
+  });
+});
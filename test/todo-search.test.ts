@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTodoQuery, matchesTodoQuery, sortSearchHits } from '../src/todo-search.js';
+import { ValidationError } from '../src/validation.js';
+import { TodoItem } from '../src/types.js';
+import { todo, project } from './fixtures.js';
+
+const phased = project([], { phases: [{ id: 'phase-1', name: 'Phase 1', order: 0, projectId: 'project-1' }] });
+
+const matches = (expression: string, item: TodoItem) =>
+  matchesTodoQuery(item, phased, parseTodoQuery(expression));
+
+describe('parseTodoQuery', () => {
+  it('parses fields, lists, negation, phrases and bare words', () => {
+    assert.deepEqual(parseTodoQuery('status:pending,in-progress -claimedBy:none phase:"Phase 1" "login page" bug'), [
+      { kind: 'value', field: 'status', values: ['pending', 'in-progress'], negate: false },
+      { kind: 'value', field: 'claimedBy', values: ['none'], negate: true },
+      { kind: 'value', field: 'phase', values: ['Phase 1'], negate: false },
+      { kind: 'text', text: 'login page', negate: false },
+      { kind: 'text', text: 'bug', negate: false }
+    ]);
+  });
+
+  it('accepts field aliases case-insensitively', () => {
+    assert.deepEqual(parseTodoQuery('Areas:api claimant:w1 PrimaryArea:auth'), [
+      { kind: 'value', field: 'area', values: ['api'], negate: false },
+      { kind: 'value', field: 'claimedBy', values: ['w1'], negate: false },
+      { kind: 'value', field: 'primaryArea', values: ['auth'], negate: false }
+    ]);
+  });
+
+  it('turns dates into half-open ranges covering whole days', () => {
+    const [range] = parseTodoQuery('completed:2024-01-01..2024-01-31');
+    assert.deepEqual(range, {
+      kind: 'date',
+      field: 'completed',
+      from: new Date('2024-01-01T00:00:00Z'),
+      before: new Date('2024-02-01T00:00:00Z'),
+      negate: false
+    });
+
+    const [after] = parseTodoQuery('created:>2024-01-01');
+    assert.deepEqual(after, { kind: 'date', field: 'created', from: new Date('2024-01-02T00:00:00Z'), negate: false });
+  });
+
+  it('rejects unknown fields, missing values and invalid dates', () => {
+    assert.throws(() => parseTodoQuery('owner:me'), ValidationError);
+    assert.throws(() => parseTodoQuery('status:,'), ValidationError);
+    assert.throws(() => parseTodoQuery('created:yesterday'), ValidationError);
+    assert.throws(() => parseTodoQuery('constructor:x'), ValidationError);
+  });
+});
+
+describe('matchesTodoQuery', () => {
+  const item = todo('t1', {
+    title: 'Fix login page',
+    notes: 'Crashes on submit',
+    status: 'in-progress',
+    priority: 'high',
+    areas: ['frontend', 'auth'],
+    primaryArea: 'frontend',
+    phaseId: 'phase-1',
+    claimedBy: 'w1',
+    createdAt: new Date('2024-01-15T10:00:00Z')
+  });
+
+  it('ANDs terms and ORs comma-separated values', () => {
+    assert.ok(matches('status:pending,in-progress priority:high', item));
+    assert.ok(!matches('status:pending,in-progress priority:low', item));
+  });
+
+  it('matches text in the title and notes, ignoring case', () => {
+    assert.ok(matches('LOGIN crashes', item));
+    assert.ok(!matches('"login crashes"', item));
+  });
+
+  it('negates terms', () => {
+    assert.ok(!matches('-claimedBy:none', todo('t2')));
+    assert.ok(matches('-claimedBy:none', item));
+    assert.ok(matches('-area:database', item));
+    assert.ok(!matches('area:constructor', item));
+  });
+
+  it('matches phases by name or id', () => {
+    assert.ok(matches('phase:"phase 1"', item));
+    assert.ok(matches('phase:phase-1', item));
+    assert.ok(matches('phase:none', todo('t2')));
+  });
+
+  it('compares dates against the range', () => {
+    assert.ok(matches('created:2024-01-15', item));
+    assert.ok(matches('created:2024-01-01..2024-01-15', item));
+    assert.ok(!matches('created:<2024-01-15', item));
+    assert.ok(!matches('completed:>=2024-01-01', item));
+  });
+});
+
+describe('sortSearchHits', () => {
+  const hit = (item: TodoItem) => ({ todo: item, projectId: 'project-1', projectName: 'Project', workspaceId: 'workspace-1' });
+  const hits = [
+    hit(todo('medium', { priority: 'medium', title: 'b' })),
+    hit(todo('critical', { priority: 'critical', title: 'c' })),
+    hit(todo('low', { priority: 'low', title: 'a' }))
+  ];
+
+  it('sorts descending with a leading "-" and ascending otherwise', () => {
+    assert.deepEqual(sortSearchHits(hits).map(h => h.todo.id), ['critical', 'medium', 'low']);
+    assert.deepEqual(sortSearchHits(hits, 'title').map(h => h.todo.id), ['low', 'medium', 'critical']);
+  });
+
+  it('rejects unknown sort fields', () => {
+    assert.throws(() => sortSearchHits(hits, 'size'), ValidationError);
+    assert.throws(() => sortSearchHits(hits, 'toString'), ValidationError);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { ScopedTodosStorage } from '../src/scoped-storage.js';
+import { AuthenticationError } from '../src/tracking-types.js';
+import { exportProject } from '../src/project-export.js';
+import { getDataRoot } from '../src/paths.js';
+import { todo, project } from './fixtures.js';
+
+describe('workspace access', () => {
+  const storage = new ScopedTodosStorage();
+  const openPath = path.join(getDataRoot(), 'open');
+  const protectedPath = path.join(getDataRoot(), 'protected');
+  let protectedProjectId: string;
+  let protectedWorkspaceId: string;
+  let outsiderId: string;
+  let readerId: string;
+
+  before(async () => {
+    const protectedWorkspace = await storage.getOrCreateWorkspace(protectedPath);
+    protectedWorkspaceId = protectedWorkspace.id;
+    await storage.registerWorkerForWorkspace(protectedWorkspace.id, { name: 'owner' });
+    protectedProjectId = (await storage.createProject({ name: 'Protected', workspacePath: protectedPath })).id;
+    await storage.issueApiToken(protectedWorkspace.id, { name: 'admin', role: 'admin' });
+    const { token } = await storage.issueApiToken(protectedWorkspace.id, { name: 'reader', role: 'viewer' });
+    readerId = (await storage.registerExternalWorker(protectedWorkspace.id, { name: 'reader', token })).worker.id;
+
+    const openWorkspace = await storage.getOrCreateWorkspace(openPath);
+    outsiderId = (await storage.registerExternalWorker(openWorkspace.id, { name: 'outsider' })).worker.id;
+  });
+
+  after(() => storage.shutdown());
+
+  const asOutsider = <T>(fn: () => Promise<T>) => storage.actAsWorker(outsiderId, fn);
+
+  it('keeps workers of an open workspace out of one that requires tokens', async () => {
+    await assert.rejects(asOutsider(() => storage.deleteProject(protectedProjectId)), AuthenticationError);
+    await assert.rejects(asOutsider(() => storage.createTodo({ projectId: protectedProjectId, title: 'Intrusion', areas: ['backend'] })), AuthenticationError);
+    await assert.rejects(asOutsider(() => storage.issueApiToken(protectedWorkspaceId, { name: 'mine', role: 'admin' })), AuthenticationError);
+    await assert.rejects(asOutsider(() => storage.importProject({
+      workspacePath: protectedPath,
+      format: 'json',
+      content: exportProject(project([todo('a')]), 'json')
+    })), AuthenticationError);
+
+    assert.ok(await storage.getProject(protectedProjectId));
+  });
+
+  it('lets workers act in their own workspace and in open ones', async () => {
+    const own = await asOutsider(() => storage.createProject({ name: 'Own', workspacePath: openPath }));
+    assert.equal(await asOutsider(() => storage.deleteProject(own.id)), true);
+  });
+
+  it('lets only workers registered with a token read a workspace that requires tokens', async () => {
+    await assert.rejects(asOutsider(() => storage.assertReadAccess(protectedWorkspaceId)), AuthenticationError);
+    await assert.rejects(storage.assertReadAccess(protectedWorkspaceId, null), AuthenticationError);
+    assert.equal(await asOutsider(() => storage.canReadWorkspace(protectedWorkspaceId)), false);
+    assert.equal(await storage.actAsWorker(readerId, () => storage.canReadWorkspace(protectedWorkspaceId)), true);
+
+    const openWorkspace = await storage.getOrCreateWorkspace(openPath);
+    await storage.assertReadAccess(openWorkspace.id, null);
+  });
+});